@@ -92,7 +92,7 @@ contract DarkPoolHookAgentic is BaseHook {
 
     /**
      * @notice The swap intent signed by the user (EIP-712)
-     * @dev Matches the TypeScript EIP712 types in SwapComponent.tsx
+     * @dev Matches the TypeScript EIP712 types in frontend/lib/eip712.ts
      */
     struct SwapIntent {
         address user;           // User's address
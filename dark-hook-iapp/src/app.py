@@ -10,7 +10,8 @@
 This iApp runs inside an Intel SGX enclave via iExec infrastructure.
 It implements an Intent-based flow for Agentic Finance:
 
-1. Receives encrypted signed intents from users
+1. Receives signed intents from users, sealed to the enclave key
+   (intentEnvelope, see intent_envelope.py) or as plaintext intents.json
 2. Validates EIP-712 signatures
 3. Executes batch auction matching
 4. Generates ECDSA signature proving TEE authorization
@@ -29,6 +30,13 @@ from dataclasses import dataclass, asdict, field
 from enum import Enum
 from decimal import Decimal
 
+from intent_envelope import (
+    PROTECTED_DATA_FIELD,
+    EnvelopeError,
+    load_enclave_key,
+    open_intent_envelope,
+)
+
 # ═══════════════════════════════════════════════════════════════════════════════
 #                              CONFIGURATION
 # ═══════════════════════════════════════════════════════════════════════════════
@@ -46,6 +54,11 @@ TEE_PRIVATE_KEY = os.environ.get(
 # TEE Public Address - Derived from private key, registered on-chain
 TEE_SIGNER_ADDRESS = "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf"
 
+# Enclave P-256 key that intent envelopes are sealed to (private scalar, hex).
+# Its public half is the frontend's ENCLAVE_PUBLIC_KEY; without it, sealed
+# intents are skipped and only plaintext intents.json entries are read.
+ENCLAVE_PRIVATE_KEY = os.environ.get("ENCLAVE_PRIVATE_KEY")
+
 # Chain configuration
 CHAIN_ID = 84532  # Base Sepolia
 HOOK_CONTRACT = os.environ.get(
@@ -53,6 +66,11 @@ HOOK_CONTRACT = os.environ.get(
     "0x0000000000000000000000000000000000000000"
 )
 
+# Published batch book (frontend/lib/batchSummary.ts): price grid step in bps
+# of the clearing price, and the fewest orders a published level may hold
+BATCH_LEVEL_BPS = 25
+MIN_LEVEL_ORDERS = 2
+
 # ═══════════════════════════════════════════════════════════════════════════════
 #                              DATA STRUCTURES
 # ═══════════════════════════════════════════════════════════════════════════════
@@ -73,6 +91,7 @@ class SwapIntent:
     nonce: int
     signature: str  # EIP-712 signature from user
     intent_hash: str
+    permit: Optional[Dict[str, Any]] = None  # EIP-2612 / Permit2 signature, passed through to the relayer
 
 
 @dataclass 
@@ -118,6 +137,9 @@ class ExecutionProof:
     
     # MEV savings calculation
     mev_saved: int
+    
+    # Gasless approval for tokenIn, submitted by the relayer before execution
+    permit: Optional[Dict[str, Any]] = None
 
 
 @dataclass
@@ -131,6 +153,7 @@ class BatchResult:
     total_mev_saved: int
     processing_time_ms: int
     enclave_measurement: str
+    batch_summary: Optional[Dict[str, Any]] = None
 
 
 # ═══════════════════════════════════════════════════════════════════════════════
@@ -412,6 +435,69 @@ class BatchAuctionEngine:
                     buy_remaining -= match_amount
         
         return matches
+    
+    def summarize(
+        self,
+        buys: List[SwapIntent],
+        sells: List[SwapIntent],
+        clearing_price: int,
+        total_volume: int
+    ) -> Dict[str, Any]:
+        """
+        Anonymized book of the batch, as GET /batches/:id serves it: limit
+        prices rounded onto a grid around the clearing price (buys down,
+        sells up), per-level totals only, no level under MIN_LEVEL_ORDERS.
+        Same rules as buildBatchSummary in frontend/lib/batchSummary.ts.
+        """
+        step = clearing_price * BATCH_LEVEL_BPS // 10000
+        
+        def levels(orders: List[Tuple[int, int]], side: str) -> List[Dict[str, Any]]:
+            by_price: Dict[int, List[int]] = {}
+            for limit, amount in orders:
+                price = limit
+                if step > 0:
+                    offset = limit - clearing_price
+                    steps = offset // step if side == "buy" else -(-offset // step)
+                    price = clearing_price + steps * step
+                level = by_price.setdefault(price, [0, 0])
+                level[0] += amount
+                level[1] += 1
+            
+            ordered = sorted(by_price.items(), reverse=(side == "buy"))
+            
+            def eligible(price: int) -> bool:
+                if clearing_price <= 0:
+                    return False
+                return price >= clearing_price if side == "buy" else price <= clearing_price
+            
+            merged = []
+            for run in ([l for l in ordered if eligible(l[0])], [l for l in ordered if not eligible(l[0])]):
+                merged.extend(self._merge_thin_levels(run))
+            return [{"price": str(p), "volume": str(v), "orders": n} for p, v, n in merged]
+        
+        return {
+            "clearingPrice": str(clearing_price),
+            "matchedVolume": str(total_volume),
+            "orders": len(buys) + len(sells),
+            "demand": levels([(self._get_max_price(b), b.amount_in) for b in buys], "buy"),
+            "supply": levels([(self._get_min_price(s), s.amount_in) for s in sells], "sell"),
+        }
+    
+    @staticmethod
+    def _merge_thin_levels(run: List[Tuple[int, List[int]]]) -> List[Tuple[int, int, int]]:
+        """Fold levels (best first) into the next worse one until each is deep enough."""
+        merged = []
+        pending = None
+        for price, (volume, orders) in run:
+            pending = (price, pending[1] + volume, pending[2] + orders) if pending else (price, volume, orders)
+            if pending[2] >= MIN_LEVEL_ORDERS:
+                merged.append(pending)
+                pending = None
+        # A thin tail joins the level before it, at the tail's price
+        if merged and pending:
+            last = merged.pop()
+            merged.append((pending[0], last[1] + pending[1], last[2] + pending[2]))
+        return merged
 
 
 # ═══════════════════════════════════════════════════════════════════════════════
@@ -426,6 +512,7 @@ class UniShieldTEE:
     def __init__(self):
         self.crypto = TEECryptoEngine(TEE_PRIVATE_KEY)
         self.auction = BatchAuctionEngine(self.crypto)
+        self.enclave_key = load_enclave_key(ENCLAVE_PRIVATE_KEY) if ENCLAVE_PRIVATE_KEY else None
     
     def load_intents(self, input_path: str) -> List[SwapIntent]:
         """Load and validate intents from encrypted input."""
@@ -438,9 +525,18 @@ class UniShieldTEE:
             print("[TEE] Input not found, using sample data")
             data = self._generate_sample_intents()
         
+        items = list(data.get("intents", []) if isinstance(data, dict) else data)
+        items.extend(self._load_protected_envelopes())
+        
         intents = []
-        for item in data.get("intents", data if isinstance(data, list) else []):
+        for item in items:
             try:
+                # Sealed entries ({"intentEnvelope": {...}}) are opened first
+                if isinstance(item, dict) and PROTECTED_DATA_FIELD in item:
+                    item = self._open_envelope(item[PROTECTED_DATA_FIELD])
+                    if item is None:
+                        continue
+                
                 intent = SwapIntent(
                     user=item["user"],
                     token_in=item["tokenIn"],
@@ -451,7 +547,8 @@ class UniShieldTEE:
                     deadline=int(item.get("deadline", int(time.time()) + 3600)),
                     nonce=int(item.get("nonce", 1)),
                     signature=item.get("signature", "0x" + "0" * 130),
-                    intent_hash=item.get("intentHash", "")
+                    intent_hash=item.get("intentHash", ""),
+                    permit=item.get("permit")
                 )
                 
                 # Compute hash if not provided
@@ -464,12 +561,36 @@ class UniShieldTEE:
                 else:
                     print(f"[TEE] Invalid signature for intent {intent.intent_hash[:10]}")
                     
-            except (KeyError, ValueError) as e:
+            except (KeyError, TypeError, ValueError) as e:
                 print(f"[TEE] Skipping invalid intent: {e}")
         
         print(f"[TEE] Loaded {len(intents)} valid intents")
         return intents
     
+    def _open_envelope(self, envelope: Any) -> Optional[Dict[str, Any]]:
+        """Decrypt one sealed intent; None when it can't be opened here."""
+        if self.enclave_key is None:
+            print("[TEE] Sealed intent skipped: ENCLAVE_PRIVATE_KEY is not set")
+            return None
+        try:
+            return open_intent_envelope(envelope, self.enclave_key)
+        except EnvelopeError as e:
+            print(f"[TEE] Sealed intent rejected: {e}")
+            return None
+    
+    def _load_protected_envelopes(self) -> List[Dict[str, Any]]:
+        """The intentEnvelope field of the protected data, if one was given."""
+        if not os.environ.get("IEXEC_DATASET_FILENAME"):
+            return []
+        from protected_data import getValue
+        
+        try:
+            envelope = json.loads(getValue(PROTECTED_DATA_FIELD, "string"))
+        except Exception as e:
+            print(f"[TEE] Protected data has no readable {PROTECTED_DATA_FIELD}: {e}")
+            return []
+        return [{PROTECTED_DATA_FIELD: envelope}]
+    
     def _generate_sample_intents(self) -> Dict:
         """Generate sample intents for testing."""
         return {
@@ -553,9 +674,20 @@ class UniShieldTEE:
             f"{time.time()}:{len(intents)}:{clearing_price}".encode()
         ).hexdigest()[:16]
         
+        batch_summary = {
+            "batchId": batch_id,
+            "timestamp": int(time.time()),
+            "tokens": {"in": {"symbol": "USDC", "decimals": 6}, "out": {"symbol": "WETH", "decimals": 18}},
+            **self.auction.summarize(buy_intents, sell_intents, clearing_price, total_volume),
+        }
+        
         intent_hashes = [i.intent_hash for i in intents]
         merkle_root = self.crypto.compute_merkle_root(intent_hashes)
         
+        # A permit rides on the first proof that settles its own intent; an
+        # intent filled against several sells must not resubmit a used nonce
+        permits = {i.intent_hash: i.permit for i in intents if i.permit}
+        
         for match in matches:
             # Find original intents
             buy_intent = next((i for i in buy_intents if i.intent_hash == match.buy_intent_hash), None)
@@ -603,7 +735,8 @@ class UniShieldTEE:
                 tee_signature=tee_signature,
                 tee_signer=self.crypto.signer_address,
                 merkle_root=merkle_root,
-                mev_saved=mev_saved
+                mev_saved=mev_saved,
+                permit=permits.pop(buy_intent.intent_hash, None)
             ))
             
             print(f"[TEE] Proof generated for {buy_intent.user[:10]}...")
@@ -618,7 +751,8 @@ class UniShieldTEE:
             execution_proofs=execution_proofs,
             total_mev_saved=total_mev_saved,
             processing_time_ms=processing_time,
-            enclave_measurement=self.crypto.get_enclave_measurement()
+            enclave_measurement=self.crypto.get_enclave_measurement(),
+            batch_summary=batch_summary
         )
     
     def save_output(self, result: BatchResult, output_path: str):
@@ -646,10 +780,12 @@ class UniShieldTEE:
                     "teeSignature": p.tee_signature,
                     "teeSigner": p.tee_signer,
                     "merkleRoot": p.merkle_root,
-                    "mevSaved": str(p.mev_saved)
+                    "mevSaved": str(p.mev_saved),
+                    **({"permit": p.permit} if p.permit else {})
                 }
                 for p in result.execution_proofs
             ],
+            **({"batchSummary": result.batch_summary} if result.batch_summary else {}),
             "metadata": {
                 "version": "2.0.0",
                 "app": "UniShield Agentic Finance TEE",
@@ -0,0 +1,115 @@
+"""
+╔═══════════════════════════════════════════════════════════════════════════════╗
+║  UniShield: Intent Envelope Opener                                            ║
+║  ─────────────────────────────────────────────────────────────────────────    ║
+║  Decrypts intents sealed by frontend/lib/intentCrypto.ts (envelope v1)        ║
+╚═══════════════════════════════════════════════════════════════════════════════╝
+
+ECIES, the mirror of sealIntent:
+  1. ECDH(enclave private, ephemeral public epk) → shared secret (x coordinate)
+  2. HKDF-SHA256(secret, salt = epk, info = ENVELOPE_INFO) → AES-256-GCM key
+  3. Decrypt ct (ciphertext || tag) with the header as AAD
+  4. The decrypted intent must carry the intentHash the envelope is bound to
+
+The AAD is the compact JSON array [v, alg, kid, epk, ref], byte for byte what
+JSON.stringify produces on the frontend.
+"""
+
+import base64
+import hashlib
+import json
+import re
+from typing import Any, Dict
+
+ENVELOPE_VERSION = 1
+ENVELOPE_ALG = "ECDH-P256+HKDF-SHA256+A256GCM"
+ENVELOPE_INFO = b"UniShield intent envelope v1"
+PROTECTED_DATA_FIELD = "intentEnvelope"
+
+_INTENT_HASH = re.compile(r"^0x[0-9a-fA-F]{64}$")
+
+
+class EnvelopeError(Exception):
+    """Envelope is malformed, sealed for another key, or was tampered with."""
+
+
+def load_enclave_key(private_key_hex: str):
+    """P-256 private scalar (0x-prefixed hex) → private key."""
+    from cryptography.hazmat.primitives.asymmetric import ec
+
+    try:
+        scalar = int(private_key_hex, 16)
+    except ValueError:
+        raise EnvelopeError("Enclave key must be a hex P-256 scalar")
+    return ec.derive_private_key(scalar, ec.SECP256R1())
+
+
+def enclave_key_id(private_key) -> str:
+    """First 8 bytes of sha256(uncompressed public key), as enclaveKeyId does."""
+    from cryptography.hazmat.primitives.serialization import Encoding, PublicFormat
+
+    public = private_key.public_key().public_bytes(Encoding.X962, PublicFormat.UncompressedPoint)
+    return "0x" + hashlib.sha256(public).hexdigest()[:16]
+
+
+def parse_intent_envelope(data: Any) -> Dict[str, Any]:
+    """Check the header fields; same rules and messages as parseIntentEnvelope."""
+    if not isinstance(data, dict):
+        raise EnvelopeError("Envelope must be an object")
+    version = data.get("v")
+    if type(version) is not int or version != ENVELOPE_VERSION:
+        raise EnvelopeError(f"Unsupported envelope version: {version}")
+    if data.get("alg") != ENVELOPE_ALG:
+        raise EnvelopeError(f"Unsupported envelope algorithm: {data.get('alg')}")
+    for name in ("kid", "epk", "ref", "iv", "ct"):
+        if not isinstance(data.get(name), str) or not data[name]:
+            raise EnvelopeError(f"Envelope field missing: {name}")
+    if not _INTENT_HASH.match(data["ref"]):
+        raise EnvelopeError("Envelope ref must be an intentHash")
+    return {**data, "ref": data["ref"].lower()}
+
+
+def open_intent_envelope(data: Any, private_key) -> Dict[str, Any]:
+    """
+    Decrypt an envelope to the serialized signed intent it seals (the
+    intents.json entry shape). Raises EnvelopeError on any mismatch.
+    """
+    from cryptography.exceptions import InvalidTag
+    from cryptography.hazmat.primitives import hashes
+    from cryptography.hazmat.primitives.asymmetric import ec
+    from cryptography.hazmat.primitives.ciphers.aead import AESGCM
+    from cryptography.hazmat.primitives.kdf.hkdf import HKDF
+
+    envelope = parse_intent_envelope(data)
+    if envelope["kid"] != enclave_key_id(private_key):
+        raise EnvelopeError(f"Envelope sealed for another enclave key ({envelope['kid']})")
+
+    try:
+        epk = base64.b64decode(envelope["epk"], validate=True)
+        iv = base64.b64decode(envelope["iv"], validate=True)
+        ct = base64.b64decode(envelope["ct"], validate=True)
+        sender = ec.EllipticCurvePublicKey.from_encoded_point(ec.SECP256R1(), epk)
+    except ValueError:
+        raise EnvelopeError("Envelope failed authentication")
+
+    secret = private_key.exchange(ec.ECDH(), sender)
+    key = HKDF(algorithm=hashes.SHA256(), length=32, salt=epk, info=ENVELOPE_INFO).derive(secret)
+    aad = json.dumps(
+        [envelope["v"], envelope["alg"], envelope["kid"], envelope["epk"], envelope["ref"]],
+        separators=(",", ":"),
+    ).encode()
+
+    try:
+        plaintext = AESGCM(key).decrypt(iv, ct, aad)
+    except (InvalidTag, ValueError):
+        raise EnvelopeError("Envelope failed authentication")
+
+    try:
+        intent = json.loads(plaintext.decode("utf-8"))
+    except ValueError:
+        raise EnvelopeError("Envelope contents are not valid JSON")
+    if not isinstance(intent, dict):
+        raise EnvelopeError("Envelope contents must be an object")
+    if str(intent.get("intentHash", "")).lower() != envelope["ref"]:
+        raise EnvelopeError("Envelope contents do not match its intentHash")
+    return intent
@@ -0,0 +1,267 @@
+"use client";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  UniShield: Protocol Analytics                                                ║
+ * ║  Batch volume, clearing prices, MEV saved and failures from hook events       ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ZeroAddress } from "ethers";
+import { formatAmount } from "@/lib/amount";
+import { CONFIG } from "@/lib/config";
+import { NETWORK } from "@/lib/networks";
+import { HookEventIndexer, openEventIndexStore, type HookEvent, type SyncProgress } from "@/lib/eventIndexer";
+import { FIXTURE_HOOK_ADDRESS, FIXTURE_START_BLOCK } from "@/lib/fixtures/hookLogs";
+import { clearingPriceSeries, failureReasons, protocolTotals, volumeByBatch } from "@/lib/protocolAnalytics";
+import { HttpRpcTransport, JsonRpcClient } from "@/lib/rpc";
+import { RecordedLogsRpc } from "@/lib/standInRpc";
+
+// No hook deployed: index the recorded fixture logs instead
+const usingRecordedLogs = NETWORK.contracts.hook === ZeroAddress;
+const indexer = new HookEventIndexer(
+  new JsonRpcClient(usingRecordedLogs ? new RecordedLogsRpc() : new HttpRpcTransport(NETWORK.rpcUrls[0])),
+  openEventIndexStore(),
+  NETWORK.chainId,
+  usingRecordedLogs
+    ? { hookAddress: FIXTURE_HOOK_ADDRESS, startBlock: FIXTURE_START_BLOCK }
+    : { hookAddress: NETWORK.contracts.hook, startBlock: CONFIG.INDEXER_START_BLOCK }
+);
+
+// Amounts in PrivateOrderExecuted are read as USDC, like relayer.js does
+const AMOUNT_DECIMALS = 6;
+
+const formatUsd = (value: bigint) => `$${formatAmount(value, AMOUNT_DECIMALS, { maxFractionDigits: 2 })}`;
+
+const formatTime = (timestamp?: number) => (timestamp === undefined ? "—" : new Date(timestamp * 1000).toLocaleString());
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              COMPONENTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const Panel = ({ title, aside, children }: { title: string; aside?: string; children: React.ReactNode }) => (
+  <div className="p-4 bg-zinc-900/50 border border-zinc-800 rounded-2xl">
+    <div className="flex items-center justify-between mb-3">
+      <span className="text-xs text-zinc-500 uppercase tracking-wider">{title}</span>
+      {aside && <span className="text-xs text-zinc-400 font-mono">{aside}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+const Empty = ({ children }: { children: React.ReactNode }) => (
+  <div className="h-40 flex items-center justify-center text-sm text-zinc-600">{children}</div>
+);
+
+const BatchVolumeChart = ({ events }: { events: HookEvent[] }) => {
+  const batches = volumeByBatch(events);
+  if (batches.length === 0) return <Empty>No executed batches indexed</Empty>;
+
+  const width = 600;
+  const height = 160;
+  const max = batches.reduce((m, batch) => (batch.amountIn > m ? batch.amountIn : m), BigInt(1));
+  const slot = width / batches.length;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none">
+      {batches.map((batch, i) => {
+        const barHeight = Number((batch.amountIn * BigInt(height - 8)) / max);
+        return (
+          <rect
+            key={batch.batchId}
+            x={i * slot + slot * 0.15}
+            y={height - barHeight}
+            width={slot * 0.7}
+            height={barHeight}
+            rx={3}
+            className="fill-purple-500/60 hover:fill-purple-400"
+          >
+            <title>
+              {`Batch ${batch.batchId.slice(0, 10)}… • ${batch.orders} orders • ${formatUsd(batch.amountIn)} • ${formatTime(batch.timestamp)}`}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+const ClearingPriceChart = ({ events }: { events: HookEvent[] }) => {
+  const points = clearingPriceSeries(events);
+  if (points.length === 0) return <Empty>No fills indexed</Empty>;
+
+  const width = 600;
+  const height = 160;
+  const prices = points.map((point) => point.clearingPrice);
+  const min = prices.reduce((m, p) => (p < m ? p : m));
+  const max = prices.reduce((m, p) => (p > m ? p : m));
+  const range = max > min ? max - min : BigInt(1);
+  const first = points[0].blockNumber;
+  const span = Math.max(points[points.length - 1].blockNumber - first, 1);
+  const x = (blockNumber: number) => (points.length === 1 ? width / 2 : ((blockNumber - first) / span) * width);
+  const y = (price: bigint) => height - 8 - Number(((price - min) * BigInt(height - 16)) / range);
+  const path = points.map((point, i) => `${i === 0 ? "M" : "L"} ${x(point.blockNumber)} ${y(point.clearingPrice)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none">
+      <path d={path} className="stroke-cyan-400 fill-none" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      {points.map((point) => (
+        <circle key={`${point.blockNumber}:${point.batchId}`} cx={x(point.blockNumber)} cy={y(point.clearingPrice)} r={3} className="fill-cyan-300">
+          <title>
+            {`${formatAmount(point.clearingPrice, 18, { maxFractionDigits: 6 })} • block ${point.blockNumber} • ${formatTime(point.timestamp)}`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const FailureReasons = ({ events }: { events: HookEvent[] }) => {
+  const reasons = failureReasons(events);
+  if (reasons.length === 0) return <Empty>No ExecutionFailed events indexed</Empty>;
+
+  const max = reasons[0].count;
+  return (
+    <div className="space-y-2">
+      {reasons.map(({ reason, count }) => (
+        <div key={reason} className="text-sm">
+          <div className="flex justify-between text-zinc-300 mb-1">
+            <span>{reason}</span>
+            <span className="font-mono text-zinc-500">{count}</span>
+          </div>
+          <div className="h-2 rounded-full bg-zinc-800">
+            <div className="h-2 rounded-full bg-red-500/70" style={{ width: `${(count / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PAGE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export default function AnalyticsPage() {
+  const [events, setEvents] = useState<HookEvent[]>([]);
+  const [cursor, setCursor] = useState<number>();
+  const [head, setHead] = useState<number>();
+  const [progress, setProgress] = useState<SyncProgress>();
+  const [syncing, setSyncing] = useState(false);
+  const [notice, setNotice] = useState<string>();
+  const [error, setError] = useState<string>();
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    setError(undefined);
+    try {
+      const result = await indexer.sync(async (p) => {
+        setProgress(p);
+        const index = await indexer.load();
+        setEvents(index.events);
+        setCursor(index.cursor);
+      });
+      const index = await indexer.load();
+      setEvents(index.events);
+      setCursor(index.cursor);
+      setHead(result.head);
+      setNotice(
+        result.reorgedFrom !== undefined
+          ? `Reorg detected: dropped ${result.rolledBack} events and re-read from block ${result.reorgedFrom}`
+          : undefined
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unknown error");
+    } finally {
+      setSyncing(false);
+      setProgress(undefined);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Show what's stored before the first sync finishes
+    indexer.load().then((index) => {
+      setEvents(index.events);
+      setCursor(index.cursor);
+    });
+    sync();
+  }, [sync]);
+
+  const totals = useMemo(() => protocolTotals(events), [events]);
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-white p-4 md:p-8">
+      <div className="max-w-6xl mx-auto relative">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold">
+              <span className="text-purple-400">Protocol</span> <span className="text-white">Analytics</span>
+            </h1>
+            <p className="text-zinc-500 text-sm font-mono">
+              {usingRecordedLogs ? "Recorded fixture logs" : NETWORK.contracts.hook} • {NETWORK.name}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="px-3 py-1 bg-zinc-900/80 border border-zinc-800 rounded-lg text-xs font-mono text-zinc-400">
+              {progress
+                ? `Indexing ${progress.cursor} / ${progress.target}`
+                : cursor !== undefined && head !== undefined
+                ? `Block ${cursor} • head ${head}`
+                : "Not synced"}
+            </div>
+            <button
+              onClick={sync}
+              disabled={syncing}
+              className="px-3 py-1 rounded-lg text-xs font-mono border border-zinc-800 text-zinc-300 hover:border-cyan-500 disabled:opacity-50"
+            >
+              {syncing ? "Syncing…" : "Sync"}
+            </button>
+            <a href="/" className="text-xs text-zinc-500 hover:text-cyan-400">
+              ← Swap
+            </a>
+          </div>
+        </motion.div>
+
+        {error && (
+          <div className="mb-4 px-4 py-2 rounded-xl border border-red-500/50 bg-red-500/10 text-sm text-red-300">
+            Indexing stopped: {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mb-4 px-4 py-2 rounded-xl border border-yellow-500/50 bg-yellow-500/10 text-sm text-yellow-300">
+            {notice}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {[
+            { label: "Orders executed", value: totals.orders.toString(), detail: `${totals.batches} batches • ${totals.traders} traders` },
+            { label: "Volume in", value: formatUsd(totals.volumeIn) },
+            { label: "MEV saved", value: formatUsd(totals.mevSaved), accent: "text-green-400" },
+            { label: "Failed executions", value: totals.failures.toString(), accent: totals.failures > 0 ? "text-red-400" : "text-white" },
+          ].map(({ label, value, detail, accent }) => (
+            <div key={label} className="p-4 bg-zinc-900/50 border border-zinc-800 rounded-2xl">
+              <span className="text-xs text-zinc-500 uppercase tracking-wider">{label}</span>
+              <div className={`mt-1 text-2xl font-mono ${accent ?? "text-white"}`}>{value}</div>
+              {detail && <div className="mt-1 text-xs text-zinc-500 font-mono">{detail}</div>}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Panel title="Volume per batch" aside="amountIn">
+            <BatchVolumeChart events={events} />
+          </Panel>
+          <Panel title="Clearing price" aside="per fill">
+            <ClearingPriceChart events={events} />
+          </Panel>
+          <Panel title="Failure reasons" aside={`${totals.failures} total`}>
+            <FailureReasons events={events} />
+          </Panel>
+        </div>
+      </div>
+    </div>
+  );
+}
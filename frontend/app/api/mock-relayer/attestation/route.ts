@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getMockRelayer } from "@/lib/mockRelayer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(getMockRelayer().attestation());
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { serializeBatchSummary } from "@/lib/batchSummary";
+import { getMockRelayer } from "@/lib/mockRelayer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: { params: { batchId: string } }) {
+  const intentHash = new URL(request.url).searchParams.get("intentHash") ?? undefined;
+  const summary = getMockRelayer().batch(params.batchId, intentHash);
+  if (!summary) {
+    return NextResponse.json({ error: "Unknown batch" }, { status: 404 });
+  }
+  return NextResponse.json(serializeBatchSummary(summary));
+}
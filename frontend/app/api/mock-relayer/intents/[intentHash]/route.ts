@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getMockRelayer } from "@/lib/mockRelayer";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, { params }: { params: { intentHash: string } }) {
+  const update = getMockRelayer().status(params.intentHash);
+  if (!update) {
+    return NextResponse.json({ error: "Unknown intent" }, { status: 404 });
+  }
+  return NextResponse.json(update);
+}
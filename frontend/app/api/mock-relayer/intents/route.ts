@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getMockRelayer, MockRelayerError } from "@/lib/mockRelayer";
+
+export async function POST(request: Request) {
+  try {
+    const update = await getMockRelayer().submit(await request.json());
+    return NextResponse.json(update, { status: 201 });
+  } catch (error) {
+    if (error instanceof MockRelayerError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json({ error: "Malformed request body" }, { status: 400 });
+  }
+}
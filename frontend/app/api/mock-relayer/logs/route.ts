@@ -0,0 +1,62 @@
+import { getMockRelayer } from "@/lib/mockRelayer";
+import { matchesIntent, type RelayerLogEvent } from "@/lib/relayerLogs";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Same SSE protocol as the relayer's /logs endpoint
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const intentHash = url.searchParams.get("intentHash") || undefined;
+  const resumeFrom = request.headers.get("last-event-id") ?? url.searchParams.get("since");
+  const logs = getMockRelayer().logs;
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (frame: string) => controller.enqueue(encoder.encode(frame));
+      const send = (event: RelayerLogEvent) => write(`id: ${event.seq}\nevent: log\ndata: ${JSON.stringify(event)}\n\n`);
+
+      write(`event: ready\ndata: ${JSON.stringify({ latestSeq: logs.latestSeq })}\n\n`);
+
+      if (resumeFrom !== null && /^\d+$/.test(resumeFrom)) {
+        const { events, gap } = logs.replay(Number(resumeFrom), intentHash);
+        if (gap) write(`event: gap\ndata: ${JSON.stringify(gap)}\n\n`);
+        events.forEach(send);
+      }
+
+      const unsubscribe = logs.subscribe((event) => {
+        if (matchesIntent(event, intentHash)) send(event);
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch (e) {
+          // Already cancelled by the reader
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getMockRelayer } from "@/lib/mockRelayer";
+import { serializeRelayerStats } from "@/lib/relayerStats";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(serializeRelayerStats(getMockRelayer().stats()));
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import { NetworkGate } from "@/components/NetworkGate";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -14,7 +15,7 @@ export default function RootLayout({
   return (
     <html lang="en" className="dark">
       <body className={`antialiased`}>
-        {children}
+        <NetworkGate>{children}</NetworkGate>
       </body>
     </html>
   );
@@ -9,134 +9,177 @@
 
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { amountPlaceholder, formatAmount, hasGrouping, toInputString, validateAmount } from "@/lib/amount";
+import { CONFIG } from "@/lib/config";
+import { checkNetwork, NETWORK, NETWORK_IDS, NETWORKS, switchNetwork, usesStandInHook, type NetworkCheck, type NetworkId } from "@/lib/networks";
+import { getAvailableConnectors, isChainMismatch, type WalletConnector } from "@/lib/connectors";
+import { buildIntentDomain } from "@/lib/eip712";
+import { reviewOrder, type IntentReview } from "@/lib/intentReview";
+import { encodeNonceBump, HookReader } from "@/lib/hook";
+import {
+  computeDeadline,
+  DEFAULT_SETTINGS,
+  formatCountdown,
+  loadSettings,
+  resolveMinAmountOut,
+  saveSettings,
+  secondsUntil,
+  validateProtection,
+  type IntentSettings,
+} from "@/lib/intentSettings";
+import { computeIntentHash } from "@/lib/intentHash";
+import { enclaveKeyId, sealIntent } from "@/lib/intentCrypto";
+import { attestEnclave, type AttestationState, type AttestationVerification } from "@/lib/attestation";
+import { fetchBatchSummary, type BatchSummary } from "@/lib/batchSummary";
+import { IntentHistory, type IntentRecord } from "@/lib/intentHistory";
+import {
+  isPending,
+  listInFlight,
+  removeInFlight,
+  upsertInFlight,
+  type InFlightIntent,
+  type InFlightMap,
+  type InFlightPatch,
+} from "@/lib/inFlightIntents";
+import { NonceManager } from "@/lib/nonces";
+import {
+  buildOrderPlan,
+  DEFAULT_ORDER_TERMS,
+  limitMinAmountOut,
+  MEV_MEDIUM_THRESHOLD_USD,
+  OrderError,
+  orderRef,
+  planProgress,
+  suggestedSlices,
+  validateOrderTerms,
+  type OrderPlan,
+  type OrderTerms,
+} from "@/lib/orderPlans";
+import { resolveApprovalRoute, signPermit, TokenReader } from "@/lib/permits";
+import { verifyProofOnHook } from "@/lib/proof";
+import {
+  CANCELLABLE_STAGES,
+  clearingPriceToDisplay,
+  deserializeSignedIntent,
+  HttpPipelineClient,
+  TERMINAL_STAGES,
+  type PipelineUpdate,
+} from "@/lib/pipeline";
+import { findUsdReference, StaticQuoteProvider, UniswapV4QuoteProvider, unitPrice, usdValue, type QuoteProvider } from "@/lib/quotes";
+import { HttpRpcTransport, JsonRpcClient } from "@/lib/rpc";
+import { StandInHookRpc, StandInTokenRpc } from "@/lib/standInRpc";
+import { TokenRegistry } from "@/lib/tokens";
+import {
+  formatLogTime,
+  gapToLogEntry,
+  intentTag,
+  matchesIntent,
+  RelayerLogStream,
+  toLogEntry,
+  type LogStreamState,
+} from "@/lib/relayerLogs";
+import {
+  classifyPipelineError,
+  explainFailure,
+  failureFromUpdate,
+  PipelineError,
+  RECOVERY_LABELS,
+  recoveryFor,
+} from "@/lib/pipelineErrors";
+import type {
+  LogEntry,
+  MatchResult,
+  PipelineFailure,
+  PipelineStage,
+  RecoveryAction,
+  RelayerStatus,
+  SignedIntent,
+  SwapIntent,
+  Token,
+  TokenPermit,
+} from "@/lib/types";
+import { useQuote } from "@/lib/useQuote";
+import { FIXTURE_USD_PRICES } from "@/lib/fixtures/prices";
+import { BatchAuctionView } from "@/components/BatchAuctionView";
+import { ConnectWalletModal } from "@/components/ConnectWalletModal";
+import { IntentReviewModal } from "@/components/IntentReviewModal";
+import { InclusionProofView } from "@/components/InclusionProofView";
+import { IntentHistoryPanel } from "@/components/IntentHistoryPanel";
+import { IntentSettingsPanel } from "@/components/IntentSettingsPanel";
+import { OrderPlanProgress } from "@/components/OrderPlanProgress";
+import { OrderTypeSelector } from "@/components/OrderTypeSelector";
+import { TokenSelector } from "@/components/TokenSelector";
 
 // ═══════════════════════════════════════════════════════════════════════════════
-//                              TYPES
+//                              CHAIN CLIENTS
 // ═══════════════════════════════════════════════════════════════════════════════
 
-interface Token {
-  symbol: string;
-  name: string;
-  icon: string;
-  address: string;
-  decimals: number;
-  balance: string;
-}
-
-interface SwapIntent {
-  user: string;
-  tokenIn: string;
-  tokenOut: string;
-  amountIn: bigint;
-  minAmountOut: bigint;
-  maxSlippage: bigint;
-  deadline: bigint;
-  nonce: bigint;
-}
-
-interface SignedIntent {
-  intent: SwapIntent;
-  signature: string;
-  intentHash: string;
-}
-
-interface RelayerStatus {
-  stage: "idle" | "signed" | "submitted" | "matching" | "executing" | "complete" | "error";
-  message: string;
-  txHash?: string;
-  matchResult?: {
-    clearingPrice: string;
-    amountOut: string;
-    mevSaved: string;
-  };
-}
+const chainClient = new JsonRpcClient(new HttpRpcTransport(NETWORK.rpcUrls[0]));
+const tokenRegistry = new TokenRegistry(chainClient);
 
-interface LogEntry {
-  id: number;
-  timestamp: string;
-  message: string;
-  type: "info" | "success" | "warning" | "error" | "system" | "agent";
-}
+// No hook deployed yet: answer hook reads from the in-memory stand-in
+const usingStandInRpc = usesStandInHook(NETWORK);
+const hookClient = usingStandInRpc ? new JsonRpcClient(new StandInHookRpc()) : chainClient;
+const hookReader = new HookReader(hookClient);
+const nonceManager = new NonceManager(hookReader);
+// Allowances are for the hook, so the stand-in hook gets stand-in tokens
+const tokenReader = new TokenReader(usingStandInRpc ? new JsonRpcClient(new StandInTokenRpc()) : chainClient);
 
-// ═══════════════════════════════════════════════════════════════════════════════
-//                              CONSTANTS
-// ═══════════════════════════════════════════════════════════════════════════════
-
-const TOKENS: Token[] = [
-  {
-    symbol: "ETH",
-    name: "Ethereum",
-    icon: "⟠",
-    address: "0x4200000000000000000000000000000000000006",
-    decimals: 18,
-    balance: "12.4521",
-  },
-  {
-    symbol: "USDC",
-    name: "USD Coin",
-    icon: "◈",
-    address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-    decimals: 6,
-    balance: "25,420.00",
-  },
-  {
-    symbol: "WBTC",
-    name: "Wrapped Bitcoin",
-    icon: "₿",
-    address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599",
-    decimals: 8,
-    balance: "0.8923",
-  },
-];
+// Without a deployed hook there is no pool to quote, fall back to fixture prices
+const quoteProvider: QuoteProvider = usingStandInRpc
+  ? new StaticQuoteProvider(FIXTURE_USD_PRICES)
+  : new UniswapV4QuoteProvider(chainClient);
 
-// ═══════════════════════════════════════════════════════════════════════════════
-//                              MOCK WALLET
-// ═══════════════════════════════════════════════════════════════════════════════
+const pipelineClient = new HttpPipelineClient();
+const relayerLogStream = new RelayerLogStream();
+const intentHistory = new IntentHistory();
 
-class MockWallet {
-  address: string = "0x742d35Cc6634C0532925a3b844Bc9e7595f8fE21";
-  private nonceCounter: number = 1;
-
-  async connect(): Promise<string> {
-    await new Promise((r) => setTimeout(r, 500));
-    return this.address;
-  }
-
-  async getNonce(): Promise<bigint> {
-    return BigInt(this.nonceCounter++);
-  }
-
-  async signTypedData(intent: SwapIntent): Promise<string> {
-    console.log("📝 Signing EIP-712 Intent:", intent);
-    await new Promise((r) => setTimeout(r, 1500));
-    const mockR = "0x" + Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join("");
-    const mockS = Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join("");
-    return mockR + mockS + "1b";
-  }
-
-  async computeIntentHash(intent: SwapIntent): Promise<string> {
-    const data = JSON.stringify({
-      ...intent,
-      amountIn: intent.amountIn.toString(),
-      minAmountOut: intent.minAmountOut.toString(),
-      maxSlippage: intent.maxSlippage.toString(),
-      deadline: intent.deadline.toString(),
-      nonce: intent.nonce.toString(),
-    });
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", dataBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return "0x" + hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-  }
+/**
+ * An order laid out and waiting on the review screen; its nonces are reserved
+ */
+interface PendingOrder {
+  plan: OrderPlan;
+  intents: SwapIntent[];
+  review: IntentReview;
+  amountIn: bigint;
+  tokens: InFlightIntent["tokens"];
 }
 
-const mockWallet = new MockWallet();
-
 // ═══════════════════════════════════════════════════════════════════════════════
 //                              COMPONENTS
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/**
+ * Switching reloads the page, so it's locked while intents are in flight
+ */
+const NetworkSelector = ({ disabled, failures }: { disabled: boolean; failures: NetworkCheck[] }) => (
+  <div className="mt-2 flex flex-col items-center gap-2">
+    <div className="inline-flex items-center gap-2 text-xs font-mono text-zinc-500">
+      <span>Network</span>
+      <select
+        value={NETWORK.id}
+        onChange={(e) => switchNetwork(e.target.value as NetworkId)}
+        disabled={disabled}
+        className="bg-zinc-900/80 border border-zinc-800 rounded-lg px-2 py-1 text-zinc-300 focus:outline-none focus:border-cyan-500 disabled:opacity-50"
+      >
+        {NETWORK_IDS.map((id) => (
+          <option key={id} value={id}>
+            {NETWORKS[id].name}
+          </option>
+        ))}
+      </select>
+      {usingStandInRpc && <span className="text-yellow-400/80">stand-in hook</span>}
+    </div>
+    {failures.length > 0 && (
+      <div className="px-4 py-2 rounded-xl border border-red-500/50 bg-red-500/10 text-xs text-red-300 text-left">
+        {failures.map((check) => (
+          <div key={check.id}>⚠ {check.detail}</div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
 const GlowOrbs = ({ active }: { active: boolean }) => (
   <>
     <motion.div
@@ -160,72 +203,33 @@ const GlowOrbs = ({ active }: { active: boolean }) => (
   </>
 );
 
-const TokenSelector = ({
-  selected,
-  onSelect,
-  label,
-  disabled,
-}: {
-  selected: Token;
-  onSelect: (token: Token) => void;
-  label: string;
-  disabled?: boolean;
-}) => {
-  const [isOpen, setIsOpen] = useState(false);
+// Console tag colours, picked from the intentHash so a tag keeps its colour
+const TAG_COLORS = ["text-sky-400", "text-fuchsia-400", "text-amber-400", "text-emerald-400", "text-rose-400", "text-indigo-400"];
 
-  return (
-    <div className="relative">
-      <span className="text-xs text-zinc-500 uppercase tracking-wider mb-1 block">{label}</span>
-      <motion.button
-        onClick={() => !disabled && setIsOpen(!isOpen)}
-        disabled={disabled}
-        className="flex items-center gap-2 px-3 py-2 bg-zinc-900/80 rounded-lg border border-zinc-800 hover:border-zinc-700 transition-colors min-w-[130px] disabled:opacity-50"
-        whileTap={!disabled ? { scale: 0.98 } : {}}
-      >
-        <span className="text-xl">{selected.icon}</span>
-        <span className="font-medium text-white">{selected.symbol}</span>
-        <motion.span animate={{ rotate: isOpen ? 180 : 0 }} className="text-zinc-500 ml-auto">
-          ▾
-        </motion.span>
-      </motion.button>
-
-      <AnimatePresence>
-        {isOpen && (
-          <motion.div
-            initial={{ opacity: 0, y: -10, scale: 0.95 }}
-            animate={{ opacity: 1, y: 0, scale: 1 }}
-            exit={{ opacity: 0, y: -10, scale: 0.95 }}
-            className="absolute top-full left-0 mt-2 w-full bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden z-50 shadow-xl"
-          >
-            {TOKENS.filter((t) => t.symbol !== selected.symbol).map((token) => (
-              <motion.button
-                key={token.symbol}
-                onClick={() => {
-                  onSelect(token);
-                  setIsOpen(false);
-                }}
-                className="flex items-center gap-2 w-full px-3 py-2 hover:bg-zinc-800 transition-colors"
-                whileHover={{ x: 4 }}
-              >
-                <span className="text-xl">{token.icon}</span>
-                <span className="font-medium text-white">{token.symbol}</span>
-              </motion.button>
-            ))}
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </div>
-  );
-};
+const tagColor = (intentHash: string) => TAG_COLORS[parseInt(intentHash.slice(2, 4), 16) % TAG_COLORS.length];
 
-const RelayerConsole = ({ logs, isActive }: { logs: LogEntry[]; isActive: boolean }) => {
+const RelayerConsole = ({
+  logs,
+  isActive,
+  streamState,
+  intentHash,
+}: {
+  logs: LogEntry[];
+  isActive: boolean;
+  streamState: LogStreamState;
+  intentHash?: string;
+}) => {
   const consoleRef = useRef<HTMLDivElement>(null);
+  const [intentOnly, setIntentOnly] = useState(false);
+
+  // Gap markers stay visible under the filter so missing lines are never silent
+  const visibleLogs = intentOnly && intentHash ? logs.filter((log) => log.gap || matchesIntent(log, intentHash)) : logs;
 
   useEffect(() => {
     if (consoleRef.current) {
       consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
     }
-  }, [logs]);
+  }, [visibleLogs.length]);
 
   const getLogColor = (type: LogEntry["type"]) => {
     switch (type) {
@@ -275,25 +279,56 @@ const RelayerConsole = ({ logs, isActive }: { logs: LogEntry[]; isActive: boolea
           <span className="text-xs font-mono text-zinc-500">RELAYER_AGENT</span>
           <span className="text-xs font-mono text-cyan-500/60">// Agentic Finance</span>
         </div>
+        <div className="ml-auto flex items-center gap-3">
+          {intentHash && (
+            <button
+              onClick={() => setIntentOnly(!intentOnly)}
+              className={`text-[10px] font-mono px-2 py-0.5 rounded border transition-colors ${
+                intentOnly ? "border-cyan-500/60 text-cyan-400" : "border-zinc-700 text-zinc-500 hover:border-zinc-600"
+              }`}
+              title={intentHash}
+            >
+              {intentOnly ? `INTENT ${intentHash.slice(0, 8)}` : "ALL"}
+            </button>
+          )}
+          <span
+            className={`text-[10px] font-mono ${
+              streamState === "open" ? "text-green-500" : streamState === "closed" ? "text-zinc-600" : "text-yellow-500"
+            }`}
+          >
+            {streamState === "open" ? "● LIVE" : streamState === "closed" ? "○ OFFLINE" : "◌ " + streamState.toUpperCase()}
+          </span>
+        </div>
       </div>
 
       <div
         ref={consoleRef}
         className="bg-[#0a0a0a] border border-zinc-800 border-t-0 rounded-b-2xl p-4 h-72 overflow-y-auto font-mono text-sm"
       >
-        {logs.map((log) => (
-          <motion.div
-            key={log.id}
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            className="flex gap-2 mb-1"
-          >
-            <span className="text-zinc-600 select-none">{log.timestamp}</span>
-            <span className="text-zinc-700 select-none">│</span>
-            <span className={getLogColor(log.type)}>{getPrefix(log.type)}</span>
-            <span className={getLogColor(log.type)}>{log.message}</span>
-          </motion.div>
-        ))}
+        {visibleLogs.map((log) =>
+          log.gap ? (
+            <div key={log.id} className="flex items-center gap-2 my-2 text-xs text-yellow-500/80">
+              <span className="flex-1 border-t border-dashed border-yellow-500/40" />
+              <span>
+                {log.timestamp} · {log.message}
+              </span>
+              <span className="flex-1 border-t border-dashed border-yellow-500/40" />
+            </div>
+          ) : (
+            <motion.div
+              key={log.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              className="flex gap-2 mb-1"
+            >
+              <span className="text-zinc-600 select-none">{log.timestamp}</span>
+              <span className="text-zinc-700 select-none">│</span>
+              <span className={getLogColor(log.type)}>{getPrefix(log.type)}</span>
+              {log.intentHash && <span className={`${tagColor(log.intentHash)} select-none`}>{intentTag(log.intentHash)}</span>}
+              <span className={getLogColor(log.type)}>{log.message}</span>
+            </motion.div>
+          )
+        )}
         {isActive && (
           <motion.span
             className="inline-block w-2 h-4 bg-cyan-500 ml-1"
@@ -306,7 +341,26 @@ const RelayerConsole = ({ logs, isActive }: { logs: LogEntry[]; isActive: boolea
   );
 };
 
-const StatusPipeline = ({ status }: { status: RelayerStatus }) => {
+const IDLE_STATUS: RelayerStatus = { stage: "idle", message: "" };
+
+const ATTESTATION_CAPTIONS: Record<AttestationState, string> = {
+  unverified: "",
+  verifying: "attesting…",
+  verified: "attested",
+  failed: "untrusted",
+};
+
+const StatusPipeline = ({
+  status,
+  attestation = "unverified",
+  attestationDetail,
+  compact = false,
+}: {
+  status: RelayerStatus;
+  attestation?: AttestationState;
+  attestationDetail?: string;
+  compact?: boolean;
+}) => {
   const stages = [
     { key: "signed", label: "SIGN", icon: "✍️" },
     { key: "submitted", label: "TEE", icon: "🔐" },
@@ -315,8 +369,29 @@ const StatusPipeline = ({ status }: { status: RelayerStatus }) => {
     { key: "complete", label: "DONE", icon: "✓" },
   ];
 
-  const getStageStatus = (stageKey: string): "pending" | "active" | "complete" => {
+  // A withdrawn or lapsed intent ends in the DONE slot without settling
+  const endedUnsettled = status.stage === "cancelled" || status.stage === "expired";
+  const displayStages = endedUnsettled
+    ? stages.map((stage) =>
+        stage.key === "complete"
+          ? { key: status.stage, label: status.stage === "cancelled" ? "CANCELLED" : "EXPIRED", icon: status.stage === "cancelled" ? "🚫" : "⌛" }
+          : stage
+      )
+    : stages;
+
+  // An error keeps the progress made and marks the stage that broke
+  const failedStage = status.stage === "error" ? status.failure?.stage ?? "submitted" : undefined;
+
+  const getStageStatus = (stageKey: string): "pending" | "active" | "complete" | "failed" => {
+    if (stageKey === "submitted" && attestation === "failed") return "failed";
+    if (endedUnsettled) return stageKey === status.stage ? "failed" : "pending";
     const stageOrder = ["idle", "signed", "submitted", "matching", "executing", "complete"];
+    if (failedStage) {
+      const failedIndex = stageOrder.indexOf(failedStage);
+      const stageIndex = stageOrder.indexOf(stageKey);
+      if (stageIndex < failedIndex) return "complete";
+      return stageIndex === failedIndex ? "failed" : "pending";
+    }
     const currentIndex = stageOrder.indexOf(status.stage);
     const stageIndex = stageOrder.indexOf(stageKey);
     if (currentIndex > stageIndex) return "complete";
@@ -325,16 +400,19 @@ const StatusPipeline = ({ status }: { status: RelayerStatus }) => {
   };
 
   return (
-    <div className="flex items-center justify-between py-4 px-2">
-      {stages.map((stage, index) => (
+    <div className={`flex items-center justify-between ${compact ? "py-1" : "py-4 px-2"}`}>
+      {displayStages.map((stage, index) => (
         <React.Fragment key={stage.key}>
           <motion.div
             className={`flex flex-col items-center ${getStageStatus(stage.key) === "pending" ? "opacity-40" : "opacity-100"}`}
             animate={{ scale: getStageStatus(stage.key) === "active" ? 1.1 : 1 }}
           >
             <motion.div
-              className={`w-10 h-10 rounded-lg flex items-center justify-center text-sm border-2 ${
-                getStageStatus(stage.key) === "complete"
+              title={stage.key === "submitted" ? attestationDetail : undefined}
+              className={`${compact ? "w-6 h-6 text-[10px] rounded-md" : "w-10 h-10 text-sm rounded-lg"} flex items-center justify-center border-2 ${
+                getStageStatus(stage.key) === "failed"
+                  ? "bg-red-500/20 border-red-500 text-red-400"
+                  : getStageStatus(stage.key) === "complete"
                   ? "bg-green-500/20 border-green-500 text-green-400"
                   : getStageStatus(stage.key) === "active"
                   ? "bg-cyan-500/20 border-cyan-500 text-cyan-400"
@@ -347,24 +425,32 @@ const StatusPipeline = ({ status }: { status: RelayerStatus }) => {
               }
               transition={{ duration: 1, repeat: getStageStatus(stage.key) === "active" ? Infinity : 0 }}
             >
-              {getStageStatus(stage.key) === "complete" ? "✓" : stage.icon}
+              {getStageStatus(stage.key) === "failed" ? (endedUnsettled ? stage.icon : "✗") : getStageStatus(stage.key) === "complete" ? "✓" : stage.icon}
             </motion.div>
-            <span className={`mt-1.5 text-[10px] font-mono tracking-wide ${
+            <span className={`${compact ? "mt-0.5 text-[8px]" : "mt-1.5 text-[10px]"} font-mono tracking-wide ${
+              getStageStatus(stage.key) === "failed" ? "text-red-400" :
               getStageStatus(stage.key) === "active" ? "text-cyan-400" :
               getStageStatus(stage.key) === "complete" ? "text-green-400" : "text-zinc-600"
             }`}>
               {stage.label}
             </span>
+            {!compact && stage.key === "submitted" && attestation !== "unverified" && (
+              <span className={`text-[9px] font-mono ${
+                attestation === "verified" ? "text-green-500/70" : attestation === "failed" ? "text-red-400/80" : "text-zinc-500"
+              }`}>
+                {ATTESTATION_CAPTIONS[attestation]}
+              </span>
+            )}
           </motion.div>
-          {index < stages.length - 1 && (
+          {index < displayStages.length - 1 && (
             <motion.div
               className={`flex-1 h-0.5 mx-1 ${
-                getStageStatus(stages[index + 1].key) !== "pending"
+                getStageStatus(displayStages[index + 1].key) !== "pending"
                   ? "bg-gradient-to-r from-cyan-500 to-green-500"
                   : "bg-zinc-800"
               }`}
               initial={{ scaleX: 0 }}
-              animate={{ scaleX: getStageStatus(stages[index + 1].key) !== "pending" ? 1 : 0.2 }}
+              animate={{ scaleX: getStageStatus(displayStages[index + 1].key) !== "pending" ? 1 : 0.2 }}
             />
           )}
         </React.Fragment>
@@ -373,6 +459,135 @@ const StatusPipeline = ({ status }: { status: RelayerStatus }) => {
   );
 };
 
+/**
+ * What broke, in plain words, and the one thing to do about it
+ */
+const FailureNotice = ({
+  failure,
+  recovery,
+  onRecover,
+}: {
+  failure: PipelineFailure;
+  recovery: RecoveryAction;
+  onRecover: (action: RecoveryAction) => void;
+}) => {
+  const info = explainFailure(failure);
+  return (
+    <div className="mt-2 px-4 py-3 rounded-xl border border-red-500/40 bg-red-500/10 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-red-300 font-semibold">{info.title}</div>
+          <div className="text-zinc-300 mt-0.5">{info.explanation}</div>
+          <div className="text-zinc-500 text-xs font-mono mt-1 break-all">{failure.detail}</div>
+        </div>
+        <button
+          onClick={() => onRecover(recovery)}
+          className="shrink-0 px-3 py-1.5 rounded-lg border border-red-500/50 text-red-200 hover:bg-red-500/20 text-xs"
+        >
+          {RECOVERY_LABELS[recovery]}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// An expired intent ends without an "error" update but recovers the same way
+const failureOf = (status: RelayerStatus): PipelineFailure | undefined =>
+  status.failure ?? (status.stage === "expired" ? { kind: "expired", stage: "expired", detail: status.message } : undefined);
+
+/**
+ * One compact pipeline per intent the user has in flight
+ */
+const InFlightIntentList = ({
+  intents,
+  focused,
+  onFocus,
+  onCancel,
+  onDismiss,
+  onRecover,
+  cancelling,
+  now,
+}: {
+  intents: InFlightIntent[];
+  focused?: string;
+  onFocus: (intentHash: string) => void;
+  onCancel: (intentHash: string) => void;
+  onDismiss: (intentHash: string) => void;
+  onRecover: (action: RecoveryAction, intentHash: string) => void;
+  cancelling: string | null;
+  now: number;
+}) => (
+  <div className="mt-3 grid gap-2 md:grid-cols-2">
+    {intents.map((entry) => {
+      const key = entry.intentHash.toLowerCase();
+      const { tokens, status } = entry;
+      const failure = failureOf(status);
+      const recovery = failure ? recoveryFor(failure, entry.deadline, now) : undefined;
+      return (
+        <div
+          key={key}
+          onClick={() => onFocus(entry.intentHash)}
+          className={`px-3 py-2 rounded-xl border cursor-pointer text-xs font-mono transition-colors ${
+            focused?.toLowerCase() === key ? "border-cyan-500/50 bg-cyan-500/5" : "border-zinc-800 bg-zinc-900/50 hover:border-zinc-700"
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <span className={tagColor(entry.intentHash)}>{intentTag(entry.intentHash)}</span>
+            <span className="flex-1 text-zinc-300 truncate">
+              {formatAmount(entry.amountIn, tokens.in.decimals, { maxFractionDigits: 6 })} {tokens.in.symbol} → {tokens.out.symbol}
+              {entry.plan && (
+                <span className="text-purple-300/80 uppercase">
+                  {" "}• {entry.plan.kind} {entry.plan.index + 1}/{entry.plan.count}
+                </span>
+              )}
+            </span>
+            {CANCELLABLE_STAGES.includes(status.stage) && (
+              <>
+                <span className="text-zinc-500">⌛ {formatCountdown(secondsUntil(entry.deadline, now))}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel(entry.intentHash);
+                  }}
+                  disabled={cancelling === key}
+                  className="text-yellow-400 hover:text-yellow-300 disabled:opacity-50"
+                >
+                  {cancelling === key ? "…" : "Cancel"}
+                </button>
+              </>
+            )}
+            {recovery && recovery !== "dismiss" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRecover(recovery, entry.intentHash);
+                }}
+                className="text-cyan-400 hover:text-cyan-300"
+              >
+                {recovery === "resign" ? "Re-sign" : recovery === "retrySubmission" ? "Retry" : "Switch"}
+              </button>
+            )}
+            {!isPending(entry) && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDismiss(entry.intentHash);
+                }}
+                className="text-zinc-600 hover:text-zinc-300"
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+          <StatusPipeline status={status} attestation={entry.attestation} compact />
+          <div className="text-zinc-500 truncate">{status.message}</div>
+        </div>
+      );
+    })}
+  </div>
+);
+
 // ═══════════════════════════════════════════════════════════════════════════════
 //                              MAIN PAGE COMPONENT
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -380,143 +595,793 @@ const StatusPipeline = ({ status }: { status: RelayerStatus }) => {
 export default function Page() {
   const [isConnected, setIsConnected] = useState(false);
   const [userAddress, setUserAddress] = useState<string>("");
-  const [tokenIn, setTokenIn] = useState(TOKENS[1]);
-  const [tokenOut, setTokenOut] = useState(TOKENS[0]);
+  const [connector, setConnector] = useState<WalletConnector | null>(null);
+  const [connectors, setConnectors] = useState<WalletConnector[]>([]);
+  const [showConnectors, setShowConnectors] = useState(false);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [tokens, setTokens] = useState<Token[]>(() => tokenRegistry.all());
+  const [balances, setBalances] = useState<Record<string, bigint>>({});
+  const [tokenIn, setTokenIn] = useState<Token>(tokens[1]);
+  const [tokenOut, setTokenOut] = useState<Token>(tokens[0]);
   const [amountIn, setAmountIn] = useState("1000");
-  const [relayerStatus, setRelayerStatus] = useState<RelayerStatus>({ stage: "idle", message: "" });
+  const [settings, setSettings] = useState<IntentSettings>(DEFAULT_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [minAmountOutInput, setMinAmountOutInput] = useState("");
+  const [inFlight, setInFlight] = useState<InFlightMap>({});
+  const [focusedHash, setFocusedHash] = useState<string>();
+  const [settledHash, setSettledHash] = useState<string>();
+  const [signingMessage, setSigningMessage] = useState<string | null>(null);
+  const [attestation, setAttestation] = useState<AttestationVerification | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([
     { id: 0, timestamp: "00:00:00", message: "Relayer Agent initialized", type: "system" },
     { id: 1, timestamp: "00:00:01", message: "Awaiting signed intents...", type: "info" },
   ]);
   const logIdRef = useRef(2);
+  // Order children this page has yet to release
+  const releasingRef = useRef(new Set<string>());
+  const [logStreamState, setLogStreamState] = useState<LogStreamState>("connecting");
+  const [historyRecords, setHistoryRecords] = useState<IntentRecord[]>([]);
+  const [historyPersistent, setHistoryPersistent] = useState(true);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
+  const [orderTerms, setOrderTerms] = useState<OrderTerms>(DEFAULT_ORDER_TERMS);
+  const [networkChecks, setNetworkChecks] = useState<NetworkCheck[]>([]);
+  const [pendingOrder, setPendingOrder] = useState<PendingOrder | null>(null);
+  const [orderFailure, setOrderFailure] = useState<PipelineFailure>();
+  const [batchSummary, setBatchSummary] = useState<BatchSummary | null>(null);
+
+  // Only signing locks the form; submitted intents progress on their own
+  const isSigning = signingMessage !== null;
+  const inFlightList = listInFlight(inFlight);
+  const hasPending = inFlightList.some(isPending);
+  const focused = focusedHash ? inFlight[focusedHash.toLowerCase()] : undefined;
+  const settled = settledHash ? inFlight[settledHash.toLowerCase()] : undefined;
+
+  const updateIntent = useCallback((intentHash: string, patch: InFlightPatch) => {
+    setInFlight((prev) => upsertInFlight(prev, intentHash, patch));
+  }, []);
+  const wrongChain = isConnected && isChainMismatch(chainId);
 
-  const isProcessing = relayerStatus.stage !== "idle" && relayerStatus.stage !== "complete" && relayerStatus.stage !== "error";
+  const addLog = useCallback((message: string, type: LogEntry["type"] = "info", intentHash?: string) => {
+    const timestamp = formatLogTime(Date.now());
+    setLogs((prev) => [...prev, { id: logIdRef.current++, timestamp, message, type, intentHash, source: "local" }]);
+  }, []);
 
-  const addLog = useCallback((message: string, type: LogEntry["type"] = "info") => {
-    const now = new Date();
-    const timestamp = now.toLocaleTimeString("en-US", { hour12: false });
-    setLogs((prev) => [...prev, { id: logIdRef.current++, timestamp, message, type }]);
+  // Relayer-side steps arrive on the log stream, local steps through addLog
+  useEffect(() => {
+    return relayerLogStream.connect({
+      onEvent: (event) => setLogs((prev) => [...prev, toLogEntry(event, logIdRef.current++)]),
+      onGap: (gap) => setLogs((prev) => [...prev, gapToLogEntry(gap, logIdRef.current++)]),
+      onStateChange: setLogStreamState,
+    });
   }, []);
 
-  const parseAmount = (amount: string, decimals: number): bigint => {
-    const [whole, fraction = ""] = amount.split(".");
-    const paddedFraction = fraction.padEnd(decimals, "0").slice(0, decimals);
-    return BigInt(whole + paddedFraction);
+  // The focused intent's batch book, refreshed as the batch moves on
+  const focusedBatchId = focused?.status.batchId;
+  const focusedStage = focused?.status.stage;
+  useEffect(() => {
+    if (!focusedBatchId || !focusedHash) {
+      setBatchSummary(null);
+      return;
+    }
+    let current = true;
+    fetchBatchSummary(focusedBatchId, focusedHash)
+      .then((summary) => current && setBatchSummary(summary))
+      .catch((error) => current && addLog(`Batch summary unavailable: ${error instanceof Error ? error.message : "Unknown"}`, "warning", focusedHash));
+    return () => {
+      current = false;
+    };
+  }, [focusedBatchId, focusedHash, focusedStage, addLog]);
+
+  // Intents keep the tokens they were signed with, whatever the form shows now
+  const formatClearingPrice = (result: MatchResult, tokens: InFlightIntent["tokens"]) =>
+    `${formatAmount(clearingPriceToDisplay(BigInt(result.clearingPrice), tokens.in.decimals, tokens.out.decimals), 18, {
+      maxFractionDigits: 6,
+    })} ${tokens.in.symbol}/${tokens.out.symbol}`;
+
+  // Only the outcome is logged here, the relayer streams its own progress
+  const logPipelineUpdate = useCallback(
+    (update: PipelineUpdate, tokens: InFlightIntent["tokens"]) => {
+      const { intentHash } = update;
+      if (update.stage === "complete" && update.matchResult) {
+        addLog(
+          `Received ${formatAmount(BigInt(update.matchResult.amountOut), tokens.out.decimals, { maxFractionDigits: 6 })} ${tokens.out.symbol}`,
+          "success",
+          intentHash
+        );
+        addLog(
+          `MEV Protected: ${formatAmount(BigInt(update.matchResult.mevSaved), tokens.in.decimals, { maxFractionDigits: 6 })} ${tokens.in.symbol} saved`,
+          "success",
+          intentHash
+        );
+        addLog("INTENT EXECUTED SUCCESSFULLY", "success", intentHash);
+      } else if (update.stage === "error") {
+        addLog(`Relayer: ${update.message}`, "error", intentHash);
+      } else if (update.stage === "cancelled" || update.stage === "expired") {
+        addLog(`Intent ${update.stage}: ${update.message}`, "warning", intentHash);
+      }
+    },
+    [addLog]
+  );
+
+  const amountCheck = validateAmount(amountIn, tokenIn.decimals);
+  const balanceIn = balances[tokenIn.address.toLowerCase()];
+  // Empty input is not an error until the user tries to sign
+  const amountError = amountCheck.error && amountCheck.error.code !== "EMPTY" ? amountCheck.error.message : "";
+  const insufficientBalance = balanceIn !== undefined && amountCheck.value !== undefined && amountCheck.value > balanceIn;
+
+  const { quote, loading: quoteLoading, error: quoteError, isStale: quoteStale } = useQuote(
+    quoteProvider,
+    tokenIn,
+    tokenOut,
+    amountCheck.value
+  );
+  // A stale quote must not set the floor
+  const quotedAmountOut = quote && !quoteStale ? quote.amountOut : undefined;
+  const minOutCheck = minAmountOutInput ? validateAmount(minAmountOutInput, tokenOut.decimals) : {};
+  // Limit orders sign the target price as their floor
+  const minAmountOut =
+    orderTerms.kind === "limit"
+      ? amountCheck.value !== undefined && orderTerms.limitPrice !== undefined
+        ? limitMinAmountOut(amountCheck.value, orderTerms.limitPrice, tokenIn.decimals)
+        : undefined
+      : resolveMinAmountOut(minOutCheck.value, quotedAmountOut, settings.slippageBps);
+  const orderError = amountCheck.value !== undefined ? validateOrderTerms(orderTerms, amountCheck.value, minAmountOut) : null;
+  const protectionError =
+    minOutCheck.error && orderTerms.kind !== "limit"
+      ? `Minimum output: ${minOutCheck.error.message}`
+      : orderError ?? validateProtection(settings, minAmountOut);
+
+  // MEV risk is priced in USD: the swap's own quote when it pays out USDC, else a second quote into USDC
+  const usdToken = findUsdReference(tokens, NETWORK.chainId);
+  const tokenOutIsUsd = usdToken !== undefined && usdToken.address.toLowerCase() === tokenOut.address.toLowerCase();
+  const { quote: usdQuote, isStale: usdQuoteStale } = useQuote(
+    quoteProvider,
+    tokenIn,
+    usdToken ?? tokenIn,
+    tokenOutIsUsd ? undefined : amountCheck.value
+  );
+  const sizingQuote = tokenOutIsUsd
+    ? quoteStale
+      ? null
+      : quote
+    : usdQuoteStale
+    ? null
+    : usdQuote;
+  const amountInUsd = amountCheck.value !== undefined ? usdValue(tokenIn, amountCheck.value, usdToken, sizingQuote) : undefined;
+  const sliceHint = amountInUsd !== undefined && amountInUsd > MEV_MEDIUM_THRESHOLD_USD ? suggestedSlices(amountInUsd) : undefined;
+  const focusedPlan = focused?.plan ? planProgress(focused.plan.planId, historyRecords, clock) : undefined;
+
+  const blockedByInput = insufficientBalance || !!amountCheck.error || !!protectionError;
+  const networkFailures = networkChecks.filter((check) => !check.ok);
+
+  // Protection settings are remembered per account
+  useEffect(() => {
+    setSettings(loadSettings(userAddress));
+  }, [userAddress]);
+
+  // Intent history on this network: reconcile what the chain settled while we were away, then follow changes
+  useEffect(() => {
+    if (!userAddress) {
+      setHistoryRecords([]);
+      return;
+    }
+    let cancelled = false;
+    const load = () =>
+      intentHistory.list(userAddress, buildIntentDomain()).then((records) => {
+        if (!cancelled) setHistoryRecords(records);
+      });
+    intentHistory
+      .backend()
+      .then((storage) => setHistoryPersistent(storage.kind === "indexeddb"))
+      .catch((error) => addLog(`History storage unavailable: ${error.message}`, "warning"));
+    const unsubscribe = intentHistory.subscribe(() => {
+      load().catch((error) => addLog(`History reload failed: ${error.message}`, "warning"));
+    });
+    load()
+      .then(() => intentHistory.abandonUnreleased(userAddress, releasingRef.current))
+      .then((abandoned) => {
+        if (abandoned > 0) addLog(`History: ${abandoned} unreleased slice${abandoned === 1 ? "" : "s"} cancelled, the page releasing them was closed`, "warning");
+      })
+      .then(() => intentHistory.reconcile(userAddress, nonceManager))
+      .then((changed) => {
+        if (changed > 0) addLog(`History: ${changed} intent${changed === 1 ? "" : "s"} updated from chain`, "info");
+      })
+      .catch((error) => addLog(`History reconciliation failed: ${error.message}`, "warning"));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userAddress, addLog]);
+
+  const updateSettings = (next: IntentSettings) => {
+    setSettings(next);
+    saveSettings(userAddress, next);
+  };
+
+  // Deployment config and the chain it points at, checked once per load
+  useEffect(() => {
+    checkNetwork(NETWORK, chainClient, hookReader).then((checks) => {
+      setNetworkChecks(checks);
+      for (const check of checks) {
+        if (!check.ok) addLog(`${NETWORK.name}: ${check.detail}`, "error");
+      }
+    });
+  }, [addLog]);
+
+  // Remote token list, merged over the bundled default
+  useEffect(() => {
+    if (!NETWORK.tokenListUrl) return;
+    tokenRegistry
+      .loadList(NETWORK.tokenListUrl)
+      .then(() => setTokens(tokenRegistry.all()))
+      .catch((error) => addLog(`Token list load failed: ${error.message}`, "warning"));
+  }, [addLog]);
+
+  // Also called after every settlement, so a failed read is logged here rather than by each caller
+  const refreshBalances = useCallback(async () => {
+    if (!userAddress) {
+      setBalances({});
+      return;
+    }
+    try {
+      setBalances(await tokenRegistry.fetchBalances(userAddress));
+    } catch (error) {
+      addLog(`Balance refresh failed: ${error instanceof Error ? error.message : "Unknown"}`, "warning");
+    }
+  }, [userAddress, addLog]);
+
+  useEffect(() => {
+    refreshBalances();
+  }, [refreshBalances, tokens]);
+
+  const handleImportToken = async (address: string): Promise<Token> => {
+    const token = await tokenRegistry.importToken(address);
+    setTokens(tokenRegistry.all());
+    addLog(`Imported ${token.symbol} (${token.address.slice(0, 10)}...)`, "info");
+    if (userAddress) {
+      const imported = await tokenRegistry.fetchBalances(userAddress, [token]);
+      setBalances((prev) => ({ ...prev, ...imported }));
+    }
+    return token;
+  };
+
+  // Connector events drive the connection state
+  useEffect(() => {
+    if (!connector) return;
+    return connector.subscribe((event) => {
+      switch (event.type) {
+        case "accountsChanged":
+          setUserAddress(event.account);
+          addLog(`Account switched: ${event.account.slice(0, 6)}...${event.account.slice(-4)}`, "info");
+          break;
+        case "chainChanged":
+          setChainId(event.chainId);
+          addLog(`Chain changed: ${event.chainId}`, isChainMismatch(event.chainId) ? "warning" : "info");
+          break;
+        case "disconnect":
+          setIsConnected(false);
+          setUserAddress("");
+          setChainId(null);
+          setConnector(null);
+          addLog("Wallet disconnected", "warning");
+          break;
+      }
+    });
+  }, [connector, addLog]);
+
+  const handleConnect = () => {
+    setConnectors(getAvailableConnectors());
+    setShowConnectors(true);
+  };
+
+  const connectWith = async (selected: WalletConnector) => {
+    setShowConnectors(false);
+    addLog(`Connecting ${selected.name}...`, "info");
+    try {
+      const { account, chainId } = await selected.connect();
+      setConnector(selected);
+      setUserAddress(account);
+      setChainId(chainId);
+      setIsConnected(true);
+      addLog(`Connected: ${account.slice(0, 6)}...${account.slice(-4)}`, "success");
+      if (isChainMismatch(chainId)) {
+        addLog(`Wrong network (${chainId}), switch to ${NETWORK.name}`, "warning");
+      }
+    } catch (error) {
+      addLog(`Connection failed: ${error instanceof Error ? error.message : "Unknown"}`, "error");
+    }
   };
 
-  const handleConnect = async () => {
-    addLog("Connecting wallet...", "info");
-    const address = await mockWallet.connect();
-    setUserAddress(address);
-    setIsConnected(true);
-    addLog(`Connected: ${address.slice(0, 6)}...${address.slice(-4)}`, "success");
+  const handleDisconnect = async () => {
+    await connector?.disconnect();
   };
 
+  const handleSwitchChain = async () => {
+    if (!connector) return;
+    addLog(`Requesting switch to ${NETWORK.name}...`, "info");
+    try {
+      await connector.switchChain(NETWORK.chainId);
+    } catch (error) {
+      addLog(`Network switch failed: ${error instanceof Error ? error.message : "Unknown"}`, "error");
+    }
+  };
+
+  // Fail the intent that broke and cancel the order's children still waiting for release
+  const abandonOrder = useCallback(
+    async (children: SignedIntent[], error: unknown, stage: PipelineStage = "submitted") => {
+      console.error("Swap error:", error);
+      const failed = classifyPipelineError(error, stage, error instanceof OrderError ? error.intentHash : undefined);
+      const message = failed.message;
+      const failedHash = failed.intentHash;
+      if (failedHash) {
+        const update = { stage: "error" as const, message, failure: failed.failure };
+        intentHistory
+          .transition(failedHash, update)
+          .catch((error) => addLog(`History update failed: ${error.message}`, "warning", failedHash));
+        updateIntent(failedHash, { status: update });
+      } else {
+        // Nothing signed yet, so there is no intent to hang the failure on
+        setOrderFailure(failed.failure);
+      }
+      try {
+        for (const { intentHash } of children) {
+          const record = await intentHistory.get(intentHash);
+          if (intentHash !== failedHash && record?.stage === "signed") {
+            const update = { stage: "cancelled" as const, message: "Order stopped before release" };
+            await intentHistory.transition(intentHash, update);
+            updateIntent(intentHash, { status: update });
+          }
+        }
+      } catch (historyError) {
+        addLog(`History update failed: ${historyError instanceof Error ? historyError.message : "Unknown"}`, "warning");
+      }
+      addLog(`${explainFailure(failed.failure).title}: ${message}`, "error", failedHash);
+    },
+    [addLog, updateIntent]
+  );
+
+  // Submit each child at its release time and follow it to settlement
+  const releaseOrder = useCallback(
+    async (plan: OrderPlan, children: SignedIntent[], enclaveKey: string, tokens: InFlightIntent["tokens"]) => {
+      // The order's permit is spent by the first child to settle; later ones go without
+      let permitSpent = false;
+      children.forEach(({ intentHash }) => releasingRef.current.add(intentHash.toLowerCase()));
+      try {
+        for (let i = 0; i < children.length; i++) {
+          const signedIntent: SignedIntent = permitSpent ? { ...children[i], permit: undefined } : children[i];
+          const { intentHash } = signedIntent;
+          const count = children.length;
+          const releaseAt = plan.children[i].releaseAt * 1000;
+          if (releaseAt > Date.now()) {
+            addLog(`Slice ${i + 1}/${count} releases at ${formatLogTime(releaseAt)}`, "info", intentHash);
+            await new Promise((resolve) => setTimeout(resolve, releaseAt - Date.now()));
+          }
+          // Children can be cancelled while they wait for release
+          if ((await intentHistory.get(intentHash))?.stage === "cancelled") {
+            updateIntent(intentHash, { status: { stage: "cancelled", message: "Cancelled before release" } });
+            addLog(`Slice ${i + 1}/${count} cancelled before release, skipped`, "warning", intentHash);
+            continue;
+          }
+
+          try {
+            // STEP 3: Submit to relayer
+            updateIntent(intentHash, { status: { stage: "submitted", message: "Submitting to relayer..." } });
+            addLog(`Sealing intent for enclave ${enclaveKeyId(enclaveKey)}...`, "system", intentHash);
+            const envelope = await sealIntent(signedIntent, enclaveKey);
+            addLog("Intent encrypted (AES-256-GCM) ✓", "success", intentHash);
+
+            addLog("Submitting sealed intent to relayer...", "system", intentHash);
+            const accepted = await pipelineClient.submit({ intentHash, envelope });
+            addLog("Intent accepted by relayer ✓", "success", intentHash);
+
+            // STEP 4: Follow the pipeline to settlement
+            intentHistory
+              .transition(intentHash, accepted)
+              .catch((error) => addLog(`History update failed: ${error.message}`, "warning", intentHash));
+            updateIntent(intentHash, { status: accepted });
+            logPipelineUpdate(accepted, tokens);
+            let lastStage = accepted.stage;
+            const final = TERMINAL_STAGES.includes(accepted.stage)
+              ? accepted
+              : await new Promise<PipelineUpdate>((resolve) => {
+                  const stop = pipelineClient.watch(intentHash, (update) => {
+                    if (update.stage === lastStage) return;
+                    lastStage = update.stage;
+                    intentHistory
+                      .transition(intentHash, update)
+                      .catch((error) => addLog(`History update failed: ${error.message}`, "warning", intentHash));
+                    updateIntent(intentHash, { status: update });
+                    logPipelineUpdate(update, tokens);
+                    if (TERMINAL_STAGES.includes(update.stage)) {
+                      stop();
+                      resolve(update);
+                    }
+                  });
+                });
+
+            if (final.stage === "error") {
+              const failure = final.failure ?? failureFromUpdate(final.message, "submitted");
+              throw new PipelineError(failure.kind, failure.stage, final.message, intentHash);
+            }
+            if (final.stage === "cancelled" || final.stage === "expired") {
+              continue;
+            }
+
+            // STEP 5: Don't take "complete" on trust
+            if (signedIntent.permit) permitSpent = true;
+            setSettledHash(intentHash);
+            const proofCheck = await verifyProofOnHook(final.proof, signedIntent, hookReader);
+            updateIntent(intentHash, { proofVerification: proofCheck });
+            if (proofCheck.verified) {
+              addLog("Execution proof verified ✓", "success", intentHash);
+            } else {
+              proofCheck.checks
+                .filter((check) => !check.ok)
+                .forEach((check) => addLog(`Proof check failed (${check.id}): ${check.detail}`, "warning", intentHash));
+            }
+            refreshBalances();
+          } catch (error) {
+            throw classifyPipelineError(error, "submitted", intentHash);
+          }
+        }
+      } finally {
+        children.forEach(({ intentHash }) => releasingRef.current.delete(intentHash.toLowerCase()));
+      }
+    },
+    [addLog, updateIntent, logPipelineUpdate, refreshBalances]
+  );
+
+  // STEP 0: Reserve a nonce per child and lay out every intent for review
+  const openReview = useCallback(
+    async (plan: OrderPlan, tokens: InFlightIntent["tokens"], slippageBps: number, quotedOut?: bigint, amountInUsd?: bigint) => {
+      const reserved: bigint[] = [];
+      try {
+        setSigningMessage("Creating intent...");
+        addLog("Creating swap intent...", "system");
+        if (usingStandInRpc) {
+          addLog("Hook not configured, reading nonces from local stand-in", "warning");
+        }
+        for (let i = 0; i < plan.children.length; i++) {
+          reserved.push(await nonceManager.reserve(userAddress));
+        }
+      } catch (error) {
+        reserved.forEach((nonce) => nonceManager.release(userAddress, nonce));
+        await abandonOrder([], error, "signed");
+        return;
+      } finally {
+        setSigningMessage(null);
+      }
+
+      const intents: SwapIntent[] = plan.children.map((child) => ({
+        user: userAddress,
+        tokenIn: tokens.in.address,
+        tokenOut: tokens.out.address,
+        amountIn: child.amountIn,
+        minAmountOut: child.minAmountOut,
+        maxSlippage: BigInt(slippageBps),
+        deadline: child.deadline,
+        nonce: reserved[child.index],
+      }));
+      const review = reviewOrder({
+        kind: plan.kind,
+        intents,
+        releaseAt: plan.children.map((child) => child.releaseAt),
+        tokenIn: tokens.in,
+        tokenOut: tokens.out,
+        knownTokens: tokenRegistry.all(),
+        domain: buildIntentDomain(),
+        networkName: NETWORK.name,
+        slippageBps,
+        quotedAmountOut: quotedOut,
+        amountInUsd,
+      });
+      review.findings
+        .filter((finding) => finding.severity === "blocking")
+        .forEach((finding) => addLog(`Review blocked signing: ${finding.detail}`, "error"));
+      const amountIn = plan.children.reduce((sum, child) => sum + child.amountIn, BigInt(0));
+      setPendingOrder({ plan, intents, review, amountIn, tokens });
+    },
+    [userAddress, addLog, abandonOrder]
+  );
+
   const handleSwap = useCallback(async () => {
-    if (!isConnected) {
-      await handleConnect();
+    if (!isConnected || !connector) {
+      handleConnect();
+      return;
+    }
+
+    if (isChainMismatch(chainId)) {
+      await handleSwitchChain();
+      return;
+    }
+
+    if (amountCheck.error || amountCheck.value === undefined) {
+      addLog(`Invalid amount: ${amountCheck.error?.message}`, "error");
       return;
     }
 
+    if (insufficientBalance) {
+      addLog(`Insufficient ${tokenIn.symbol} balance`, "error");
+      return;
+    }
+
+    if (protectionError || minAmountOut === undefined) {
+      addLog(`Refusing to sign: ${protectionError}`, "error");
+      return;
+    }
+
+    setOrderFailure(undefined);
+    let plan: OrderPlan;
     try {
-      // STEP 1: Sign Intent
-      setRelayerStatus({ stage: "signed", message: "Creating intent..." });
-      addLog("Creating swap intent...", "system");
+      plan = buildOrderPlan(orderTerms, amountCheck.value, minAmountOut, settings.deadlineMinutes);
+    } catch (error) {
+      await abandonOrder([], error, "signed");
+      return;
+    }
+    await openReview(plan, { in: tokenIn, out: tokenOut }, settings.slippageBps, quotedAmountOut, amountInUsd);
+  }, [isConnected, connector, chainId, amountCheck, insufficientBalance, protectionError, minAmountOut, quotedAmountOut, amountInUsd, orderTerms, settings, tokenIn, tokenOut, addLog, abandonOrder, openReview]);
+
+  // Nothing was signed: hand the reserved nonces back
+  const cancelReview = useCallback(() => {
+    if (!pendingOrder) return;
+    pendingOrder.intents.forEach((intent) => nonceManager.release(userAddress, intent.nonce));
+    setPendingOrder(null);
+    addLog("Review closed, nothing signed", "info");
+  }, [pendingOrder, userAddress, addLog]);
+
+  const confirmReview = useCallback(async () => {
+    if (!pendingOrder || !connector) return;
+    const { plan, intents, review, amountIn, tokens } = pendingOrder;
+    setPendingOrder(null);
+    if (review.blocked) return;
+
+    const signedChildren: SignedIntent[] = [];
+    const tokenIn = tokens.in;
+    const tokenOut = tokens.out;
+    let enclaveKey: string;
+    let stage: PipelineStage = "signed";
 
-      const nonce = await mockWallet.getNonce();
-      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    try {
+      // STEP 1: Sign every reviewed child intent
+      setSigningMessage("Creating intent...");
+      if (isChainMismatch(chainId)) {
+        throw new PipelineError("wrongChain", "signed", `Wallet is on chain ${chainId}, the hook is on ${NETWORK.name} (${NETWORK.chainId})`);
+      }
+      if (intents[0].deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+        throw new PipelineError("expired", "signed", "Deadline passed while reviewing");
+      }
+      const count = intents.length;
+
+      const summary = `${formatAmount(amountIn, tokenIn.decimals)} ${tokenIn.symbol} → ${tokenOut.symbol}`;
+      if (plan.kind === "limit") {
+        addLog(`Intent: LIMIT ${summary}, floor ${formatAmount(intents[0].minAmountOut, tokenOut.decimals, { maxFractionDigits: 6 })} ${tokenOut.symbol}`, "info");
+      } else if (plan.kind === "split") {
+        const intervalMinutes = count > 1 ? (plan.children[1].releaseAt - plan.children[0].releaseAt) / 60 : 0;
+        addLog(`Intent: SPLIT ${summary} in ${count} slices every ${intervalMinutes} min`, "info");
+      } else {
+        addLog(`Intent: SWAP ${summary}`, "info");
+      }
+
+      // One allowance for the whole order, granted by a permit that rides with every child
+      // until one settles; it stays valid until the last child's deadline
+      setSigningMessage("Checking allowance...");
+      const route = await resolveApprovalRoute(tokenReader, tokenIn.address, userAddress, amountIn);
+      let permit: TokenPermit | undefined;
+      if (route.kind === "allowance") {
+        addLog(`Hook allowance covers ${tokenIn.symbol} ✓`, "success");
+      } else if (route.kind === "eip2612" || route.kind === "permit2") {
+        setSigningMessage("Sign permit in wallet...");
+        addLog(`Requesting ${route.kind === "eip2612" ? "EIP-2612" : "Permit2"} signature for the ${tokenIn.symbol} allowance (no gas)...`, "info");
+        const lastChild = plan.children[plan.children.length - 1];
+        permit = await signPermit(connector.getSigner(), route, tokenIn.address, amountIn, lastChild.deadline);
+        addLog("Permit signed ✓ the relayer submits it with your intent", "success");
+      } else if (route.kind === "approve") {
+        addLog(`${tokenIn.symbol} has no permit support: approve Permit2 once to make it gasless, settlement needs an allowance`, "warning");
+      } else {
+        addLog(`Allowance unchecked (${route.detail}), sending intent without a permit`, "warning");
+      }
+
+      const startedAt = Date.now();
+      for (const child of plan.children) {
+        const intent = intents[child.index];
+
+        setSigningMessage(count > 1 ? `Sign ${child.index + 1}/${count} in wallet...` : "Sign in wallet...");
+        addLog(count > 1 ? `Requesting EIP-712 signature ${child.index + 1}/${count}...` : "Requesting EIP-712 signature...", "info");
+        console.log("📝 Signing EIP-712 Intent:", intent);
+        const signature = await connector.getSigner().signIntent(buildIntentDomain(), intent);
+        const intentHash = computeIntentHash(intent);
+        const signedIntent: SignedIntent = { intent, signature, intentHash, ...(permit && { permit }) };
+        signedChildren.push(signedIntent);
+        const ref = orderRef(plan, child);
+        await intentHistory.record(signedIntent, tokenIn, tokenOut, ref);
+        updateIntent(intentHash, {
+          status: { stage: "signed", message: child.index === 0 ? "Intent signed" : `Releases at ${formatLogTime(child.releaseAt * 1000)}` },
+          tokens,
+          amountIn: child.amountIn,
+          deadline: child.deadline,
+          plan: ref,
+          startedAt,
+        });
+        if (child.index === 0) setFocusedHash(intentHash);
+
+        addLog("Intent signed successfully ✓", "success", intentHash);
+        addLog(`Hash: ${intentHash.slice(0, 18)}... (nonce ${intent.nonce})`, "info", intentHash);
+
+        const nonceStatus = await nonceManager.checkIntent(signedIntent);
+        if (nonceStatus !== "pending") {
+          throw new OrderError(`Nonce ${intent.nonce} already ${nonceStatus} on-chain`, intentHash);
+        }
+      }
+
+      // STEP 2: Only seal to an enclave that attests to pinned code
+      stage = "submitted";
+      setSigningMessage("Verifying enclave...");
+      signedChildren.forEach(({ intentHash }) => updateIntent(intentHash, { attestation: "verifying" }));
+      addLog("Verifying enclave attestation...", "system");
+      const verification = await attestEnclave(hookReader);
+      setAttestation(verification);
+      const attested: AttestationState = verification.verified && verification.report ? "verified" : "failed";
+      signedChildren.forEach(({ intentHash }) => updateIntent(intentHash, { attestation: attested }));
+      if (!verification.verified || !verification.report) {
+        verification.checks
+          .filter((check) => !check.ok)
+          .forEach((check) => addLog(`Attestation check failed (${check.id}): ${check.detail}`, "warning"));
+        throw new PipelineError("attestationFailed", "submitted", "Enclave attestation failed, intent not submitted", signedChildren[0].intentHash);
+      }
+      addLog(`SGX enclave attestation verified ✓ (MRENCLAVE ${verification.report.enclaveMeasurement.slice(0, 10)}...)`, "success");
+      enclaveKey = verification.report.enclavePublicKey;
+    } catch (error) {
+      intents.slice(signedChildren.length).forEach((intent) => nonceManager.release(userAddress, intent.nonce));
+      await abandonOrder(signedChildren, error, stage);
+      return;
+    } finally {
+      setSigningMessage(null);
+    }
 
-      const intent: SwapIntent = {
-        user: userAddress,
-        tokenIn: tokenIn.address,
-        tokenOut: tokenOut.address,
-        amountIn: parseAmount(amountIn, tokenIn.decimals),
-        minAmountOut: BigInt(0),
-        maxSlippage: BigInt(50),
-        deadline,
-        nonce,
-      };
+    // The form is free again; the order settles in the background
+    releaseOrder(plan, signedChildren, enclaveKey, tokens).catch((error) => abandonOrder(signedChildren, error));
+  }, [pendingOrder, connector, chainId, userAddress, addLog, updateIntent, releaseOrder, abandonOrder]);
+
+  // Withdraw a queued intent with a signed CancelIntent; the watcher picks up the new stage
+  const handleCancel = useCallback(
+    async (record: IntentRecord) => {
+      if (!connector) return;
+      const intentHash = record.intentHash;
+      // A split slice still waiting for release never reached the relayer
+      if (record.stage === "signed" && record.plan) {
+        const update = { stage: "cancelled" as const, message: "Cancelled before release" };
+        try {
+          await intentHistory.transition(intentHash, update);
+        } catch (error) {
+          addLog(`Cancel failed: ${error instanceof Error ? error.message : "Unknown"}`, "error", intentHash);
+          return;
+        }
+        updateIntent(intentHash, { status: update });
+        addLog(`Slice ${record.plan.index + 1}/${record.plan.count} will not be released`, "warning", intentHash);
+        return;
+      }
+      setCancelling(record.intentHash);
+      try {
+        addLog("Requesting cancellation signature...", "info", intentHash);
+        const cancel = { intentHash: record.signed.intentHash, user: record.signed.user, nonce: BigInt(record.signed.nonce) };
+        const signature = await connector.getSigner().signCancel(buildIntentDomain(record.verifyingContract, record.chainId), cancel);
+        const update = await pipelineClient.cancel({ cancel, signature });
+        await intentHistory.transition(intentHash, update);
+        updateIntent(intentHash, { status: update });
+        addLog("Cancellation accepted by relayer ✓", "success", intentHash);
+      } catch (error) {
+        const failed = classifyPipelineError(error, record.stage, intentHash);
+        addLog(`Cancel failed, ${explainFailure(failed.failure).title.toLowerCase()}: ${failed.message}`, "error", intentHash);
+      } finally {
+        setCancelling(null);
+      }
+    },
+    [connector, addLog, updateIntent]
+  );
 
-      addLog(`Intent: SWAP ${amountIn} ${tokenIn.symbol} → ${tokenOut.symbol}`, "info");
-      addLog("Requesting EIP-712 signature...", "info");
-
-      const signature = await mockWallet.signTypedData(intent);
-      const intentHash = await mockWallet.computeIntentHash(intent);
-
-      addLog("Intent signed successfully ✓", "success");
-      addLog(`Hash: ${intentHash.slice(0, 18)}...`, "info");
-
-      // STEP 2: Submit to TEE
-      setRelayerStatus({ stage: "submitted", message: "Submitting to TEE..." });
-      addLog("Encrypting intent for TEE...", "system");
-      await new Promise((r) => setTimeout(r, 500));
-      addLog("AES-256-GCM encryption complete", "success");
-      await new Promise((r) => setTimeout(r, 300));
-      addLog("Submitted to iExec TEE ✓", "success");
-
-      // STEP 3: TEE Matching
-      setRelayerStatus({ stage: "matching", message: "TEE processing..." });
-      addLog("Waiting for TEE batch auction...", "system");
-      await new Promise((r) => setTimeout(r, 500));
-      addLog("SGX Enclave attestation verified ✓", "success");
-      await new Promise((r) => setTimeout(r, 400));
-      addLog("Loading order batch (12 intents)...", "info");
-      await new Promise((r) => setTimeout(r, 600));
-      addLog("Running batch_auction_clearing()...", "system");
-      await new Promise((r) => setTimeout(r, 1000));
-      addLog("Clearing price: 2,598.42 USDC/ETH", "success");
-      addLog("Match found! Output: 0.385 ETH", "success");
-      await new Promise((r) => setTimeout(r, 400));
-      addLog("TEE Signature generated ✓", "success");
-
-      // STEP 4: Relayer Execution
-      setRelayerStatus({ stage: "executing", message: "Relayer executing..." });
-      addLog("─────────────────────────────────────", "system");
-      addLog("RELAYER AGENT ACTIVATED", "agent");
-      await new Promise((r) => setTimeout(r, 400));
-      addLog("Analyzing optimal execution window...", "agent");
-      await new Promise((r) => setTimeout(r, 300));
-      addLog("Gas price: 0.001 gwei ✓", "agent");
-      addLog("MEV risk: LOW ✓", "agent");
-      await new Promise((r) => setTimeout(r, 400));
-      addLog("Executing settlement transaction...", "agent");
-      await new Promise((r) => setTimeout(r, 1000));
-
-      const mockTxHash = "0x" + Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join("");
-      addLog(`TX: ${mockTxHash.slice(0, 20)}...`, "success");
-      await new Promise((r) => setTimeout(r, 800));
-      addLog("Block confirmation received ✓", "success");
-      addLog(`Tokens sent to ${userAddress.slice(0, 10)}...`, "success");
-
-      // COMPLETE
-      addLog("═══════════════════════════════════════", "system");
-      addLog("INTENT EXECUTED SUCCESSFULLY", "success");
-      addLog("MEV Protected: $23.47 saved", "success");
-      addLog("User gas cost: $0.00", "success");
-      addLog("═══════════════════════════════════════", "system");
-
-      setRelayerStatus({
-        stage: "complete",
-        message: "Trade executed!",
-        txHash: mockTxHash,
-        matchResult: {
-          clearingPrice: "2,598.42",
-          amountOut: "0.385",
-          mevSaved: "23.47",
-        },
-      });
+  // Only for hooks that can invalidate nonces: kills the intent even if a relayer ignores the cancel
+  const handleCancelOnChain = useCallback(
+    async (record: IntentRecord) => {
+      if (!connector) return;
+      const intentHash = record.intentHash;
+      if (chainId !== record.chainId) {
+        addLog(`Switch to chain ${record.chainId} to invalidate this intent's nonce`, "warning", intentHash);
+        return;
+      }
+      setCancelling(record.intentHash);
+      try {
+        const newNonce = BigInt(record.signed.nonce) + BigInt(1);
+        addLog(`Invalidating nonces below ${newNonce} on-chain...`, "system", intentHash);
+        const txHash = await connector.sendTransaction({ to: record.verifyingContract, data: encodeNonceBump(newNonce) });
+        await intentHistory.transition(intentHash, { stage: "cancelled", message: `Nonce invalidated on-chain (${txHash.slice(0, 10)}...)`, txHash });
+        addLog(`Nonce bump sent: ${txHash.slice(0, 20)}...`, "success", intentHash);
+      } catch (error) {
+        addLog(`On-chain cancel failed: ${error instanceof Error ? error.message : "Unknown"}`, "error", intentHash);
+      } finally {
+        setCancelling(null);
+      }
+    },
+    [connector, chainId, addLog]
+  );
+
+  // Deadline countdowns for intents in flight
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasPending]);
+
+  const cancelInFlight = (intentHash: string) => {
+    const record = historyRecords.find((r) => r.intentHash === intentHash.toLowerCase());
+    if (record) handleCancel(record);
+  };
 
+  const dismissInFlight = (intentHash: string) => {
+    setInFlight((prev) => removeInFlight(prev, intentHash));
+    if (focusedHash?.toLowerCase() === intentHash.toLowerCase()) setFocusedHash(undefined);
+  };
+
+  // Send the already-signed intent again; it is still good until its deadline
+  const retrySubmission = async (entry: InFlightIntent) => {
+    const { intentHash } = entry;
+    const record = await intentHistory.get(intentHash);
+    if (!record) return;
+    const signedIntent = deserializeSignedIntent(record.signed);
+    addLog("Retrying submission...", "system", intentHash);
+    try {
+      updateIntent(intentHash, { status: { stage: "submitted", message: "Verifying enclave..." }, attestation: "verifying" });
+      const verification = await attestEnclave(hookReader);
+      setAttestation(verification);
+      updateIntent(intentHash, { attestation: verification.verified && verification.report ? "verified" : "failed" });
+      if (!verification.verified || !verification.report) {
+        throw new PipelineError("attestationFailed", "submitted", "Enclave attestation failed, intent not submitted", intentHash);
+      }
+      const plan: OrderPlan = {
+        id: record.plan?.planId ?? intentHash,
+        kind: "market",
+        children: [{ index: 0, amountIn: entry.amountIn, minAmountOut: signedIntent.intent.minAmountOut, releaseAt: 0, deadline: entry.deadline }],
+      };
+      await releaseOrder(plan, [signedIntent], verification.report.enclavePublicKey, entry.tokens);
     } catch (error) {
-      console.error("Swap error:", error);
-      addLog(`Error: ${error instanceof Error ? error.message : "Unknown"}`, "error");
-      setRelayerStatus({ stage: "error", message: "Failed" });
+      await abandonOrder([], classifyPipelineError(error, "submitted", intentHash));
     }
-  }, [isConnected, userAddress, tokenIn, tokenOut, amountIn, addLog]);
+  };
+
+  // Same trade, fresh nonce and deadline, through the review again
+  const resign = async (entry: InFlightIntent) => {
+    const record = await intentHistory.get(entry.intentHash);
+    if (!record) return;
+    const { intent } = deserializeSignedIntent(record.signed);
+    const terms = { ...DEFAULT_ORDER_TERMS, kind: record.plan?.kind === "limit" ? ("limit" as const) : ("market" as const) };
+    const plan = buildOrderPlan(terms, intent.amountIn, intent.minAmountOut, settings.deadlineMinutes);
+    // The form's quote only applies if the form still shows this trade
+    const sameTrade =
+      tokenIn.address === entry.tokens.in.address && tokenOut.address === entry.tokens.out.address && amountCheck.value === intent.amountIn;
+    dismissInFlight(entry.intentHash);
+    await openReview(plan, entry.tokens, Number(intent.maxSlippage), sameTrade ? quotedAmountOut : undefined, sameTrade ? amountInUsd : undefined);
+  };
 
-  const resetSwap = () => {
-    setRelayerStatus({ stage: "idle", message: "" });
+  const handleRecover = (action: RecoveryAction, intentHash?: string) => {
+    const entry = intentHash ? inFlight[intentHash.toLowerCase()] : undefined;
+    if (action === "switchNetwork") {
+      handleSwitchChain();
+    } else if (action === "dismiss") {
+      if (entry) dismissInFlight(entry.intentHash);
+      else setOrderFailure(undefined);
+    } else if (!entry) {
+      // Failed before anything was signed: start over from the form
+      setOrderFailure(undefined);
+      handleSwap();
+    } else if (action === "retrySubmission") {
+      retrySubmission(entry);
+    } else {
+      resign(entry);
+    }
   };
 
+  const focusedFailure = focused ? failureOf(focused.status) : orderFailure;
+
   return (
     <div className="min-h-screen bg-[#050505] text-white p-4 md:p-8">
       {/* Background Grid */}
@@ -537,13 +1402,71 @@ export default function Page() {
             </h1>
           </div>
           <p className="text-zinc-500 text-sm">
-            <span className="text-cyan-400">Agentic Finance</span> • Intent-Based • Gasless • MEV Protected
+            <span className="text-cyan-400">Agentic Finance</span> • Intent-Based • Gasless • MEV Protected •{" "}
+            <a href="/relayer" className="hover:text-cyan-400">
+              Relayer
+            </a> •{" "}
+            <a href="/analytics" className="hover:text-cyan-400">
+              Analytics
+            </a>
           </p>
+          <NetworkSelector disabled={isSigning || hasPending} failures={networkFailures} />
+          {isConnected && (
+            <div className="mt-3 inline-flex items-center gap-2 px-3 py-1 bg-zinc-900/80 border border-zinc-800 rounded-lg text-xs font-mono">
+              <span>{connector?.icon}</span>
+              <span className="text-zinc-300">{userAddress.slice(0, 6)}...{userAddress.slice(-4)}</span>
+              <span className={wrongChain ? "text-yellow-400" : "text-zinc-500"}>
+                {wrongChain ? `chain ${chainId}` : NETWORK.name}
+              </span>
+              <button onClick={handleDisconnect} disabled={isSigning} className="text-zinc-500 hover:text-red-400 disabled:opacity-50">
+                ✕
+              </button>
+            </div>
+          )}
         </motion.div>
 
         {/* Status Pipeline */}
         <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.1 }} className="mb-6">
-          <StatusPipeline status={relayerStatus} />
+          <StatusPipeline
+            status={
+              focused?.status ??
+              (isSigning
+                ? { stage: "signed", message: signingMessage ?? "" }
+                : orderFailure
+                  ? { stage: "error", message: orderFailure.detail, failure: orderFailure }
+                  : IDLE_STATUS)
+            }
+            attestation={focused?.attestation}
+            attestationDetail={attestation?.checks.map((check) => `${check.ok ? "✓" : "✗"} ${check.detail}`).join("\n")}
+          />
+          {focusedFailure && !isSigning && (
+            <FailureNotice
+              failure={focusedFailure}
+              recovery={recoveryFor(focusedFailure, focused?.deadline ?? BigInt(0), clock)}
+              onRecover={(action) => handleRecover(action, focused?.intentHash)}
+            />
+          )}
+          {focused && focusedPlan && (
+            <OrderPlanProgress
+              progress={focusedPlan}
+              records={historyRecords}
+              tokenIn={focused.tokens.in}
+              tokenOut={focused.tokens.out}
+            />
+          )}
+          {focused && batchSummary && batchSummary.batchId === focusedBatchId && <BatchAuctionView summary={batchSummary} />}
+          {inFlightList.length > 0 && (
+            <InFlightIntentList
+              intents={inFlightList}
+              focused={focusedHash}
+              onFocus={setFocusedHash}
+              onCancel={cancelInFlight}
+              onDismiss={dismissInFlight}
+              onRecover={handleRecover}
+              cancelling={cancelling}
+              now={clock}
+            />
+          )}
         </motion.div>
 
         {/* Main Grid */}
@@ -556,17 +1479,50 @@ export default function Page() {
             className="relative"
           >
             <div className="relative rounded-3xl border border-zinc-800 bg-zinc-900/50 p-6 backdrop-blur-xl overflow-hidden">
-              <GlowOrbs active={isProcessing} />
+              <GlowOrbs active={hasPending || isSigning} />
 
               {/* Header */}
               <div className="flex items-center justify-between mb-6 relative z-10">
                 <h3 className="text-lg font-semibold">Sign Intent</h3>
-                <div className="flex items-center gap-2 px-3 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-lg">
-                  <span className="text-cyan-400 text-xs font-mono">GASLESS</span>
-                  <span className="text-lg">⚡</span>
+                <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 px-3 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-lg">
+                    <span className="text-cyan-400 text-xs font-mono">GASLESS</span>
+                    <span className="text-lg">⚡</span>
+                  </div>
+                  <motion.button
+                    onClick={() => setShowSettings(!showSettings)}
+                    className={`w-9 h-9 rounded-lg border flex items-center justify-center transition-colors ${
+                      showSettings ? "bg-zinc-800 border-zinc-600 text-white" : "bg-zinc-900/80 border-zinc-800 text-zinc-400"
+                    }`}
+                    whileTap={{ scale: 0.95 }}
+                    aria-label="Intent settings"
+                  >
+                    ⚙
+                  </motion.button>
                 </div>
               </div>
 
+              <IntentSettingsPanel
+                isOpen={showSettings}
+                settings={settings}
+                onChange={updateSettings}
+                minAmountOut={minAmountOutInput}
+                onMinAmountOutChange={setMinAmountOutInput}
+                tokenOut={tokenOut}
+                disabled={isSigning}
+              />
+
+              <OrderTypeSelector
+                terms={orderTerms}
+                onChange={setOrderTerms}
+                tokenIn={tokenIn}
+                tokenOut={tokenOut}
+                amountIn={amountCheck.value}
+                marketPrice={quote && !quoteStale ? unitPrice(quote, tokenIn.decimals) : undefined}
+                suggestedSlices={sliceHint}
+                disabled={isSigning}
+              />
+
               {/* Intent Mode Badge */}
               <motion.div className="mb-4 px-4 py-3 bg-purple-500/10 border border-purple-500/30 rounded-xl relative z-10">
                 <div className="flex items-center gap-2">
@@ -579,18 +1535,48 @@ export default function Page() {
               <div className="space-y-4 relative z-10">
                 <div className="p-4 bg-zinc-900/70 rounded-2xl border border-zinc-800">
                   <div className="flex items-start justify-between gap-4">
-                    <TokenSelector selected={tokenIn} onSelect={setTokenIn} label="You sign" disabled={isProcessing} />
+                    <TokenSelector
+                      selected={tokenIn}
+                      tokens={tokens}
+                      balances={balances}
+                      onSelect={setTokenIn}
+                      onImport={handleImportToken}
+                      label="You sign"
+                      disabled={isSigning}
+                    />
                     <div className="flex-1">
                       <span className="text-xs text-zinc-500 uppercase tracking-wider mb-1 block">Amount</span>
                       <input
                         type="text"
                         value={amountIn}
                         onChange={(e) => setAmountIn(e.target.value)}
-                        disabled={isProcessing}
-                        placeholder="0.00"
-                        className="w-full bg-transparent text-2xl font-mono text-white placeholder-zinc-700 focus:outline-none disabled:opacity-50"
+                        disabled={isSigning}
+                        placeholder={amountPlaceholder()}
+                        aria-invalid={!!amountError}
+                        className={`w-full bg-transparent text-2xl font-mono placeholder-zinc-700 focus:outline-none disabled:opacity-50 ${
+                          amountError ? "text-red-400" : "text-white"
+                        }`}
                       />
-                      <span className="text-xs text-zinc-500">Balance: {tokenIn.balance}</span>
+                      {amountError && <span className="block text-xs text-red-400">{amountError}</span>}
+                      {amountCheck.value !== undefined && hasGrouping(amountIn) && (
+                        <span className="block text-xs text-zinc-500">
+                          Read as {toInputString(amountCheck.value, tokenIn.decimals)} {tokenIn.symbol}
+                        </span>
+                      )}
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className={insufficientBalance ? "text-red-400" : "text-zinc-500"}>
+                          Balance: {balanceIn !== undefined ? formatAmount(balanceIn, tokenIn.decimals, { maxFractionDigits: 6 }) : "—"}
+                        </span>
+                        {balanceIn !== undefined && (
+                          <button
+                            onClick={() => setAmountIn(toInputString(balanceIn, tokenIn.decimals))}
+                            disabled={isSigning}
+                            className="px-1.5 py-0.5 rounded bg-cyan-500/10 text-cyan-400 font-mono text-[10px] hover:bg-cyan-500/20 disabled:opacity-50"
+                          >
+                            MAX
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -601,13 +1587,42 @@ export default function Page() {
 
                 <div className="p-4 bg-zinc-900/70 rounded-2xl border border-zinc-800">
                   <div className="flex items-start justify-between gap-4">
-                    <TokenSelector selected={tokenOut} onSelect={setTokenOut} label="You receive" disabled={isProcessing} />
+                    <TokenSelector
+                      selected={tokenOut}
+                      tokens={tokens}
+                      balances={balances}
+                      onSelect={setTokenOut}
+                      onImport={handleImportToken}
+                      label="You receive"
+                      disabled={isSigning}
+                    />
                     <div className="flex-1">
                       <span className="text-xs text-zinc-500 uppercase tracking-wider mb-1 block">Estimated</span>
                       <div className="text-2xl font-mono text-zinc-400">
-                        {relayerStatus.matchResult?.amountOut || "~0.385"}
+                        {quote
+                          ? `~${formatAmount(quote.amountOut, tokenOut.decimals, { maxFractionDigits: 6 })}`
+                          : quoteLoading
+                          ? "…"
+                          : "—"}
                       </div>
-                      <span className="text-xs text-zinc-500">@ {relayerStatus.matchResult?.clearingPrice || "2,598.42"}</span>
+                      <span className="text-xs text-zinc-500">
+                        {quote ? (
+                          <>
+                            1 {tokenIn.symbol} ≈ {formatAmount(unitPrice(quote, tokenIn.decimals), tokenOut.decimals, { maxFractionDigits: 6 })}{" "}
+                            {tokenOut.symbol}
+                            {quote.priceImpactBps > 0 && (
+                              <span className={quote.priceImpactBps > 100 ? "text-yellow-400" : ""}>
+                                {" "}• impact {formatAmount(BigInt(quote.priceImpactBps), 2)}%
+                              </span>
+                            )}
+                            {quoteStale && <span className="text-yellow-400"> • stale</span>}
+                          </>
+                        ) : quoteError ? (
+                          <span className="text-red-400">{quoteError}</span>
+                        ) : (
+                          "@ —"
+                        )}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -617,7 +1632,19 @@ export default function Page() {
               <div className="mt-4 p-4 bg-zinc-900/30 rounded-xl space-y-2 relative z-10">
                 <div className="flex justify-between text-sm">
                   <span className="text-zinc-500">Max Slippage</span>
-                  <span className="text-green-400 font-mono">0.00% (Batch)</span>
+                  <span className="text-green-400 font-mono">{formatAmount(BigInt(settings.slippageBps), 2)}%</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-zinc-500">Min Received</span>
+                  <span className={`font-mono ${protectionError ? "text-red-400" : "text-white"}`}>
+                    {minAmountOut !== undefined
+                      ? `${formatAmount(minAmountOut, tokenOut.decimals, { maxFractionDigits: 6 })} ${tokenOut.symbol}`
+                      : "—"}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-zinc-500">Deadline</span>
+                  <span className="text-zinc-300 font-mono">{settings.deadlineMinutes} min</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-zinc-500">Gas Cost</span>
@@ -631,29 +1658,37 @@ export default function Page() {
 
               {/* Action Button */}
               <motion.button
-                onClick={relayerStatus.stage === "complete" ? resetSwap : handleSwap}
-                disabled={isProcessing}
+                onClick={handleSwap}
+                disabled={isSigning || blockedByInput || networkFailures.length > 0}
                 className={`w-full mt-6 py-4 rounded-2xl font-semibold text-lg transition-all relative z-10 ${
-                  isProcessing
+                  isSigning || blockedByInput || networkFailures.length > 0
                     ? "bg-zinc-800 text-zinc-500 cursor-not-allowed"
-                    : relayerStatus.stage === "complete"
-                    ? "bg-green-600 text-white hover:bg-green-500"
                     : "bg-gradient-to-r from-purple-600 via-cyan-500 to-green-500 text-white shadow-[0_0_30px_rgba(34,211,238,0.3)] hover:shadow-[0_0_40px_rgba(34,211,238,0.5)]"
                 }`}
-                whileHover={!isProcessing ? { scale: 1.02 } : {}}
-                whileTap={!isProcessing ? { scale: 0.98 } : {}}
+                whileHover={!isSigning ? { scale: 1.02 } : {}}
+                whileTap={!isSigning ? { scale: 0.98 } : {}}
               >
-                {isProcessing ? (
+                {isSigning ? (
                   <span className="flex items-center justify-center gap-2">
                     <motion.span animate={{ rotate: 360 }} transition={{ duration: 1, repeat: Infinity, ease: "linear" }}>⟳</motion.span>
-                    {relayerStatus.message || "Processing..."}
+                    {signingMessage}
                   </span>
-                ) : relayerStatus.stage === "complete" ? (
-                  "New Swap"
+                ) : networkFailures.length > 0 ? (
+                  `${NETWORK.name} is not configured`
                 ) : !isConnected ? (
                   "Connect Wallet"
+                ) : wrongChain ? (
+                  `Switch to ${NETWORK.name}`
+                ) : amountCheck.error ? (
+                  amountCheck.error.code === "EMPTY" ? "Enter an amount" : "Invalid amount"
+                ) : insufficientBalance ? (
+                  `Insufficient ${tokenIn.symbol} balance`
+                ) : protectionError ? (
+                  protectionError
                 ) : (
-                  <span className="flex items-center justify-center gap-2">✍️ Sign Intent (Gasless)</span>
+                  <span className="flex items-center justify-center gap-2">
+                    ✍️ Sign Intent (Gasless){hasPending && <span className="text-sm opacity-80">• {inFlightList.filter(isPending).length} in flight</span>}
+                  </span>
                 )}
               </motion.button>
 
@@ -671,7 +1706,7 @@ export default function Page() {
 
           {/* Relayer Console */}
           <motion.div initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.3 }}>
-            <RelayerConsole logs={logs} isActive={isProcessing} />
+            <RelayerConsole logs={logs} isActive={hasPending} streamState={logStreamState} intentHash={focusedHash} />
 
             {/* Info Cards */}
             <div className="grid grid-cols-2 gap-3 mt-4">
@@ -679,7 +1714,7 @@ export default function Page() {
                 { icon: "✍️", title: "EIP-712 Intents", desc: "Sign, don't send", color: "cyan" },
                 { icon: "🔐", title: "TEE Matching", desc: "Private auction", color: "purple" },
                 { icon: "🤖", title: "Relayer Agent", desc: "AI execution", color: "green" },
-                { icon: "💰", title: "Zero Gas", desc: "Relayer pays", color: "yellow" },
+                { icon: "💰", title: "Zero Gas", desc: "Relayer pays, permits approve", color: "yellow" },
               ].map((card) => (
                 <motion.div
                   key={card.title}
@@ -695,15 +1730,42 @@ export default function Page() {
           </motion.div>
         </div>
 
+        {/* Intent History */}
+        {isConnected && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.4 }} className="mt-6">
+            <IntentHistoryPanel
+              records={historyRecords}
+              persistent={historyPersistent}
+              onCancel={handleCancel}
+              onCancelOnChain={CONFIG.HOOK_SUPPORTS_NONCE_BUMP ? handleCancelOnChain : undefined}
+              cancelling={cancelling}
+            />
+          </motion.div>
+        )}
+
+        <ConnectWalletModal
+          isOpen={showConnectors}
+          connectors={connectors}
+          onSelect={connectWith}
+          onClose={() => setShowConnectors(false)}
+        />
+
+        <IntentReviewModal
+          review={pendingOrder?.review ?? null}
+          title={pendingOrder ? `${pendingOrder.plan.kind} order` : ""}
+          onConfirm={confirmReview}
+          onClose={cancelReview}
+        />
+
         {/* Success Modal */}
         <AnimatePresence>
-          {relayerStatus.stage === "complete" && relayerStatus.matchResult && (
+          {settled?.status.stage === "complete" && settled.status.matchResult && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
-              onClick={resetSwap}
+              onClick={() => setSettledHash(undefined)}
             >
               <motion.div
                 initial={{ scale: 0.9, y: 20 }}
@@ -722,13 +1784,36 @@ export default function Page() {
                 </motion.div>
 
                 <h3 className="text-2xl font-bold text-center text-white mb-2">Intent Executed!</h3>
-                <p className="text-zinc-400 text-center text-sm mb-6">Relayer Agent settled your trade</p>
+                <p className="text-zinc-400 text-center text-sm mb-4">Relayer Agent settled your trade</p>
+
+                <div
+                  className={`mb-6 p-3 rounded-xl border text-sm ${
+                    !settled.proofVerification
+                      ? "border-zinc-800 text-zinc-500"
+                      : settled.proofVerification.verified
+                      ? "border-green-500/40 bg-green-500/10 text-green-400"
+                      : "border-yellow-500/40 bg-yellow-500/10 text-yellow-400"
+                  }`}
+                >
+                  <div className="font-medium text-center">
+                    {!settled.proofVerification ? "Verifying TEE proof..." : settled.proofVerification.verified ? "✓ TEE proof verified" : "⚠ Unverified execution"}
+                  </div>
+                  {settled.proofVerification && !settled.proofVerification.verified && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {settled.proofVerification.checks
+                        .filter((check) => !check.ok)
+                        .map((check) => (
+                          <li key={check.id}>• {check.detail}</li>
+                        ))}
+                    </ul>
+                  )}
+                </div>
 
                 <div className="space-y-3 mb-6">
                   {[
-                    { label: "Clearing Price", value: `$${relayerStatus.matchResult.clearingPrice}`, color: "text-white" },
-                    { label: "Received", value: `${relayerStatus.matchResult.amountOut} ETH`, color: "text-green-400" },
-                    { label: "MEV Saved", value: `$${relayerStatus.matchResult.mevSaved}`, color: "text-yellow-400" },
+                    { label: "Clearing Price", value: formatClearingPrice(settled.status.matchResult, settled.tokens), color: "text-white" },
+                    { label: "Received", value: `${formatAmount(BigInt(settled.status.matchResult.amountOut), settled.tokens.out.decimals, { maxFractionDigits: 6 })} ${settled.tokens.out.symbol}`, color: "text-green-400" },
+                    { label: "MEV Saved", value: `${formatAmount(BigInt(settled.status.matchResult.mevSaved), settled.tokens.in.decimals, { maxFractionDigits: 6 })} ${settled.tokens.in.symbol}`, color: "text-yellow-400" },
                     { label: "Your Gas Cost", value: "$0.00", color: "text-cyan-400" },
                   ].map((stat) => (
                     <div key={stat.label} className="flex justify-between items-center py-2 border-b border-zinc-800">
@@ -738,8 +1823,16 @@ export default function Page() {
                   ))}
                 </div>
 
+                {settled.status.inclusionProof !== undefined && (
+                  <InclusionProofView
+                    inclusionProof={settled.status.inclusionProof}
+                    intentHash={settled.intentHash}
+                    merkleRoot={settled.proofVerification?.proof?.merkleRoot}
+                  />
+                )}
+
                 <motion.button
-                  onClick={resetSwap}
+                  onClick={() => setSettledHash(undefined)}
                   className="w-full py-3 bg-gradient-to-r from-purple-600 to-cyan-500 rounded-xl font-medium text-white"
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
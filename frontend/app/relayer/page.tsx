@@ -0,0 +1,231 @@
+"use client";
+
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  UniShield: Relayer Dashboard                                                 ║
+ * ║  Live RelayerAgent.stats for operators                                        ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { formatAmount } from "@/lib/amount";
+import { CONFIG } from "@/lib/config";
+import { NETWORK } from "@/lib/networks";
+import {
+  balanceLevel,
+  cumulativeMevSeries,
+  fetchRelayerStats,
+  relayerLiveness,
+  successRateBps,
+  type BalanceLevel,
+  type RelayerLiveness,
+  type RelayerStats,
+} from "@/lib/relayerStats";
+
+const LIVENESS_STYLES: Record<RelayerLiveness, { dot: string; label: string }> = {
+  live: { dot: "bg-green-400 animate-pulse", label: "Live" },
+  stale: { dot: "bg-yellow-400", label: "Stalled" },
+  down: { dot: "bg-red-500", label: "Unreachable" },
+};
+
+const BALANCE_WARNINGS: Partial<Record<BalanceLevel, { style: string; message: string }>> = {
+  low: {
+    style: "border-yellow-500/50 bg-yellow-500/10 text-yellow-300",
+    message: "Relayer wallet is running low, top it up before executions start failing",
+  },
+  critical: {
+    style: "border-red-500/50 bg-red-500/10 text-red-300",
+    message: "Relayer wallet can't cover much more gas, executions will fail until it is funded",
+  },
+  unknown: {
+    style: "border-zinc-700 bg-zinc-900/80 text-zinc-400",
+    message: "Relayer could not read its wallet balance from the RPC",
+  },
+};
+
+function formatAgo(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              COMPONENTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const StatCard = ({ label, value, detail, accent = "text-white" }: { label: string; value: string; detail?: string; accent?: string }) => (
+  <div className="p-4 bg-zinc-900/50 border border-zinc-800 rounded-2xl">
+    <span className="text-xs text-zinc-500 uppercase tracking-wider">{label}</span>
+    <div className={`mt-1 text-2xl font-mono ${accent}`}>{value}</div>
+    {detail && <div className="mt-1 text-xs text-zinc-500 font-mono">{detail}</div>}
+  </div>
+);
+
+/**
+ * Cumulative MEV saved as a step line, one step per execution
+ */
+const MevSavedChart = ({ stats }: { stats: RelayerStats }) => {
+  const points = cumulativeMevSeries(stats.mevSeries);
+  const width = 600;
+  const height = 160;
+
+  if (points.length === 0) {
+    return <div className="h-40 flex items-center justify-center text-sm text-zinc-600">No executions yet</div>;
+  }
+
+  const start = Math.min(points[0].timestamp, stats.startedAt);
+  const span = Math.max(stats.serverTime - start, 1);
+  const max = points[points.length - 1].total > BigInt(0) ? points[points.length - 1].total : BigInt(1);
+  const x = (t: number) => ((t - start) / span) * width;
+  const y = (v: bigint) => height - Number((v * BigInt(height - 8)) / max) - 4;
+
+  let path = `M 0 ${y(BigInt(0))}`;
+  for (let i = 0; i < points.length; i++) {
+    path += ` H ${x(points[i].timestamp)} V ${y(points[i].total)}`;
+  }
+  path += ` H ${width}`;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40" preserveAspectRatio="none">
+      <path d={`${path} V ${height} H 0 Z`} className="fill-green-500/10" />
+      <path d={path} className="stroke-green-400 fill-none" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      {points.map((point) => (
+        <circle key={point.timestamp} cx={x(point.timestamp)} cy={y(point.total)} r={3} className="fill-green-300">
+          <title>
+            ${formatAmount(point.total, 6, { maxFractionDigits: 2 })} at {new Date(point.timestamp).toLocaleTimeString()}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PAGE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export default function RelayerDashboard() {
+  const [stats, setStats] = useState<RelayerStats>();
+  const [error, setError] = useState<string>();
+  const [fetchedAt, setFetchedAt] = useState<number>();
+  const [clock, setClock] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const next = await fetchRelayerStats();
+        if (cancelled) return;
+        setStats(next);
+        setFetchedAt(Date.now());
+        setError(undefined);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Unknown error");
+      }
+    };
+    poll();
+    const pollTimer = setInterval(poll, CONFIG.RELAYER_STATS_POLL_MS);
+    const clockTimer = setInterval(() => setClock(Date.now()), 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(pollTimer);
+      clearInterval(clockTimer);
+    };
+  }, []);
+
+  const liveness: RelayerLiveness = !stats || error ? "down" : relayerLiveness(stats);
+  // Last loop in browser time: the relayer's lag behind its own clock, plus time since we fetched
+  const lastSeen =
+    stats && stats.lastLoopAt !== null && fetchedAt !== undefined
+      ? formatAgo(stats.serverTime - stats.lastLoopAt + (clock - fetchedAt))
+      : "never";
+  const rate = stats ? successRateBps(stats) : null;
+  const balance = stats ? balanceLevel(stats.wallet) : undefined;
+  const warning = balance ? BALANCE_WARNINGS[balance] : undefined;
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-white p-4 md:p-8">
+      <div className="max-w-6xl mx-auto relative">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold">
+              <span className="text-purple-400">Relayer</span> <span className="text-white">Dashboard</span>
+            </h1>
+            <p className="text-zinc-500 text-sm font-mono">{stats ? stats.relayer : NETWORK.relayer.statsUrl}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 px-3 py-1 bg-zinc-900/80 border border-zinc-800 rounded-lg text-xs font-mono">
+              <span className={`w-2 h-2 rounded-full ${LIVENESS_STYLES[liveness].dot}`} />
+              <span className="text-zinc-300">{LIVENESS_STYLES[liveness].label}</span>
+              <span className="text-zinc-500">• last seen {lastSeen}</span>
+            </div>
+            <a href="/" className="text-xs text-zinc-500 hover:text-cyan-400">
+              ← Swap
+            </a>
+          </div>
+        </motion.div>
+
+        {error && (
+          <div className="mb-4 px-4 py-2 rounded-xl border border-red-500/50 bg-red-500/10 text-sm text-red-300">
+            Stats endpoint unavailable: {error}
+            {stats && " (showing the last snapshot)"}
+          </div>
+        )}
+        {warning && stats && (
+          <div className={`mb-4 px-4 py-2 rounded-xl border text-sm ${warning.style}`}>
+            ⚠ {warning.message}
+            {stats.wallet.balance !== null && ` (${formatAmount(stats.wallet.balance, 18, { maxFractionDigits: 5 })} ETH)`}
+          </div>
+        )}
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <StatCard label="Proofs processed" value={stats.proofsProcessed.toString()} />
+              <StatCard
+                label="Success rate"
+                value={rate === null ? "—" : `${formatAmount(BigInt(rate), 2, { maxFractionDigits: 1 })}%`}
+                detail={`${stats.successfulExecutions} ok • ${stats.failedExecutions} failed`}
+                accent={rate === null ? "text-zinc-500" : rate >= 9500 ? "text-green-400" : rate >= 8000 ? "text-yellow-400" : "text-red-400"}
+              />
+              <StatCard
+                label="Queue depth"
+                value={stats.queueDepth.toString()}
+                accent={stats.queueDepth > 0 ? "text-cyan-400" : "text-white"}
+              />
+              <StatCard
+                label="Gas spent"
+                value={`${formatAmount(stats.totalGasSpent, 18, { maxFractionDigits: 5 })} ETH`}
+                detail={
+                  stats.wallet.balance === null
+                    ? "balance unknown"
+                    : `balance ${formatAmount(stats.wallet.balance, 18, { maxFractionDigits: 5 })} ETH`
+                }
+                accent={balance === "critical" ? "text-red-400" : balance === "low" ? "text-yellow-400" : "text-white"}
+              />
+            </div>
+
+            <div className="p-4 bg-zinc-900/50 border border-zinc-800 rounded-2xl">
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-xs text-zinc-500 uppercase tracking-wider">MEV saved</span>
+                <span className="text-green-400 font-mono">${formatAmount(stats.totalMevSaved, 6, { maxFractionDigits: 2 })}</span>
+              </div>
+              <MevSavedChart stats={stats} />
+              <div className="mt-2 flex justify-between text-xs text-zinc-600 font-mono">
+                <span>started {new Date(stats.startedAt).toLocaleTimeString()}</span>
+                <span>
+                  {stats.lastExecutionAt !== null
+                    ? `last execution ${formatAgo(stats.serverTime - stats.lastExecutionAt)}`
+                    : "no executions"}
+                </span>
+              </div>
+            </div>
+          </>
+        )}
+        {!stats && !error && <div className="text-sm text-zinc-500">Loading relayer stats…</div>}
+      </div>
+    </div>
+  );
+}
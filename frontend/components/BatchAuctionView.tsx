@@ -0,0 +1,165 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { formatAmount } from "@/lib/amount";
+import { cumulativeCurve, positionSide, type BatchSummary, type CurvePoint, type FillStatus } from "@/lib/batchSummary";
+import { clearingPriceToDisplay } from "@/lib/pipeline";
+
+const FILL_STYLES: Record<FillStatus, string> = {
+  full: "border-green-500/50 bg-green-500/10 text-green-400",
+  partial: "border-yellow-500/50 bg-yellow-500/10 text-yellow-300",
+  none: "border-zinc-700 bg-zinc-800/50 text-zinc-400",
+};
+
+const FILL_LABELS: Record<FillStatus, string> = {
+  full: "Fully filled",
+  partial: "Partially filled",
+  none: "Not matched",
+};
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = 8;
+
+/**
+ * Step path for a cumulative curve: each level extends the volume at its
+ * price, then drops (demand) or climbs (supply) to the next level
+ */
+function stepPath(points: CurvePoint[], x: (volume: bigint) => number, y: (price: bigint) => number): string {
+  if (points.length === 0) return "";
+  let path = `M ${x(BigInt(0))} ${y(points[0].price)}`;
+  points.forEach((point, i) => {
+    path += ` H ${x(point.volume)}`;
+    if (i + 1 < points.length) path += ` V ${y(points[i + 1].price)}`;
+  });
+  return path;
+}
+
+/**
+ * Aggregated buy and sell curves of one batch with its uniform clearing
+ * price, and where the user's own order landed
+ */
+export const BatchAuctionView = ({ summary }: { summary: BatchSummary }) => {
+  const { tokens, clearingPrice, position } = summary;
+  const demand = cumulativeCurve(summary.demand);
+  const supply = cumulativeCurve(summary.supply);
+
+  const formatPrice = (price: bigint) =>
+    formatAmount(clearingPriceToDisplay(price, tokens.in.decimals, tokens.out.decimals), 18, { maxFractionDigits: 2 });
+  const formatVolume = (volume: bigint) => formatAmount(volume, tokens.in.decimals, { maxFractionDigits: 2 });
+
+  const prices = [...demand, ...supply].map((point) => point.price);
+  if (clearingPrice > BigInt(0)) prices.push(clearingPrice);
+  if (position) prices.push(position.limitPrice);
+  const min = prices.reduce((m, p) => (p < m ? p : m), prices[0] ?? BigInt(0));
+  const max = prices.reduce((m, p) => (p > m ? p : m), prices[0] ?? BigInt(1));
+  const range = max > min ? max - min : BigInt(1);
+  const maxVolume = [...demand, ...supply].reduce((m, point) => (point.volume > m ? point.volume : m), BigInt(1));
+  const x = (volume: bigint) => PAD + Number((volume * BigInt(WIDTH - 2 * PAD)) / maxVolume);
+  const y = (price: bigint) => HEIGHT - PAD - Number(((price - min) * BigInt(HEIGHT - 2 * PAD)) / range);
+
+  // The user's order sits on its own side's curve, at the level its limit was rounded into
+  const ownLevel = !position
+    ? undefined
+    : position.side === "buy"
+    ? demand.find((point) => point.price <= position.limitPrice)
+    : supply.find((point) => point.price >= position.limitPrice);
+  const positionVolume = ownLevel?.volume ?? position?.amount ?? BigInt(0);
+
+  const side = positionSide(summary);
+  const note = !position
+    ? undefined
+    : position.fill === "partial"
+    ? "Your limit made the order eligible, but matched supply ran out before all of it filled"
+    : side === "inside"
+    ? `Your ${position.side} limit was at or past the clearing price, so the order took part in the batch`
+    : clearingPrice > BigInt(0)
+    ? `The batch cleared ${position.side === "buy" ? "above" : "below"} your limit; the order waits for a later batch or its deadline`
+    : "No buy and sell crossed in this batch";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-3 px-4 py-3 rounded-2xl border border-zinc-800 bg-zinc-900/50 text-xs font-mono"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-purple-300 uppercase">
+          Batch {summary.batchId.slice(0, 10)}… • {summary.orders} orders
+        </span>
+        <span className="text-zinc-400">
+          {clearingPrice > BigInt(0)
+            ? `Clears at ${formatPrice(clearingPrice)} ${tokens.in.symbol}/${tokens.out.symbol} • ${formatVolume(summary.matchedVolume)} ${tokens.in.symbol} matched`
+            : "No clearing price"}
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48" preserveAspectRatio="none">
+        <path d={stepPath(demand, x, y)} className="stroke-green-400 fill-none" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <path d={stepPath(supply, x, y)} className="stroke-red-400 fill-none" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {clearingPrice > BigInt(0) && (
+          <line
+            x1={0}
+            x2={WIDTH}
+            y1={y(clearingPrice)}
+            y2={y(clearingPrice)}
+            className="stroke-cyan-400"
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>{`Clearing price ${formatPrice(clearingPrice)} ${tokens.in.symbol}/${tokens.out.symbol}`}</title>
+          </line>
+        )}
+        {position && (
+          <g>
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={y(position.limitPrice)}
+              y2={y(position.limitPrice)}
+              className="stroke-purple-400/60"
+              strokeDasharray="2 4"
+              vectorEffect="non-scaling-stroke"
+            />
+            <circle cx={x(positionVolume)} cy={y(position.limitPrice)} r={4} className="fill-purple-400">
+              <title>{`Your ${position.side}: ${formatVolume(position.amount)} ${tokens.in.symbol} at ${formatPrice(position.limitPrice)}`}</title>
+            </circle>
+          </g>
+        )}
+      </svg>
+
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-zinc-500">
+        <span>
+          <span className="text-green-400">━</span> demand
+        </span>
+        <span>
+          <span className="text-red-400">━</span> supply
+        </span>
+        <span>
+          <span className="text-cyan-400">┅</span> clearing price
+        </span>
+        {position && (
+          <span>
+            <span className="text-purple-400">●</span> your limit
+          </span>
+        )}
+        <span className="ml-auto">
+          {formatPrice(min)} – {formatPrice(max)} {tokens.in.symbol}/{tokens.out.symbol} • levels rounded, no single order shown
+        </span>
+      </div>
+
+      {position && (
+        <div className={`mt-3 px-3 py-2 rounded-xl border ${FILL_STYLES[position.fill]}`}>
+          <div className="flex justify-between gap-4">
+            <span className="font-semibold">{FILL_LABELS[position.fill]}</span>
+            <span>
+              {formatVolume(position.filled)} / {formatVolume(position.amount)} {tokens.in.symbol} at limit {formatPrice(position.limitPrice)}
+            </span>
+          </div>
+          {note && <div className="mt-1 text-zinc-400">{note}</div>}
+        </div>
+      )}
+    </motion.div>
+  );
+};
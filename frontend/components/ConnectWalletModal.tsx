@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { WalletConnector } from "@/lib/connectors";
+
+export const ConnectWalletModal = ({
+  isOpen,
+  connectors,
+  onSelect,
+  onClose,
+}: {
+  isOpen: boolean;
+  connectors: WalletConnector[];
+  onSelect: (connector: WalletConnector) => void;
+  onClose: () => void;
+}) => (
+  <AnimatePresence>
+    {isOpen && (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.9, y: 20 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-zinc-900 border border-zinc-800 rounded-3xl p-6 max-w-sm w-full"
+        >
+          <h3 className="text-lg font-semibold text-white mb-4">Connect Wallet</h3>
+          <div className="space-y-2">
+            {connectors.map((connector) => (
+              <motion.button
+                key={connector.id}
+                onClick={() => onSelect(connector)}
+                className="flex items-center gap-3 w-full px-4 py-3 bg-zinc-900/70 border border-zinc-800 rounded-xl hover:border-zinc-700 transition-colors"
+                whileHover={{ x: 4 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <span className="text-xl">{connector.icon}</span>
+                <span className="font-medium text-white">{connector.name}</span>
+                {connector.id === "demo" && (
+                  <span className="ml-auto text-[10px] font-mono text-zinc-500">THROWAWAY KEY</span>
+                )}
+              </motion.button>
+            ))}
+          </div>
+        </motion.div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
@@ -0,0 +1,81 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { serializeMerkleProof, verifyBatchInclusion } from "@/lib/merkle";
+
+const short = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+export const InclusionProofView = ({
+  inclusionProof,
+  intentHash,
+  merkleRoot,
+}: {
+  inclusionProof: unknown;
+  intentHash: string;
+  merkleRoot?: string;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const check = merkleRoot
+    ? verifyBatchInclusion(inclusionProof, intentHash, merkleRoot)
+    : { ok: false, detail: "No signed merkleRoot to check against", proof: undefined };
+  const proof = check.proof;
+
+  const handleCopy = async () => {
+    if (!proof) return;
+    await navigator.clipboard.writeText(serializeMerkleProof(proof));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="mb-6 rounded-xl border border-zinc-800 text-sm">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between px-3 py-2">
+        <span className="text-zinc-400">Batch inclusion proof</span>
+        <span className={`font-mono text-xs ${check.ok ? "text-green-400" : "text-yellow-400"}`}>
+          {check.ok ? "✓ included" : "⚠ not proven"} <span className="text-zinc-600">{isOpen ? "▴" : "▾"}</span>
+        </span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-1 font-mono text-xs">
+              <div className={check.ok ? "text-green-400/80" : "text-yellow-400/80"}>{check.detail}</div>
+              {proof && (
+                <>
+                  <div className="flex justify-between text-zinc-500">
+                    <span>leaf #{proof.index}</span>
+                    <span className="text-cyan-400">{short(proof.leaf)}</span>
+                  </div>
+                  {proof.siblings.map((sibling, depth) => (
+                    <div key={depth} className="flex justify-between text-zinc-500">
+                      <span>
+                        {"  ".repeat(depth)}↳ level {depth + 1} · sibling {(proof.index >> depth) % 2 === 0 ? "R" : "L"}
+                      </span>
+                      <span className="text-zinc-400">{short(sibling)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-zinc-500 pt-1 border-t border-zinc-800">
+                    <span>signed root</span>
+                    <span className="text-white">{merkleRoot ? short(merkleRoot) : "—"}</span>
+                  </div>
+                  <button onClick={handleCopy} className="mt-1 text-cyan-400 hover:text-cyan-300">
+                    {copied ? "Copied ✓" : "Copy proof JSON"}
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { formatAmount } from "@/lib/amount";
+import { networkForChain } from "@/lib/networks";
+import {
+  exportHistoryCsv,
+  exportHistoryJson,
+  INTENT_STATUSES,
+  intentStatus,
+  type IntentRecord,
+  type IntentStatus,
+} from "@/lib/intentHistory";
+import { formatCountdown, secondsUntil } from "@/lib/intentSettings";
+import { formatLogTime } from "@/lib/relayerLogs";
+
+const STATUS_STYLES: Record<IntentStatus, string> = {
+  open: "bg-cyan-500/10 border-cyan-500/30 text-cyan-400",
+  matched: "bg-green-500/10 border-green-500/30 text-green-400",
+  expired: "bg-zinc-800 border-zinc-700 text-zinc-400",
+  cancelled: "bg-yellow-500/10 border-yellow-500/30 text-yellow-400",
+  failed: "bg-red-500/10 border-red-500/30 text-red-400",
+};
+
+const download = (contents: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const IntentHistoryPanel = ({
+  records,
+  persistent,
+  onCancel,
+  onCancelOnChain,
+  cancelling,
+}: {
+  records: IntentRecord[];
+  persistent: boolean;
+  onCancel?: (record: IntentRecord) => void;
+  onCancelOnChain?: (record: IntentRecord) => void;
+  cancelling?: string | null;
+}) => {
+  const [filter, setFilter] = useState<IntentStatus | "all">("all");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Open intents count down to their deadline and expire without any new event
+  const hasOpen = records.some((r) => intentStatus(r, now) === "open");
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), hasOpen ? 1000 : 15000);
+    return () => clearInterval(timer);
+  }, [hasOpen]);
+
+  const counts = INTENT_STATUSES.reduce(
+    (acc, status) => ({ ...acc, [status]: records.filter((r) => intentStatus(r, now) === status).length }),
+    {} as Record<IntentStatus, number>
+  );
+  const visible = filter === "all" ? records : records.filter((r) => intentStatus(r, now) === filter);
+  const stamp = new Date(now).toISOString().slice(0, 10);
+
+  return (
+    <div className="rounded-3xl border border-zinc-800 bg-zinc-900/50 p-6 backdrop-blur-xl">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-semibold">Intent History</h3>
+          {!persistent && (
+            <span className="text-[10px] font-mono text-yellow-400/80" title="IndexedDB unavailable, history is kept in memory">
+              NOT SAVED
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-xs font-mono">
+          <button
+            onClick={() => download(exportHistoryCsv(visible, now), `unishield-intents-${stamp}.csv`, "text/csv")}
+            disabled={visible.length === 0}
+            className="px-2 py-1 rounded-lg border border-zinc-800 text-zinc-400 hover:text-white disabled:opacity-40"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => download(exportHistoryJson(visible, now), `unishield-intents-${stamp}.json`, "application/json")}
+            disabled={visible.length === 0}
+            className="px-2 py-1 rounded-lg border border-zinc-800 text-zinc-400 hover:text-white disabled:opacity-40"
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(["all", ...INTENT_STATUSES] as const).map((status) => (
+          <button
+            key={status}
+            onClick={() => setFilter(status)}
+            className={`px-3 py-1 rounded-lg text-xs font-mono uppercase border transition-colors ${
+              filter === status
+                ? "bg-cyan-500/20 border-cyan-500 text-cyan-400"
+                : "bg-zinc-900 border-zinc-800 text-zinc-500 hover:border-zinc-700"
+            }`}
+          >
+            {status} <span className="text-zinc-600">{status === "all" ? records.length : counts[status]}</span>
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="py-8 text-center text-sm text-zinc-600">
+          {records.length === 0 ? "Signed intents will appear here" : `No ${filter} intents`}
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {visible.map((record) => {
+            const status = intentStatus(record, now);
+            const { signed, tokens, matchResult } = record;
+            const explorerUrl = networkForChain(record.chainId)?.explorerUrl;
+            const isOpen = expanded === record.intentHash;
+            return (
+              <div key={record.intentHash} className="rounded-xl border border-zinc-800 text-sm">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : record.intentHash)}
+                  className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left"
+                >
+                  <span className={`px-2 py-0.5 rounded border text-[10px] font-mono uppercase ${STATUS_STYLES[status]}`}>
+                    {status}
+                  </span>
+                  {record.plan && (
+                    <span className="text-[10px] font-mono uppercase text-purple-300/80">
+                      {record.plan.kind} {record.plan.index + 1}/{record.plan.count}
+                    </span>
+                  )}
+                  <span className="flex-1 font-mono text-zinc-300 truncate">
+                    {formatAmount(BigInt(signed.amountIn), tokens.in.decimals, { maxFractionDigits: 6 })} {tokens.in.symbol} →{" "}
+                    {matchResult
+                      ? formatAmount(BigInt(matchResult.amountOut), tokens.out.decimals, { maxFractionDigits: 6 })
+                      : `≥ ${formatAmount(BigInt(signed.minAmountOut), tokens.out.decimals, { maxFractionDigits: 6 })}`}{" "}
+                    {tokens.out.symbol}
+                  </span>
+                  {status === "open" ? (
+                    <span className="text-xs text-cyan-400/80 font-mono">⌛ {formatCountdown(secondsUntil(BigInt(signed.deadline), now))}</span>
+                  ) : (
+                    <span className="text-xs text-zinc-600 font-mono">{new Date(record.createdAt).toLocaleString()}</span>
+                  )}
+                </button>
+
+                <AnimatePresence>
+                  {isOpen && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="overflow-hidden"
+                    >
+                      <div className="px-3 pb-3 space-y-1 font-mono text-xs text-zinc-500">
+                        <div className="flex justify-between">
+                          <span>intent</span>
+                          <span className="text-zinc-400">{record.intentHash.slice(0, 18)}…</span>
+                        </div>
+                        {record.plan && (
+                          <div className="flex justify-between">
+                            <span>{record.plan.kind} order</span>
+                            <span className="text-zinc-400">
+                              {record.plan.planId} • child {record.plan.index + 1} of {record.plan.count}
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span>nonce / deadline</span>
+                          <span className="text-zinc-400">
+                            {signed.nonce} / {new Date(Number(signed.deadline) * 1000).toLocaleString()}
+                          </span>
+                        </div>
+                        {record.txHash && (
+                          <div className="flex justify-between">
+                            <span>tx</span>
+                            {explorerUrl ? (
+                              <a
+                                href={`${explorerUrl}/tx/${record.txHash}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-cyan-400 hover:text-cyan-300"
+                              >
+                                {record.txHash.slice(0, 18)}…
+                              </a>
+                            ) : (
+                              <span className="text-zinc-400">{record.txHash.slice(0, 18)}…</span>
+                            )}
+                          </div>
+                        )}
+                        {record.error && <div className="text-red-400/80">{record.error}</div>}
+                        {status === "open" && (onCancel || onCancelOnChain) && (
+                          <div className="flex gap-3 py-1">
+                            {onCancel && (
+                              <button
+                                onClick={() => onCancel(record)}
+                                disabled={cancelling === record.intentHash}
+                                className="text-yellow-400 hover:text-yellow-300 disabled:opacity-50"
+                              >
+                                {cancelling === record.intentHash
+                                  ? "Cancelling…"
+                                  : record.stage === "signed" && record.plan
+                                  ? "Cancel before release"
+                                  : "Cancel (signed message)"}
+                              </button>
+                            )}
+                            {onCancelOnChain && (
+                              <button
+                                onClick={() => onCancelOnChain(record)}
+                                disabled={cancelling === record.intentHash}
+                                className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                              >
+                                Invalidate nonce on-chain
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        <div className="pt-1 border-t border-zinc-800">
+                          {record.transitions.map((transition, i) => (
+                            <div key={i} className="flex gap-2">
+                              <span className="text-zinc-600">{formatLogTime(transition.at)}</span>
+                              <span className="text-zinc-400 uppercase">{transition.stage}</span>
+                              <span className="truncate">{transition.message}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
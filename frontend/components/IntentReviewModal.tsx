@@ -0,0 +1,97 @@
+"use client";
+
+import React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import type { IntentReview, ReviewFinding } from "@/lib/intentReview";
+
+const FINDING_STYLES: Record<ReviewFinding["severity"], string> = {
+  blocking: "border-red-500/50 bg-red-500/10 text-red-300",
+  warning: "border-yellow-500/50 bg-yellow-500/10 text-yellow-300",
+};
+
+export const IntentReviewModal = ({
+  review,
+  title,
+  onConfirm,
+  onClose,
+}: {
+  review: IntentReview | null;
+  title: string;
+  onConfirm: () => void;
+  onClose: () => void;
+}) => (
+  <AnimatePresence>
+    {review && (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, y: 20 }}
+          animate={{ scale: 1, y: 0 }}
+          exit={{ scale: 0.9, y: 20 }}
+          onClick={(e) => e.stopPropagation()}
+          className="bg-zinc-900 border border-zinc-800 rounded-3xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        >
+          <h3 className="text-lg font-semibold text-white mb-1">Review {title}</h3>
+          <p className="text-xs text-zinc-500 mb-4">
+            {review.intents.length > 1
+              ? `You will sign ${review.intents.length} intents. Each one authorizes exactly this, and nothing is sent until you confirm.`
+              : "Your signature authorizes exactly this. Nothing is sent until you confirm."}
+          </p>
+
+          {review.findings.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {review.findings.map((finding) => (
+                <div key={finding.id} className={`px-3 py-2 rounded-xl border text-sm ${FINDING_STYLES[finding.severity]}`}>
+                  <span className="font-semibold">{finding.severity === "blocking" ? "⛔ Blocked" : "⚠ Warning"}:</span> {finding.detail}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {review.intents.map((fields, i) => (
+              <div key={i} className="p-3 bg-zinc-900/70 border border-zinc-800 rounded-xl text-sm">
+                {review.intents.length > 1 && (
+                  <div className="text-xs text-zinc-500 uppercase tracking-wider mb-2">
+                    Intent {i + 1} of {review.intents.length}
+                  </div>
+                )}
+                {fields.map(({ label, value }) => (
+                  <div key={label} className="flex justify-between gap-4 py-0.5">
+                    <span className="text-zinc-500 shrink-0">{label}</span>
+                    <span className="text-zinc-200 font-mono text-right break-all">{value}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-5 flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl border border-zinc-800 text-zinc-300 hover:border-zinc-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={review.blocked}
+              className={`flex-1 py-3 rounded-xl font-semibold transition-all ${
+                review.blocked
+                  ? "bg-zinc-800 text-zinc-500 cursor-not-allowed"
+                  : "bg-gradient-to-r from-purple-600 via-cyan-500 to-green-500 text-white"
+              }`}
+            >
+              {review.blocked ? "Fix the issues above" : review.intents.length > 1 ? `Sign ${review.intents.length} intents` : "Sign intent"}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
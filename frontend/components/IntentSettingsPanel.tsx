@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { formatAmount, validateAmount } from "@/lib/amount";
+import {
+  MAX_DEADLINE_MINUTES,
+  MIN_DEADLINE_MINUTES,
+  SLIPPAGE_PRESETS_BPS,
+  type IntentSettings,
+} from "@/lib/intentSettings";
+import type { Token } from "@/lib/types";
+
+export const IntentSettingsPanel = ({
+  isOpen,
+  settings,
+  onChange,
+  minAmountOut,
+  onMinAmountOutChange,
+  tokenOut,
+  disabled,
+}: {
+  isOpen: boolean;
+  settings: IntentSettings;
+  onChange: (settings: IntentSettings) => void;
+  minAmountOut: string;
+  onMinAmountOutChange: (value: string) => void;
+  tokenOut: Token;
+  disabled?: boolean;
+}) => {
+  const [customSlippage, setCustomSlippage] = useState("");
+
+  const slippageCheck = customSlippage ? validateAmount(customSlippage, 2, { allowZero: true }) : {};
+  const minCheck = minAmountOut ? validateAmount(minAmountOut, tokenOut.decimals) : {};
+
+  const handleCustomSlippage = (value: string) => {
+    setCustomSlippage(value);
+    const { value: bps } = validateAmount(value, 2, { allowZero: true });
+    if (bps !== undefined) onChange({ ...settings, slippageBps: Number(bps) });
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          className="mb-4 relative z-10 overflow-hidden"
+        >
+          <div className="p-4 bg-zinc-900/70 rounded-2xl border border-zinc-800 space-y-4">
+            <div>
+              <span className="text-xs text-zinc-500 uppercase tracking-wider mb-2 block">Max Slippage</span>
+              <div className="flex items-center gap-2">
+                {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                  <button
+                    key={bps}
+                    onClick={() => {
+                      setCustomSlippage("");
+                      onChange({ ...settings, slippageBps: bps });
+                    }}
+                    disabled={disabled}
+                    className={`px-3 py-1 rounded-lg text-sm font-mono border transition-colors disabled:opacity-50 ${
+                      settings.slippageBps === bps && !customSlippage
+                        ? "bg-cyan-500/20 border-cyan-500 text-cyan-400"
+                        : "bg-zinc-900 border-zinc-800 text-zinc-400 hover:border-zinc-700"
+                    }`}
+                  >
+                    {formatAmount(BigInt(bps), 2)}%
+                  </button>
+                ))}
+                <div className="flex items-center flex-1 px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-lg">
+                  <input
+                    value={customSlippage}
+                    onChange={(e) => handleCustomSlippage(e.target.value)}
+                    disabled={disabled}
+                    placeholder="Custom"
+                    className="w-full bg-transparent text-sm font-mono text-white placeholder-zinc-600 focus:outline-none"
+                  />
+                  <span className="text-zinc-500 text-sm">%</span>
+                </div>
+              </div>
+              {slippageCheck.error && <span className="block mt-1 text-xs text-red-400">{slippageCheck.error.message}</span>}
+            </div>
+
+            <div>
+              <span className="text-xs text-zinc-500 uppercase tracking-wider mb-2 block">Deadline</span>
+              <div className="flex items-center gap-2 px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-lg w-40">
+                <input
+                  type="number"
+                  min={MIN_DEADLINE_MINUTES}
+                  max={MAX_DEADLINE_MINUTES}
+                  value={settings.deadlineMinutes}
+                  onChange={(e) => onChange({ ...settings, deadlineMinutes: Math.floor(Number(e.target.value)) })}
+                  disabled={disabled}
+                  className="w-full bg-transparent text-sm font-mono text-white focus:outline-none"
+                />
+                <span className="text-zinc-500 text-sm">min</span>
+              </div>
+            </div>
+
+            <div>
+              <span className="text-xs text-zinc-500 uppercase tracking-wider mb-2 block">
+                Minimum Received <span className="normal-case text-zinc-600">(optional, overrides quote)</span>
+              </span>
+              <div className="flex items-center gap-2 px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-lg">
+                <input
+                  value={minAmountOut}
+                  onChange={(e) => onMinAmountOutChange(e.target.value)}
+                  disabled={disabled}
+                  placeholder="From quote"
+                  className="w-full bg-transparent text-sm font-mono text-white placeholder-zinc-600 focus:outline-none"
+                />
+                <span className="text-zinc-500 text-sm">{tokenOut.symbol}</span>
+              </div>
+              {minCheck.error && <span className="block mt-1 text-xs text-red-400">{minCheck.error.message}</span>}
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
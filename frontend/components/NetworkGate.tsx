@@ -0,0 +1,19 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+/**
+ * Renders its children only once mounted. NETWORK is picked from the query
+ * string or localStorage, which the server can't see, so the server always
+ * renders the build default; rendering nothing until the client has taken
+ * over keeps a user on another network from hydrating mismatched markup.
+ */
+export const NetworkGate = ({ children }: { children: React.ReactNode }) => {
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  return mounted ? <>{children}</> : null;
+};
@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { formatAmount } from "@/lib/amount";
+import { intentStatus, type IntentRecord, type IntentStatus } from "@/lib/intentHistory";
+import type { PlanProgress } from "@/lib/orderPlans";
+import type { Token } from "@/lib/types";
+
+const SEGMENT_STYLES: Record<IntentStatus, string> = {
+  open: "bg-cyan-500/40",
+  matched: "bg-green-500",
+  expired: "bg-zinc-600",
+  cancelled: "bg-yellow-500/60",
+  failed: "bg-red-500",
+};
+
+/**
+ * One bar segment per child intent, with fill totals across the order
+ */
+export const OrderPlanProgress = ({
+  progress,
+  records,
+  tokenIn,
+  tokenOut,
+  note,
+}: {
+  progress: PlanProgress;
+  records: IntentRecord[];
+  tokenIn: Token;
+  tokenOut: Token;
+  note?: string;
+}) => {
+  const children = records
+    .filter((record) => record.plan?.planId === progress.planId)
+    .sort((a, b) => a.plan!.index - b.plan!.index);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-3 px-4 py-3 rounded-2xl border border-zinc-800 bg-zinc-900/50 text-xs font-mono"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-purple-300 uppercase">
+          {progress.kind} order • {progress.filled}/{progress.count} filled
+        </span>
+        <span className="text-zinc-400">
+          {formatAmount(progress.amountInFilled, tokenIn.decimals, { maxFractionDigits: 6 })} /{" "}
+          {formatAmount(progress.amountIn, tokenIn.decimals, { maxFractionDigits: 6 })} {tokenIn.symbol} →{" "}
+          {formatAmount(progress.amountOutFilled, tokenOut.decimals, { maxFractionDigits: 6 })} {tokenOut.symbol}
+        </span>
+      </div>
+      <div className="flex gap-1">
+        {children.map((record) => {
+          const status = intentStatus(record);
+          return (
+            <div
+              key={record.intentHash}
+              title={`#${record.plan!.index + 1} ${status}`}
+              className={`h-2 flex-1 rounded-full ${SEGMENT_STYLES[status]}`}
+            />
+          );
+        })}
+      </div>
+      {note && <div className="mt-2 text-zinc-500">{note}</div>}
+    </motion.div>
+  );
+};
@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useState } from "react";
+import { formatAmount, validateAmount } from "@/lib/amount";
+import {
+  MAX_INTERVAL_MINUTES,
+  MAX_SLICES,
+  MIN_INTERVAL_MINUTES,
+  MIN_SLICES,
+  ORDER_KINDS,
+  splitAmounts,
+  type OrderTerms,
+} from "@/lib/orderPlans";
+import type { OrderKind, Token } from "@/lib/types";
+
+const KIND_LABELS: Record<OrderKind, string> = {
+  market: "Market",
+  limit: "Limit",
+  split: "Split",
+};
+
+export const OrderTypeSelector = ({
+  terms,
+  onChange,
+  tokenIn,
+  tokenOut,
+  amountIn,
+  marketPrice,
+  suggestedSlices,
+  disabled,
+}: {
+  terms: OrderTerms;
+  onChange: (terms: OrderTerms) => void;
+  tokenIn: Token;
+  tokenOut: Token;
+  amountIn?: bigint;
+  marketPrice?: bigint; // tokenOut base units per whole tokenIn
+  suggestedSlices?: number; // set when one fill would be MEDIUM MEV risk
+  disabled?: boolean;
+}) => {
+  const [limitInput, setLimitInput] = useState("");
+  const limitCheck = limitInput ? validateAmount(limitInput, tokenOut.decimals) : {};
+
+  const handleLimit = (value: string) => {
+    setLimitInput(value);
+    onChange({ ...terms, limitPrice: validateAmount(value, tokenOut.decimals).value });
+  };
+
+  // Positive when the limit asks for more than the market gives
+  const limitVsMarketBps =
+    terms.limitPrice !== undefined && marketPrice
+      ? Number(((terms.limitPrice - marketPrice) * BigInt(10000)) / marketPrice)
+      : undefined;
+  const slice = amountIn !== undefined && terms.slices >= MIN_SLICES ? splitAmounts(amountIn, terms.slices)[0] : undefined;
+
+  return (
+    <div className="mb-4 relative z-10">
+      <div className="flex gap-2 mb-2">
+        {ORDER_KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => onChange({ ...terms, kind })}
+            disabled={disabled}
+            className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-mono uppercase border transition-colors disabled:opacity-50 ${
+              terms.kind === kind
+                ? "bg-purple-500/20 border-purple-500 text-purple-300"
+                : "bg-zinc-900 border-zinc-800 text-zinc-500 hover:border-zinc-700"
+            }`}
+          >
+            {KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {terms.kind === "limit" && (
+        <div className="p-3 bg-zinc-900/70 rounded-xl border border-zinc-800 space-y-1">
+          <span className="text-xs text-zinc-500 uppercase tracking-wider block">Limit Price</span>
+          <div className="flex items-center gap-2 text-sm font-mono">
+            <span className="text-zinc-500 whitespace-nowrap">1 {tokenIn.symbol} =</span>
+            <input
+              value={limitInput}
+              onChange={(e) => handleLimit(e.target.value)}
+              disabled={disabled}
+              placeholder={marketPrice ? formatAmount(marketPrice, tokenOut.decimals, { maxFractionDigits: 6 }) : "0.00"}
+              className="w-full bg-transparent text-white placeholder-zinc-600 focus:outline-none"
+            />
+            <span className="text-zinc-500">{tokenOut.symbol}</span>
+          </div>
+          {limitCheck.error ? (
+            <span className="block text-xs text-red-400">{limitCheck.error.message}</span>
+          ) : (
+            <span className="block text-xs text-zinc-500">
+              Rests across batches until filled at this price or better, or the deadline passes
+              {limitVsMarketBps !== undefined && (
+                <span className={limitVsMarketBps > 0 ? "text-yellow-400" : "text-green-400"}>
+                  {" "}• {formatAmount(BigInt(Math.abs(limitVsMarketBps)), 2)}% {limitVsMarketBps > 0 ? "above" : "below"} market
+                </span>
+              )}
+            </span>
+          )}
+        </div>
+      )}
+
+      {terms.kind === "split" && (
+        <div className="p-3 bg-zinc-900/70 rounded-xl border border-zinc-800 space-y-2">
+          <div className="flex gap-3">
+            <label className="flex-1">
+              <span className="text-xs text-zinc-500 uppercase tracking-wider block mb-1">Slices</span>
+              <input
+                type="number"
+                min={MIN_SLICES}
+                max={MAX_SLICES}
+                value={terms.slices}
+                onChange={(e) => onChange({ ...terms, slices: Math.floor(Number(e.target.value)) })}
+                disabled={disabled}
+                className="w-full px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-lg text-sm font-mono text-white focus:outline-none"
+              />
+            </label>
+            <label className="flex-1">
+              <span className="text-xs text-zinc-500 uppercase tracking-wider block mb-1">Every</span>
+              <div className="flex items-center gap-2 px-3 py-1 bg-zinc-900 border border-zinc-800 rounded-lg">
+                <input
+                  type="number"
+                  min={MIN_INTERVAL_MINUTES}
+                  max={MAX_INTERVAL_MINUTES}
+                  value={terms.intervalMinutes}
+                  onChange={(e) => onChange({ ...terms, intervalMinutes: Math.floor(Number(e.target.value)) })}
+                  disabled={disabled}
+                  className="w-full bg-transparent text-sm font-mono text-white focus:outline-none"
+                />
+                <span className="text-zinc-500 text-sm">min</span>
+              </div>
+            </label>
+          </div>
+          <span className="block text-xs text-zinc-500">
+            {slice !== undefined
+              ? `${terms.slices} intents of ~${formatAmount(slice, tokenIn.decimals, { maxFractionDigits: 6 })} ${tokenIn.symbol}, one signature each`
+              : "Each slice is a separate intent, one signature each"}
+            {suggestedSlices !== undefined && terms.slices < suggestedSlices && (
+              <button
+                onClick={() => onChange({ ...terms, slices: suggestedSlices })}
+                disabled={disabled}
+                className="text-yellow-400 hover:text-yellow-300"
+              >
+                {" "}• use {suggestedSlices} to stay under the MEV risk threshold
+              </button>
+            )}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
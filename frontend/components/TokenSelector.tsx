@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { isAddress } from "ethers";
+import { formatAmount } from "@/lib/amount";
+import type { Token } from "@/lib/types";
+
+export const TokenSelector = ({
+  selected,
+  tokens,
+  balances,
+  onSelect,
+  onImport,
+  label,
+  disabled,
+}: {
+  selected: Token;
+  tokens: Token[];
+  balances: Record<string, bigint>;
+  onSelect: (token: Token) => void;
+  onImport: (address: string) => Promise<Token>;
+  label: string;
+  disabled?: boolean;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState("");
+
+  const q = query.trim().toLowerCase();
+  const matches = tokens.filter(
+    (t) =>
+      t.address !== selected.address &&
+      (!q || t.symbol.toLowerCase().includes(q) || t.name.toLowerCase().includes(q) || t.address.toLowerCase() === q)
+  );
+  const canImport = isAddress(query.trim()) && matches.length === 0 && query.trim().toLowerCase() !== selected.address.toLowerCase();
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery("");
+    setImportError("");
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError("");
+    try {
+      onSelect(await onImport(query.trim()));
+      close();
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <span className="text-xs text-zinc-500 uppercase tracking-wider mb-1 block">{label}</span>
+      <motion.button
+        onClick={() => !disabled && (isOpen ? close() : setIsOpen(true))}
+        disabled={disabled}
+        className="flex items-center gap-2 px-3 py-2 bg-zinc-900/80 rounded-lg border border-zinc-800 hover:border-zinc-700 transition-colors min-w-[130px] disabled:opacity-50"
+        whileTap={!disabled ? { scale: 0.98 } : {}}
+      >
+        <span className="text-xl">{selected.icon}</span>
+        <span className="font-medium text-white">{selected.symbol}</span>
+        <motion.span animate={{ rotate: isOpen ? 180 : 0 }} className="text-zinc-500 ml-auto">
+          ▾
+        </motion.span>
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            className="absolute top-full left-0 mt-2 w-64 bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden z-50 shadow-xl"
+          >
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search name or paste address"
+              className="w-full px-3 py-2 bg-zinc-950 border-b border-zinc-800 text-sm text-white placeholder-zinc-600 focus:outline-none"
+            />
+            <div className="max-h-60 overflow-y-auto">
+              {matches.map((token) => {
+                const balance = balances[token.address.toLowerCase()];
+                return (
+                  <motion.button
+                    key={token.address}
+                    onClick={() => {
+                      onSelect(token);
+                      close();
+                    }}
+                    className="flex items-center gap-2 w-full px-3 py-2 hover:bg-zinc-800 transition-colors"
+                    whileHover={{ x: 4 }}
+                  >
+                    <span className="text-xl">{token.icon}</span>
+                    <span className="font-medium text-white">{token.symbol}</span>
+                    {token.custom && <span className="text-[10px] font-mono text-yellow-500/80">IMPORTED</span>}
+                    <span className="ml-auto text-xs font-mono text-zinc-500">
+                      {balance !== undefined ? formatAmount(balance, token.decimals, { maxFractionDigits: 6 }) : ""}
+                    </span>
+                  </motion.button>
+                );
+              })}
+              {canImport && (
+                <button
+                  onClick={handleImport}
+                  disabled={importing}
+                  className="w-full px-3 py-2 text-sm text-cyan-400 hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                >
+                  {importing ? "Reading token..." : "Import token by address"}
+                </button>
+              )}
+              {!canImport && matches.length === 0 && (
+                <div className="px-3 py-2 text-sm text-zinc-600">No tokens found</div>
+              )}
+              {importError && <div className="px-3 py-2 text-xs text-red-400">{importError}</div>}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
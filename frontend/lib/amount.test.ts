@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  AmountError,
+  amountPlaceholder,
+  formatAmount,
+  hasGrouping,
+  parseAmount,
+  toInputString,
+  validateAmount,
+  type AmountErrorCode,
+} from "./amount";
+
+const codeOf = (input: string, decimals: number, locale?: string): AmountErrorCode | undefined =>
+  validateAmount(input, decimals, { locale }).error?.code;
+
+describe("parseAmount", () => {
+  it("parses whole and fractional amounts into base units", () => {
+    expect(parseAmount("1", 6)).toBe(BigInt(1000000));
+    expect(parseAmount("1.5", 6)).toBe(BigInt(1500000));
+    expect(parseAmount(".5", 6)).toBe(BigInt(500000));
+    expect(parseAmount("5.", 6)).toBe(BigInt(5000000));
+    expect(parseAmount("0.000001", 6)).toBe(BigInt(1));
+    expect(parseAmount("  42  ", 0)).toBe(BigInt(42));
+    expect(parseAmount("123456789.123456789123456789", 18)).toBe(BigInt("123456789123456789123456789"));
+  });
+
+  it("accepts exactly as many decimals as the token has", () => {
+    expect(parseAmount("1.123456", 6)).toBe(BigInt(1123456));
+    expect(codeOf("1.1234567", 6)).toBe("TOO_MANY_DECIMALS");
+    expect(codeOf("1.1", 0)).toBe("TOO_MANY_DECIMALS");
+  });
+
+  it("never rounds excess precision away", () => {
+    expect(() => parseAmount("0.0000001", 6)).toThrow(AmountError);
+  });
+
+  it.each<[string, AmountErrorCode]>([
+    ["", "EMPTY"],
+    ["   ", "EMPTY"],
+    [".", "EMPTY"],
+    ["-1", "NEGATIVE"],
+    ["-0.5", "NEGATIVE"],
+    ["1e18", "EXPONENT"],
+    ["1E3", "EXPONENT"],
+    ["12a", "INVALID_CHARACTER"],
+    ["$5", "INVALID_CHARACTER"],
+    ["+5", "INVALID_CHARACTER"],
+    ["1.2.3", "MULTIPLE_DECIMAL_POINTS"],
+    ["1,00", "INVALID_GROUPING"],
+    ["1,0000", "INVALID_GROUPING"],
+    ["1234,567", "INVALID_GROUPING"],
+    [",100", "INVALID_GROUPING"],
+    ["1.1234567", "TOO_MANY_DECIMALS"],
+    ["0", "ZERO"],
+    ["0.000", "ZERO"],
+  ])("rejects %j with %s", (input, code) => {
+    expect(codeOf(input, 6, "en-US")).toBe(code);
+  });
+
+  it("throws AmountError carrying the code", () => {
+    try {
+      parseAmount("-1", 6);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(AmountError);
+      expect((error as AmountError).code).toBe("NEGATIVE");
+      expect((error as AmountError).name).toBe("AmountError");
+    }
+  });
+
+  it("allows zero only when asked", () => {
+    expect(parseAmount("0", 6, { allowZero: true })).toBe(BigInt(0));
+  });
+});
+
+describe("parseAmount locales", () => {
+  it("reads en-US grouping and decimal point", () => {
+    expect(parseAmount("1,234,567.89", 2, { locale: "en-US" })).toBe(BigInt(123456789));
+  });
+
+  it("reads de grouping dots and decimal comma", () => {
+    expect(parseAmount("1.234.567,89", 2, { locale: "de-DE" })).toBe(BigInt(123456789));
+    expect(parseAmount("0,5", 2, { locale: "de-DE" })).toBe(BigInt(50));
+    expect(codeOf("1,2,3", 2, "de-DE")).toBe("MULTIPLE_DECIMAL_POINTS");
+    expect(codeOf("1.23,4", 2, "de-DE")).toBe("INVALID_GROUPING");
+  });
+
+  it("reads fr space grouping, with any whitespace as the separator", () => {
+    const group = new Intl.NumberFormat("fr-FR").formatToParts(11111).find((p) => p.type === "group")!.value;
+    expect(parseAmount(`1${group}234,5`, 2, { locale: "fr-FR" })).toBe(BigInt(123450));
+    expect(parseAmount("1 234,5", 2, { locale: "fr-FR" })).toBe(BigInt(123450));
+    expect(codeOf("12 34,5", 2, "fr-FR")).toBe("INVALID_GROUPING");
+  });
+
+  it("reads de-DE 1.500 as fifteen hundred and flags it for read-back", () => {
+    expect(parseAmount("1.500", 18, { locale: "de-DE" })).toBe(BigInt(1500) * BigInt("1000000000000000000"));
+    expect(hasGrouping("1.500", "de-DE")).toBe(true);
+    expect(toInputString(parseAmount("1.500", 6, { locale: "de-DE" }), 6, "de-DE")).toBe("1500");
+    expect(hasGrouping("1,5", "de-DE")).toBe(false);
+  });
+
+  it("detects grouping in each locale's own separator", () => {
+    expect(hasGrouping("1,500", "en-US")).toBe(true);
+    expect(hasGrouping("1.5", "en-US")).toBe(false);
+    expect(hasGrouping("1 500,5", "fr-FR")).toBe(true);
+    expect(hasGrouping(" 1500,5 ", "fr-FR")).toBe(false);
+  });
+
+  it("offers a placeholder with the locale's decimal separator", () => {
+    expect(amountPlaceholder("en-US")).toBe("0.00");
+    expect(amountPlaceholder("de-DE")).toBe("0,00");
+  });
+
+  it("treats the other locale's decimal separator as grouping", () => {
+    // "1.5" in de is a malformed thousands group, not one and a half
+    expect(codeOf("1.5", 2, "de-DE")).toBe("INVALID_GROUPING");
+    expect(codeOf("1,5", 2, "en-US")).toBe("INVALID_GROUPING");
+  });
+});
+
+describe("formatAmount", () => {
+  it("groups the whole part and drops trailing zeros", () => {
+    expect(formatAmount(BigInt("1234567500000"), 6, { locale: "en-US" })).toBe("1,234,567.5");
+    expect(formatAmount(BigInt(1000000), 6, { locale: "en-US" })).toBe("1");
+    expect(formatAmount(BigInt(0), 6, { locale: "en-US" })).toBe("0");
+    expect(formatAmount(BigInt(1), 6, { locale: "en-US" })).toBe("0.000001");
+  });
+
+  it("truncates beyond maxFractionDigits, never rounding up", () => {
+    expect(formatAmount(BigInt(1999999), 6, { locale: "en-US", maxFractionDigits: 2 })).toBe("1.99");
+    expect(formatAmount(BigInt(1000999), 6, { locale: "en-US", maxFractionDigits: 2 })).toBe("1");
+  });
+
+  it("formats negatives and locale separators", () => {
+    expect(formatAmount(BigInt(-1500000), 6, { locale: "en-US" })).toBe("-1.5");
+    expect(formatAmount(BigInt("123456789"), 2, { locale: "de-DE" })).toBe("1.234.567,89");
+    expect(formatAmount(BigInt("123456789"), 2, { locale: "en-US", grouping: false })).toBe("1234567.89");
+  });
+
+  it("handles zero-decimal tokens", () => {
+    expect(formatAmount(BigInt(1234), 0, { locale: "en-US" })).toBe("1,234");
+  });
+});
+
+describe("round trips", () => {
+  const values = ["1", "999", "1000000", "123456789", "1000000000000000000", "1234567890123456789012"];
+
+  it.each(["en-US", "de-DE", "fr-FR", "de-CH"])("toInputString parses back exactly in %s", (locale) => {
+    for (const decimals of [0, 6, 18]) {
+      for (const raw of values) {
+        const value = BigInt(raw);
+        expect(parseAmount(toInputString(value, decimals, locale), decimals, { locale })).toBe(value);
+      }
+    }
+  });
+
+  it.each(["en-US", "de-DE", "fr-FR"])("grouped formatAmount parses back exactly in %s", (locale) => {
+    for (const raw of values) {
+      const value = BigInt(raw);
+      expect(parseAmount(formatAmount(value, 6, { locale }), 6, { locale })).toBe(value);
+    }
+  });
+
+  it("parse then format is the canonical form", () => {
+    expect(formatAmount(parseAmount("1,000.50", 6, { locale: "en-US" }), 6, { locale: "en-US" })).toBe("1,000.5");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Fixed-Point Amounts                                                          ║
+ * ║  Strict parsing of user input into base units, and display formatting         ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * All arithmetic stays in bigint base units. Parsing never rounds: input with
+ * more fraction digits than the token supports is rejected, not truncated.
+ */
+
+export type AmountErrorCode =
+  | "EMPTY"
+  | "NEGATIVE"
+  | "EXPONENT"
+  | "INVALID_CHARACTER"
+  | "INVALID_GROUPING"
+  | "MULTIPLE_DECIMAL_POINTS"
+  | "TOO_MANY_DECIMALS"
+  | "ZERO";
+
+export class AmountError extends Error {
+  constructor(public code: AmountErrorCode, message: string) {
+    super(message);
+    this.name = "AmountError";
+  }
+}
+
+export interface AmountOptions {
+  locale?: string;
+  allowZero?: boolean;
+}
+
+export interface FormatOptions {
+  locale?: string;
+  maxFractionDigits?: number;
+  grouping?: boolean;
+}
+
+/**
+ * 10^n as bigint (no ** on bigint at our compile target)
+ */
+export function pow10(n: number): bigint {
+  return BigInt("1" + "0".repeat(n));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              LOCALE SEPARATORS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface Separators {
+  group: string;
+  decimal: string;
+}
+
+const separatorCache = new Map<string, Separators>();
+
+const SPACE_LIKE = /\s/;
+
+export function getSeparators(locale?: string): Separators {
+  const key = locale ?? "";
+  const cached = separatorCache.get(key);
+  if (cached) return cached;
+
+  const parts = new Intl.NumberFormat(locale).formatToParts(11111.1);
+  const separators = {
+    group: parts.find((p) => p.type === "group")?.value ?? ",",
+    decimal: parts.find((p) => p.type === "decimal")?.value ?? ".",
+  };
+  separatorCache.set(key, separators);
+  return separators;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PARSING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse a human amount ("1,000.5", ".5", "1 000,5" in fr) into base units.
+ * Throws AmountError with a specific code on anything ambiguous.
+ */
+export function parseAmount(input: string, decimals: number, options: AmountOptions = {}): bigint {
+  const { group, decimal } = getSeparators(options.locale);
+  const text = input.trim();
+
+  if (text === "") throw new AmountError("EMPTY", "Enter an amount");
+  if (text.startsWith("-")) throw new AmountError("NEGATIVE", "Amount must be positive");
+  if (/e/i.test(text)) throw new AmountError("EXPONENT", "Scientific notation is not supported");
+
+  const decimalIndex = text.indexOf(decimal);
+  if (decimalIndex !== -1 && text.indexOf(decimal, decimalIndex + 1) !== -1) {
+    throw new AmountError("MULTIPLE_DECIMAL_POINTS", "Amount has more than one decimal separator");
+  }
+
+  const wholeRaw = decimalIndex === -1 ? text : text.slice(0, decimalIndex);
+  const fraction = decimalIndex === -1 ? "" : text.slice(decimalIndex + decimal.length);
+
+  const whole = stripGrouping(wholeRaw, group);
+
+  if (!/^\d*$/.test(whole) || !/^\d*$/.test(fraction)) {
+    throw new AmountError("INVALID_CHARACTER", "Amount may only contain digits");
+  }
+  if (whole === "" && fraction === "") {
+    throw new AmountError("EMPTY", "Enter an amount");
+  }
+  if (fraction.length > decimals) {
+    throw new AmountError("TOO_MANY_DECIMALS", `At most ${decimals} decimal places`);
+  }
+
+  const value = BigInt((whole || "0") + fraction.padEnd(decimals, "0"));
+  if (value === BigInt(0) && !options.allowZero) {
+    throw new AmountError("ZERO", "Amount must be greater than zero");
+  }
+  return value;
+}
+
+/**
+ * Remove group separators, insisting they sit on thousands boundaries
+ */
+function stripGrouping(whole: string, group: string): string {
+  const spaceGroup = SPACE_LIKE.test(group);
+  const groups = spaceGroup ? whole.split(/\s/) : whole.split(group);
+  if (groups.length === 1) return whole;
+
+  const valid = groups.every((g, i) => (i === 0 ? /^\d{1,3}$/.test(g) : /^\d{3}$/.test(g)));
+  if (!valid) {
+    throw new AmountError("INVALID_GROUPING", "Digit grouping is malformed");
+  }
+  return groups.join("");
+}
+
+/**
+ * Whether the input uses the locale's group separator. "1.500" in de-DE is
+ * fifteen hundred, not one and a half, so such an entry is shown back
+ * ungrouped before anyone signs it.
+ */
+export function hasGrouping(input: string, locale?: string): boolean {
+  const { group } = getSeparators(locale);
+  return SPACE_LIKE.test(group) ? /\S\s+\S/.test(input.trim()) : input.includes(group);
+}
+
+/**
+ * Input placeholder with the locale's decimal separator ("0.00", "0,00")
+ */
+export function amountPlaceholder(locale?: string): string {
+  return `0${getSeparators(locale).decimal}00`;
+}
+
+/**
+ * Non-throwing variant for inline form validation
+ */
+export function validateAmount(
+  input: string,
+  decimals: number,
+  options: AmountOptions = {}
+): { value?: bigint; error?: AmountError } {
+  try {
+    return { value: parseAmount(input, decimals, options) };
+  } catch (error) {
+    if (error instanceof AmountError) return { error };
+    throw error;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              FORMATTING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Format base units for display. Fraction digits beyond maxFractionDigits are
+ * truncated (never rounded up) and trailing zeros are dropped.
+ */
+export function formatAmount(value: bigint, decimals: number, options: FormatOptions = {}): string {
+  const { group, decimal } = getSeparators(options.locale);
+  const maxFractionDigits = options.maxFractionDigits ?? decimals;
+  const grouping = options.grouping ?? true;
+
+  const negative = value < BigInt(0);
+  const abs = negative ? -value : value;
+  const digits = abs.toString().padStart(decimals + 1, "0");
+
+  let whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits
+    .slice(digits.length - decimals)
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, "");
+
+  if (grouping) {
+    whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  }
+
+  return (negative ? "-" : "") + whole + (fraction ? decimal + fraction : "");
+}
+
+/**
+ * Exact, ungrouped representation that parseAmount accepts back (MAX button)
+ */
+export function toInputString(value: bigint, decimals: number, locale?: string): string {
+  return formatAmount(value, decimals, { locale, grouping: false });
+}
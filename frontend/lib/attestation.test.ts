@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  attestationDigest,
+  computeReportData,
+  parseAttestationReport,
+  recoverAttestationSigner,
+  verifyAttestationReport,
+  type AttestationCheckId,
+} from "./attestation";
+import { ATTESTATION_FIXTURE_POLICY, ATTESTATION_FIXTURES } from "./fixtures/attestationReports";
+import { STAND_IN_ENCLAVE_PUBLIC_KEY } from "./fixtures/enclaveKeys";
+
+const VALID = ATTESTATION_FIXTURES.find((fixture) => fixture.name === "valid")!;
+
+const failing = (data: unknown, now = VALID.now, policy = ATTESTATION_FIXTURE_POLICY): AttestationCheckId[] =>
+  verifyAttestationReport(data, policy, now)
+    .checks.filter((check) => !check.ok)
+    .map((check) => check.id);
+
+describe("fixtures", () => {
+  it.each(ATTESTATION_FIXTURES.map((fixture) => [fixture.name, fixture] as const))("%s fails exactly its listed checks", (_, fixture) => {
+    const verification = verifyAttestationReport(fixture.report, ATTESTATION_FIXTURE_POLICY, fixture.now);
+    expect(verification.checks.map((check) => check.id)).toEqual(["schema", "measurement", "reportData", "encryptionKey", "signer", "freshness"]);
+    expect(failing(fixture.report, fixture.now)).toEqual(fixture.failing);
+    expect(verification.verified).toBe(fixture.failing.length === 0);
+  });
+
+  it("binds the stand-in key and is signed by the TEE signer", () => {
+    expect(computeReportData(STAND_IN_ENCLAVE_PUBLIC_KEY)).toBe(VALID.report.reportData);
+    expect(recoverAttestationSigner(VALID.report)).toBe(ATTESTATION_FIXTURE_POLICY.teeSigner);
+  });
+});
+
+describe("verifyAttestationReport", () => {
+  it("rejects a report whose signer the hook does not have registered", () => {
+    const policy = { ...ATTESTATION_FIXTURE_POLICY, teeSigner: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" };
+    const signer = verifyAttestationReport(VALID.report, policy, VALID.now).checks.find((check) => check.id === "signer");
+    expect(signer).toMatchObject({ ok: false, detail: `Signed by ${ATTESTATION_FIXTURE_POLICY.teeSigner}, hook expects ${policy.teeSigner}` });
+  });
+
+  it("rejects any field changed after signing", () => {
+    expect(failing({ ...VALID.report, issuedAt: VALID.report.issuedAt + 1 })).toEqual(["signer"]);
+  });
+
+  it("reports an unrecoverable signature", () => {
+    const checks = verifyAttestationReport({ ...VALID.report, signature: "0x" + "00".repeat(65) }, ATTESTATION_FIXTURE_POLICY, VALID.now).checks;
+    expect(checks.find((check) => check.id === "signer")).toMatchObject({ ok: false, detail: "Report signature could not be recovered" });
+  });
+
+  it("rejects a report dated more than a minute ahead", () => {
+    const issued = VALID.report.issuedAt * 1000;
+    expect(failing(VALID.report, issued - 60_000)).toEqual([]);
+    expect(failing(VALID.report, issued - 61_000)).toEqual(["freshness"]);
+  });
+
+  it("accepts a report up to maxAgeSeconds old", () => {
+    const issued = VALID.report.issuedAt * 1000;
+    expect(failing(VALID.report, issued + ATTESTATION_FIXTURE_POLICY.maxAgeSeconds * 1000)).toEqual([]);
+    expect(failing(VALID.report, issued + (ATTESTATION_FIXTURE_POLICY.maxAgeSeconds + 1) * 1000)).toEqual(["freshness"]);
+  });
+
+  it("matches pinned measurements regardless of case", () => {
+    const policy = { ...ATTESTATION_FIXTURE_POLICY, allowedMeasurements: [VALID.report.enclaveMeasurement.toUpperCase().replace("0X", "0x")] };
+    expect(failing(VALID.report, VALID.now, policy)).toEqual([]);
+  });
+
+  it("fails only the schema check for a malformed report", () => {
+    const verification = verifyAttestationReport({ ...VALID.report, reportData: "0x1234" }, ATTESTATION_FIXTURE_POLICY, VALID.now);
+    expect(verification).toEqual({
+      verified: false,
+      checks: [{ id: "schema", ok: false, detail: "report.reportData: expected bytes32" }],
+    });
+  });
+});
+
+describe("parseAttestationReport", () => {
+  it.each<[string, unknown, string]>([
+    ["no object", [VALID.report], "report: expected object"],
+    ["another version", { ...VALID.report, version: 2 }, "report.version: unsupported version 2"],
+    ["a short measurement", { ...VALID.report, enclaveMeasurement: "0x1234" }, "report.enclaveMeasurement: expected bytes32"],
+    ["a compressed key", { ...VALID.report, enclavePublicKey: "0x02" + "11".repeat(32) }, "report.enclavePublicKey: expected 65-byte P-256 point"],
+    ["a bad signer", { ...VALID.report, teeSigner: "tee" }, "report.teeSigner: expected address"],
+    ["issuedAt in ms as a string", { ...VALID.report, issuedAt: "1767225000000" }, "report.issuedAt: expected unix seconds"],
+    ["a short signature", { ...VALID.report, signature: "0x1234" }, "report.signature: expected 65-byte signature"],
+  ])("rejects %s", (_, data, message) => {
+    expect(() => parseAttestationReport(data)).toThrow(message);
+  });
+
+  it("normalizes hex fields to lowercase without changing the digest", () => {
+    const upper = { ...VALID.report, reportData: VALID.report.reportData.toUpperCase().replace("0X", "0x") };
+    const parsed = parseAttestationReport(upper);
+    expect(parsed.reportData).toBe(VALID.report.reportData);
+    expect(attestationDigest(parsed)).toBe(attestationDigest(VALID.report));
+  });
+});
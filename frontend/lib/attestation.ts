@@ -0,0 +1,236 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Enclave Attestation                                                          ║
+ * ║  Decide whether an enclave may receive sealed intents                         ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * An enclave is trusted only if its attestation report:
+ *   - carries an enclaveMeasurement on the pinned allow-list
+ *   - binds the encryption key it advertises (reportData = sha256(key))
+ *   - advertises the key this frontend is configured to seal to
+ *   - is signed by the TEE signer registered on the hook
+ *   - is fresh
+ *
+ * Intents are sealed to the attested key, never to one taken on trust.
+ */
+
+import { AbiCoder, getAddress, getBytes, hashMessage, isAddress, isHexString, keccak256, recoverAddress, sha256 } from "ethers";
+import { CONFIG } from "./config";
+import { NETWORK } from "./networks";
+import type { HookReader } from "./hook";
+import type { AttestationReport } from "./types";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+export const ATTESTATION_REPORT_VERSION = 1;
+
+export class AttestationSchemaError extends Error {
+  constructor(public field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "AttestationSchemaError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SCHEMA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate untrusted JSON as an AttestationReport; throws AttestationSchemaError
+ */
+export function parseAttestationReport(data: unknown): AttestationReport {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new AttestationSchemaError("report", "expected object");
+  }
+  const r = data as Record<string, unknown>;
+  if (r.version !== ATTESTATION_REPORT_VERSION) {
+    throw new AttestationSchemaError("report.version", `unsupported version ${r.version}`);
+  }
+  if (!isHexString(r.enclaveMeasurement, 32)) throw new AttestationSchemaError("report.enclaveMeasurement", "expected bytes32");
+  if (!isHexString(r.enclavePublicKey, 65)) throw new AttestationSchemaError("report.enclavePublicKey", "expected 65-byte P-256 point");
+  if (!isHexString(r.reportData, 32)) throw new AttestationSchemaError("report.reportData", "expected bytes32");
+  if (typeof r.teeSigner !== "string" || !isAddress(r.teeSigner)) throw new AttestationSchemaError("report.teeSigner", "expected address");
+  if (!Number.isSafeInteger(r.issuedAt) || (r.issuedAt as number) < 0) throw new AttestationSchemaError("report.issuedAt", "expected unix seconds");
+  if (!isHexString(r.signature, 65)) throw new AttestationSchemaError("report.signature", "expected 65-byte signature");
+
+  return {
+    version: ATTESTATION_REPORT_VERSION,
+    enclaveMeasurement: (r.enclaveMeasurement as string).toLowerCase(),
+    enclavePublicKey: (r.enclavePublicKey as string).toLowerCase(),
+    reportData: (r.reportData as string).toLowerCase(),
+    teeSigner: r.teeSigner,
+    issuedAt: r.issuedAt as number,
+    signature: r.signature as string,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DIGEST
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function computeReportData(enclavePublicKey: string): string {
+  return sha256(getBytes(enclavePublicKey));
+}
+
+export function attestationDigest(report: Omit<AttestationReport, "signature">): string {
+  return keccak256(
+    abiCoder.encode(
+      ["uint256", "bytes32", "bytes", "bytes32", "address", "uint256"],
+      [report.version, report.enclaveMeasurement, report.enclavePublicKey, report.reportData, report.teeSigner, report.issuedAt]
+    )
+  );
+}
+
+/**
+ * EIP-191 wrapped so a report signature can never pass as an EIP-712 proof
+ */
+export function recoverAttestationSigner(report: AttestationReport): string {
+  return recoverAddress(hashMessage(getBytes(attestationDigest(report))), report.signature);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              VERIFICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type AttestationCheckId = "schema" | "measurement" | "reportData" | "encryptionKey" | "signer" | "freshness";
+
+export interface AttestationCheck {
+  id: AttestationCheckId;
+  ok: boolean;
+  detail: string;
+}
+
+export interface AttestationVerification {
+  verified: boolean;
+  checks: AttestationCheck[];
+  report?: AttestationReport;
+}
+
+export type AttestationState = "unverified" | "verifying" | "verified" | "failed";
+
+export interface AttestationPolicy {
+  allowedMeasurements: string[];
+  enclavePublicKey: string;
+  teeSigner: string;
+  maxAgeSeconds: number;
+}
+
+/**
+ * Never throws: failures become checks
+ */
+export function verifyAttestationReport(
+  data: unknown,
+  policy: AttestationPolicy,
+  now: number = Date.now()
+): AttestationVerification {
+  let report: AttestationReport;
+  try {
+    report = parseAttestationReport(data);
+  } catch (error) {
+    return {
+      verified: false,
+      checks: [{ id: "schema", ok: false, detail: error instanceof Error ? error.message : "Malformed attestation report" }],
+    };
+  }
+
+  const checks: AttestationCheck[] = [{ id: "schema", ok: true, detail: "Report is well-formed" }];
+  const measurement = `${report.enclaveMeasurement.slice(0, 10)}…${report.enclaveMeasurement.slice(-6)}`;
+
+  const allowed = policy.allowedMeasurements.some((m) => m.toLowerCase() === report.enclaveMeasurement);
+  checks.push({
+    id: "measurement",
+    ok: allowed,
+    detail: allowed ? `Measurement ${measurement} is pinned` : `Measurement ${measurement} is not on the allow-list`,
+  });
+
+  const bound = computeReportData(report.enclavePublicKey) === report.reportData;
+  checks.push({
+    id: "reportData",
+    ok: bound,
+    detail: bound ? "Encryption key is bound to the report" : "reportData does not commit to the advertised key",
+  });
+
+  const pinnedKey = report.enclavePublicKey === policy.enclavePublicKey.toLowerCase();
+  checks.push({
+    id: "encryptionKey",
+    ok: pinnedKey,
+    detail: pinnedKey ? "Enclave key matches configuration" : "Enclave advertises a different encryption key than configured",
+  });
+
+  let signer: string | null = null;
+  try {
+    signer = getAddress(recoverAttestationSigner(report));
+  } catch (e) {
+    // Unrecoverable signature, reported below
+  }
+  const signerOk =
+    signer !== null &&
+    signer.toLowerCase() === report.teeSigner.toLowerCase() &&
+    signer.toLowerCase() === policy.teeSigner.toLowerCase();
+  checks.push({
+    id: "signer",
+    ok: signerOk,
+    detail:
+      signer === null
+        ? "Report signature could not be recovered"
+        : signerOk
+        ? `Signed by registered TEE ${signer}`
+        : `Signed by ${signer}, hook expects ${getAddress(policy.teeSigner)}`,
+  });
+
+  const age = Math.floor(now / 1000) - report.issuedAt;
+  const fresh = age >= -60 && age <= policy.maxAgeSeconds;
+  checks.push({
+    id: "freshness",
+    ok: fresh,
+    detail: fresh ? `Issued ${Math.max(age, 0)}s ago` : age < 0 ? "Report is dated in the future" : `Report is ${age}s old`,
+  });
+
+  return { verified: checks.every((c) => c.ok), checks, report };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CLIENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fetch the current report and verify it against the pinned policy and the
+ * TEE signer registered on the hook
+ */
+export async function attestEnclave(
+  hook: HookReader,
+  url: string = NETWORK.relayer.attestationUrl,
+  now: () => number = Date.now
+): Promise<AttestationVerification> {
+  let teeSigner: string;
+  let report: unknown;
+  try {
+    teeSigner = await hook.teeSigner();
+  } catch (error) {
+    return {
+      verified: false,
+      checks: [{ id: "signer", ok: false, detail: `Could not read teeSigner from hook: ${error instanceof Error ? error.message : "Unknown"}` }],
+    };
+  }
+  try {
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    report = await response.json();
+  } catch (error) {
+    return {
+      verified: false,
+      checks: [{ id: "schema", ok: false, detail: `Attestation endpoint unavailable: ${error instanceof Error ? error.message : "Unknown"}` }],
+    };
+  }
+
+  return verifyAttestationReport(
+    report,
+    {
+      allowedMeasurements: NETWORK.enclave.measurements,
+      enclavePublicKey: NETWORK.enclave.publicKey,
+      teeSigner,
+      maxAgeSeconds: CONFIG.ATTESTATION_MAX_AGE_S,
+    },
+    now()
+  );
+}
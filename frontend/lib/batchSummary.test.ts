@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBatchSummary,
+  findClearingPrice,
+  matcherOrder,
+  matchFills,
+  MIN_LEVEL_ORDERS,
+  parseBatchSummary,
+  serializeBatchSummary,
+  type BatchOrder,
+} from "./batchSummary";
+import { FIXTURE_BATCH_SUMMARIES } from "./fixtures/batchSummaries";
+
+const order = (intentHash: string, limitPrice: number, amount: number): BatchOrder => ({
+  intentHash,
+  limitPrice: BigInt(limitPrice),
+  amount: BigInt(amount),
+});
+
+const TOKENS = { in: { symbol: "USDC", decimals: 6 }, out: { symbol: "WETH", decimals: 18 } };
+
+describe("matcher", () => {
+  it("clears at the lowest price of maximum volume", () => {
+    const buys = [order("b1", 110, 5), order("b2", 100, 5)];
+    const sells = [order("s1", 90, 5), order("s2", 100, 5)];
+    expect(findClearingPrice(buys, sells)).toBe(BigInt(100));
+    expect(findClearingPrice([order("b", 90, 5)], [order("s", 100, 5)])).toBe(BigInt(0));
+  });
+
+  it("orders like process_intents, keeping arrival order on equal limits", () => {
+    const buys = [order("b1", 100, 1), order("b2", 120, 1), order("b3", 100, 1), order("b4", 120, 1)];
+    const sells = [order("s1", 90, 1), order("s2", 80, 1), order("s3", 90, 1)];
+    const sorted = matcherOrder(buys, sells);
+    expect(sorted.buys.map((b) => b.intentHash)).toEqual(["b2", "b4", "b1", "b3"]);
+    expect(sorted.sells.map((s) => s.intentHash)).toEqual(["s2", "s1", "s3"]);
+  });
+
+  it("fills in the order given, like _generate_matches", () => {
+    // Two buys at the same limit compete for 6 of supply: the first to arrive fills fully
+    const buys = [order("first", 100, 5), order("second", 100, 5)];
+    const sells = [order("s", 100, 6)];
+    const fills = matchFills(buys, sells, BigInt(100));
+    expect(fills.get("first")).toBe(BigInt(5));
+    expect(fills.get("second")).toBe(BigInt(1));
+    expect(fills.get("s")).toBe(BigInt(6));
+
+    const swapped = matchFills([...buys].reverse(), sells, BigInt(100));
+    expect(swapped.get("second")).toBe(BigInt(5));
+    expect(swapped.get("first")).toBe(BigInt(1));
+  });
+
+  it("does not re-sort its input", () => {
+    const fills = matchFills([order("low", 100, 5), order("high", 120, 5)], [order("s", 100, 5)], BigInt(100));
+    expect(fills.get("low")).toBe(BigInt(5));
+    expect(fills.has("high")).toBe(false);
+  });
+
+  it("fills nothing without a clearing price", () => {
+    expect(matchFills([order("b", 100, 5)], [order("s", 90, 5)], BigInt(0)).size).toBe(0);
+  });
+});
+
+describe("buildBatchSummary", () => {
+  // Same book as BatchAuctionEngine.summarize in the iApp, which publishes the identical levels
+  const buys = [
+    order("b1", 2630000000, 5),
+    order("b2", 2612000000, 3),
+    order("b3", 2605000000, 7),
+    order("b4", 2597500000, 2),
+    order("b5", 2590000000, 4),
+    order("b6", 2580000000, 6),
+    order("b7", 2575000000, 1),
+  ];
+  const sells = [
+    order("s1", 2570000000, 5),
+    order("s2", 2580000000, 2),
+    order("s3", 2597500000, 9),
+    order("s4", 2611000000, 3),
+    order("s5", 2640000000, 8),
+  ];
+
+  it("merges levels until none shows a single order", () => {
+    const summary = buildBatchSummary({ batchId: "0x01", timestamp: 0, tokens: TOKENS, buys, sells, clearingPrice: BigInt(2597500000) });
+    expect(serializeBatchSummary(summary)).toMatchObject({
+      demand: [
+        { price: "2610487500", volume: "8", orders: 2 },
+        { price: "2597500000", volume: "9", orders: 2 },
+        { price: "2571525000", volume: "11", orders: 3 },
+      ],
+      supply: [
+        { price: "2597500000", volume: "16", orders: 3 },
+        { price: "2642956250", volume: "11", orders: 2 },
+      ],
+    });
+  });
+
+  it("never moves a level past its orders' limits or across the clearing price", () => {
+    const clearingPrice = BigInt(2597500000);
+    const summary = buildBatchSummary({ batchId: "0x01", timestamp: 0, tokens: TOKENS, buys, sells, clearingPrice });
+    const eligibleDemand = summary.demand.filter((l) => l.price >= clearingPrice).reduce((sum, l) => sum + l.volume, BigInt(0));
+    const eligibleSupply = summary.supply.filter((l) => l.price <= clearingPrice).reduce((sum, l) => sum + l.volume, BigInt(0));
+    expect(eligibleDemand).toBe(BigInt(5 + 3 + 7 + 2));
+    expect(eligibleSupply).toBe(BigInt(5 + 2 + 9));
+  });
+
+  it("leaves out a side of the clearing price that holds one order", () => {
+    const summary = buildBatchSummary({
+      batchId: "0x01",
+      timestamp: 0,
+      tokens: TOKENS,
+      buys: [order("alone", 120, 7), order("b2", 90, 1), order("b3", 80, 1)],
+      sells: [order("s1", 100, 3), order("s2", 100, 4)],
+    });
+    expect(summary.clearingPrice).toBe(BigInt(100));
+    expect(summary.demand.some((level) => level.volume === BigInt(7))).toBe(false);
+    expect(summary.demand.every((level) => level.orders >= MIN_LEVEL_ORDERS)).toBe(true);
+  });
+
+  it("attaches only the caller's own position", () => {
+    const input = { batchId: "0x01", timestamp: 0, tokens: TOKENS, buys, sells };
+    expect(buildBatchSummary(input).position).toBeUndefined();
+    const position = buildBatchSummary({ ...input, intentHash: "B3" }).position;
+    expect(position).toMatchObject({ side: "buy", amount: BigInt(7), fill: "full" });
+  });
+});
+
+describe("fixtures", () => {
+  it.each(FIXTURE_BATCH_SUMMARIES.map((fixture) => [fixture.position?.fill, fixture] as const))("%s batch round trips and publishes no single order", (_, fixture) => {
+    const summary = parseBatchSummary(fixture);
+    expect(serializeBatchSummary(summary)).toEqual(fixture);
+    expect([...summary.demand, ...summary.supply].every((level) => level.orders >= MIN_LEVEL_ORDERS)).toBe(true);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Batch Summary                                                                ║
+ * ║  Anonymized order book of one batch auction, served on GET /batches/:id       ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * The enclave clears every batch at one uniform price (_find_clearing_price in
+ * the iApp) and fills eligible orders greedily (_generate_matches). A summary
+ * publishes what that decision rested on without exposing any single order:
+ * limit prices are rounded onto a grid around the clearing price, only
+ * per-level totals are kept, and a level never holds fewer than
+ * MIN_LEVEL_ORDERS orders. The one order shown in full is the caller's own.
+ *
+ * The iApp publishes the same book as batchSummary in its output
+ * (BatchAuctionEngine.summarize) and relayer/relayer.js serves it on
+ * GET /batches/:id, 404 for batches it has none for. It attaches no
+ * position; only the mock relayer, which knows the caller's order, does.
+ *
+ * Prices use the matcher's scale: tokenIn base units per tokenOut base unit,
+ * x1e18 (clearingPriceToDisplay turns them into whole units). Volumes are
+ * tokenIn base units on both sides, which is what the matcher compares.
+ */
+
+import type { TokenSnapshot } from "./intentHistory";
+import { NETWORK } from "./networks";
+
+const BPS = BigInt(10000);
+
+// Grid step for published price levels, relative to the clearing price
+export const BATCH_LEVEL_BPS = 25;
+// Smaller levels would publish one order's exact size
+export const MIN_LEVEL_ORDERS = 2;
+
+export type BatchSide = "buy" | "sell";
+
+export type FillStatus = "full" | "partial" | "none";
+
+export interface PriceLevel {
+  price: bigint;
+  volume: bigint;
+  orders: number;
+}
+
+/**
+ * The caller's own order. limitPrice is the matcher's bound for the side:
+ * _get_max_price for a buy, _get_min_price for a sell.
+ */
+export interface BatchPosition {
+  intentHash: string;
+  side: BatchSide;
+  limitPrice: bigint;
+  amount: bigint;
+  filled: bigint;
+  fill: FillStatus;
+}
+
+export interface BatchSummary {
+  batchId: string;
+  timestamp: number; // seconds
+  tokens: { in: TokenSnapshot; out: TokenSnapshot }; // as the buy side trades them
+  clearingPrice: bigint; // 0 when nothing crossed
+  matchedVolume: bigint;
+  orders: number;
+  demand: PriceLevel[]; // buys, highest price first
+  supply: PriceLevel[]; // sells, lowest price first
+  position?: BatchPosition;
+}
+
+export class BatchSummarySchemaError extends Error {
+  constructor(public field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "BatchSummarySchemaError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              MATCHING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * One order as the matcher sees it, already reduced to its price bound
+ */
+export interface BatchOrder {
+  intentHash: string;
+  limitPrice: bigint;
+  amount: bigint;
+}
+
+/**
+ * Price that maximizes matched volume; the lowest one on ties, like
+ * _find_clearing_price. 0 when no buy and sell cross.
+ */
+export function findClearingPrice(buys: BatchOrder[], sells: BatchOrder[]): bigint {
+  const prices = Array.from(new Set([...buys, ...sells].map((order) => order.limitPrice))).sort((a, b) =>
+    a < b ? -1 : a > b ? 1 : 0
+  );
+  let bestPrice = BigInt(0);
+  let bestVolume = BigInt(0);
+  for (const price of prices) {
+    const demand = buys.filter((b) => b.limitPrice >= price).reduce((sum, b) => sum + b.amount, BigInt(0));
+    const supply = sells.filter((s) => s.limitPrice <= price).reduce((sum, s) => sum + s.amount, BigInt(0));
+    const matched = demand < supply ? demand : supply;
+    if (matched > bestVolume) {
+      bestVolume = matched;
+      bestPrice = price;
+    }
+  }
+  return bestPrice;
+}
+
+/**
+ * Orders as process_intents hands them to the matcher: buys by limit price
+ * descending, sells ascending. Both sorts are stable, like Python's sorted(),
+ * so orders at the same limit keep the order the iApp received them in.
+ */
+export function matcherOrder(buys: BatchOrder[], sells: BatchOrder[]): { buys: BatchOrder[]; sells: BatchOrder[] } {
+  const compare = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0);
+  return {
+    buys: [...buys].sort((a, b) => compare(b.limitPrice, a.limitPrice)),
+    sells: [...sells].sort((a, b) => compare(a.limitPrice, b.limitPrice)),
+  };
+}
+
+/**
+ * Filled amount per intentHash at the clearing price, step for step
+ * _generate_matches: each eligible buy, in the order given, takes from the
+ * eligible sells in the order given. Nothing is re-sorted here; pass the
+ * orders through matcherOrder first, as process_intents does.
+ */
+export function matchFills(buys: BatchOrder[], sells: BatchOrder[], clearingPrice: bigint): Map<string, bigint> {
+  const fills = new Map<string, bigint>();
+  if (clearingPrice <= BigInt(0)) return fills;
+  const eligibleBuys = buys.filter((b) => b.limitPrice >= clearingPrice);
+  const eligibleSells = sells.filter((s) => s.limitPrice <= clearingPrice);
+  const sellLeft = eligibleSells.map((s) => s.amount);
+
+  for (const buy of eligibleBuys) {
+    let buyLeft = buy.amount;
+    for (let i = 0; i < eligibleSells.length && buyLeft > BigInt(0); i++) {
+      const amount = buyLeft < sellLeft[i] ? buyLeft : sellLeft[i];
+      if (amount <= BigInt(0)) continue;
+      fills.set(buy.intentHash, (fills.get(buy.intentHash) ?? BigInt(0)) + amount);
+      fills.set(eligibleSells[i].intentHash, (fills.get(eligibleSells[i].intentHash) ?? BigInt(0)) + amount);
+      buyLeft -= amount;
+      sellLeft[i] -= amount;
+    }
+  }
+  return fills;
+}
+
+export function fillStatus(filled: bigint, amount: bigint): FillStatus {
+  if (filled <= BigInt(0)) return "none";
+  return filled >= amount ? "full" : "partial";
+}
+
+/**
+ * Levels (best price first) folded until each holds MIN_LEVEL_ORDERS orders.
+ * A thin level joins the next worse one, and a thin tail the level before it
+ * at the tail's price, so the merged price stays at or under every limit it
+ * covers. A run with fewer orders than that in total is left out.
+ */
+function mergeThinLevels(run: PriceLevel[]): PriceLevel[] {
+  const merged: PriceLevel[] = [];
+  let pending: PriceLevel | undefined;
+  for (const level of run) {
+    pending = pending ? { price: level.price, volume: pending.volume + level.volume, orders: pending.orders + level.orders } : { ...level };
+    if (pending.orders >= MIN_LEVEL_ORDERS) {
+      merged.push(pending);
+      pending = undefined;
+    }
+  }
+  const last = merged.pop();
+  if (last) merged.push(pending ? { price: pending.price, volume: last.volume + pending.volume, orders: last.orders + pending.orders } : last);
+  return merged;
+}
+
+/**
+ * Limit prices onto a grid anchored at the clearing price; buys round down
+ * and sells up, so a level never claims a better price than its orders
+ * offered and never crosses the clearing price. Thin levels are merged on
+ * their own side of the clearing price.
+ */
+function levels(orders: BatchOrder[], side: BatchSide, clearingPrice: bigint, step: bigint): PriceLevel[] {
+  const byPrice = new Map<bigint, PriceLevel>();
+  for (const order of orders) {
+    let price = order.limitPrice;
+    if (step > BigInt(0)) {
+      const offset = price - clearingPrice;
+      let steps = offset / step; // truncates toward zero
+      if (offset % step !== BigInt(0)) {
+        if (side === "buy" && offset < BigInt(0)) steps -= BigInt(1);
+        if (side === "sell" && offset > BigInt(0)) steps += BigInt(1);
+      }
+      price = clearingPrice + steps * step;
+    }
+    const level = byPrice.get(price) ?? { price, volume: BigInt(0), orders: 0 };
+    level.volume += order.amount;
+    level.orders++;
+    byPrice.set(price, level);
+  }
+  const sorted = Array.from(byPrice.values()).sort((a, b) => (side === "buy" ? (a.price > b.price ? -1 : 1) : a.price < b.price ? -1 : 1));
+  const eligible = (level: PriceLevel) =>
+    clearingPrice > BigInt(0) && (side === "buy" ? level.price >= clearingPrice : level.price <= clearingPrice);
+  return [...mergeThinLevels(sorted.filter(eligible)), ...mergeThinLevels(sorted.filter((level) => !eligible(level)))];
+}
+
+export interface BatchSummaryInput {
+  batchId: string;
+  timestamp: number;
+  tokens: BatchSummary["tokens"];
+  // In the order the iApp loaded them; ties in limit price are filled in that order
+  buys: BatchOrder[];
+  sells: BatchOrder[];
+  clearingPrice?: bigint; // recomputed from the orders when omitted
+  intentHash?: string; // whose position to include
+}
+
+/**
+ * Run the matcher over a batch and publish only the aggregate
+ */
+export function buildBatchSummary(input: BatchSummaryInput): BatchSummary {
+  const { buys, sells } = matcherOrder(input.buys, input.sells);
+  const clearingPrice = input.clearingPrice ?? findClearingPrice(buys, sells);
+  const fills = matchFills(buys, sells, clearingPrice);
+  const step = (clearingPrice * BigInt(BATCH_LEVEL_BPS)) / BPS;
+
+  let position: BatchPosition | undefined;
+  const key = input.intentHash?.toLowerCase();
+  for (const [side, orders] of [["buy", buys], ["sell", sells]] as const) {
+    const own = key ? orders.find((order) => order.intentHash.toLowerCase() === key) : undefined;
+    if (!own) continue;
+    const filled = fills.get(own.intentHash) ?? BigInt(0);
+    position = { intentHash: own.intentHash, side, limitPrice: own.limitPrice, amount: own.amount, filled, fill: fillStatus(filled, own.amount) };
+  }
+
+  return {
+    batchId: input.batchId,
+    timestamp: input.timestamp,
+    tokens: input.tokens,
+    clearingPrice,
+    matchedVolume: buys.reduce((sum, b) => sum + (fills.get(b.intentHash) ?? BigInt(0)), BigInt(0)),
+    orders: buys.length + sells.length,
+    demand: levels(buys, "buy", clearingPrice, step),
+    supply: levels(sells, "sell", clearingPrice, step),
+    position,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CURVES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface CurvePoint {
+  price: bigint;
+  volume: bigint; // cumulative
+}
+
+/**
+ * Volume willing to trade at each level: buys at that price or above,
+ * sells at that price or below
+ */
+export function cumulativeCurve(levels: PriceLevel[]): CurvePoint[] {
+  let volume = BigInt(0);
+  return levels.map((level) => {
+    volume += level.volume;
+    return { price: level.price, volume };
+  });
+}
+
+/**
+ * Where the position sits against the clearing price: inside means its limit
+ * made it eligible, outside that the batch cleared past it
+ */
+export function positionSide(summary: BatchSummary): "inside" | "outside" | undefined {
+  const { position, clearingPrice } = summary;
+  if (!position) return undefined;
+  if (clearingPrice <= BigInt(0)) return "outside";
+  const eligible = position.side === "buy" ? position.limitPrice >= clearingPrice : position.limitPrice <= clearingPrice;
+  return eligible ? "inside" : "outside";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SCHEMA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function count(value: unknown, field: string): number {
+  if (!Number.isSafeInteger(value) || (value as number) < 0) throw new BatchSummarySchemaError(field, "expected count");
+  return value as number;
+}
+
+function amount(value: unknown, field: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) throw new BatchSummarySchemaError(field, "expected decimal string");
+  return BigInt(value);
+}
+
+function token(value: unknown, field: string): TokenSnapshot {
+  const t = (value ?? {}) as Record<string, unknown>;
+  if (typeof t.symbol !== "string") throw new BatchSummarySchemaError(`${field}.symbol`, "expected string");
+  return { symbol: t.symbol, decimals: count(t.decimals, `${field}.decimals`) };
+}
+
+function priceLevels(value: unknown, field: string): PriceLevel[] {
+  if (!Array.isArray(value)) throw new BatchSummarySchemaError(field, "expected array");
+  return value.map((entry, i) => {
+    const l = (entry ?? {}) as Record<string, unknown>;
+    return {
+      price: amount(l.price, `${field}[${i}].price`),
+      volume: amount(l.volume, `${field}[${i}].volume`),
+      orders: count(l.orders, `${field}[${i}].orders`),
+    };
+  });
+}
+
+function batchPosition(value: unknown): BatchPosition | undefined {
+  if (value === undefined || value === null) return undefined;
+  const p = value as Record<string, unknown>;
+  if (typeof p.intentHash !== "string") throw new BatchSummarySchemaError("batch.position.intentHash", "expected hash");
+  if (p.side !== "buy" && p.side !== "sell") throw new BatchSummarySchemaError("batch.position.side", "expected buy or sell");
+  const size = amount(p.amount, "batch.position.amount");
+  const filled = amount(p.filled, "batch.position.filled");
+  // fill is derived, so a payload can't claim a fill its numbers don't show
+  return { intentHash: p.intentHash, side: p.side, limitPrice: amount(p.limitPrice, "batch.position.limitPrice"), amount: size, filled, fill: fillStatus(filled, size) };
+}
+
+/**
+ * Validate untrusted JSON from GET /batches/:batchId; throws BatchSummarySchemaError
+ */
+export function parseBatchSummary(data: unknown): BatchSummary {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new BatchSummarySchemaError("batch", "expected object");
+  }
+  const b = data as Record<string, unknown>;
+  if (typeof b.batchId !== "string") throw new BatchSummarySchemaError("batch.batchId", "expected string");
+  if (typeof b.tokens !== "object" || b.tokens === null) throw new BatchSummarySchemaError("batch.tokens", "expected object");
+  const tokens = b.tokens as Record<string, unknown>;
+
+  return {
+    batchId: b.batchId,
+    timestamp: count(b.timestamp, "batch.timestamp"),
+    tokens: { in: token(tokens.in, "batch.tokens.in"), out: token(tokens.out, "batch.tokens.out") },
+    clearingPrice: amount(b.clearingPrice, "batch.clearingPrice"),
+    matchedVolume: amount(b.matchedVolume, "batch.matchedVolume"),
+    orders: count(b.orders, "batch.orders"),
+    demand: priceLevels(b.demand, "batch.demand"),
+    supply: priceLevels(b.supply, "batch.supply"),
+    position: batchPosition(b.position),
+  };
+}
+
+export type SerializedPriceLevel = { price: string; volume: string; orders: number };
+
+export interface SerializedBatchSummary {
+  batchId: string;
+  timestamp: number;
+  tokens: BatchSummary["tokens"];
+  clearingPrice: string;
+  matchedVolume: string;
+  orders: number;
+  demand: SerializedPriceLevel[];
+  supply: SerializedPriceLevel[];
+  position?: { intentHash: string; side: BatchSide; limitPrice: string; amount: string; filled: string; fill: FillStatus };
+}
+
+/**
+ * Inverse of parseBatchSummary
+ */
+export function serializeBatchSummary(summary: BatchSummary): SerializedBatchSummary {
+  const level = (l: PriceLevel): SerializedPriceLevel => ({ price: l.price.toString(), volume: l.volume.toString(), orders: l.orders });
+  const { position } = summary;
+  return {
+    ...summary,
+    clearingPrice: summary.clearingPrice.toString(),
+    matchedVolume: summary.matchedVolume.toString(),
+    demand: summary.demand.map(level),
+    supply: summary.supply.map(level),
+    position: position && {
+      ...position,
+      limitPrice: position.limitPrice.toString(),
+      amount: position.amount.toString(),
+      filled: position.filled.toString(),
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CLIENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * The relayer only attaches a position for an intentHash in that batch
+ */
+export async function fetchBatchSummary(batchId: string, intentHash?: string, url: string = NETWORK.relayer.url): Promise<BatchSummary> {
+  const query = intentHash ? `?intentHash=${encodeURIComponent(intentHash)}` : "";
+  const response = await fetch(`${url}/batches/${batchId}${query}`, { cache: "no-store" });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return parseBatchSummary(await response.json());
+}
@@ -0,0 +1,39 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  UniShield: Frontend Configuration                                            ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ */
+
+export const CONFIG = {
+  // DarkPoolHookAgentic has no nonce-bump function (and does not compare intent.nonce
+  // with userNonces), so on-chain cancellation is off unless the hook exposes invalidateNonces
+  HOOK_SUPPORTS_NONCE_BUMP: process.env.NEXT_PUBLIC_HOOK_SUPPORTS_NONCE_BUMP === "true",
+
+  // Relayer pipeline (endpoints are per network, see networks.ts)
+  PIPELINE_POLL_MS: 1000,
+  // An intent still "submitted" after this long was never picked up by the TEE
+  TEE_PICKUP_TIMEOUT_MS: 60000,
+  LOG_RECONNECT_MIN_MS: 1000,
+  LOG_RECONNECT_MAX_MS: 30000,
+  RELAYER_STATS_POLL_MS: 5000,
+
+  // Enclave attestation (the enclave key and allowed measurements are per network, see networks.ts)
+  ATTESTATION_MAX_AGE_S: 3600,
+
+  // Hook event indexer (analytics page); start at the hook's deployment block
+  INDEXER_START_BLOCK: Number(process.env.NEXT_PUBLIC_INDEXER_START_BLOCK || 0),
+  INDEXER_PAGE_BLOCKS: 2000,
+  INDEXER_CONFIRMATIONS: 2,
+  INDEXER_MAX_CHECKPOINTS: 20,
+
+  // Quoting
+  QUOTE_DEBOUNCE_MS: 400,
+  QUOTE_STALE_MS: 15000,
+
+  // Local dev signer (well-known Anvil/Hardhat account #1 - never fund on mainnet)
+  DEV_PRIVATE_KEY: process.env.NEXT_PUBLIC_DEV_PRIVATE_KEY || "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+
+  // EIP-712 domain (must match DarkPoolHookAgentic constructor)
+  EIP712_NAME: "DarkHook",
+  EIP712_VERSION: "1",
+};
@@ -0,0 +1,257 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Wallet Connectors                                                            ║
+ * ║  Injected EIP-1193, external providers, local dev key and demo accounts       ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Every connector exposes the same surface so the page never cares where the
+ * account comes from. State changes (account switch, chain switch, disconnect)
+ * are pushed through subscribe() instead of being polled.
+ */
+
+import { Wallet } from "ethers";
+import { CONFIG } from "./config";
+import { NETWORK } from "./networks";
+import { Eip1193Signer, LocalKeySigner, type IntentSigner } from "./eip712";
+import type { Eip1193Provider } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              INTERFACE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type ConnectorEvent =
+  | { type: "accountsChanged"; account: string }
+  | { type: "chainChanged"; chainId: number }
+  | { type: "disconnect" };
+
+export type ConnectorListener = (event: ConnectorEvent) => void;
+
+export interface TransactionRequest {
+  to: string;
+  data: string;
+}
+
+export interface ConnectionInfo {
+  account: string;
+  chainId: number;
+}
+
+export interface WalletConnector {
+  id: string;
+  name: string;
+  icon: string;
+  connect(): Promise<ConnectionInfo>;
+  disconnect(): Promise<void>;
+  getSigner(): IntentSigner;
+  sendTransaction(tx: TransactionRequest): Promise<string>;
+  switchChain(chainId: number): Promise<void>;
+  subscribe(listener: ConnectorListener): () => void;
+}
+
+/**
+ * True when the wallet is on a different chain than the hook deployment
+ */
+export function isChainMismatch(chainId: number | null, expected: number = NETWORK.chainId): boolean {
+  return chainId !== null && chainId !== expected;
+}
+
+abstract class BaseConnector {
+  private listeners = new Set<ConnectorListener>();
+
+  subscribe(listener: ConnectorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected emit(event: ConnectorEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              EIP-1193 PROVIDERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wraps any EIP-1193 provider: window.ethereum, or a WalletConnect-style
+ * provider created elsewhere and passed in.
+ */
+export class Eip1193Connector extends BaseConnector implements WalletConnector {
+  private account: string | null = null;
+
+  constructor(
+    private provider: Eip1193Provider,
+    public id: string = "injected",
+    public name: string = "Browser Wallet",
+    public icon: string = "🦊"
+  ) {
+    super();
+  }
+
+  async connect(): Promise<ConnectionInfo> {
+    const accounts = (await this.provider.request({ method: "eth_requestAccounts" })) as string[];
+    if (!accounts || accounts.length === 0) {
+      throw new Error("No account available from provider");
+    }
+    this.account = accounts[0];
+    const chainId = Number(await this.provider.request({ method: "eth_chainId" }));
+
+    this.provider.on?.("accountsChanged", this.handleAccountsChanged);
+    this.provider.on?.("chainChanged", this.handleChainChanged);
+    this.provider.on?.("disconnect", this.handleDisconnect);
+
+    return { account: this.account, chainId };
+  }
+
+  async disconnect(): Promise<void> {
+    this.provider.removeListener?.("accountsChanged", this.handleAccountsChanged);
+    this.provider.removeListener?.("chainChanged", this.handleChainChanged);
+    this.provider.removeListener?.("disconnect", this.handleDisconnect);
+    this.account = null;
+    this.emit({ type: "disconnect" });
+  }
+
+  getSigner(): IntentSigner {
+    if (!this.account) throw new Error("Wallet not connected");
+    return new Eip1193Signer(this.provider, this.account);
+  }
+
+  async sendTransaction(tx: TransactionRequest): Promise<string> {
+    if (!this.account) throw new Error("Wallet not connected");
+    return (await this.provider.request({
+      method: "eth_sendTransaction",
+      params: [{ from: this.account, to: tx.to, data: tx.data }],
+    })) as string;
+  }
+
+  async switchChain(chainId: number): Promise<void> {
+    const hexChainId = "0x" + chainId.toString(16);
+    try {
+      await this.provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] });
+    } catch (error) {
+      // 4902: chain unknown to the wallet, add it first
+      if ((error as { code?: number }).code !== 4902 || chainId !== NETWORK.chainId) throw error;
+      await this.provider.request({
+        method: "wallet_addEthereumChain",
+        params: [
+          {
+            chainId: hexChainId,
+            chainName: NETWORK.name,
+            nativeCurrency: NETWORK.nativeCurrency,
+            rpcUrls: NETWORK.rpcUrls,
+            blockExplorerUrls: NETWORK.explorerUrl ? [NETWORK.explorerUrl] : undefined,
+          },
+        ],
+      });
+    }
+  }
+
+  // Provider events arrive untyped: narrow before trusting them
+  private handleAccountsChanged = (accounts: unknown) => {
+    const account = Array.isArray(accounts) && typeof accounts[0] === "string" ? accounts[0] : null;
+    if (!account) {
+      this.disconnect();
+      return;
+    }
+    this.account = account;
+    this.emit({ type: "accountsChanged", account });
+  };
+
+  private handleChainChanged = (chainId: unknown) => {
+    if (typeof chainId !== "string" && typeof chainId !== "number") return;
+    const id = Number(chainId);
+    if (Number.isSafeInteger(id) && id > 0) this.emit({ type: "chainChanged", chainId: id });
+  };
+
+  private handleDisconnect = () => {
+    this.disconnect();
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              LOCAL KEYS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Deterministic local signer - same key, same address, same signatures.
+ * Used for tests and local development against anvil.
+ */
+export class DevKeyConnector extends BaseConnector implements WalletConnector {
+  private signer: LocalKeySigner;
+  private chainId: number = NETWORK.chainId;
+  private connected = false;
+
+  constructor(
+    privateKey: string = CONFIG.DEV_PRIVATE_KEY,
+    public id: string = "dev-key",
+    public name: string = "Local Dev Key",
+    public icon: string = "🔑",
+    private connectDelayMs: number = 0
+  ) {
+    super();
+    this.signer = new LocalKeySigner(privateKey);
+  }
+
+  async connect(): Promise<ConnectionInfo> {
+    if (this.connectDelayMs > 0) {
+      await new Promise((r) => setTimeout(r, this.connectDelayMs));
+    }
+    this.connected = true;
+    return { account: await this.signer.getAddress(), chainId: this.chainId };
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.emit({ type: "disconnect" });
+  }
+
+  getSigner(): IntentSigner {
+    if (!this.connected) throw new Error("Wallet not connected");
+    return this.signer;
+  }
+
+  async sendTransaction(): Promise<string> {
+    throw new Error(`${this.name} signs intents only and cannot send transactions`);
+  }
+
+  async switchChain(chainId: number): Promise<void> {
+    this.chainId = chainId;
+    this.emit({ type: "chainChanged", chainId });
+  }
+}
+
+/**
+ * Demo connector - a throwaway key generated per session, so the page can be
+ * explored without a wallet while still producing verifiable signatures.
+ */
+export function createDemoConnector(): WalletConnector {
+  return new DevKeyConnector(Wallet.createRandom().privateKey, "demo", "Demo Account", "🎭", 500);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DISCOVERY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Connectors available in the current environment
+ */
+export function getAvailableConnectors(): WalletConnector[] {
+  const connectors: WalletConnector[] = [];
+
+  const injected = typeof window !== "undefined"
+    ? (window as unknown as { ethereum?: Eip1193Provider }).ethereum
+    : undefined;
+  if (injected) {
+    connectors.push(new Eip1193Connector(injected));
+  }
+
+  connectors.push(createDemoConnector());
+
+  if (process.env.NODE_ENV !== "production") {
+    connectors.push(new DevKeyConnector());
+  }
+
+  return connectors;
+}
@@ -0,0 +1,208 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  EIP-712 Intent Signing                                                       ║
+ * ║  Typed-data domain, SwapIntent type and signer implementations                ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * The domain and type below must stay byte-for-byte in sync with
+ * DarkPoolHookAgentic.sol (DOMAIN_SEPARATOR and INTENT_TYPEHASH).
+ */
+
+import { Wallet, verifyTypedData, type TypedDataDomain, type TypedDataField } from "ethers";
+import { CONFIG } from "./config";
+import { NETWORK } from "./networks";
+import type { CancelIntent, Eip1193Provider, SwapIntent } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DOMAIN & TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IntentDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+export const EIP712_DOMAIN_TYPE: TypedDataField[] = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+];
+
+export const SWAP_INTENT_TYPES: Record<string, TypedDataField[]> = {
+  SwapIntent: [
+    { name: "user", type: "address" },
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "minAmountOut", type: "uint256" },
+    { name: "maxSlippage", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * Off-chain withdrawal of a pending intent, checked by the relayer only -
+ * the hook has no notion of cancellation
+ */
+export const CANCEL_INTENT_TYPES: Record<string, TypedDataField[]> = {
+  CancelIntent: [
+    { name: "intentHash", type: "bytes32" },
+    { name: "user", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * Build the EIP-712 domain for a hook deployment
+ */
+export function buildIntentDomain(
+  verifyingContract: string = NETWORK.contracts.hook,
+  chainId: number = NETWORK.chainId
+): IntentDomain {
+  return {
+    name: CONFIG.EIP712_NAME,
+    version: CONFIG.EIP712_VERSION,
+    chainId,
+    verifyingContract,
+  };
+}
+
+/**
+ * Full eth_signTypedData_v4 payload (uint256 fields serialized as decimal strings)
+ */
+export function buildIntentTypedData(domain: IntentDomain, intent: SwapIntent) {
+  return {
+    types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...SWAP_INTENT_TYPES },
+    domain,
+    primaryType: "SwapIntent" as const,
+    message: {
+      user: intent.user,
+      tokenIn: intent.tokenIn,
+      tokenOut: intent.tokenOut,
+      amountIn: intent.amountIn.toString(),
+      minAmountOut: intent.minAmountOut.toString(),
+      maxSlippage: intent.maxSlippage.toString(),
+      deadline: intent.deadline.toString(),
+      nonce: intent.nonce.toString(),
+    },
+  };
+}
+
+export function buildCancelTypedData(domain: IntentDomain, cancel: CancelIntent) {
+  return {
+    types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...CANCEL_INTENT_TYPES },
+    domain,
+    primaryType: "CancelIntent" as const,
+    message: {
+      intentHash: cancel.intentHash,
+      user: cancel.user,
+      nonce: cancel.nonce.toString(),
+    },
+  };
+}
+
+/**
+ * Any other eth_signTypedData_v4 payload (token permits); types include EIP712Domain
+ */
+export interface TypedDataPayload {
+  types: Record<string, TypedDataField[]>;
+  domain: TypedDataDomain;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Recover the address that signed an intent (offline verification)
+ */
+export function recoverIntentSigner(domain: IntentDomain, intent: SwapIntent, signature: string): string {
+  return verifyTypedData(domain as TypedDataDomain, SWAP_INTENT_TYPES, intent, signature);
+}
+
+export function recoverCancelSigner(domain: IntentDomain, cancel: CancelIntent, signature: string): string {
+  return verifyTypedData(domain as TypedDataDomain, CANCEL_INTENT_TYPES, cancel, signature);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SIGNERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IntentSigner {
+  getAddress(): Promise<string>;
+  signIntent(domain: IntentDomain, intent: SwapIntent): Promise<string>;
+  signCancel(domain: IntentDomain, cancel: CancelIntent): Promise<string>;
+  signTypedData(payload: TypedDataPayload): Promise<string>;
+}
+
+/**
+ * Signs through an injected EIP-1193 provider (MetaMask, Rabby, ...)
+ */
+export class Eip1193Signer implements IntentSigner {
+  constructor(private provider: Eip1193Provider, private account?: string) {}
+
+  async getAddress(): Promise<string> {
+    if (this.account) return this.account;
+    const accounts = (await this.provider.request({ method: "eth_requestAccounts" })) as string[];
+    if (!accounts || accounts.length === 0) {
+      throw new Error("No account available from provider");
+    }
+    this.account = accounts[0];
+    return this.account;
+  }
+
+  async signIntent(domain: IntentDomain, intent: SwapIntent): Promise<string> {
+    const address = await this.getAddress();
+    const typedData = buildIntentTypedData(domain, intent);
+    return (await this.provider.request({
+      method: "eth_signTypedData_v4",
+      params: [address, JSON.stringify(typedData)],
+    })) as string;
+  }
+
+  async signCancel(domain: IntentDomain, cancel: CancelIntent): Promise<string> {
+    const address = await this.getAddress();
+    return (await this.provider.request({
+      method: "eth_signTypedData_v4",
+      params: [address, JSON.stringify(buildCancelTypedData(domain, cancel))],
+    })) as string;
+  }
+
+  async signTypedData(payload: TypedDataPayload): Promise<string> {
+    const address = await this.getAddress();
+    return (await this.provider.request({
+      method: "eth_signTypedData_v4",
+      params: [address, JSON.stringify(payload)],
+    })) as string;
+  }
+}
+
+/**
+ * Signs with a local private key (dev / offline test vectors)
+ */
+export class LocalKeySigner implements IntentSigner {
+  private wallet: Wallet;
+
+  constructor(privateKey: string) {
+    this.wallet = new Wallet(privateKey);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async signIntent(domain: IntentDomain, intent: SwapIntent): Promise<string> {
+    return this.wallet.signTypedData(domain as TypedDataDomain, SWAP_INTENT_TYPES, intent);
+  }
+
+  async signCancel(domain: IntentDomain, cancel: CancelIntent): Promise<string> {
+    return this.wallet.signTypedData(domain as TypedDataDomain, CANCEL_INTENT_TYPES, cancel);
+  }
+
+  async signTypedData({ types, domain, message }: TypedDataPayload): Promise<string> {
+    const { EIP712Domain: _domainType, ...messageTypes } = types;
+    return this.wallet.signTypedData(domain, messageTypes, message);
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { decodeHookLog, HookEventIndexer, MemoryEventIndexStore, type IndexerOptions, type SyncProgress } from "./eventIndexer";
+import { JsonRpcClient, RpcError, type RpcLog, type RpcTransport } from "./rpc";
+import { RecordedLogsRpc } from "./standInRpc";
+import { FIXTURE_HEAD_BLOCK, FIXTURE_HOOK_ADDRESS, FIXTURE_HOOK_LOGS, FIXTURE_START_BLOCK, fixtureBlockHash } from "./fixtures/hookLogs";
+
+const TARGET = FIXTURE_HEAD_BLOCK - 2;
+const OPTIONS: IndexerOptions = { hookAddress: FIXTURE_HOOK_ADDRESS, startBlock: FIXTURE_START_BLOCK, pageBlocks: 100, confirmations: 2 };
+
+const blockOf = (log: RpcLog) => Number(log.blockNumber);
+const logsBefore = (block: number) => FIXTURE_HOOK_LOGS.filter((log) => blockOf(log) < block).length;
+
+/**
+ * Fails eth_getLogs once after letting the first `pages` requests through
+ */
+class InterruptedRpc implements RpcTransport {
+  private calls = 0;
+
+  constructor(private inner: RpcTransport, private pages: number) {}
+
+  async request(method: string, params: unknown[]): Promise<unknown> {
+    if (method === "eth_getLogs" && this.calls++ === this.pages) throw new RpcError("connection reset", -32603);
+    return this.inner.request(method, params);
+  }
+}
+
+function setup(options: Partial<IndexerOptions> = {}, rpc = new RecordedLogsRpc()) {
+  const store = new MemoryEventIndexStore();
+  const indexer = (transport: RpcTransport = rpc) => new HookEventIndexer(new JsonRpcClient(transport), store, 84532, { ...OPTIONS, ...options });
+  return { rpc, store, indexer };
+}
+
+describe("decodeHookLog", () => {
+  it("decodes all three hook events", () => {
+    const kinds = FIXTURE_HOOK_LOGS.map((log) => decodeHookLog(log)?.kind);
+    expect(kinds.every((kind) => kind === "executed" || kind === "verified" || kind === "failed")).toBe(true);
+    expect(kinds.filter((kind) => kind === "failed")).toHaveLength(4);
+  });
+
+  it("keeps the revert reason of ExecutionFailed", () => {
+    const failed = decodeHookLog(FIXTURE_HOOK_LOGS[FIXTURE_HOOK_LOGS.length - 1]);
+    expect(failed).toMatchObject({ kind: "failed", reason: "Already executed", blockNumber: FIXTURE_START_BLOCK + 290 });
+  });
+
+  it("ignores logs that are not hook events", () => {
+    expect(decodeHookLog({ ...FIXTURE_HOOK_LOGS[0], topics: ["0x" + "00".repeat(32)] })).toBeNull();
+  });
+});
+
+describe("HookEventIndexer.sync", () => {
+  it("pages up to head minus confirmations and checkpoints every page", async () => {
+    const { indexer } = setup();
+    const progress: SyncProgress[] = [];
+    const result = await indexer().sync((p) => progress.push(p));
+
+    expect(result).toEqual({ head: FIXTURE_HEAD_BLOCK, cursor: TARGET, added: FIXTURE_HOOK_LOGS.length, rolledBack: 0, reorgedFrom: undefined });
+    expect(progress.map((p) => p.cursor - FIXTURE_START_BLOCK)).toEqual([99, 199, 299, 318]);
+    const index = await indexer().load();
+    expect(index.checkpoints).toEqual(progress.map((p) => ({ blockNumber: p.cursor, blockHash: fixtureBlockHash(p.cursor) })));
+    expect(index.events.map((event) => event.id)).toEqual(
+      FIXTURE_HOOK_LOGS.map((log) => `${log.transactionHash}:${Number(log.logIndex)}`)
+    );
+  });
+
+  it("halves the page until the RPC accepts the range", async () => {
+    const { indexer } = setup({ pageBlocks: 2000 });
+    const progress: SyncProgress[] = [];
+    const result = await indexer().sync((p) => progress.push(p));
+    expect(result.added).toBe(FIXTURE_HOOK_LOGS.length);
+    expect(progress[0].cursor - FIXTURE_START_BLOCK + 1).toBe(62); // 2000 halved five times fits the 100-block cap
+  });
+
+  it("does not read unconfirmed blocks", async () => {
+    const { indexer } = setup({ confirmations: 31 }); // last fixture log is 30 blocks below head
+    expect((await indexer().sync()).added).toBe(logsBefore(FIXTURE_HEAD_BLOCK - 30));
+  });
+
+  it("resumes an interrupted sync from the last saved page", async () => {
+    const { rpc, indexer } = setup();
+    await expect(indexer(new InterruptedRpc(rpc, 2)).sync()).rejects.toThrow("connection reset");
+    const partial = await indexer().load();
+    expect(partial.cursor).toBe(FIXTURE_START_BLOCK + 199);
+    expect(partial.events).toHaveLength(logsBefore(FIXTURE_START_BLOCK + 200));
+
+    const result = await indexer().sync();
+    expect(result.added).toBe(FIXTURE_HOOK_LOGS.length - partial.events.length);
+    expect((await indexer().load()).events).toHaveLength(FIXTURE_HOOK_LOGS.length);
+  });
+
+  it("only reads new blocks on the next sync", async () => {
+    const { rpc, indexer } = setup();
+    await indexer().sync();
+    rpc.advance(10);
+    expect(await indexer().sync()).toMatchObject({ cursor: TARGET + 10, added: 0, rolledBack: 0 });
+  });
+
+  it("keeps only the newest checkpoints", async () => {
+    const { indexer } = setup({ maxCheckpoints: 2 });
+    await indexer().sync();
+    expect((await indexer().load()).checkpoints.map((c) => c.blockNumber - FIXTURE_START_BLOCK)).toEqual([299, 318]);
+  });
+
+  it("starts over when startBlock changes", async () => {
+    const { store } = setup();
+    const first = new HookEventIndexer(new JsonRpcClient(new RecordedLogsRpc()), store, 84532, OPTIONS);
+    await first.sync();
+    const moved = new HookEventIndexer(new JsonRpcClient(new RecordedLogsRpc()), store, 84532, { ...OPTIONS, startBlock: FIXTURE_START_BLOCK + 100 });
+    expect((await moved.load()).events).toEqual([]);
+    expect((await moved.sync()).added).toBe(FIXTURE_HOOK_LOGS.length - logsBefore(FIXTURE_START_BLOCK + 100));
+  });
+});
+
+describe("reorgs", () => {
+  const forkBlock = FIXTURE_START_BLOCK + 200;
+  const replacement: RpcLog = {
+    ...FIXTURE_HOOK_LOGS[0],
+    blockNumber: "0x" + (forkBlock + 10).toString(16),
+    transactionHash: "0x" + "ee".repeat(32),
+  };
+
+  it("rolls back to the newest surviving checkpoint and re-reads from there", async () => {
+    const { rpc, indexer } = setup();
+    await indexer().sync();
+    rpc.reorg(forkBlock, [replacement]);
+
+    const dropped = FIXTURE_HOOK_LOGS.length - logsBefore(forkBlock);
+    expect(await indexer().sync()).toEqual({ head: FIXTURE_HEAD_BLOCK, cursor: TARGET, added: 1, rolledBack: dropped, reorgedFrom: forkBlock });
+
+    const index = await indexer().load();
+    expect(index.events).toHaveLength(logsBefore(forkBlock) + 1);
+    expect(index.events[index.events.length - 1]).toMatchObject({ txHash: replacement.transactionHash, blockHash: rpc.blockHash(forkBlock + 10) });
+    expect(index.checkpoints.every((c) => c.blockHash === rpc.blockHash(c.blockNumber))).toBe(true);
+  });
+
+  it("reindexes from startBlock when no kept checkpoint survived", async () => {
+    const { rpc, indexer } = setup({ maxCheckpoints: 2 });
+    await indexer().sync();
+    rpc.reorg(FIXTURE_START_BLOCK + 50);
+
+    const result = await indexer().sync();
+    expect(result).toMatchObject({ rolledBack: FIXTURE_HOOK_LOGS.length, reorgedFrom: FIXTURE_START_BLOCK });
+    expect(result.added).toBe(logsBefore(FIXTURE_START_BLOCK + 50));
+  });
+
+  it("leaves the index alone when the newest checkpoint is still canonical", async () => {
+    const { rpc, indexer } = setup();
+    await indexer().sync();
+    rpc.reorg(TARGET + 1); // past the cursor: nothing indexed changed
+    expect(await indexer().sync()).toMatchObject({ rolledBack: 0, reorgedFrom: undefined, added: 0 });
+  });
+});
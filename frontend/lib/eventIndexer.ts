@@ -0,0 +1,345 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Hook Event Indexer                                                           ║
+ * ║  PrivateOrderExecuted / IntentVerified / ExecutionFailed, kept locally        ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Reads the hook's logs in block-range pages up to head minus a few
+ * confirmations, saving after every page so an interrupted sync resumes where
+ * it stopped. Each page ends with a checkpoint (block number and hash). On the
+ * next sync the newest checkpoints are compared against the chain; if a reorg
+ * replaced them, everything past the newest surviving checkpoint is dropped
+ * and re-read.
+ *
+ * The block hash is read before a page's logs, so a reorg that lands mid-page
+ * leaves a stale checkpoint (caught next sync) rather than stale logs behind a
+ * fresh one.
+ */
+
+import { Interface } from "ethers";
+import { CONFIG } from "./config";
+import { RpcError, type JsonRpcClient, type RpcLog } from "./rpc";
+
+export const HOOK_EVENTS_ABI = [
+  "event PrivateOrderExecuted(bytes32 indexed batchId, address indexed user, address indexed relayer, uint256 amountIn, uint256 amountOut, uint256 clearingPrice, uint256 mevSaved)",
+  "event IntentVerified(bytes32 indexed intentHash, address indexed user, uint256 timestamp)",
+  "event ExecutionFailed(bytes32 indexed intentHash, address indexed user, string reason)",
+];
+
+export const hookEventsInterface = new Interface(HOOK_EVENTS_ABI);
+
+const EVENT_TOPICS = ["PrivateOrderExecuted", "IntentVerified", "ExecutionFailed"].map(
+  (name) => hookEventsInterface.getEvent(name)!.topicHash
+);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              EVENTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface LogPosition {
+  id: string; // txHash:logIndex
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+/**
+ * uint256 fields are decimal strings so the index serializes as plain JSON
+ */
+export interface OrderExecutedEvent extends LogPosition {
+  kind: "executed";
+  batchId: string;
+  user: string;
+  relayer: string;
+  amountIn: string;
+  amountOut: string;
+  clearingPrice: string;
+  mevSaved: string;
+}
+
+export interface IntentVerifiedEvent extends LogPosition {
+  kind: "verified";
+  intentHash: string;
+  user: string;
+  timestamp: number; // block.timestamp, unix seconds
+}
+
+export interface ExecutionFailedEvent extends LogPosition {
+  kind: "failed";
+  intentHash: string;
+  user: string;
+  reason: string;
+}
+
+export type HookEvent = OrderExecutedEvent | IntentVerifiedEvent | ExecutionFailedEvent;
+
+/**
+ * null for logs that aren't one of the three hook events
+ */
+export function decodeHookLog(log: RpcLog): HookEvent | null {
+  let parsed;
+  try {
+    parsed = hookEventsInterface.parseLog({ topics: log.topics, data: log.data });
+  } catch (e) {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const position: LogPosition = {
+    id: `${log.transactionHash.toLowerCase()}:${Number(log.logIndex)}`,
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash.toLowerCase(),
+    txHash: log.transactionHash.toLowerCase(),
+    logIndex: Number(log.logIndex),
+  };
+  const args = parsed.args;
+  switch (parsed.name) {
+    case "PrivateOrderExecuted":
+      return {
+        ...position,
+        kind: "executed",
+        batchId: args.batchId,
+        user: args.user,
+        relayer: args.relayer,
+        amountIn: args.amountIn.toString(),
+        amountOut: args.amountOut.toString(),
+        clearingPrice: args.clearingPrice.toString(),
+        mevSaved: args.mevSaved.toString(),
+      };
+    case "IntentVerified":
+      return { ...position, kind: "verified", intentHash: args.intentHash, user: args.user, timestamp: Number(args.timestamp) };
+    case "ExecutionFailed":
+      return { ...position, kind: "failed", intentHash: args.intentHash, user: args.user, reason: args.reason };
+    default:
+      return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              STORAGE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IndexCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface EventIndex {
+  chainId: number;
+  hookAddress: string; // lowercase
+  startBlock: number;
+  cursor: number; // last block fully indexed; startBlock - 1 before the first page
+  checkpoints: IndexCheckpoint[]; // oldest first
+  events: HookEvent[]; // block, then log order
+}
+
+export interface EventIndexStore {
+  load(key: string): Promise<EventIndex | undefined>;
+  save(key: string, index: EventIndex): Promise<void>;
+}
+
+export class MemoryEventIndexStore implements EventIndexStore {
+  private indexes = new Map<string, EventIndex>();
+
+  async load(key: string): Promise<EventIndex | undefined> {
+    const index = this.indexes.get(key);
+    return index && structuredClone(index);
+  }
+
+  async save(key: string, index: EventIndex): Promise<void> {
+    this.indexes.set(key, structuredClone(index));
+  }
+}
+
+const INDEX_KEY_PREFIX = "unishield:events:";
+
+/**
+ * One JSON blob per chain and hook; a full store falls back to keeping the
+ * index for this session only
+ */
+export class LocalStorageEventIndexStore implements EventIndexStore {
+  private fallback = new MemoryEventIndexStore();
+
+  async load(key: string): Promise<EventIndex | undefined> {
+    const session = await this.fallback.load(key);
+    if (session) return session;
+    try {
+      const stored = window.localStorage.getItem(INDEX_KEY_PREFIX + key);
+      return stored ? (JSON.parse(stored) as EventIndex) : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  async save(key: string, index: EventIndex): Promise<void> {
+    try {
+      window.localStorage.setItem(INDEX_KEY_PREFIX + key, JSON.stringify(index));
+    } catch (e) {
+      await this.fallback.save(key, index);
+    }
+  }
+}
+
+export function openEventIndexStore(): EventIndexStore {
+  return typeof window === "undefined" ? new MemoryEventIndexStore() : new LocalStorageEventIndexStore();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              INDEXER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IndexerOptions {
+  hookAddress: string;
+  startBlock: number;
+  pageBlocks?: number;
+  confirmations?: number;
+  maxCheckpoints?: number;
+}
+
+export interface SyncProgress {
+  cursor: number;
+  target: number;
+}
+
+export interface SyncResult {
+  head: number;
+  cursor: number;
+  added: number;
+  rolledBack: number; // events dropped by a reorg
+  reorgedFrom?: number; // first block re-read after a reorg
+}
+
+/**
+ * Providers word this differently; all mean "ask for fewer blocks"
+ */
+function isRangeError(error: unknown): boolean {
+  if (!(error instanceof RpcError)) return false;
+  return error.code === -32005 || /range|too many|limit exceeded|10000 results/i.test(error.message);
+}
+
+export class HookEventIndexer {
+  private hookAddress: string;
+  private startBlock: number;
+  private pageBlocks: number;
+  private confirmations: number;
+  private maxCheckpoints: number;
+
+  constructor(private rpc: JsonRpcClient, private store: EventIndexStore, private chainId: number, options: IndexerOptions) {
+    this.hookAddress = options.hookAddress.toLowerCase();
+    this.startBlock = options.startBlock;
+    this.pageBlocks = options.pageBlocks ?? CONFIG.INDEXER_PAGE_BLOCKS;
+    this.confirmations = options.confirmations ?? CONFIG.INDEXER_CONFIRMATIONS;
+    this.maxCheckpoints = options.maxCheckpoints ?? CONFIG.INDEXER_MAX_CHECKPOINTS;
+  }
+
+  get key(): string {
+    return `${this.chainId}:${this.hookAddress}`;
+  }
+
+  async load(): Promise<EventIndex> {
+    const stored = await this.store.load(this.key);
+    if (stored && stored.startBlock === this.startBlock) return stored;
+    return this.empty();
+  }
+
+  /**
+   * Bring the index up to head - confirmations
+   */
+  async sync(onProgress?: (progress: SyncProgress) => void): Promise<SyncResult> {
+    let index = await this.load();
+    const before = index.events.length;
+
+    const rewind = await this.findRewind(index);
+    let rolledBack = 0;
+    let reorgedFrom: number | undefined;
+    if (rewind !== undefined) {
+      const kept = rewind === null ? this.empty() : this.truncate(index, rewind);
+      rolledBack = index.events.length - kept.events.length;
+      reorgedFrom = kept.cursor + 1;
+      index = kept;
+      await this.store.save(this.key, index);
+    }
+
+    const head = await this.rpc.getBlockNumber();
+    const target = head - this.confirmations;
+    let pageBlocks = this.pageBlocks;
+
+    while (index.cursor < target) {
+      const from = index.cursor + 1;
+      const to = Math.min(from + pageBlocks - 1, target);
+      const blockHash = await this.rpc.getBlockHash(to);
+      if (blockHash === null) break; // node behind its own head, try next sync
+
+      let logs: RpcLog[];
+      try {
+        logs = await this.rpc.getLogs({ address: this.hookAddress, topics: [EVENT_TOPICS], fromBlock: from, toBlock: to });
+      } catch (error) {
+        if (isRangeError(error) && pageBlocks > 1) {
+          pageBlocks = Math.max(1, Math.floor(pageBlocks / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      const seen = new Set(index.events.map((event) => event.id));
+      const decoded = logs
+        .filter((log) => !log.removed)
+        .map(decodeHookLog)
+        .filter((event): event is HookEvent => event !== null && !seen.has(event.id))
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+      index = {
+        ...index,
+        cursor: to,
+        checkpoints: [...index.checkpoints, { blockNumber: to, blockHash: blockHash.toLowerCase() }].slice(-this.maxCheckpoints),
+        events: [...index.events, ...decoded],
+      };
+      await this.store.save(this.key, index);
+      onProgress?.({ cursor: to, target });
+    }
+
+    return {
+      head,
+      cursor: index.cursor,
+      added: index.events.length - before + rolledBack,
+      rolledBack,
+      reorgedFrom,
+    };
+  }
+
+  /**
+   * undefined: newest checkpoint still canonical. A checkpoint: rewind to it.
+   * null: none of the kept checkpoints survived, reindex from startBlock.
+   */
+  private async findRewind(index: EventIndex): Promise<IndexCheckpoint | null | undefined> {
+    for (let i = index.checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = index.checkpoints[i];
+      const hash = await this.rpc.getBlockHash(checkpoint.blockNumber);
+      if (hash !== null && hash.toLowerCase() === checkpoint.blockHash) {
+        return i === index.checkpoints.length - 1 ? undefined : checkpoint;
+      }
+    }
+    return index.checkpoints.length === 0 ? undefined : null;
+  }
+
+  private truncate(index: EventIndex, checkpoint: IndexCheckpoint): EventIndex {
+    return {
+      ...index,
+      cursor: checkpoint.blockNumber,
+      checkpoints: index.checkpoints.filter((c) => c.blockNumber <= checkpoint.blockNumber),
+      events: index.events.filter((event) => event.blockNumber <= checkpoint.blockNumber),
+    };
+  }
+
+  private empty(): EventIndex {
+    return {
+      chainId: this.chainId,
+      hookAddress: this.hookAddress,
+      startBlock: this.startBlock,
+      cursor: this.startBlock - 1,
+      checkpoints: [],
+      events: [],
+    };
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Attestation reports for the stand-in enclave (see enclaveKeys.ts).
+ *
+ * Signed with private key 0x..01, the iApp's TEE_SIGNER_ADDRESS, except for
+ * "wrong signer" which uses the dev key. verifyAttestationReport with
+ * ATTESTATION_FIXTURE_POLICY at `now` must fail exactly the listed checks.
+ */
+
+import type { AttestationCheckId, AttestationPolicy } from "../attestation";
+import type { AttestationReport } from "../types";
+import { STAND_IN_ENCLAVE_PUBLIC_KEY } from "./enclaveKeys";
+
+export interface AttestationFixture {
+  name: string;
+  description: string;
+  report: AttestationReport;
+  now: number; // ms
+  failing: AttestationCheckId[];
+}
+
+export const ATTESTATION_FIXTURE_POLICY: AttestationPolicy = {
+  allowedMeasurements: ["0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8"],
+  enclavePublicKey: STAND_IN_ENCLAVE_PUBLIC_KEY,
+  teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+  maxAgeSeconds: 3600,
+};
+
+export const ATTESTATION_FIXTURES: AttestationFixture[] = [
+  {
+    name: "valid",
+    description: "Stand-in enclave, pinned measurement, signed by the TEE signer",
+    report: {
+      version: 1,
+      enclaveMeasurement: "0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8",
+      enclavePublicKey: "0x04e5e4602bdc3298058a6404f1a72042a38edc9f7844a876ff0033d53534ce60982e18bad29b4219ee1af604642d3b681d28757ccf89bf11930dbd88b5896a5dde",
+      reportData: "0xaa0ae6a7c61cfc7a18d01be41a4e4320b8eadc1123102048f02bd479a56815ef",
+      teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+      issuedAt: 1767225000,
+      signature: "0x3d5676721774d6c8b54d81a42b26d75c9ef76c5a8d3f14c1a61ddde22bfd7e6b40bc02daf88892a2672b4d5c88c9873b29e68cca14abfb10a210022cb21fd92e1b",
+    },
+    now: 1767225600000,
+    failing: [],
+  },
+  {
+    name: "unknown measurement",
+    description: "Enclave build not on the allow-list",
+    report: {
+      version: 1,
+      enclaveMeasurement: "0xabababababababababababababababababababababababababababababababab",
+      enclavePublicKey: "0x04e5e4602bdc3298058a6404f1a72042a38edc9f7844a876ff0033d53534ce60982e18bad29b4219ee1af604642d3b681d28757ccf89bf11930dbd88b5896a5dde",
+      reportData: "0xaa0ae6a7c61cfc7a18d01be41a4e4320b8eadc1123102048f02bd479a56815ef",
+      teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+      issuedAt: 1767225000,
+      signature: "0x99f29c882821fde7b90e371387b538aad861d23dcd60802d35cc35b5a2c61b36544e83196a3be47f008d4e7c8fa69fc98a34964b456bb4bb7de98279da078e6c1c",
+    },
+    now: 1767225600000,
+    failing: ["measurement"],
+  },
+  {
+    name: "unbound key",
+    description: "reportData commits to a different key than advertised",
+    report: {
+      version: 1,
+      enclaveMeasurement: "0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8",
+      enclavePublicKey: "0x04e5e4602bdc3298058a6404f1a72042a38edc9f7844a876ff0033d53534ce60982e18bad29b4219ee1af604642d3b681d28757ccf89bf11930dbd88b5896a5dde",
+      reportData: "0xbd14b6f1897800f55b3b0d67fdb25423ce734cd061d069621814de537b1a426d",
+      teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+      issuedAt: 1767225000,
+      signature: "0xe6c62672a4a2c0ad81678d3b20d700fbb6ebe8f863bfdf84b1b7a8c7c550291c454fe680a52b6a5d0194b073634db8f46bd8730257bc2cef84a4152d556042381b",
+    },
+    now: 1767225600000,
+    failing: ["reportData"],
+  },
+  {
+    name: "other enclave key",
+    description: "Correctly bound key that this frontend was not configured for",
+    report: {
+      version: 1,
+      enclaveMeasurement: "0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8",
+      enclavePublicKey: "0x04f6a4a9b33952c72d8e37f73a387e4d8779f634a0426388ea625225f139f6807716adad51721fb04cf422e31a3fd826678a8b55a9b2b68e42e6e6e80716dbfab7",
+      reportData: "0xbd14b6f1897800f55b3b0d67fdb25423ce734cd061d069621814de537b1a426d",
+      teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+      issuedAt: 1767225000,
+      signature: "0xd377553c77a354a2ae2ba9f7da473a3c822135f00399a3a9d2063b2fab87220044fd32ea91822110783abba7304b3572a72539ee3dac8a13a94d56bc3e6fb4f91c",
+    },
+    now: 1767225600000,
+    failing: ["encryptionKey"],
+  },
+  {
+    name: "wrong signer",
+    description: "Self-consistent report signed by a key the hook does not trust",
+    report: {
+      version: 1,
+      enclaveMeasurement: "0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8",
+      enclavePublicKey: "0x04e5e4602bdc3298058a6404f1a72042a38edc9f7844a876ff0033d53534ce60982e18bad29b4219ee1af604642d3b681d28757ccf89bf11930dbd88b5896a5dde",
+      reportData: "0xaa0ae6a7c61cfc7a18d01be41a4e4320b8eadc1123102048f02bd479a56815ef",
+      teeSigner: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+      issuedAt: 1767225000,
+      signature: "0x2986a73dfa300443c8acfeefcfd2e5e22d1b6ac9490393351207fe2befea1a1047e66e4f07e4dfed9cf552fda26c73f95d0089b08173168dba8a397140ccd06a1c",
+    },
+    now: 1767225600000,
+    failing: ["signer"],
+  },
+  {
+    name: "stale",
+    description: "Valid report checked two hours after issue",
+    report: {
+      version: 1,
+      enclaveMeasurement: "0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8",
+      enclavePublicKey: "0x04e5e4602bdc3298058a6404f1a72042a38edc9f7844a876ff0033d53534ce60982e18bad29b4219ee1af604642d3b681d28757ccf89bf11930dbd88b5896a5dde",
+      reportData: "0xaa0ae6a7c61cfc7a18d01be41a4e4320b8eadc1123102048f02bd479a56815ef",
+      teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+      issuedAt: 1767225000,
+      signature: "0x3d5676721774d6c8b54d81a42b26d75c9ef76c5a8d3f14c1a61ddde22bfd7e6b40bc02daf88892a2672b4d5c88c9873b29e68cca14abfb10a210022cb21fd92e1b",
+    },
+    now: 1767232200000,
+    failing: ["freshness"],
+  },
+];
@@ -0,0 +1,92 @@
+/**
+ * Batch summaries as GET /batches/:batchId serves them, for three USDC -> WETH
+ * batches around the fixture ETH price. The user's own buy is fully filled
+ * in the first, partially filled in the second (the last eligible buy when
+ * supply runs out) and unmatched in the third (limit under the clearing
+ * price). Generated with buildBatchSummary, so clearing prices and fills
+ * follow the iApp matcher.
+ */
+
+import type { SerializedBatchSummary } from "../batchSummary";
+
+export const FIXTURE_BATCH_SUMMARIES: SerializedBatchSummary[] = [
+  // fully filled
+  {
+    batchId: "0xf69036c8a95c1136cb0331973509b51d8b5229f194c338266f1a34b3f278e5ee",
+    timestamp: 1760000000,
+    tokens: { in: { symbol: "USDC", decimals: 6 }, out: { symbol: "WETH", decimals: 18 } },
+    clearingPrice: "2597500000",
+    matchedVolume: "18300000000",
+    orders: 15,
+    demand: [
+      { price: "2629968750", volume: "5100000000", orders: 2 },
+      { price: "2610487500", volume: "4000000000", orders: 2 },
+      { price: "2603993750", volume: "9200000000", orders: 2 },
+      { price: "2578018750", volume: "9100000000", orders: 2 },
+    ],
+    supply: [
+      { price: "2578018750", volume: "7400000000", orders: 2 },
+      { price: "2597500000", volume: "12000000000", orders: 3 },
+      { price: "2629968750", volume: "11200000000", orders: 2 },
+    ],
+    position: {
+      intentHash: "0x8c950c1d3d58bcebaf4220ccad060e268468845a1d3ee5b0773400ccd65650c3",
+      side: "buy",
+      limitPrice: "2621500000",
+      amount: "1500000000",
+      filled: "1500000000",
+      fill: "full",
+    },
+  },
+  // partially filled
+  {
+    batchId: "0x288cee632504d261b7e784750f1bdfb06bb8f849802f08f98ca3622be707a08a",
+    timestamp: 1760000120,
+    tokens: { in: { symbol: "USDC", decimals: 6 }, out: { symbol: "WETH", decimals: 18 } },
+    clearingPrice: "2600800000",
+    matchedVolume: "12100000000",
+    orders: 13,
+    demand: [
+      { price: "2600800000", volume: "15600000000", orders: 4 },
+      { price: "2574792000", volume: "11700000000", orders: 3 },
+    ],
+    supply: [
+      { price: "2600800000", volume: "12100000000", orders: 4 },
+      { price: "2639812000", volume: "8500000000", orders: 2 },
+    ],
+    position: {
+      intentHash: "0x5432174d4aaec8964c0ee1380ad5521fac1a61a49766faca76e8fe5d0c6fb029",
+      side: "buy",
+      limitPrice: "2603250000",
+      amount: "6000000000",
+      filled: "2500000000",
+      fill: "partial",
+    },
+  },
+  // unmatched
+  {
+    batchId: "0x0a6d43b53e33c72ec06f694b34b0990c444033f3b3342b94b6c623fd15522c0b",
+    timestamp: 1760000240,
+    tokens: { in: { symbol: "USDC", decimals: 6 }, out: { symbol: "WETH", decimals: 18 } },
+    clearingPrice: "2594200000",
+    matchedVolume: "17900000000",
+    orders: 13,
+    demand: [
+      { price: "2613656500", volume: "8200000000", orders: 2 },
+      { price: "2600685500", volume: "10600000000", orders: 2 },
+      { price: "2561772500", volume: "7300000000", orders: 3 },
+    ],
+    supply: [
+      { price: "2581229000", volume: "5900000000", orders: 2 },
+      { price: "2594200000", volume: "12000000000", orders: 3 },
+    ],
+    position: {
+      intentHash: "0x7fe8841c12d89564aa84de89060c85b1030573ac02b3f35cfe56e49a13aacff2",
+      side: "buy",
+      limitPrice: "2571750000",
+      amount: "2500000000",
+      filled: "0",
+      fill: "none",
+    },
+  },
+];
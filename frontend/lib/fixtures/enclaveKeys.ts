@@ -0,0 +1,42 @@
+/**
+ * Stand-in enclave key pair for intent encryption.
+ *
+ * A throwaway P-256 key generated with WebCrypto for local development; the
+ * mock relayer decrypts with it in place of the TEE. Never use it for real
+ * intents. STAND_IN_ENVELOPE seals intent vector 1 (see intentHashVectors.ts)
+ * to STAND_IN_ENCLAVE_PUBLIC_KEY: openIntentEnvelope with the private key must
+ * return that signed intent unchanged, and must reject it if any field is
+ * altered.
+ */
+
+import type { IntentEnvelope } from "../intentCrypto";
+
+export const STAND_IN_ENCLAVE_PUBLIC_KEY =
+  "0x04e5e4602bdc3298058a6404f1a72042a38edc9f7844a876ff0033d53534ce60982e18bad29b4219ee1af604642d3b681d28757ccf89bf11930dbd88b5896a5dde";
+
+export const STAND_IN_ENCLAVE_KEY_ID = "0xaa0ae6a7c61cfc7a";
+
+// MRENCLAVE the mock relayer reports for the stand-in enclave (dark-hook-iapp v1 with its default key)
+export const STAND_IN_ENCLAVE_MEASUREMENT = "0xd87eb68823a526ccfa1affa8347786cd3274407969876e407f75ac3443e429f8";
+
+// TEE_SIGNER_ADDRESS in the iApp and relayer (the address of private key 0x..01)
+export const STAND_IN_TEE_SIGNER = "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf";
+
+export const STAND_IN_ENCLAVE_PRIVATE_JWK: JsonWebKey = {
+  kty: "EC",
+  crv: "P-256",
+  x: "5eRgK9wymAWKZATxpyBCo47cn3hEqHb_ADPVNTTOYJg",
+  y: "Lhi60ptCGe4a9gRkLTtoHSh1fM-JvxGTDb2ItYlqXd4",
+  d: "OMYk2t7gHhtz-QqjQCMKkRsbJAoMxK8PpdiKiWZWbh4",
+};
+
+export const STAND_IN_ENVELOPE: IntentEnvelope = {
+  v: 1,
+  alg: "ECDH-P256+HKDF-SHA256+A256GCM",
+  kid: "0xaa0ae6a7c61cfc7a",
+  epk: "BLqVr2R+JyWjwr0jserakn/MA0PR0QcNmbHSlPTvKPa+ue1y+OIZB4xTKfO9WzYVr9eRGrJt3K2chPRqrzz/ark=",
+  ref: "0x378c765382e143b8f4b67e95fedf6a06d17135b77043216ccace0da6252ae12d",
+  iv: "5nmc81TIMcqnIK/h",
+  ct:
+    "DtBNTTltTaDRHjgdc+idIbqZzEvG/M49KV06Qjw2RKVeMOmWx+VaBWfbuXcEhNTxk1SsWPBuN2bgJ42M0jh0uf2d2qgHuPbbc7cmgRzDlTga2GlaasEc2cxO8uiw2wxw5ScBAb+60/kzwLdzOqtG5P3njePlyUKBQxAqPk5rJL6pdhf7BaKkrKmrXy45i5qKMD39wt/jOE9rFwWTXr3OYGgfM+ajLgQi6JqV2VAlDTGEyqbcQ+KgJ2DEFYgb+5IOH+qLttX3rItwrjO7Dl9Y4QQC2Qp8CTOGfUJlw+RSoi7eqXVFYLT8z3tlL4FnAHAscji+QoidzdXqdN1Qi2iHyPnV4FrZbs9c7DHlRzK+/LT6ViITNz+g12QUOmLblryGQt3ux7MQAJ/lS7jaczuWSJT3I6ycr6MOm+qdvL5THsPni2cKhY2M1Ye8WPa2tpiFlM463qlO7HQi/PUP/GsqWIr7Igw/pt6FMt/6nl4kDOJasQzxBRKq6JIUERiVm5T1756fGqpLC1tsmYcqOx7mSr1+VoGgsAiuRA7mW6nj2y2tg+6SBlxf0LAUGzwx2PD4x1Jsmag0tmX53xdXX8L2eXK9wHrxoww1e1tkoVwa/XXQ0IGZcIu8dTngS2vBpM1efaEZpZEWjyW8H3BdOTkt/yMzwIhusPwPv+jkbxgg8xeOBitzcAmv90u7+p0=",
+};
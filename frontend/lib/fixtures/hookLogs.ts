@@ -0,0 +1,457 @@
+/**
+ * eth_getLogs results for DarkPoolHookAgentic in raw JSON-RPC form: five
+ * batches of USDC -> WETH fills around the fixture ETH price, each with the
+ * IntentVerified the hook emits in the same transaction, plus a few
+ * ExecutionFailed entries. Encoded with the hook's event ABI at the zero
+ * address (the stand-in setup); block hashes follow fixtureBlockHash.
+ *
+ * The deployed hook emits ExecutionFailed just before reverting, so a live
+ * chain drops it with the transaction; the entries here still exercise the
+ * decoder and the failure breakdown.
+ */
+
+import { keccak256, solidityPacked } from "ethers";
+import type { RpcLog } from "../rpc";
+
+export const FIXTURE_HOOK_ADDRESS = "0x0000000000000000000000000000000000000000";
+export const FIXTURE_START_BLOCK = 18400000;
+export const FIXTURE_HEAD_BLOCK = 18400320;
+
+export function fixtureBlockHash(blockNumber: number, salt: string = "unishield-fixture-block"): string {
+  return keccak256(solidityPacked(["string", "uint256"], [salt, blockNumber]));
+}
+
+export const FIXTURE_HOOK_LOGS: RpcLog[] = [
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xb42dce3e797fc273ed55d405b6aa2d6f10890983f977e00d261500e4b7dfbdca",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000009502f9000000000000000000000000000000000000000000000000000d5a25e51d5e5fb8000000000000000000000000000000000000000000000000000000009ae0be2000000000000000000000000000000000000000000000000000000000002dc6c0",
+    blockNumber: "0x118c30c",
+    blockHash: "0x9e050a350df20443efc0726b96ac269e720bbdd49786ba7ac751ed75508138d5",
+    transactionHash: "0xaf96b7612cf825ca1efaff9f7dd611f8241c1a1c1c4e56db6bc27e56ef7b0823",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xf2126299b03befa26cb4295a3b6d0ac2bd85e8d5d8fbe2424bd111bca721293e",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77818",
+    blockNumber: "0x118c30c",
+    blockHash: "0x9e050a350df20443efc0726b96ac269e720bbdd49786ba7ac751ed75508138d5",
+    transactionHash: "0xaf96b7612cf825ca1efaff9f7dd611f8241c1a1c1c4e56db6bc27e56ef7b0823",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xb42dce3e797fc273ed55d405b6aa2d6f10890983f977e00d261500e4b7dfbdca",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000002faf08000000000000000000000000000000000000000000000000000445ceafb77a5c11000000000000000000000000000000000000000000000000000000009ae0be2000000000000000000000000000000000000000000000000000000000001e8480",
+    blockNumber: "0x118c30d",
+    blockHash: "0xf2136b73f622459d6ce47a12fede44f41d4bc7c3463c6869358a613f2cd01cd9",
+    transactionHash: "0x9874fcd9be35fab4ec3ef2b03b563c7f798b86faafbb04125f7e74d565e35ca4",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xe86195fc92ce48859a8f76d138d85d456624a658f8f38d4c2bb6cfabb6374399",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e7781a",
+    blockNumber: "0x118c30d",
+    blockHash: "0xf2136b73f622459d6ce47a12fede44f41d4bc7c3463c6869358a613f2cd01cd9",
+    transactionHash: "0x9874fcd9be35fab4ec3ef2b03b563c7f798b86faafbb04125f7e74d565e35ca4",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xb42dce3e797fc273ed55d405b6aa2d6f10890983f977e00d261500e4b7dfbdca",
+      "0x00000000000000000000000015d34aaf54267db7d7c367839aaf71a00a2c6a65",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000037e11d600000000000000000000000000000000000000000000000000501ce35eb0363e51000000000000000000000000000000000000000000000000000000009ae0be200000000000000000000000000000000000000000000000000000000000e4e1c0",
+    blockNumber: "0x118c30e",
+    blockHash: "0x687e02b0034cbb9b9cd3831e55e69375cd647efe0431c43e9b0976e8b0f25697",
+    transactionHash: "0x07d6d80eae72c3fef15c05ea087d21bcfcd3e3d1c9cead513d278835d645a5af",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0x80233ae1f411110e5fa04541886f915fde0e969491d90065c42b183db5d1ecdd",
+      "0x00000000000000000000000015d34aaf54267db7d7c367839aaf71a00a2c6a65",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e7781c",
+    blockNumber: "0x118c30e",
+    blockHash: "0x687e02b0034cbb9b9cd3831e55e69375cd647efe0431c43e9b0976e8b0f25697",
+    transactionHash: "0x07d6d80eae72c3fef15c05ea087d21bcfcd3e3d1c9cead513d278835d645a5af",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xc4b5b492a5c5171f58e809a6f649d45b8f84cd2e3b802ea6db1382610f77a6c9",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000047868c00000000000000000000000000000000000000000000000000065feb1ff9daacdf000000000000000000000000000000000000000000000000000000009bb65da0000000000000000000000000000000000000000000000000000000000036ee80",
+    blockNumber: "0x118c339",
+    blockHash: "0x0bcd74d70f3842d1a1aeedf0e1538154ada32774e26b599cb952dc9074789141",
+    transactionHash: "0xad531a553c20ebc11d5b7664d5d709ec56143a989519f417d09ce0890bd8e226",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xdb175b331eccb6f1d222e2428e379dc516feecae05be8bd6e81264ebf3c8d1b5",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77872",
+    blockNumber: "0x118c339",
+    blockHash: "0x0bcd74d70f3842d1a1aeedf0e1538154ada32774e26b599cb952dc9074789141",
+    transactionHash: "0xad531a553c20ebc11d5b7664d5d709ec56143a989519f417d09ce0890bd8e226",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xc4b5b492a5c5171f58e809a6f649d45b8f84cd2e3b802ea6db1382610f77a6c9",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000001004ccb0000000000000000000000000000000000000000000000000016d7b53294a4eb75000000000000000000000000000000000000000000000000000000009bb65da00000000000000000000000000000000000000000000000000000000000626b50",
+    blockNumber: "0x118c33a",
+    blockHash: "0x4e87a19777854013523fe6166cb787ad850b777ff64b8e49f9c578d3a7ae246b",
+    transactionHash: "0xec7539baa6313c0ed961aed29be9f08de8fb318b2c4b85d48e0a5a4fff706fef",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xa2c441232a50ca6c85e9669e111381ac3eae916dd45a7709458f7abefa93cff6",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77874",
+    blockNumber: "0x118c33a",
+    blockHash: "0x4e87a19777854013523fe6166cb787ad850b777ff64b8e49f9c578d3a7ae246b",
+    transactionHash: "0xec7539baa6313c0ed961aed29be9f08de8fb318b2c4b85d48e0a5a4fff706fef",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x05ae24abce1752553d29c56e7b858e4ec801a06910524860da7867428ef69b4e",
+      "0x4d575d52d08ef1053bc83a81857cf7e894c3913b00b0a2d9f45734e2766a27d1",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010446561646c696e65206578706972656400000000000000000000000000000000",
+    blockNumber: "0x118c33b",
+    blockHash: "0xec5dc2bfc1262f719c6e092f39532887ded45315fe7218350c543265072bd016",
+    transactionHash: "0xf3d74517d133874b5cdd554604594dea98d3f3474c9e342c45f9748da975e0c1",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xf2b866d258a56fb075a8daf1b423e2f47463897670c1be9b10f75067b28f9393",
+      "0x00000000000000000000000015d34aaf54267db7d7c367839aaf71a00a2c6a65",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000026be3680000000000000000000000000000000000000000000000000037ff5a0b118b0490000000000000000000000000000000000000000000000000000000099a04ee00000000000000000000000000000000000000000000000000000000000319750",
+    blockNumber: "0x118c383",
+    blockHash: "0xa438284fc7bcbfe12a0263af7c07bd897e9362c283e9ae5b135235a7dbbe08a0",
+    transactionHash: "0x5c1392e274bb8a4cce0d07839d35e950a1780ecccddeecffa7f6398ad0eddcf3",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xfd214d8538456bbf9f13968038a4997dcb36fdabdaad43f317481fe732522043",
+      "0x00000000000000000000000015d34aaf54267db7d7c367839aaf71a00a2c6a65",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77906",
+    blockNumber: "0x118c383",
+    blockHash: "0xa438284fc7bcbfe12a0263af7c07bd897e9362c283e9ae5b135235a7dbbe08a0",
+    transactionHash: "0x5c1392e274bb8a4cce0d07839d35e950a1780ecccddeecffa7f6398ad0eddcf3",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xf2b866d258a56fb075a8daf1b423e2f47463897670c1be9b10f75067b28f9393",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000024820220000000000000000000000000000000000000000000000000034c44fece43926cf0000000000000000000000000000000000000000000000000000000099a04ee000000000000000000000000000000000000000000000000000000000012b1280",
+    blockNumber: "0x118c384",
+    blockHash: "0xbf1cdba41117dc20e86a43915f1eb42146358f12ff62c8a5c76c68a91f6e19c3",
+    transactionHash: "0x2324c78a87c5376f8bd21a618ef96827fe5f49008303e2c9264ad2d3687c87cd",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xd80b0030de9518c8bfbc5d0169b98d91072dadb7789683641ed94f3a759177e2",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77908",
+    blockNumber: "0x118c384",
+    blockHash: "0xbf1cdba41117dc20e86a43915f1eb42146358f12ff62c8a5c76c68a91f6e19c3",
+    transactionHash: "0x2324c78a87c5376f8bd21a618ef96827fe5f49008303e2c9264ad2d3687c87cd",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xf2b866d258a56fb075a8daf1b423e2f47463897670c1be9b10f75067b28f9393",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000000b8c63f0000000000000000000000000000000000000000000000000010b1099bea26f9fd0000000000000000000000000000000000000000000000000000000099a04ee0000000000000000000000000000000000000000000000000000000000025d780",
+    blockNumber: "0x118c385",
+    blockHash: "0x138bcfe93753e4d8865a59fcd44c03c394c187a510388b08ce56b3193464dbee",
+    transactionHash: "0x2b1a8c80a07c21599527be5be740362a942d37ddf1bf9b14c23b1db7dd86e0d9",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0x8cf25a230899ad81e6229e4080d9ce5b06f3ebb9d73e2408eb801cf9ade53164",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e7790a",
+    blockNumber: "0x118c385",
+    blockHash: "0x138bcfe93753e4d8865a59fcd44c03c394c187a510388b08ce56b3193464dbee",
+    transactionHash: "0x2b1a8c80a07c21599527be5be740362a942d37ddf1bf9b14c23b1db7dd86e0d9",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xf2b866d258a56fb075a8daf1b423e2f47463897670c1be9b10f75067b28f9393",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000001dcd650000000000000000000000000000000000000000000000000002b1331925c438d60000000000000000000000000000000000000000000000000000000099a04ee000000000000000000000000000000000000000000000000000000000001312d0",
+    blockNumber: "0x118c386",
+    blockHash: "0xd158dac7699f01bc790ef2eb273259341befe3f3f4725b137a01e328a9ef9a8b",
+    transactionHash: "0xfe56c1e874ab29e9bf76b2e8c06c2daf49a16d1e9ed9eb0bc971f5f079f82448",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0xfa5070d317045682f3616768d4321471644490b005b6f68fada9d9f95ef0c3aa",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e7790c",
+    blockNumber: "0x118c386",
+    blockHash: "0xd158dac7699f01bc790ef2eb273259341befe3f3f4725b137a01e328a9ef9a8b",
+    transactionHash: "0xfe56c1e874ab29e9bf76b2e8c06c2daf49a16d1e9ed9eb0bc971f5f079f82448",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xdf0ba5433afa2bd0f33bce30bc8f2169990ea9cbd3bec82682f9e1a700918121",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000051f4d5c0000000000000000000000000000000000000000000000000073d965fe9807bd2f000000000000000000000000000000000000000000000000000000009d155160000000000000000000000000000000000000000000000000000000000192d500",
+    blockNumber: "0x118c3cc",
+    blockHash: "0xb656ef9e9139923fa52dd160e10f30f22c35b1c6bb72c8157b3617576d9b2f91",
+    transactionHash: "0xc5fab887e7dedc1f77d98e86988317a42d91117f5f5704105bcf1871fa5ddab9",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0x4a0738c75a402f91faba46c5f987f7a3795294cf8464d93f16468d071eebe557",
+      "0x00000000000000000000000090f79bf6eb2c4f870365e785982e1f101e93b906",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77998",
+    blockNumber: "0x118c3cc",
+    blockHash: "0xb656ef9e9139923fa52dd160e10f30f22c35b1c6bb72c8157b3617576d9b2f91",
+    transactionHash: "0xc5fab887e7dedc1f77d98e86988317a42d91117f5f5704105bcf1871fa5ddab9",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x05ae24abce1752553d29c56e7b858e4ec801a06910524860da7867428ef69b4e",
+      "0x9318ff1ffdee1f55297dd52c0557282dbe951a63d4bc1acc821a0fa6c14b8d12",
+      "0x00000000000000000000000015d34aaf54267db7d7c367839aaf71a00a2c6a65",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000015496e76616c696420544545207369676e61747572650000000000000000000000",
+    blockNumber: "0x118c3cd",
+    blockHash: "0xc67f76656b40a0f4a963a07c3c3aeb66b4b7c5b5a2a7cab9caed2d873114bac9",
+    transactionHash: "0xa7ae4a437be11c23074e8b8c5cc4dbbb2456167b7d34b74f9062df6e91e7d02d",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x05ae24abce1752553d29c56e7b858e4ec801a06910524860da7867428ef69b4e",
+      "0x17761ecc1be9d7f008d656d7b6818ac21fd7ceae302c3e0333abed119db6ace9",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010446561646c696e65206578706972656400000000000000000000000000000000",
+    blockNumber: "0x118c3ce",
+    blockHash: "0x196a0cb4caae78a91d34e2d511d5bdfe86445334bc47c22162832d9c2f71d8eb",
+    transactionHash: "0x088f358207d0c0e2a54226bacf77de5a67471c2af52ba5adba647e5f5237f15d",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xc0ef0c285cca7966b458d45ce46e6a26620540a1326fc01c5810233d54572021",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000000684ee180000000000000000000000000000000000000000000000000095071db555d2be8000000000000000000000000000000000000000000000000000000009b6a12600000000000000000000000000000000000000000000000000000000000501bd0",
+    blockNumber: "0x118c420",
+    blockHash: "0xe05f7b87e885b6f42134cf7f847e5ccaff1e6202a74994f217f98b05a5958082",
+    transactionHash: "0xf99cec8e2b7a041b72ec7b1cea255fb20a26f88f80390913d1dd2cd589d9a9fd",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0x6be3cab5ad1729826467bf27e9c21829eb3e81fce61058d368773f674a1df924",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77a40",
+    blockNumber: "0x118c420",
+    blockHash: "0xe05f7b87e885b6f42134cf7f847e5ccaff1e6202a74994f217f98b05a5958082",
+    transactionHash: "0xf99cec8e2b7a041b72ec7b1cea255fb20a26f88f80390913d1dd2cd589d9a9fd",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x8d392ae505f0b8c0dce5f5dedacbc03b052dc38270a77409d63135b84eff5f90",
+      "0xc0ef0c285cca7966b458d45ce46e6a26620540a1326fc01c5810233d54572021",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+      "0x00000000000000000000000070997970c51812dc3a010c7d01b50e0d17dc79c8",
+    ],
+    data: "0x000000000000000000000000000000000000000000000000000000017d7840000000000000000000000000000000000000000000000000002210414e04fcf85a000000000000000000000000000000000000000000000000000000009b6a12600000000000000000000000000000000000000000000000000000000000afc800",
+    blockNumber: "0x118c421",
+    blockHash: "0x8dcda469dbe01fc7240d39516fff93c131a6b76ee12f5a43f96d6ed3326c47ea",
+    transactionHash: "0x736c7531f21f318fcc0e0ff341f505d90d612628d97a6b560b31b747cb183ba0",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x57e0a7e1e3a3446a75e1c18ffbd0f9471d0601c17d8cb14f12bf6841d9a25d7e",
+      "0x893d1d11557e843c45ac2fb9453e56c7615836da20d5a8a65a211260603b58b4",
+      "0x0000000000000000000000009965507d1a55bcc2695c58ba16fb37d819b0a4dc",
+    ],
+    data: "0x0000000000000000000000000000000000000000000000000000000068e77a42",
+    blockNumber: "0x118c421",
+    blockHash: "0x8dcda469dbe01fc7240d39516fff93c131a6b76ee12f5a43f96d6ed3326c47ea",
+    transactionHash: "0x736c7531f21f318fcc0e0ff341f505d90d612628d97a6b560b31b747cb183ba0",
+    transactionIndex: "0x0",
+    logIndex: "0x1",
+    removed: false,
+  },
+  {
+    address: "0x0000000000000000000000000000000000000000",
+    topics: [
+      "0x05ae24abce1752553d29c56e7b858e4ec801a06910524860da7867428ef69b4e",
+      "0x67e61404c4cde2ce3f75c342457724cd878b6e7091f3634c7824309149aecfbc",
+      "0x0000000000000000000000003c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+    ],
+    data: "0x00000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010416c726561647920657865637574656400000000000000000000000000000000",
+    blockNumber: "0x118c422",
+    blockHash: "0xfcd10fb79204ba95586053af2051b936ce80af1f4c647905f4c69b6aeb3b4d44",
+    transactionHash: "0xc6afdbf6d00cea26cba076c3173360bb016b58dcae2411e4de9008aee7bc388a",
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  },
+];
@@ -0,0 +1,69 @@
+/**
+ * Golden vectors for intent hashing and signing.
+ *
+ * Generated independently with ethers' TypedDataEncoder; computeDomainSeparator,
+ * hashIntentStruct and computeIntentHash must reproduce them exactly. Signatures
+ * come from LocalKeySigner with the dev key (account #1, deterministic RFC 6979).
+ */
+
+import type { IntentDomain } from "../eip712";
+import type { SwapIntent } from "../types";
+
+export interface IntentHashVector {
+  description: string;
+  domain: IntentDomain;
+  intent: SwapIntent;
+  domainSeparator: string;
+  structHash: string;
+  intentHash: string;
+  devKeySignature?: string;
+}
+
+export const INTENT_HASH_VECTORS: IntentHashVector[] = [
+  {
+    description: "1000 USDC -> ETH, undeployed hook, nonce 0, signed by dev key",
+    domain: {
+      name: "DarkHook",
+      version: "1",
+      chainId: 84532,
+      verifyingContract: "0x0000000000000000000000000000000000000000",
+    },
+    intent: {
+      user: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+      tokenIn: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      tokenOut: "0x4200000000000000000000000000000000000006",
+      amountIn: BigInt("1000000000"),
+      minAmountOut: BigInt("380000000000000000"),
+      maxSlippage: BigInt(50),
+      deadline: BigInt(1767225600),
+      nonce: BigInt(0),
+    },
+    domainSeparator: "0x86a67fb7c2822f56ec20dcaaaf92aeeed2d91b6966bf63c6bf3a87d49a4f4117",
+    structHash: "0x6b8fa16738d865d9fff97b8a529de8f7ad4b3229e485ca6bdf7b339e6dc36f7d",
+    intentHash: "0x378c765382e143b8f4b67e95fedf6a06d17135b77043216ccace0da6252ae12d",
+    devKeySignature:
+      "0x21676a403f0a8880bd1a6ce7e2164c6fcde86fab9f0eeee8b8ab27f4798656f76441f3d2ed2d37faf3a81d96ac18ccbae1afea6e62f78ba43e30674301d34a9d1b",
+  },
+  {
+    description: "0.5 ETH -> USDC, local hook deployment, nonce 3",
+    domain: {
+      name: "DarkHook",
+      version: "1",
+      chainId: 84532,
+      verifyingContract: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    },
+    intent: {
+      user: "0x742d35cc6634c0532925a3b844bc9e7595f8fe21",
+      tokenIn: "0x4200000000000000000000000000000000000006",
+      tokenOut: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      amountIn: BigInt("500000000000000000"),
+      minAmountOut: BigInt("1275000000"),
+      maxSlippage: BigInt(75),
+      deadline: BigInt(1767229200),
+      nonce: BigInt(3),
+    },
+    domainSeparator: "0x5e9f387c10a30be376279da0021fb13d7609ca507854a0b9cbcb55f5e69b0c40",
+    structHash: "0xbd27aede6556c8cd386b9b8d291813fa2f30a2c3709374f3407ab0cc7cca9ee4",
+    intentHash: "0x42fd696223088aad42f65dcf664a3ca0e5a992f0d67813939980c8c31648df40",
+  },
+];
@@ -0,0 +1,23 @@
+/**
+ * Golden roots for the batch Merkle tree.
+ *
+ * Leaves are keccak256(utf8("leaf-<i>")) for i = 0..size-1. Roots were computed
+ * with a line-by-line port of compute_merkle_root in dark-hook-iapp/src/app.py;
+ * computeMerkleRoot must reproduce them, including odd sizes where the last
+ * node is paired with itself.
+ */
+
+export interface MerkleVector {
+  size: number;
+  root: string;
+}
+
+export const MERKLE_LEAF_PREIMAGE_PREFIX = "leaf-";
+
+export const MERKLE_VECTORS: MerkleVector[] = [
+  { size: 0, root: "0x0000000000000000000000000000000000000000000000000000000000000000" },
+  { size: 1, root: "0xda88faf89b518eb4774583fa174f46d7714a1097c24c6bd5357a594d62eec21e" },
+  { size: 2, root: "0xeaafc236bf6b7418edb1c54322a668e6909df6776dbf315b3ad7bee143b753d3" },
+  { size: 3, root: "0x8e3797fd6fa1e0df8a368df1419dfa3c55eee6da91f225ae5b4c378e0ec16eff" },
+  { size: 5, root: "0x1579baf7068f293af03cc1c3ff468f07390fa910a26284b42207b9e18331e267" },
+];
@@ -0,0 +1,13 @@
+/**
+ * Fixed USD prices (6-decimal fixed point) for offline quoting.
+ * Keyed by lowercase token address on Base Sepolia.
+ */
+
+export const FIXTURE_USD_PRICES: Record<string, bigint> = {
+  // ETH (WETH)
+  "0x4200000000000000000000000000000000000006": BigInt("2598420000"),
+  // USDC
+  "0x036cbd53842c5426634e7929541ec2318f3dcf7e": BigInt("1000000"),
+  // WBTC
+  "0x2260fac5e5542a773aa44fbcfedf7c193bc2c599": BigInt("67250000000"),
+};
@@ -0,0 +1,51 @@
+/**
+ * Golden vector for the execution proof digest.
+ *
+ * Generated independently with ethers' TypedDataEncoder over the hook's
+ * PROOF_TYPEHASH fields, with the 8-byte batch id right-padded to bytes32 the
+ * way the relayer submits it. The proof settles intent hash vector 1 in the
+ * five-leaf Merkle vector batch and is signed with private key 0x..01, the
+ * iApp's TEE_SIGNER_ADDRESS.
+ */
+
+import type { IntentDomain } from "../eip712";
+import type { ExecutionProof, SignedIntent } from "../types";
+import { INTENT_HASH_VECTORS } from "./intentHashVectors";
+
+export interface ProofVector {
+  domain: IntentDomain;
+  signed: SignedIntent;
+  proof: ExecutionProof;
+  structHash: string;
+  digest: string;
+  devKeySignature: string;
+}
+
+const [intentVector] = INTENT_HASH_VECTORS;
+
+export const PROOF_VECTOR: ProofVector = {
+  domain: intentVector.domain,
+  signed: { intent: intentVector.intent, signature: intentVector.devKeySignature!, intentHash: intentVector.intentHash },
+  proof: {
+    batchId: "0x1a2b3c4d5e6f7081",
+    timestamp: 1767225060,
+    user: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+    tokenIn: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    tokenOut: "0x4200000000000000000000000000000000000006",
+    amountIn: "1000000000",
+    amountOut: "382000000000000000",
+    clearingPrice: "2617801047",
+    intentHash: intentVector.intentHash,
+    userSignature: intentVector.devKeySignature!,
+    teeSignature:
+      "0x33879aaf765850be4a40d299f3b02d4e038f72b9b266093cd9dfc13df43ac7116c54e6693fa08f8f6f0b358e3fb298a3ad1366ff9647d7d2a9b222f1ea4f51dd1c",
+    teeSigner: "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+    merkleRoot: "0x1579baf7068f293af03cc1c3ff468f07390fa910a26284b42207b9e18331e267",
+    mevSaved: "5000000",
+  },
+  structHash: "0x4a944388fee369765f650fe79f66a025567945e64f02ac9fe2b4c3c0531af612",
+  digest: "0xb5a5ef5ba276b498d3c53d00dfaa6404f38406cdd32348b6930bc859ad380a2a",
+  // The same digest signed with the dev key (account #1), not the registered TEE
+  devKeySignature:
+    "0x85e8c576c6627d0ee71c764bd752797080e554289cdf3541ac01359b98dee0da51ac8965fb22444b39688e265b2fb141197a2cd761ec60866065ed1efd08bbdc1c",
+};
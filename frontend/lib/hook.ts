@@ -0,0 +1,52 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  DarkPoolHookAgentic Read Access                                              ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { Interface } from "ethers";
+import { NETWORK } from "./networks";
+import type { JsonRpcClient } from "./rpc";
+
+export const HOOK_ABI = [
+  "function getUserNonce(address user) view returns (uint256)",
+  "function isIntentExecuted(bytes32 intentHash) view returns (bool)",
+  "function teeSigner() view returns (address)",
+];
+
+export const hookInterface = new Interface(HOOK_ABI);
+
+/**
+ * Optional: raise userNonces[msg.sender] so every intent signed with a lower
+ * nonce is dead on-chain. Only for hooks with CONFIG.HOOK_SUPPORTS_NONCE_BUMP.
+ */
+export const NONCE_BUMP_ABI = ["function invalidateNonces(uint256 newNonce)"];
+
+export function encodeNonceBump(newNonce: bigint): string {
+  return new Interface(NONCE_BUMP_ABI).encodeFunctionData("invalidateNonces", [newNonce]);
+}
+
+export class HookReader {
+  constructor(private rpc: JsonRpcClient, private hookAddress: string = NETWORK.contracts.hook) {}
+
+  private async read(method: string, args: unknown[]) {
+    const data = hookInterface.encodeFunctionData(method, args);
+    const raw = await this.rpc.call(this.hookAddress, data);
+    return hookInterface.decodeFunctionResult(method, raw);
+  }
+
+  async getUserNonce(user: string): Promise<bigint> {
+    const [nonce] = await this.read("getUserNonce", [user]);
+    return nonce as bigint;
+  }
+
+  async isIntentExecuted(intentHash: string): Promise<boolean> {
+    const [executed] = await this.read("isIntentExecuted", [intentHash]);
+    return executed as boolean;
+  }
+
+  async teeSigner(): Promise<string> {
+    const [signer] = await this.read("teeSigner", []);
+    return signer as string;
+  }
+}
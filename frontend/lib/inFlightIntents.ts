@@ -0,0 +1,77 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  In-Flight Intents                                                            ║
+ * ║  Per-intent pipeline state for the swap page, keyed by intentHash             ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * A batch auction is meant to hold several of a user's intents at once, so
+ * the page keeps one entry per signed intent instead of a single status.
+ * Entries are immutable: every update returns a new map for React state.
+ * They live only as long as the page; IntentHistory is the durable record.
+ */
+
+import type { AttestationState } from "./attestation";
+import { TERMINAL_STAGES } from "./pipeline";
+import type { ProofVerification } from "./proof";
+import type { OrderRef, RelayerStatus, Token } from "./types";
+
+export interface InFlightIntent {
+  intentHash: string;
+  status: RelayerStatus;
+  tokens: { in: Token; out: Token };
+  amountIn: bigint;
+  deadline: bigint;
+  plan?: OrderRef;
+  attestation: AttestationState;
+  proofVerification: ProofVerification | null;
+  startedAt: number; // ms
+}
+
+export type InFlightMap = Record<string, InFlightIntent>;
+
+export type InFlightPatch = Partial<Omit<InFlightIntent, "intentHash">>;
+
+/**
+ * Patch an entry, creating it when the patch is complete enough to render
+ */
+export function upsertInFlight(map: InFlightMap, intentHash: string, patch: InFlightPatch): InFlightMap {
+  const key = intentHash.toLowerCase();
+  const current = map[key];
+  if (!current) {
+    if (!patch.status || !patch.tokens || patch.amountIn === undefined || patch.deadline === undefined) return map;
+    const created: InFlightIntent = {
+      intentHash,
+      status: patch.status,
+      tokens: patch.tokens,
+      amountIn: patch.amountIn,
+      deadline: patch.deadline,
+      attestation: "unverified",
+      proofVerification: null,
+      startedAt: Date.now(),
+      ...patch,
+    };
+    return { ...map, [key]: created };
+  }
+  return { ...map, [key]: { ...current, ...patch } };
+}
+
+export function removeInFlight(map: InFlightMap, intentHash: string): InFlightMap {
+  const { [intentHash.toLowerCase()]: _removed, ...rest } = map;
+  return rest;
+}
+
+/**
+ * Still waiting on the relayer (or on release, for split slices)
+ */
+export function isPending(entry: InFlightIntent): boolean {
+  return !TERMINAL_STAGES.includes(entry.status.stage);
+}
+
+/**
+ * Newest first, children of one order in release order
+ */
+export function listInFlight(map: InFlightMap): InFlightIntent[] {
+  return Object.values(map).sort(
+    (a, b) => b.startedAt - a.startedAt || (a.plan?.index ?? 0) - (b.plan?.index ?? 0)
+  );
+}
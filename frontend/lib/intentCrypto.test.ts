@@ -0,0 +1,154 @@
+import { decodeBase64, encodeBase64, getBytes, hexlify, toUtf8Bytes, toUtf8String } from "ethers";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  encodeProtectedDataString,
+  enclaveKeyId,
+  EnvelopeError,
+  importEnclavePrivateKey,
+  openIntentEnvelope,
+  sealIntent,
+  sealPlaintext,
+  type IntentEnvelope,
+} from "./intentCrypto";
+import type { SignedIntent } from "./types";
+import {
+  STAND_IN_ENCLAVE_KEY_ID,
+  STAND_IN_ENCLAVE_PRIVATE_JWK,
+  STAND_IN_ENCLAVE_PUBLIC_KEY,
+  STAND_IN_ENVELOPE,
+} from "./fixtures/enclaveKeys";
+import { INTENT_HASH_VECTORS } from "./fixtures/intentHashVectors";
+
+const vector = INTENT_HASH_VECTORS[0];
+const SIGNED: SignedIntent = { intent: vector.intent, signature: vector.devKeySignature!, intentHash: vector.intentHash };
+
+let enclaveKey: CryptoKey;
+let otherKey: CryptoKeyPair;
+let otherPublicKey: string;
+
+beforeAll(async () => {
+  enclaveKey = await importEnclavePrivateKey(STAND_IN_ENCLAVE_PRIVATE_JWK);
+  otherKey = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+  otherPublicKey = hexlify(new Uint8Array(await crypto.subtle.exportKey("raw", otherKey.publicKey)));
+});
+
+async function openError(envelope: unknown, key = enclaveKey, publicKey = STAND_IN_ENCLAVE_PUBLIC_KEY): Promise<string> {
+  try {
+    await openIntentEnvelope(envelope, key, publicKey);
+  } catch (error) {
+    expect(error).toBeInstanceOf(EnvelopeError);
+    return (error as EnvelopeError).message;
+  }
+  throw new Error("envelope opened");
+}
+
+/**
+ * Flip one bit of a base64 field
+ */
+function flip(field: string, index = 0): string {
+  const bytes = decodeBase64(field);
+  bytes[index] ^= 0x01;
+  return encodeBase64(bytes);
+}
+
+describe("stand-in envelope", () => {
+  it("is addressed to the stand-in key", () => {
+    expect(enclaveKeyId(STAND_IN_ENCLAVE_PUBLIC_KEY)).toBe(STAND_IN_ENCLAVE_KEY_ID);
+    expect(STAND_IN_ENVELOPE.kid).toBe(STAND_IN_ENCLAVE_KEY_ID);
+  });
+
+  it("opens to intent vector 1 unchanged", async () => {
+    expect(await openIntentEnvelope(STAND_IN_ENVELOPE, enclaveKey, STAND_IN_ENCLAVE_PUBLIC_KEY)).toEqual(SIGNED);
+  });
+});
+
+describe("sealIntent / openIntentEnvelope", () => {
+  it("round trips a signed intent", async () => {
+    const envelope = await sealIntent(SIGNED, STAND_IN_ENCLAVE_PUBLIC_KEY);
+    expect(envelope.ref).toBe(vector.intentHash.toLowerCase());
+    expect(envelope.kid).toBe(STAND_IN_ENCLAVE_KEY_ID);
+    expect(await openIntentEnvelope(envelope, enclaveKey, STAND_IN_ENCLAVE_PUBLIC_KEY)).toEqual(SIGNED);
+  });
+
+  it("uses a fresh ephemeral key and IV per seal", async () => {
+    const [a, b] = await Promise.all([sealIntent(SIGNED, STAND_IN_ENCLAVE_PUBLIC_KEY), sealIntent(SIGNED, STAND_IN_ENCLAVE_PUBLIC_KEY)]);
+    expect(a.epk).not.toBe(b.epk);
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.ct).not.toBe(b.ct);
+  });
+
+  it("never puts the intent in the clear", async () => {
+    const envelope = await sealIntent(SIGNED, STAND_IN_ENCLAVE_PUBLIC_KEY);
+    const body = JSON.stringify(envelope).toLowerCase();
+    expect(body).not.toContain(vector.intent.user.slice(2).toLowerCase());
+    expect(body).not.toContain(vector.intent.amountIn.toString());
+  });
+
+  it("borsh-encodes the envelope for protected data", () => {
+    const encoded = encodeProtectedDataString(STAND_IN_ENVELOPE);
+    const bytes = getBytes(encoded);
+    expect(new DataView(bytes.buffer).getUint32(0, true)).toBe(bytes.length - 4);
+    expect(JSON.parse(toUtf8String(bytes.slice(4)))).toEqual(STAND_IN_ENVELOPE);
+  });
+});
+
+describe("wrong key", () => {
+  it("refuses an envelope sealed for another enclave key", async () => {
+    const envelope = await sealIntent(SIGNED, otherPublicKey);
+    expect(await openError(envelope)).toBe(`Envelope sealed for another enclave key (${enclaveKeyId(otherPublicKey)})`);
+  });
+
+  it("fails authentication with a different private key under the same kid", async () => {
+    expect(await openError(STAND_IN_ENVELOPE, otherKey.privateKey)).toBe("Envelope failed authentication");
+  });
+
+  it("can be opened by its own key", async () => {
+    const envelope = await sealIntent(SIGNED, otherPublicKey);
+    expect(await openIntentEnvelope(envelope, otherKey.privateKey, otherPublicKey)).toEqual(SIGNED);
+  });
+});
+
+describe("modified envelope", () => {
+  it.each<[string, (e: IntentEnvelope) => IntentEnvelope]>([
+    ["ciphertext", (e) => ({ ...e, ct: flip(e.ct) })],
+    ["GCM tag", (e) => ({ ...e, ct: flip(e.ct, decodeBase64(e.ct).length - 1) })],
+    ["IV", (e) => ({ ...e, iv: flip(e.iv) })],
+    ["ephemeral key", (e) => ({ ...e, epk: flip(e.epk, 64) })],
+    ["bound intentHash", (e) => ({ ...e, ref: INTENT_HASH_VECTORS[1].intentHash })],
+  ])("fails authentication when the %s changes", async (_, mutate) => {
+    expect(await openError(mutate(STAND_IN_ENVELOPE))).toBe("Envelope failed authentication");
+  });
+
+  it("rejects ciphertext swapped in from another intent's envelope", async () => {
+    const other = await sealIntent(SIGNED, STAND_IN_ENCLAVE_PUBLIC_KEY);
+    expect(await openError({ ...STAND_IN_ENVELOPE, ct: other.ct })).toBe("Envelope failed authentication");
+  });
+});
+
+describe("untrusted contents", () => {
+  // Anyone can seal to the enclave key: authentic ciphertext is not a valid intent
+  it.each<[string, string, string]>([
+    ["no JSON", "{", "Envelope contents are not valid JSON"],
+    ["an array", JSON.stringify([SIGNED.intentHash]), "Envelope contents must be an object"],
+    ["a number", "42", "Envelope contents must be an object"],
+    ["null", "null", "Envelope contents must be an object"],
+    ["an intent with a bad amount", JSON.stringify({ intentHash: SIGNED.intentHash, amountIn: "lots" }), "Envelope contents are not a signed intent"],
+    ["an intent without its hash", JSON.stringify({ amountIn: "1", minAmountOut: "1", maxSlippage: "50", deadline: "1", nonce: "0" }), "Envelope contents do not match its intentHash"],
+  ])("rejects %s as an EnvelopeError", async (_, plaintext, message) => {
+    const envelope = await sealPlaintext(toUtf8Bytes(plaintext), SIGNED.intentHash, STAND_IN_ENCLAVE_PUBLIC_KEY);
+    expect(await openError(envelope)).toBe(message);
+  });
+});
+
+describe("bad header", () => {
+  it.each<[string, unknown, string]>([
+    ["a newer version", { ...STAND_IN_ENVELOPE, v: 2 }, "Unsupported envelope version: 2"],
+    ["a version string", { ...STAND_IN_ENVELOPE, v: "1" }, "Unsupported envelope version: 1"],
+    ["another algorithm", { ...STAND_IN_ENVELOPE, alg: "RSA-OAEP" }, "Unsupported envelope algorithm: RSA-OAEP"],
+    ["a missing field", { ...STAND_IN_ENVELOPE, iv: "" }, "Envelope field missing: iv"],
+    ["a ref that is no hash", { ...STAND_IN_ENVELOPE, ref: "0x1234" }, "Envelope ref must be an intentHash"],
+    ["no object", "sealed", "Envelope must be an object"],
+  ])("rejects %s", async (_, envelope, message) => {
+    expect(await openError(envelope)).toBe(message);
+  });
+});
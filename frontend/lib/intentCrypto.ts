@@ -0,0 +1,222 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Intent Encryption                                                            ║
+ * ║  Seal signed intents so only the TEE enclave can read them                    ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * ECIES over WebCrypto:
+ *   1. Generate an ephemeral P-256 key pair per intent
+ *   2. ECDH(ephemeral private, enclave public) → shared secret
+ *   3. HKDF-SHA256(secret, salt = epk, info = ENVELOPE_INFO) → AES-256-GCM key
+ *   4. Encrypt the intents.json entry; the envelope header is the AAD
+ *
+ * The relayer only ever sees the envelope and the intentHash it is bound to.
+ * The envelope travels to the iApp as the "intentEnvelope" string field of
+ * the protected data (borsh string, read with getValue(..., "string")), or
+ * as an {"intentEnvelope": ...} entry of intents.json. The iApp opens it with
+ * dark-hook-iapp/src/intent_envelope.py using ENCLAVE_PRIVATE_KEY, the
+ * private half of the key sealed to here; anything else about the envelope
+ * format has to change in both places.
+ */
+
+import { decodeBase64, encodeBase64, getBytes, hexlify, isHexString, sha256, toUtf8Bytes, toUtf8String } from "ethers";
+import { deserializeSignedIntent, serializeSignedIntent, type SerializedSignedIntent } from "./pipeline";
+import type { SignedIntent } from "./types";
+
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALG = "ECDH-P256+HKDF-SHA256+A256GCM";
+export const ENVELOPE_INFO = "UniShield intent envelope v1";
+export const PROTECTED_DATA_FIELD = "intentEnvelope";
+
+const IV_BYTES = 12;
+
+export interface IntentEnvelope {
+  v: number;
+  alg: string;
+  kid: string; // first 8 bytes of sha256(enclave public key), hex
+  epk: string; // ephemeral public key, uncompressed point, base64
+  ref: string; // intentHash the ciphertext is bound to
+  iv: string; // base64
+  ct: string; // ciphertext || GCM tag, base64
+}
+
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+  }
+}
+
+function subtle(): SubtleCrypto {
+  const crypto = globalThis.crypto;
+  if (!crypto?.subtle) throw new EnvelopeError("WebCrypto is unavailable (requires a secure context)");
+  return crypto.subtle;
+}
+
+/**
+ * WebCrypto takes ArrayBuffer-backed views; copy so offsets never leak in
+ */
+function buffer(bytes: Uint8Array): ArrayBuffer {
+  return new Uint8Array(bytes).buffer as ArrayBuffer;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              KEYS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Enclave public keys are uncompressed P-256 points as 0x-prefixed hex
+ */
+function publicKeyBytes(publicKey: string): Uint8Array {
+  if (!isHexString(publicKey, 65) || !publicKey.toLowerCase().startsWith("0x04")) {
+    throw new EnvelopeError("Enclave public key must be an uncompressed P-256 point (0x04...)");
+  }
+  return getBytes(publicKey);
+}
+
+export function enclaveKeyId(publicKey: string): string {
+  return sha256(publicKeyBytes(publicKey)).slice(0, 18);
+}
+
+export async function importEnclavePublicKey(publicKey: string): Promise<CryptoKey> {
+  return subtle().importKey("raw", buffer(publicKeyBytes(publicKey)), { name: "ECDH", namedCurve: "P-256" }, false, []);
+}
+
+export async function importEnclavePrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return subtle().importKey("jwk", jwk, { name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]);
+}
+
+async function deriveAesKey(privateKey: CryptoKey, publicKey: CryptoKey, salt: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  const secret = await subtle().deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+  const hkdfKey = await subtle().importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+  return subtle().deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: buffer(salt), info: buffer(toUtf8Bytes(ENVELOPE_INFO)) },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Header fields in fixed order, authenticated but not encrypted
+ */
+function envelopeAad(envelope: Pick<IntentEnvelope, "v" | "alg" | "kid" | "epk" | "ref">): Uint8Array {
+  return toUtf8Bytes(JSON.stringify([envelope.v, envelope.alg, envelope.kid, envelope.epk, envelope.ref.toLowerCase()]));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SEAL / OPEN
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function sealIntent(signed: SignedIntent, enclavePublicKey: string): Promise<IntentEnvelope> {
+  return sealPlaintext(toUtf8Bytes(JSON.stringify(serializeSignedIntent(signed))), signed.intentHash, enclavePublicKey);
+}
+
+/**
+ * Seal arbitrary bytes bound to an intentHash. Anyone holding the enclave
+ * public key can do this, so openIntentEnvelope trusts nothing it decrypts.
+ */
+export async function sealPlaintext(plaintext: Uint8Array, intentHash: string, enclavePublicKey: string): Promise<IntentEnvelope> {
+  const recipient = await importEnclavePublicKey(enclavePublicKey);
+  const ephemeral = await subtle().generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+  const epk = new Uint8Array(await subtle().exportKey("raw", ephemeral.publicKey));
+  const aesKey = await deriveAesKey(ephemeral.privateKey, recipient, epk, "encrypt");
+
+  const header = {
+    v: ENVELOPE_VERSION,
+    alg: ENVELOPE_ALG,
+    kid: enclaveKeyId(enclavePublicKey),
+    epk: encodeBase64(epk),
+    ref: intentHash.toLowerCase(),
+  };
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await subtle().encrypt({ name: "AES-GCM", iv, additionalData: buffer(envelopeAad(header)) }, aesKey, buffer(plaintext));
+
+  return { ...header, iv: encodeBase64(iv), ct: encodeBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Enclave side (and the local stand-in): decrypt and check the binding
+ */
+export async function openIntentEnvelope(
+  data: unknown,
+  enclavePrivateKey: CryptoKey,
+  enclavePublicKey: string
+): Promise<SignedIntent> {
+  const envelope = parseIntentEnvelope(data);
+  if (envelope.kid !== enclaveKeyId(enclavePublicKey)) {
+    throw new EnvelopeError(`Envelope sealed for another enclave key (${envelope.kid})`);
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    // An ephemeral key off the curve is tampering too
+    const epk = decodeBase64(envelope.epk);
+    const sender = await subtle().importKey("raw", buffer(epk), { name: "ECDH", namedCurve: "P-256" }, false, []);
+    const aesKey = await deriveAesKey(enclavePrivateKey, sender, epk, "decrypt");
+    plaintext = await subtle().decrypt(
+      { name: "AES-GCM", iv: buffer(decodeBase64(envelope.iv)), additionalData: buffer(envelopeAad(envelope)) },
+      aesKey,
+      buffer(decodeBase64(envelope.ct))
+    );
+  } catch (e) {
+    throw new EnvelopeError("Envelope failed authentication");
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(toUtf8String(new Uint8Array(plaintext)));
+  } catch (e) {
+    throw new EnvelopeError("Envelope contents are not valid JSON");
+  }
+  if (typeof contents !== "object" || contents === null || Array.isArray(contents)) {
+    throw new EnvelopeError("Envelope contents must be an object");
+  }
+  let signed: SignedIntent;
+  try {
+    signed = deserializeSignedIntent(contents as SerializedSignedIntent);
+  } catch (e) {
+    throw new EnvelopeError("Envelope contents are not a signed intent");
+  }
+  if (typeof signed.intentHash !== "string" || signed.intentHash.toLowerCase() !== envelope.ref) {
+    throw new EnvelopeError("Envelope contents do not match its intentHash");
+  }
+  return signed;
+}
+
+export function parseIntentEnvelope(data: unknown): IntentEnvelope {
+  if (typeof data !== "object" || data === null) throw new EnvelopeError("Envelope must be an object");
+  const e = data as Record<string, unknown>;
+  if (e.v !== ENVELOPE_VERSION) throw new EnvelopeError(`Unsupported envelope version: ${e.v}`);
+  if (e.alg !== ENVELOPE_ALG) throw new EnvelopeError(`Unsupported envelope algorithm: ${e.alg}`);
+  for (const field of ["kid", "epk", "ref", "iv", "ct"]) {
+    if (typeof e[field] !== "string" || !e[field]) throw new EnvelopeError(`Envelope field missing: ${field}`);
+  }
+  if (!isHexString(e.ref, 32)) throw new EnvelopeError("Envelope ref must be an intentHash");
+  return {
+    v: ENVELOPE_VERSION,
+    alg: ENVELOPE_ALG,
+    kid: e.kid as string,
+    epk: e.epk as string,
+    ref: (e.ref as string).toLowerCase(),
+    iv: e.iv as string,
+    ct: e.ct as string,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PROTECTED DATA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Borsh string (u32 LE length + UTF-8), the encoding getValue(path, "string")
+ * parses in dark-hook-iapp/src/protected_data.py
+ */
+export function encodeProtectedDataString(envelope: IntentEnvelope): string {
+  const body = toUtf8Bytes(JSON.stringify(envelope));
+  const bytes = new Uint8Array(4 + body.length);
+  new DataView(bytes.buffer).setUint32(0, body.length, true);
+  bytes.set(body, 4);
+  return hexlify(bytes);
+}
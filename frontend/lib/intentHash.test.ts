@@ -0,0 +1,56 @@
+import { TypedDataEncoder, type TypedDataDomain } from "ethers";
+import { describe, expect, it } from "vitest";
+import { LocalKeySigner, recoverIntentSigner, SWAP_INTENT_TYPES } from "./eip712";
+import { computeDomainSeparator, computeIntentHash, hashIntentStruct } from "./intentHash";
+import { INTENT_HASH_VECTORS } from "./fixtures/intentHashVectors";
+
+// Anvil account #1, the key the vectors were signed with
+const DEV_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const DEV_ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe.each(INTENT_HASH_VECTORS)("$description", (vector) => {
+  it("reproduces the domain separator", () => {
+    expect(computeDomainSeparator(vector.domain)).toBe(vector.domainSeparator);
+  });
+
+  it("reproduces the struct hash", () => {
+    expect(hashIntentStruct(vector.intent)).toBe(vector.structHash);
+  });
+
+  it("reproduces the intent hash", () => {
+    expect(computeIntentHash(vector.intent, vector.domain)).toBe(vector.intentHash);
+  });
+
+  it("agrees with ethers' typed-data encoder", () => {
+    const domain = vector.domain as TypedDataDomain;
+    expect(TypedDataEncoder.hash(domain, SWAP_INTENT_TYPES, vector.intent)).toBe(vector.intentHash);
+  });
+
+  it.runIf(vector.devKeySignature !== undefined)("signs deterministically with the dev key", async () => {
+    const signer = new LocalKeySigner(DEV_KEY);
+    expect(await signer.getAddress()).toBe(DEV_ADDRESS);
+    const signature = await signer.signIntent(vector.domain, vector.intent);
+    expect(signature).toBe(vector.devKeySignature);
+    expect(recoverIntentSigner(vector.domain, vector.intent, signature)).toBe(DEV_ADDRESS);
+  });
+});
+
+describe("intent hash", () => {
+  const [vector] = INTENT_HASH_VECTORS;
+
+  it("changes with every signed field", () => {
+    const fields = Object.keys(vector.intent) as (keyof typeof vector.intent)[];
+    for (const field of fields) {
+      const value = vector.intent[field];
+      const changed = typeof value === "bigint" ? value + BigInt(1) : "0x000000000000000000000000000000000000dEaD";
+      expect(computeIntentHash({ ...vector.intent, [field]: changed }, vector.domain), field).not.toBe(vector.intentHash);
+    }
+  });
+
+  it("is bound to the chain and the verifying contract", () => {
+    expect(computeIntentHash(vector.intent, { ...vector.domain, chainId: 8453 })).not.toBe(vector.intentHash);
+    expect(
+      computeIntentHash(vector.intent, { ...vector.domain, verifyingContract: "0x5FbDB2315678afecb367f032d93F642f64180aa3" })
+    ).not.toBe(vector.intentHash);
+  });
+});
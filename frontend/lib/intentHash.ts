@@ -0,0 +1,74 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Contract-Compatible Intent Hashing                                           ║
+ * ║  Byte-identical port of DarkPoolHookAgentic.computeIntentHash                 ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * intentHash = keccak256("\x19\x01" || DOMAIN_SEPARATOR || keccak256(abi.encode(INTENT_TYPEHASH, ...)))
+ *
+ * This is the key the hook stores in executedIntents, so anything that looks
+ * up replay status or matches TEE proofs must use this function.
+ */
+
+import { AbiCoder, concat, keccak256, toUtf8Bytes } from "ethers";
+import { buildIntentDomain, type IntentDomain } from "./eip712";
+import type { SwapIntent } from "./types";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+export const EIP712_DOMAIN_TYPEHASH = keccak256(
+  toUtf8Bytes("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)")
+);
+
+export const INTENT_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "SwapIntent(address user,address tokenIn,address tokenOut,uint256 amountIn,uint256 minAmountOut,uint256 maxSlippage,uint256 deadline,uint256 nonce)"
+  )
+);
+
+/**
+ * DOMAIN_SEPARATOR as built in the hook constructor
+ */
+export function computeDomainSeparator(domain: IntentDomain = buildIntentDomain()): string {
+  return keccak256(
+    abiCoder.encode(
+      ["bytes32", "bytes32", "bytes32", "uint256", "address"],
+      [
+        EIP712_DOMAIN_TYPEHASH,
+        keccak256(toUtf8Bytes(domain.name)),
+        keccak256(toUtf8Bytes(domain.version)),
+        domain.chainId,
+        domain.verifyingContract,
+      ]
+    )
+  );
+}
+
+/**
+ * keccak256(abi.encode(INTENT_TYPEHASH, ...)) - the EIP-712 struct hash
+ */
+export function hashIntentStruct(intent: SwapIntent): string {
+  return keccak256(
+    abiCoder.encode(
+      ["bytes32", "address", "address", "address", "uint256", "uint256", "uint256", "uint256", "uint256"],
+      [
+        INTENT_TYPEHASH,
+        intent.user,
+        intent.tokenIn,
+        intent.tokenOut,
+        intent.amountIn,
+        intent.minAmountOut,
+        intent.maxSlippage,
+        intent.deadline,
+        intent.nonce,
+      ]
+    )
+  );
+}
+
+/**
+ * Final digest, identical to the hook's computeIntentHash(intent)
+ */
+export function computeIntentHash(intent: SwapIntent, domain: IntentDomain = buildIntentDomain()): string {
+  return keccak256(concat(["0x1901", computeDomainSeparator(domain), hashIntentStruct(intent)]));
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { IntentHistory, intentStatus, MemoryIntentStorage, UNRELEASED_MESSAGE, type IntentDeployment, type IntentRecord } from "./intentHistory";
+import { HookReader } from "./hook";
+import { NonceManager } from "./nonces";
+import { JsonRpcClient } from "./rpc";
+import { StandInHookRpc } from "./standInRpc";
+import type { OrderRef, SignedIntent, Token } from "./types";
+import { INTENT_HASH_VECTORS } from "./fixtures/intentHashVectors";
+
+const vector = INTENT_HASH_VECTORS[0];
+const SIGNED: SignedIntent = { intent: vector.intent, signature: vector.devKeySignature!, intentHash: vector.intentHash };
+const USER = vector.intent.user.toLowerCase();
+
+const token = (symbol: string, decimals: number): Token => ({ chainId: vector.domain.chainId, address: "0x", symbol, name: symbol, decimals, icon: "" });
+const USDC = token("USDC", 6);
+const WETH = token("WETH", 18);
+
+// Vector 1 was signed for the unconfigured Base Sepolia hook
+const SEPOLIA: IntentDeployment = vector.domain;
+const ANVIL: IntentDeployment = { chainId: 31337, verifyingContract: "0x00000000000000000000000000000000000000A1" };
+
+const withHash = (intentHash: string): SignedIntent => ({ ...SIGNED, intentHash });
+const OTHER_HASH = "0x" + "ab".repeat(32);
+
+function history(storage = new MemoryIntentStorage()): IntentHistory {
+  return new IntentHistory(async () => storage);
+}
+
+/**
+ * Nonce manager on a stand-in hook that has executed the given intents
+ */
+function executedNonces(...intentHashes: string[]): NonceManager {
+  const rpc = new StandInHookRpc(ANVIL.chainId);
+  intentHashes.forEach((intentHash) => rpc.markExecuted(intentHash, USER));
+  return new NonceManager(new HookReader(new JsonRpcClient(rpc), ANVIL.verifyingContract));
+}
+
+describe("deployment binding", () => {
+  it("stores the chain and hook the intent was signed for", async () => {
+    const record = await history().record(SIGNED, USDC, WETH, undefined, ANVIL);
+    expect(record.chainId).toBe(31337);
+    expect(record.verifyingContract).toBe(ANVIL.verifyingContract.toLowerCase());
+  });
+
+  it("lists only the records of the given deployment", async () => {
+    const h = history();
+    await h.record(SIGNED, USDC, WETH, undefined, SEPOLIA);
+    await h.record(withHash(OTHER_HASH), USDC, WETH, undefined, ANVIL);
+    expect((await h.list(USER, SEPOLIA)).map((r) => r.intentHash)).toEqual([vector.intentHash.toLowerCase()]);
+    expect((await h.list(USER, ANVIL)).map((r) => r.intentHash)).toEqual([OTHER_HASH]);
+    expect(await h.list(USER)).toHaveLength(2);
+  });
+
+  it("recovers the deployment of a record stored without one from its intentHash", async () => {
+    const storage = new MemoryIntentStorage();
+    const h = history(storage);
+    const { chainId, verifyingContract, ...legacy } = await h.record(SIGNED, USDC, WETH, undefined, SEPOLIA);
+    await storage.put(legacy as IntentRecord);
+
+    const recovered = await h.get(vector.intentHash);
+    expect(recovered).toMatchObject({ chainId, verifyingContract });
+    expect(await h.list(USER, SEPOLIA)).toHaveLength(1);
+  });
+
+  it("lists a legacy record no configured network reproduces under no deployment", async () => {
+    const storage = new MemoryIntentStorage();
+    const h = history(storage);
+    const { chainId, verifyingContract, ...legacy } = await h.record(withHash(OTHER_HASH), USDC, WETH, undefined, SEPOLIA);
+    await storage.put(legacy as IntentRecord);
+    expect(await h.list(USER, SEPOLIA)).toEqual([]);
+    expect(await h.list(USER)).toHaveLength(1);
+  });
+
+  it("reconciles only against the deployment's hook", async () => {
+    const h = history();
+    await h.record(SIGNED, USDC, WETH, undefined, SEPOLIA);
+    await h.record(withHash(OTHER_HASH), USDC, WETH, undefined, ANVIL);
+
+    expect(await h.reconcile(USER, executedNonces(OTHER_HASH, vector.intentHash), ANVIL)).toBe(1);
+    expect((await h.get(OTHER_HASH))?.stage).toBe("complete");
+    expect((await h.get(vector.intentHash))?.stage).toBe("signed");
+  });
+});
+
+describe("abandonUnreleased", () => {
+  const slice = (index: number): OrderRef => ({ planId: "0x01", kind: "split", index, count: 3 });
+  const THIRD_HASH = "0x" + "cd".repeat(32);
+
+  it("cancels order children a closed page left signed", async () => {
+    const h = history();
+    await h.record(SIGNED, USDC, WETH, slice(0), SEPOLIA);
+    await h.transition(vector.intentHash, { stage: "submitted", message: "Intent queued for the next batch" });
+    await h.record(withHash(OTHER_HASH), USDC, WETH, slice(1), SEPOLIA);
+    await h.record(withHash(THIRD_HASH), USDC, WETH, slice(2), ANVIL);
+
+    expect(await h.abandonUnreleased(USER)).toBe(2);
+    for (const intentHash of [OTHER_HASH, THIRD_HASH]) {
+      const record = (await h.get(intentHash))!;
+      expect(record.transitions[record.transitions.length - 1]).toMatchObject({ stage: "cancelled", message: UNRELEASED_MESSAGE });
+      expect(intentStatus(record, 0)).toBe("cancelled");
+    }
+    expect((await h.get(vector.intentHash))?.stage).toBe("submitted");
+  });
+
+  it("leaves the children this page is still releasing and single intents alone", async () => {
+    const h = history();
+    await h.record(SIGNED, USDC, WETH, undefined, SEPOLIA);
+    await h.record(withHash(OTHER_HASH), USDC, WETH, slice(1), SEPOLIA);
+    expect(await h.abandonUnreleased(USER, new Set([OTHER_HASH]))).toBe(0);
+    expect((await h.list(USER)).map((record) => record.stage)).toEqual(["signed", "signed"]);
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Intent History                                                               ║
+ * ║  Local record of every signed intent and how it moved through the pipeline    ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Records live in IndexedDB (one object store keyed by intentHash, indexed by
+ * user) and fall back to memory where IndexedDB is unavailable, e.g. private
+ * browsing. Nothing here is authoritative: on reload, open records are
+ * reconciled against the hook's isIntentExecuted, and order children the
+ * closed page never released are cancelled.
+ *
+ * Every record keeps the deployment (chain id and hook) its intent was
+ * signed for. History is listed per deployment, and anything done with a
+ * record later (reconciling, cancelling, linking its tx) goes to that chain,
+ * not to whichever network happens to be active.
+ */
+
+import { toInputString } from "./amount";
+import { buildIntentDomain } from "./eip712";
+import { computeIntentHash } from "./intentHash";
+import { NETWORKS } from "./networks";
+import type { NonceManager } from "./nonces";
+import { deserializeSignedIntent, serializeSignedIntent, type SerializedSignedIntent } from "./pipeline";
+import type { MatchResult, OrderRef, PipelineFailure, PipelineStage, RelayerStatus, SignedIntent, Token } from "./types";
+
+const DB_NAME = "unishield";
+const DB_VERSION = 1;
+const STORE = "intents";
+const USER_INDEX = "user";
+
+export type IntentStatus = "open" | "matched" | "expired" | "cancelled" | "failed";
+
+export const INTENT_STATUSES: IntentStatus[] = ["open", "matched", "expired", "cancelled", "failed"];
+
+export interface IntentTransition {
+  stage: PipelineStage;
+  at: number; // ms
+  message: string;
+}
+
+export interface TokenSnapshot {
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Hook deployment an intent was signed for (its EIP-712 domain)
+ */
+export interface IntentDeployment {
+  chainId: number;
+  verifyingContract: string;
+}
+
+export interface IntentRecord {
+  intentHash: string; // lowercase, the store key
+  user: string; // lowercase
+  chainId: number;
+  verifyingContract: string; // lowercase hook address
+  signed: SerializedSignedIntent;
+  tokens: { in: TokenSnapshot; out: TokenSnapshot };
+  plan?: OrderRef; // limit and split children
+  stage: PipelineStage;
+  transitions: IntentTransition[];
+  createdAt: number;
+  updatedAt: number;
+  batchId?: string;
+  txHash?: string;
+  matchResult?: MatchResult;
+  error?: string;
+  failure?: PipelineFailure;
+}
+
+export function isDeployment(record: IntentRecord, deployment: IntentDeployment): boolean {
+  return record.chainId === deployment.chainId && record.verifyingContract === deployment.verifyingContract.toLowerCase();
+}
+
+/**
+ * Records written before the deployment was stored get it back from the
+ * configured network whose domain reproduces their intentHash; one that
+ * matches none stays without and is listed for no deployment
+ */
+function withDeployment(record: IntentRecord): IntentRecord {
+  if (record.chainId !== undefined && record.verifyingContract) return record;
+  const { intent } = deserializeSignedIntent(record.signed);
+  for (const network of Object.values(NETWORKS)) {
+    const domain = buildIntentDomain(network.contracts.hook, network.chainId);
+    if (computeIntentHash(intent, domain).toLowerCase() === record.intentHash) {
+      return { ...record, chainId: domain.chainId, verifyingContract: domain.verifyingContract.toLowerCase() };
+    }
+  }
+  return record;
+}
+
+/**
+ * Expiry is also derived: an open record counts as expired once its deadline
+ * passes without settlement, even if the relayer never said so
+ */
+export function intentStatus(record: IntentRecord, now: number = Date.now()): IntentStatus {
+  if (record.stage === "complete") return "matched";
+  if (record.stage === "error") return "failed";
+  if (record.stage === "cancelled" || record.stage === "expired") return record.stage;
+  return BigInt(record.signed.deadline) * BigInt(1000) <= BigInt(now) ? "expired" : "open";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              STORAGE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IntentStorage {
+  readonly kind: "indexeddb" | "memory";
+  get(intentHash: string): Promise<IntentRecord | undefined>;
+  put(record: IntentRecord): Promise<void>;
+  listByUser(user: string): Promise<IntentRecord[]>;
+}
+
+export class MemoryIntentStorage implements IntentStorage {
+  readonly kind = "memory";
+  private records = new Map<string, IntentRecord>();
+
+  async get(intentHash: string): Promise<IntentRecord | undefined> {
+    const record = this.records.get(intentHash.toLowerCase());
+    return record && structuredClone(record);
+  }
+
+  async put(record: IntentRecord): Promise<void> {
+    this.records.set(record.intentHash, structuredClone(record));
+  }
+
+  async listByUser(user: string): Promise<IntentRecord[]> {
+    const key = user.toLowerCase();
+    return Array.from(this.records.values())
+      .filter((record) => record.user === key)
+      .map((record) => structuredClone(record));
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDbIntentStorage implements IntentStorage {
+  readonly kind = "indexeddb";
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(name: string = DB_NAME): Promise<IndexedDbIntentStorage> {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "intentHash" });
+      store.createIndex(USER_INDEX, "user", { unique: false });
+    };
+    return new IndexedDbIntentStorage(await promisify(request));
+  }
+
+  async get(intentHash: string): Promise<IntentRecord | undefined> {
+    return promisify(this.store("readonly").get(intentHash.toLowerCase()));
+  }
+
+  async put(record: IntentRecord): Promise<void> {
+    await promisify(this.store("readwrite").put(record));
+  }
+
+  async listByUser(user: string): Promise<IntentRecord[]> {
+    return promisify(this.store("readonly").index(USER_INDEX).getAll(user.toLowerCase()));
+  }
+
+  private store(mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(STORE, mode).objectStore(STORE);
+  }
+}
+
+/**
+ * IndexedDB when the browser allows it, memory otherwise
+ */
+export async function openIntentStorage(): Promise<IntentStorage> {
+  if (typeof indexedDB === "undefined") return new MemoryIntentStorage();
+  try {
+    return await IndexedDbIntentStorage.open();
+  } catch (e) {
+    return new MemoryIntentStorage();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              HISTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type IntentUpdate = Pick<RelayerStatus, "stage" | "message" | "batchId" | "txHash" | "matchResult" | "failure">;
+
+export const UNRELEASED_MESSAGE = "Never released: the page releasing this order was closed";
+
+export class IntentHistory {
+  private storage?: Promise<IntentStorage>;
+  private listeners = new Set<() => void>();
+
+  constructor(private openStorage: () => Promise<IntentStorage> = openIntentStorage, private now: () => number = Date.now) {}
+
+  /**
+   * Opened on first use so nothing touches IndexedDB during server rendering
+   */
+  backend(): Promise<IntentStorage> {
+    if (!this.storage) this.storage = this.openStorage();
+    return this.storage;
+  }
+
+  async record(
+    signed: SignedIntent,
+    tokenIn: Token,
+    tokenOut: Token,
+    plan?: OrderRef,
+    deployment: IntentDeployment = buildIntentDomain()
+  ): Promise<IntentRecord> {
+    const at = this.now();
+    const record: IntentRecord = {
+      intentHash: signed.intentHash.toLowerCase(),
+      user: signed.intent.user.toLowerCase(),
+      chainId: deployment.chainId,
+      verifyingContract: deployment.verifyingContract.toLowerCase(),
+      signed: serializeSignedIntent(signed),
+      tokens: {
+        in: { symbol: tokenIn.symbol, decimals: tokenIn.decimals },
+        out: { symbol: tokenOut.symbol, decimals: tokenOut.decimals },
+      },
+      plan,
+      stage: "signed",
+      transitions: [{ stage: "signed", at, message: "Intent signed" }],
+      createdAt: at,
+      updatedAt: at,
+    };
+    await (await this.backend()).put(record);
+    this.notify();
+    return record;
+  }
+
+  async get(intentHash: string): Promise<IntentRecord | undefined> {
+    const record = await (await this.backend()).get(intentHash);
+    return record && withDeployment(record);
+  }
+
+  /**
+   * Append a lifecycle step; repeated updates for the same stage only fill in data
+   */
+  async transition(intentHash: string, update: IntentUpdate): Promise<IntentRecord | undefined> {
+    const storage = await this.backend();
+    const record = await storage.get(intentHash);
+    if (!record) return undefined;
+
+    const at = this.now();
+    if (record.stage !== update.stage) {
+      record.stage = update.stage;
+      record.transitions.push({ stage: update.stage, at, message: update.message });
+    }
+    if (update.batchId) record.batchId = update.batchId;
+    if (update.txHash) record.txHash = update.txHash;
+    if (update.matchResult) record.matchResult = update.matchResult;
+    if (update.stage === "error") record.error = update.message;
+    if (update.failure) record.failure = update.failure;
+    record.updatedAt = at;
+
+    await storage.put(record);
+    this.notify();
+    return record;
+  }
+
+  /**
+   * Newest first, only those signed for the deployment when one is given
+   */
+  async list(user: string, deployment?: IntentDeployment): Promise<IntentRecord[]> {
+    if (!user) return [];
+    const records = (await (await this.backend()).listByUser(user)).map(withDeployment);
+    return records.filter((record) => !deployment || isDeployment(record, deployment)).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Settle unfinished records against the chain. Failed records are checked
+   * too: a relayer can go quiet after submitting the transaction. nonces
+   * reads the deployment's hook, so only records signed for it are checked.
+   * Returns how many records changed.
+   */
+  async reconcile(user: string, nonces: NonceManager, deployment: IntentDeployment = buildIntentDomain()): Promise<number> {
+    let changed = 0;
+    for (const record of await this.list(user, deployment)) {
+      if (record.stage === "complete") continue;
+      if ((await nonces.checkIntent(deserializeSignedIntent(record.signed))) === "executed") {
+        await this.transition(record.intentHash, { stage: "complete", message: "Executed on-chain (reconciled)" });
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Order children are released by the page that signed them. One still
+   * "signed" after that page is gone would show as open until its deadline
+   * with nothing left to submit it, so it is cancelled instead. `releasing`
+   * holds the children this page is still releasing. Returns how many
+   * records changed.
+   */
+  async abandonUnreleased(user: string, releasing: ReadonlySet<string> = new Set()): Promise<number> {
+    let changed = 0;
+    for (const record of await this.list(user)) {
+      if (record.stage !== "signed" || !record.plan || releasing.has(record.intentHash)) continue;
+      await this.transition(record.intentHash, { stage: "cancelled", message: UNRELEASED_MESSAGE });
+      changed++;
+    }
+    return changed;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              EXPORT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "status",
+  "chainId",
+  "intentHash",
+  "plan",
+  "tokenIn",
+  "amountIn",
+  "tokenOut",
+  "minAmountOut",
+  "amountOut",
+  "mevSaved",
+  "deadline",
+  "nonce",
+  "batchId",
+  "txHash",
+  "error",
+] as const;
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Amounts in whole tokens, timestamps in ISO 8601
+ */
+export function exportHistoryCsv(records: IntentRecord[], now: number = Date.now()): string {
+  const rows = records.map((record) => {
+    const { signed, tokens, matchResult } = record;
+    const row: Record<(typeof CSV_COLUMNS)[number], string> = {
+      createdAt: new Date(record.createdAt).toISOString(),
+      status: intentStatus(record, now),
+      chainId: record.chainId === undefined ? "" : String(record.chainId),
+      intentHash: record.intentHash,
+      plan: record.plan ? `${record.plan.kind} ${record.plan.planId} ${record.plan.index + 1}/${record.plan.count}` : "",
+      tokenIn: tokens.in.symbol,
+      amountIn: toInputString(BigInt(signed.amountIn), tokens.in.decimals, "en-US"),
+      tokenOut: tokens.out.symbol,
+      minAmountOut: toInputString(BigInt(signed.minAmountOut), tokens.out.decimals, "en-US"),
+      amountOut: matchResult ? toInputString(BigInt(matchResult.amountOut), tokens.out.decimals, "en-US") : "",
+      mevSaved: matchResult ? toInputString(BigInt(matchResult.mevSaved), tokens.in.decimals, "en-US") : "",
+      deadline: new Date(Number(signed.deadline) * 1000).toISOString(),
+      nonce: signed.nonce,
+      batchId: record.batchId ?? "",
+      txHash: record.txHash ?? "",
+      error: record.error ?? "",
+    };
+    return CSV_COLUMNS.map((column) => csvCell(row[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+/**
+ * Full records (base units, transitions included) with their derived status
+ */
+export function exportHistoryJson(records: IntentRecord[], now: number = Date.now()): string {
+  return JSON.stringify(
+    records.map((record) => ({ ...record, status: intentStatus(record, now) })),
+    null,
+    2
+  );
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { pow10 } from "./amount";
+import { buildIntentDomain } from "./eip712";
+import { reviewOrder, type ReviewInput } from "./intentReview";
+import { findUsdReference, StaticQuoteProvider, usdValue } from "./quotes";
+import type { SwapIntent, Token } from "./types";
+import { FIXTURE_USD_PRICES } from "./fixtures/prices";
+
+const CHAIN_ID = 84532;
+const NOW = 1767225000;
+
+const token = (symbol: string, address: string, decimals: number, custom?: boolean): Token => ({
+  chainId: CHAIN_ID,
+  address,
+  symbol,
+  name: symbol,
+  decimals,
+  icon: "",
+  ...(custom && { custom }),
+});
+
+const ETH = token("ETH", "0x4200000000000000000000000000000000000006", 18);
+const USDC = token("USDC", "0x036CbD53842c5426634e7929541eC2318f3dCF7e", 6);
+const WBTC = token("WBTC", "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", 8);
+const KNOWN = [ETH, USDC, WBTC];
+
+const USD = (dollars: number) => BigInt(dollars) * BigInt(1_000_000);
+const ETH_AMOUNT = (whole: number) => BigInt(whole) * pow10(18);
+
+function input(amounts: bigint[], amountInUsd: bigint | undefined, tokenIn = ETH, tokenOut = USDC): ReviewInput {
+  const intents: SwapIntent[] = amounts.map((amountIn, i) => ({
+    user: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+    tokenIn: tokenIn.address,
+    tokenOut: tokenOut.address,
+    amountIn,
+    minAmountOut: BigInt(1),
+    maxSlippage: BigInt(50),
+    deadline: BigInt(NOW + 600),
+    nonce: BigInt(i),
+  }));
+  return {
+    kind: amounts.length > 1 ? "split" : "market",
+    intents,
+    releaseAt: amounts.map(() => NOW),
+    tokenIn,
+    tokenOut,
+    knownTokens: KNOWN,
+    domain: buildIntentDomain("0x00000000000000000000000000000000000000C0", CHAIN_ID),
+    networkName: "Base Sepolia",
+    slippageBps: 50,
+    amountInUsd,
+  };
+}
+
+const tradeSize = (review: ReturnType<typeof reviewOrder>) => review.findings.find((finding) => finding.id === "tradeSize");
+
+describe("trade size", () => {
+  it("warns that the size went unchecked when the order has no USD price", () => {
+    const finding = tradeSize(reviewOrder(input([ETH_AMOUNT(10)], undefined), NOW));
+    expect(finding).toEqual({
+      id: "tradeSize",
+      severity: "warning",
+      detail: "No USD price for ETH, so the size was not checked against the relayer's $10,000 MEDIUM MEV-risk bar",
+    });
+  });
+
+  it("stays quiet under the MEDIUM bar", () => {
+    expect(tradeSize(reviewOrder(input([ETH_AMOUNT(3)], USD(7_800)), NOW))).toBeUndefined();
+  });
+
+  it("suggests slices for a single intent over the bar", () => {
+    const finding = tradeSize(reviewOrder(input([ETH_AMOUNT(10)], USD(26_000)), NOW));
+    expect(finding?.severity).toBe("warning");
+    expect(finding?.detail).toContain("About $26,000 in one intent");
+    expect(finding?.detail).toContain("a split order of 3 slices");
+  });
+
+  it("sizes each slice of a split order on its own share of the USD value", () => {
+    const slices = [ETH_AMOUNT(3), ETH_AMOUNT(3), ETH_AMOUNT(4)];
+    expect(tradeSize(reviewOrder(input(slices, USD(30_000)), NOW))?.detail).toContain("About $12,000 in one intent");
+    expect(tradeSize(reviewOrder(input(slices, USD(24_000)), NOW))).toBeUndefined();
+  });
+});
+
+describe("usdValue", () => {
+  const provider = new StaticQuoteProvider(FIXTURE_USD_PRICES);
+
+  it("takes USDC at face value", () => {
+    expect(usdValue(USDC, USD(12_345), USDC)).toBe(USD(12_345));
+  });
+
+  it("reads other tokens off a quote into USDC for the same amount", async () => {
+    const amountIn = ETH_AMOUNT(2);
+    const quote = await provider.getQuote({ tokenIn: ETH, tokenOut: USDC, amountIn });
+    expect(usdValue(ETH, amountIn, USDC, quote)).toBe(BigInt(2) * FIXTURE_USD_PRICES[ETH.address.toLowerCase()]);
+    expect(usdValue(ETH, amountIn + BigInt(1), USDC, quote)).toBeUndefined();
+  });
+
+  it("ignores a quote into anything but USDC", async () => {
+    const quote = await provider.getQuote({ tokenIn: ETH, tokenOut: WBTC, amountIn: ETH_AMOUNT(1) });
+    expect(usdValue(ETH, ETH_AMOUNT(1), USDC, quote)).toBeUndefined();
+    expect(usdValue(ETH, ETH_AMOUNT(1), USDC, null)).toBeUndefined();
+  });
+
+  it("only trusts a listed USDC as the reference", () => {
+    const impostor = token("USDC", "0x00000000000000000000000000000000000000D0", 6, true);
+    expect(findUsdReference([impostor, ...KNOWN], CHAIN_ID)).toBe(USDC);
+    expect(findUsdReference([impostor, ETH], CHAIN_ID)).toBeUndefined();
+    expect(usdValue(USDC, USD(1), undefined)).toBeUndefined();
+  });
+});
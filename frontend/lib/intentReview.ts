@@ -0,0 +1,263 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Intent Review                                                                ║
+ * ║  Plain-language summary and risk checks before anything is signed             ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * The wallet shows raw EIP-712 fields, so the review decodes each SwapIntent
+ * into what it actually authorizes and flags what looks wrong. Blocking
+ * findings disable signing; warnings only need to be read.
+ */
+
+import { ZeroAddress } from "ethers";
+import { formatAmount } from "./amount";
+import type { IntentDomain } from "./eip712";
+import { MAX_DEADLINE_MINUTES, formatCountdown } from "./intentSettings";
+import { MEV_MEDIUM_THRESHOLD_USD, suggestedSlices } from "./orderPlans";
+import type { OrderKind, SwapIntent, Token } from "./types";
+
+const BPS = BigInt(10000);
+
+// An intent valid for longer than this can be executed long after the user
+// has stopped watching the market
+export const REVIEW_DEADLINE_WARN_MINUTES = 60;
+
+// Floor this far under the quote (and under the slippage setting) is flagged
+export const REVIEW_DEVIATION_WARN_BPS = 300;
+// At or past half the quote the floor no longer protects anything
+export const REVIEW_DEVIATION_BLOCK_BPS = 5000;
+
+export type ReviewSeverity = "blocking" | "warning";
+
+export type ReviewFindingId =
+  | "unknownToken"
+  | "importedToken"
+  | "zeroMinOut"
+  | "expired"
+  | "deadline"
+  | "noQuote"
+  | "priceDeviation"
+  | "tradeSize"
+  | "standInHook";
+
+export interface ReviewFinding {
+  id: ReviewFindingId;
+  severity: ReviewSeverity;
+  detail: string;
+}
+
+export interface ReviewField {
+  label: string;
+  value: string;
+}
+
+export interface IntentReview {
+  intents: ReviewField[][]; // one set of fields per child, in signing order
+  findings: ReviewFinding[]; // blocking first
+  blocked: boolean;
+}
+
+export interface ReviewInput {
+  kind: OrderKind;
+  intents: SwapIntent[];
+  releaseAt: number[]; // unix seconds, per intent
+  tokenIn: Token;
+  tokenOut: Token;
+  knownTokens: Token[]; // the registry for the active chain
+  domain: IntentDomain;
+  networkName: string;
+  slippageBps: number;
+  quotedAmountOut?: bigint; // fresh quote for the whole amount, if any
+  amountInUsd?: bigint; // 6-decimal USD value of the whole amount, if it could be priced
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DECODING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const formatBps = (bps: bigint | number) => `${formatAmount(BigInt(bps), 2, { maxFractionDigits: 2 })}%`;
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+/**
+ * What one signature authorizes, in the order a wallet lists the fields
+ */
+export function describeIntent(
+  intent: SwapIntent,
+  tokenIn: Token,
+  tokenOut: Token,
+  domain: IntentDomain,
+  networkName: string,
+  releaseAt: number,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): ReviewField[] {
+  const deadline = Number(intent.deadline);
+  const fields: ReviewField[] = [
+    { label: "You pay", value: `${formatAmount(intent.amountIn, tokenIn.decimals)} ${tokenIn.symbol}` },
+    {
+      label: "You receive at least",
+      value: `${formatAmount(intent.minAmountOut, tokenOut.decimals, { maxFractionDigits: 6 })} ${tokenOut.symbol}`,
+    },
+    { label: "Max slippage", value: formatBps(intent.maxSlippage) },
+  ];
+  if (releaseAt > nowSeconds) {
+    fields.push({ label: "Released", value: `${formatTime(releaseAt)} (in ${formatCountdown(releaseAt - nowSeconds)})` });
+  }
+  fields.push(
+    { label: "Valid until", value: `${formatTime(deadline)} (${formatCountdown(deadline - nowSeconds)} left)` },
+    { label: "Nonce", value: intent.nonce.toString() },
+    { label: "From", value: intent.user },
+    {
+      label: "Signed for",
+      value: `${domain.name} v${domain.version} at ${domain.verifyingContract} on ${networkName} (chain ${domain.chainId})`,
+    }
+  );
+  return fields;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              RISK CHECKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function tokenFindings(token: Token, known: Token[], chainId: number): ReviewFinding[] {
+  const listed = known.find((t) => t.address.toLowerCase() === token.address.toLowerCase());
+  if (!listed || token.chainId !== chainId) {
+    return [{ id: "unknownToken", severity: "blocking", detail: `${token.symbol} (${token.address}) is not a known token on this network` }];
+  }
+  if (listed.custom) {
+    return [
+      {
+        id: "importedToken",
+        severity: "warning",
+        detail: `${token.symbol} was imported by address, not from the token list. Make sure ${token.address} is the contract you mean.`,
+      },
+    ];
+  }
+  return [];
+}
+
+function priceFindings(input: ReviewInput, floor: bigint): ReviewFinding[] {
+  const { kind, quotedAmountOut, tokenOut, slippageBps } = input;
+  if (quotedAmountOut === undefined || quotedAmountOut <= BigInt(0)) {
+    return [{ id: "noQuote", severity: "warning", detail: "No fresh quote, so the minimum received was not checked against the market" }];
+  }
+
+  if (floor > quotedAmountOut) {
+    const aboveBps = ((floor - quotedAmountOut) * BPS) / quotedAmountOut;
+    return [
+      {
+        id: "priceDeviation",
+        severity: "warning",
+        detail:
+          kind === "limit"
+            ? `Your limit is ${formatBps(aboveBps)} above the current quote; the order waits until a batch clears there`
+            : `The minimum received is ${formatBps(aboveBps)} above the current quote; the swap will likely not fill`,
+      },
+    ];
+  }
+
+  const belowBps = ((quotedAmountOut - floor) * BPS) / quotedAmountOut;
+  const quoted = `${formatAmount(quotedAmountOut, tokenOut.decimals, { maxFractionDigits: 6 })} ${tokenOut.symbol}`;
+  if (belowBps >= BigInt(REVIEW_DEVIATION_BLOCK_BPS)) {
+    return [
+      {
+        id: "priceDeviation",
+        severity: "blocking",
+        detail: `The minimum received is ${formatBps(belowBps)} below the quote of ${quoted}; a batch could settle at a fraction of the market price`,
+      },
+    ];
+  }
+  if (belowBps > BigInt(Math.max(slippageBps, REVIEW_DEVIATION_WARN_BPS))) {
+    return [
+      {
+        id: "priceDeviation",
+        severity: "warning",
+        detail: `The minimum received is ${formatBps(belowBps)} below the quote of ${quoted}, more than your ${formatBps(slippageBps)} slippage`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Run every check and decode every intent. Never throws.
+ */
+export function reviewOrder(input: ReviewInput, nowSeconds: number = Math.floor(Date.now() / 1000)): IntentReview {
+  const { intents, releaseAt, tokenIn, tokenOut, domain } = input;
+  const findings: ReviewFinding[] = [
+    ...tokenFindings(tokenIn, input.knownTokens, domain.chainId),
+    ...tokenFindings(tokenOut, input.knownTokens, domain.chainId),
+  ];
+
+  if (intents.some((intent) => intent.minAmountOut <= BigInt(0))) {
+    findings.push({
+      id: "zeroMinOut",
+      severity: "blocking",
+      detail: "The minimum received is zero, so the intent could settle for nothing",
+    });
+  }
+
+  // Each slice's validity window starts at its release, not now
+  let longest = 0;
+  for (let i = 0; i < intents.length; i++) {
+    if (Number(intents[i].deadline) <= nowSeconds) {
+      findings.push({ id: "expired", severity: "blocking", detail: "The deadline has already passed" });
+      break;
+    }
+    longest = Math.max(longest, Number(intents[i].deadline) - Math.max(releaseAt[i] ?? nowSeconds, nowSeconds));
+  }
+  if (longest > MAX_DEADLINE_MINUTES * 60) {
+    findings.push({
+      id: "deadline",
+      severity: "blocking",
+      detail: `The intent stays valid for ${formatCountdown(longest)}, longer than the ${MAX_DEADLINE_MINUTES / 60}h maximum`,
+    });
+  } else if (longest > REVIEW_DEADLINE_WARN_MINUTES * 60) {
+    findings.push({
+      id: "deadline",
+      severity: "warning",
+      detail: `The intent stays valid for ${formatCountdown(longest)}. A relayer can execute it at any point until then.`,
+    });
+  }
+
+  const floor = intents.reduce((sum, intent) => sum + intent.minAmountOut, BigInt(0));
+  if (floor > BigInt(0)) findings.push(...priceFindings(input, floor));
+
+  // Same size bar as relayer.js assessMEVRisk, per intent since each is assessed alone
+  const threshold = `$${formatAmount(MEV_MEDIUM_THRESHOLD_USD, 6, { maxFractionDigits: 0 })}`;
+  const total = intents.reduce((sum, intent) => sum + intent.amountIn, BigInt(0));
+  if (input.amountInUsd === undefined) {
+    findings.push({
+      id: "tradeSize",
+      severity: "warning",
+      detail: `No USD price for ${tokenIn.symbol}, so the size was not checked against the relayer's ${threshold} MEDIUM MEV-risk bar`,
+    });
+  } else if (total > BigInt(0)) {
+    const largest = intents.reduce((max, intent) => (intent.amountIn > max ? intent.amountIn : max), BigInt(0));
+    const largestUsd = (largest * input.amountInUsd) / total;
+    if (largestUsd > MEV_MEDIUM_THRESHOLD_USD) {
+      findings.push({
+        id: "tradeSize",
+        severity: "warning",
+        detail: `About $${formatAmount(largestUsd, 6, { maxFractionDigits: 0 })} in one intent is above the relayer's ${threshold} MEDIUM MEV-risk size; a split order of ${suggestedSlices(input.amountInUsd)} slices stays under it`,
+      });
+    }
+  }
+
+  if (domain.verifyingContract.toLowerCase() === ZeroAddress) {
+    findings.push({
+      id: "standInHook",
+      severity: "warning",
+      detail: "No hook is deployed on this network: the signature is for the local stand-in and only the mock relayer accepts it",
+    });
+  }
+
+  findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "blocking" ? -1 : 1));
+  return {
+    intents: intents.map((intent, i) =>
+      describeIntent(intent, tokenIn, tokenOut, domain, input.networkName, releaseAt[i] ?? nowSeconds, nowSeconds)
+    ),
+    findings,
+    blocked: findings.some((finding) => finding.severity === "blocking"),
+  };
+}
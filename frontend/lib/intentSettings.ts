@@ -0,0 +1,125 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Intent Protection Settings                                                   ║
+ * ║  Slippage, deadline and minimum output for every signed SwapIntent            ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * An intent with minAmountOut = 0 authorizes any fill the TEE produces, so the
+ * form refuses to sign until a non-zero floor is known - either typed in by the
+ * user or derived from a quote and the slippage tolerance.
+ */
+
+/**
+ * Persisted per user. The explicit minimum output is per-trade and lives in
+ * the form instead.
+ */
+export interface IntentSettings {
+  slippageBps: number;
+  deadlineMinutes: number;
+}
+
+export const DEFAULT_SETTINGS: IntentSettings = {
+  slippageBps: 50,
+  deadlineMinutes: 60,
+};
+
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100];
+export const MAX_SLIPPAGE_BPS = 5000;
+export const MIN_DEADLINE_MINUTES = 1;
+export const MAX_DEADLINE_MINUTES = 24 * 60;
+
+const BPS = BigInt(10000);
+const SETTINGS_KEY_PREFIX = "unishield:settings:";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DERIVATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Floor = expected output reduced by the slippage tolerance (rounded down)
+ */
+export function deriveMinAmountOut(expectedOut: bigint, slippageBps: number): bigint {
+  return (expectedOut * (BPS - BigInt(slippageBps))) / BPS;
+}
+
+export function computeDeadline(deadlineMinutes: number, nowSeconds: number = Math.floor(Date.now() / 1000)): bigint {
+  return BigInt(nowSeconds + deadlineMinutes * 60);
+}
+
+/**
+ * Pick the floor to sign: explicit value wins, otherwise derived from the quote
+ */
+export function resolveMinAmountOut(
+  explicitMin: bigint | undefined,
+  expectedOut: bigint | undefined,
+  slippageBps: number
+): bigint | undefined {
+  if (explicitMin !== undefined) return explicitMin;
+  if (expectedOut !== undefined) return deriveMinAmountOut(expectedOut, slippageBps);
+  return undefined;
+}
+
+/**
+ * Whole seconds left before the deadline (negative once past)
+ */
+export function secondsUntil(deadline: bigint, nowMs: number = Date.now()): number {
+  return Number(deadline) - Math.floor(nowMs / 1000);
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return "expired";
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return h > 0 ? `${h}h ${pad(m)}m` : `${pad(m)}:${pad(s)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Returns a human-readable reason the intent must not be signed, or null
+ */
+export function validateProtection(settings: IntentSettings, minAmountOut: bigint | undefined): string | null {
+  if (!Number.isInteger(settings.slippageBps) || settings.slippageBps < 0 || settings.slippageBps > MAX_SLIPPAGE_BPS) {
+    return `Slippage must be between 0% and ${MAX_SLIPPAGE_BPS / 100}%`;
+  }
+  if (
+    !Number.isInteger(settings.deadlineMinutes) ||
+    settings.deadlineMinutes < MIN_DEADLINE_MINUTES ||
+    settings.deadlineMinutes > MAX_DEADLINE_MINUTES
+  ) {
+    return `Deadline must be between ${MIN_DEADLINE_MINUTES} and ${MAX_DEADLINE_MINUTES} minutes`;
+  }
+  if (minAmountOut === undefined) {
+    return "No quote available, set a minimum output";
+  }
+  if (minAmountOut <= BigInt(0)) {
+    return "Minimum output must be greater than zero";
+  }
+  return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PERSISTENCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function loadSettings(user: string): IntentSettings {
+  if (typeof window === "undefined" || !user) return DEFAULT_SETTINGS;
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_KEY_PREFIX + user.toLowerCase());
+    if (!stored) return DEFAULT_SETTINGS;
+    const { slippageBps, deadlineMinutes } = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    return { slippageBps, deadlineMinutes };
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(user: string, settings: IntentSettings) {
+  if (typeof window === "undefined" || !user) return;
+  const { slippageBps, deadlineMinutes } = settings;
+  window.localStorage.setItem(SETTINGS_KEY_PREFIX + user.toLowerCase(), JSON.stringify({ slippageBps, deadlineMinutes }));
+}
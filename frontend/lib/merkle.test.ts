@@ -0,0 +1,105 @@
+import { keccak256, toUtf8Bytes, ZeroHash } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  buildMerkleTree,
+  computeMerkleRoot,
+  computeRootFromProof,
+  getInclusionProof,
+  MerkleError,
+  parseMerkleProof,
+  serializeMerkleProof,
+  verifyBatchInclusion,
+  verifyInclusionProof,
+} from "./merkle";
+import { MERKLE_LEAF_PREIMAGE_PREFIX, MERKLE_VECTORS } from "./fixtures/merkleVectors";
+
+const leaves = (size: number): string[] =>
+  Array.from({ length: size }, (_, i) => keccak256(toUtf8Bytes(`${MERKLE_LEAF_PREIMAGE_PREFIX}${i}`)));
+
+const FIVE = leaves(5);
+const ROOT_OF_FIVE = MERKLE_VECTORS.find((v) => v.size === 5)!.root;
+
+describe("computeMerkleRoot", () => {
+  it.each(MERKLE_VECTORS.map((v) => [v.size, v.root] as const))("reproduces the iApp root for %i leaves", (size, root) => {
+    expect(computeMerkleRoot(leaves(size))).toBe(root);
+  });
+
+  it("pairs an odd last node with itself", () => {
+    const [a, b, c] = leaves(3);
+    const levels = buildMerkleTree([a, b, c]);
+    expect(levels[1][1]).toBe(keccak256(c + c.slice(2)));
+    expect(levels.map((level) => level.length)).toEqual([3, 2, 1]);
+  });
+
+  it("keeps batch order: swapped leaves give another root", () => {
+    const [a, b] = leaves(2);
+    expect(computeMerkleRoot([b, a])).not.toBe(computeMerkleRoot([a, b]));
+  });
+
+  it("rejects a leaf that is not bytes32", () => {
+    expect(() => computeMerkleRoot(["0x1234"])).toThrow(MerkleError);
+  });
+});
+
+describe("inclusion proofs", () => {
+  it.each(FIVE.map((leaf, index) => [index, leaf] as const))("proves leaf %i of an odd batch", (index, leaf) => {
+    const proof = getInclusionProof(FIVE, leaf);
+    expect(proof).toMatchObject({ index, root: ROOT_OF_FIVE, leaf: leaf.toLowerCase() });
+    expect(proof.siblings).toHaveLength(3);
+    expect(computeRootFromProof(proof)).toBe(ROOT_OF_FIVE);
+    expect(verifyInclusionProof(proof)).toBe(true);
+  });
+
+  it("uses the leaf itself as the sibling of an unpaired last node", () => {
+    const proof = getInclusionProof(FIVE, FIVE[4]);
+    expect(proof.siblings[0]).toBe(FIVE[4].toLowerCase());
+  });
+
+  it("has an empty path for a single leaf", () => {
+    const [only] = leaves(1);
+    expect(getInclusionProof([only], only)).toMatchObject({ index: 0, siblings: [], root: only.toLowerCase() });
+  });
+
+  it("refuses a leaf outside the batch", () => {
+    expect(() => getInclusionProof(FIVE, leaves(6)[5])).toThrow("Leaf not in batch");
+    expect(() => getInclusionProof([], ZeroHash)).toThrow(MerkleError);
+  });
+
+  it.each<[string, (p: ReturnType<typeof getInclusionProof>) => ReturnType<typeof getInclusionProof>]>([
+    ["another index", (p) => ({ ...p, index: p.index ^ 1 })],
+    ["an index past the path", (p) => ({ ...p, index: 2 ** p.siblings.length })],
+    ["a changed sibling", (p) => ({ ...p, siblings: [ZeroHash, ...p.siblings.slice(1)] })],
+    ["a dropped level", (p) => ({ ...p, siblings: p.siblings.slice(0, -1) })],
+  ])("fails with %s", (_, mutate) => {
+    expect(verifyInclusionProof(mutate(getInclusionProof(FIVE, FIVE[2])))).toBe(false);
+  });
+
+  it("checks the path against the expected root, not only the one it carries", () => {
+    const proof = getInclusionProof(FIVE, FIVE[1]);
+    expect(verifyInclusionProof(proof, computeMerkleRoot(leaves(4)))).toBe(false);
+  });
+});
+
+describe("verifyBatchInclusion", () => {
+  const proof = getInclusionProof(FIVE, FIVE[3]);
+
+  it("accepts a serialized path from the intentHash to the signed root", () => {
+    const check = verifyBatchInclusion(serializeMerkleProof(proof), "0x" + FIVE[3].slice(2).toUpperCase(), ROOT_OF_FIVE);
+    expect(check).toMatchObject({ ok: true, detail: "Leaf 3 of the batch, 3 levels" });
+  });
+
+  it.each<[string, unknown, string, string, string]>([
+    ["someone else's leaf", proof, FIVE[0], ROOT_OF_FIVE, "Path does not start at your intentHash"],
+    ["another signed root", proof, FIVE[3], computeMerkleRoot(leaves(4)), "Path does not lead to the signed merkleRoot"],
+    ["malformed JSON", "{", FIVE[3], ROOT_OF_FIVE, "Merkle proof is not valid JSON"],
+    ["another version", { ...proof, version: 2 }, FIVE[3], ROOT_OF_FIVE, "Unsupported Merkle proof version: 2"],
+    ["a negative index", { ...proof, index: -1 }, FIVE[3], ROOT_OF_FIVE, "Merkle proof index is invalid"],
+    ["a short sibling", { ...proof, siblings: ["0x1234"] }, FIVE[3], ROOT_OF_FIVE, "Merkle proof siblings must be bytes32"],
+  ])("rejects %s", (_, data, intentHash, signedRoot, detail) => {
+    expect(verifyBatchInclusion(data, intentHash, signedRoot)).toMatchObject({ ok: false, detail });
+  });
+
+  it("round trips through serialization", () => {
+    expect(parseMerkleProof(serializeMerkleProof(proof))).toEqual(proof);
+  });
+});
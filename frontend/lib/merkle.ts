@@ -0,0 +1,183 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Batch Merkle Tree                                                            ║
+ * ║  Port of the iApp's compute_merkle_root with inclusion paths                  ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Leaves are intent hashes in batch order. Each level hashes adjacent pairs as
+ * keccak256(left || right) - unsorted - and an odd last node is paired with
+ * itself. A single leaf is its own root; an empty batch has the zero root.
+ */
+
+import { concat, isHexString, keccak256, ZeroHash } from "ethers";
+import type { MerkleProof } from "./types";
+
+export const MERKLE_PROOF_VERSION = 1;
+
+export class MerkleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MerkleError";
+  }
+}
+
+function hashPair(left: string, right: string): string {
+  return keccak256(concat([left, right]));
+}
+
+function normalizeLeaf(leaf: string): string {
+  if (!isHexString(leaf, 32)) throw new MerkleError(`Leaf is not bytes32: ${leaf}`);
+  return leaf.toLowerCase();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              TREE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * All levels, leaves first and the root level last
+ */
+export function buildMerkleTree(leaves: string[]): string[][] {
+  if (leaves.length === 0) return [[ZeroHash]];
+
+  const levels = [leaves.map(normalizeLeaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hashPair(level[i], level[i + 1] ?? level[i]));
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function computeMerkleRoot(leaves: string[]): string {
+  const levels = buildMerkleTree(leaves);
+  return levels[levels.length - 1][0];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              INCLUSION PROOFS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sibling path for one leaf. The bits of index give each sibling's side.
+ */
+export function getInclusionProof(leaves: string[], leaf: string): MerkleProof {
+  const target = normalizeLeaf(leaf);
+  const levels = buildMerkleTree(leaves);
+  const index = levels[0].indexOf(target);
+  if (leaves.length === 0 || index === -1) throw new MerkleError(`Leaf not in batch: ${leaf}`);
+
+  const siblings: string[] = [];
+  let position = index;
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const level = levels[depth];
+    const siblingIndex = position % 2 === 0 ? position + 1 : position - 1;
+    siblings.push(level[siblingIndex] ?? level[position]);
+    position = Math.floor(position / 2);
+  }
+
+  return {
+    version: MERKLE_PROOF_VERSION,
+    leaf: target,
+    index,
+    siblings,
+    root: levels[levels.length - 1][0],
+  };
+}
+
+/**
+ * Root implied by a path, whatever root the proof claims
+ */
+export function computeRootFromProof(proof: Pick<MerkleProof, "leaf" | "index" | "siblings">): string {
+  let node = normalizeLeaf(proof.leaf);
+  let position = proof.index;
+  for (const sibling of proof.siblings) {
+    node = position % 2 === 0 ? hashPair(node, sibling) : hashPair(sibling, node);
+    position = Math.floor(position / 2);
+  }
+  return node;
+}
+
+/**
+ * Path leads from leaf to the expected root (defaults to the root it carries)
+ */
+export function verifyInclusionProof(proof: MerkleProof, expectedRoot: string = proof.root): boolean {
+  try {
+    if (proof.index < 0 || proof.index >= 2 ** proof.siblings.length) return false;
+    return computeRootFromProof(proof) === expectedRoot.toLowerCase();
+  } catch (e) {
+    return false;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SERIALIZATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function serializeMerkleProof(proof: MerkleProof): string {
+  return JSON.stringify(proof);
+}
+
+/**
+ * Parse and shape-check a serialized proof (object or JSON string); throws MerkleError
+ */
+export function parseMerkleProof(data: unknown): MerkleProof {
+  let raw: unknown = data;
+  if (typeof data === "string") {
+    try {
+      raw = JSON.parse(data);
+    } catch (e) {
+      throw new MerkleError("Merkle proof is not valid JSON");
+    }
+  }
+  if (typeof raw !== "object" || raw === null) throw new MerkleError("Merkle proof must be an object");
+
+  const p = raw as Record<string, unknown>;
+  if (p.version !== MERKLE_PROOF_VERSION) throw new MerkleError(`Unsupported Merkle proof version: ${p.version}`);
+  if (!Number.isSafeInteger(p.index) || (p.index as number) < 0) throw new MerkleError("Merkle proof index is invalid");
+  if (!Array.isArray(p.siblings) || !p.siblings.every((s) => isHexString(s, 32))) {
+    throw new MerkleError("Merkle proof siblings must be bytes32");
+  }
+  if (!isHexString(p.leaf, 32) || !isHexString(p.root, 32)) throw new MerkleError("Merkle proof leaf/root must be bytes32");
+
+  return {
+    version: MERKLE_PROOF_VERSION,
+    leaf: (p.leaf as string).toLowerCase(),
+    index: p.index as number,
+    siblings: (p.siblings as string[]).map((s) => s.toLowerCase()),
+    root: (p.root as string).toLowerCase(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              BATCH INCLUSION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface InclusionCheck {
+  ok: boolean;
+  detail: string;
+  proof?: MerkleProof;
+}
+
+/**
+ * A relayer-supplied path must start at the user's own intentHash and end at
+ * the merkleRoot the TEE signed into the execution proof
+ */
+export function verifyBatchInclusion(data: unknown, intentHash: string, signedRoot: string): InclusionCheck {
+  let proof: MerkleProof;
+  try {
+    proof = parseMerkleProof(data);
+  } catch (error) {
+    return { ok: false, detail: error instanceof Error ? error.message : "Malformed Merkle proof" };
+  }
+  if (proof.leaf !== intentHash.toLowerCase()) {
+    return { ok: false, detail: "Path does not start at your intentHash", proof };
+  }
+  if (!verifyInclusionProof(proof, signedRoot)) {
+    return { ok: false, detail: "Path does not lead to the signed merkleRoot", proof };
+  }
+  return { ok: true, detail: `Leaf ${proof.index} of the batch, ${proof.siblings.length} levels`, proof };
+}
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalKeySigner } from "./eip712";
+import { computeIntentHash } from "./intentHash";
+import { sealIntent } from "./intentCrypto";
+import { MockRelayer, MockRelayerError } from "./mockRelayer";
+import { serializeCancellation, type SealedIntentSubmission } from "./pipeline";
+import { verifyExecutionProof } from "./proof";
+import type { SignedIntent, SwapIntent } from "./types";
+import { STAND_IN_ENCLAVE_PUBLIC_KEY, STAND_IN_TEE_SIGNER } from "./fixtures/enclaveKeys";
+import { INTENT_HASH_VECTORS } from "./fixtures/intentHashVectors";
+
+// Anvil account #1, the dev key the intent vectors are signed with
+const DEV_SIGNER = new LocalKeySigner("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+const vector = INTENT_HASH_VECTORS[0];
+const SIGNED: SignedIntent = { intent: vector.intent, signature: vector.devKeySignature!, intentHash: vector.intentHash };
+// Ten minutes before the vector's deadline
+const NOW = (Number(vector.intent.deadline) - 600) * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function sealed(signed: SignedIntent = SIGNED, intentHash = signed.intentHash): Promise<SealedIntentSubmission> {
+  return { intentHash, envelope: await sealIntent(signed, STAND_IN_ENCLAVE_PUBLIC_KEY) };
+}
+
+/**
+ * An intent re-signed by the dev key after changing its terms
+ */
+async function resigned(changes: Partial<SwapIntent>): Promise<SignedIntent> {
+  const intent = { ...vector.intent, ...changes };
+  return { intent, signature: await DEV_SIGNER.signIntent(vector.domain, intent), intentHash: computeIntentHash(intent, vector.domain) };
+}
+
+function setup(start = NOW) {
+  let now = start;
+  const relayer = new MockRelayer(() => now);
+  return { relayer, advance: (ms: number) => (now += ms) };
+}
+
+async function rejection(attempt: Promise<unknown> | (() => unknown)): Promise<{ message: string; status: number }> {
+  try {
+    await (typeof attempt === "function" ? attempt() : attempt);
+  } catch (error) {
+    expect(error).toBeInstanceOf(MockRelayerError);
+    const { message, status } = error as MockRelayerError;
+    return { message, status };
+  }
+  throw new Error("accepted");
+}
+
+async function cancellation(signer = DEV_SIGNER, changes: { intentHash?: string; nonce?: bigint } = {}) {
+  const cancel = { intentHash: SIGNED.intentHash, user: SIGNED.intent.user, nonce: SIGNED.intent.nonce, ...changes };
+  return serializeCancellation({ cancel, signature: await signer.signCancel(vector.domain, cancel) });
+}
+
+describe("MockRelayer.submit", () => {
+  it("queues a valid sealed intent and walks it to a verifiable settlement", async () => {
+    const { relayer, advance } = setup();
+    expect(await relayer.submit(await sealed())).toMatchObject({ intentHash: SIGNED.intentHash, stage: "submitted" });
+
+    advance(1500);
+    expect(relayer.status(SIGNED.intentHash)).toMatchObject({ stage: "matching", batchId: expect.any(String) });
+    advance(2500);
+    expect(relayer.status(SIGNED.intentHash)?.stage).toBe("executing");
+    advance(2500);
+    const complete = relayer.status(SIGNED.intentHash)!;
+    expect(complete).toMatchObject({ stage: "complete", txHash: expect.any(String), inclusionProof: expect.any(Object) });
+    expect(verifyExecutionProof(complete.proof, SIGNED, STAND_IN_TEE_SIGNER, vector.domain).verified).toBe(true);
+  });
+
+  it("refuses an intent it has already queued", async () => {
+    const { relayer } = setup();
+    await relayer.submit(await sealed());
+    expect(await rejection(relayer.submit(await sealed()))).toEqual({ message: "Intent already submitted", status: 409 });
+  });
+
+  it("refuses an intent past its deadline", async () => {
+    const { relayer } = setup((Number(vector.intent.deadline) + 1) * 1000);
+    expect(await rejection(relayer.submit(await sealed()))).toEqual({ message: "Intent expired", status: 400 });
+  });
+
+  it("refuses an intent signed by someone other than intent.user", async () => {
+    const { relayer } = setup();
+    const intent = { ...vector.intent, user: "0x000000000000000000000000000000000000dEaD" };
+    const forged = { intent, signature: SIGNED.signature, intentHash: computeIntentHash(intent, vector.domain) };
+    expect(await rejection(relayer.submit(await sealed(forged)))).toEqual({ message: "Signature does not match intent.user", status: 401 });
+  });
+
+  it("refuses an intentHash that no deployment computes for the intent", async () => {
+    const { relayer } = setup();
+    const other = await resigned({ nonce: BigInt(7) });
+    const mislabelled = { ...other, intentHash: SIGNED.intentHash };
+    expect(await rejection(relayer.submit(await sealed(mislabelled)))).toEqual({ message: "intentHash does not match intent", status: 400 });
+  });
+
+  it("refuses an envelope submitted under another intentHash", async () => {
+    const { relayer } = setup();
+    const other = await resigned({ nonce: BigInt(7) });
+    expect(await rejection(relayer.submit(await sealed(SIGNED, other.intentHash)))).toEqual({
+      message: "Envelope is bound to a different intentHash",
+      status: 400,
+    });
+  });
+
+  it("reports envelope failures in the enclave's words", async () => {
+    const { relayer } = setup();
+    const { envelope } = await sealed();
+    expect(await rejection(relayer.submit({ intentHash: SIGNED.intentHash, envelope: { ...envelope, kid: "0x00" } }))).toEqual({
+      message: "Envelope sealed for another enclave key (0x00)",
+      status: 400,
+    });
+  });
+
+  it("rests an intent whose floor is above the market in matching", async () => {
+    let now = NOW;
+    const relayer = new MockRelayer(() => now, () => SIGNED.intent.minAmountOut - BigInt(1));
+    await relayer.submit(await sealed());
+    now += 10_000;
+    expect(relayer.status(SIGNED.intentHash)).toMatchObject({ stage: "matching", message: "Limit not reached, resting for the next batch" });
+    now = (Number(vector.intent.deadline) + 1) * 1000;
+    expect(relayer.status(SIGNED.intentHash)?.stage).toBe("expired");
+  });
+});
+
+describe("MockRelayer.cancel", () => {
+  it("cancels a queued intent, and cancelling again is not an error", async () => {
+    const { relayer } = setup();
+    await relayer.submit(await sealed());
+    const data = await cancellation();
+    expect(relayer.cancel(SIGNED.intentHash, data)).toMatchObject({ stage: "cancelled", message: "Cancelled by user" });
+    expect(relayer.cancel(SIGNED.intentHash, data).stage).toBe("cancelled");
+  });
+
+  it("is too late once execution has started", async () => {
+    const { relayer, advance } = setup();
+    await relayer.submit(await sealed());
+    advance(4000);
+    expect(await rejection(async () => relayer.cancel(SIGNED.intentHash, await cancellation()))).toEqual({
+      message: "Intent is executing, too late to cancel",
+      status: 409,
+    });
+  });
+
+  it("only accepts the intent's signer", async () => {
+    const { relayer } = setup();
+    await relayer.submit(await sealed());
+    const stranger = new LocalKeySigner("0x" + "0".repeat(63) + "2");
+    expect(await rejection(async () => relayer.cancel(SIGNED.intentHash, await cancellation(stranger)))).toEqual({
+      message: "Signature does not match intent.user",
+      status: 401,
+    });
+    expect(relayer.status(SIGNED.intentHash)?.stage).toBe("submitted");
+  });
+
+  it.each<[string, { intentHash?: string; nonce?: bigint }, string]>([
+    ["another intent", { intentHash: "0x" + "ab".repeat(32) }, "Cancellation is for a different intent"],
+    ["another nonce", { nonce: BigInt(1) }, "Cancellation does not match the intent"],
+  ])("refuses a cancellation signed for %s", async (_, changes, message) => {
+    const { relayer } = setup();
+    await relayer.submit(await sealed());
+    expect(await rejection(async () => relayer.cancel(SIGNED.intentHash, await cancellation(DEV_SIGNER, changes)))).toEqual({
+      message,
+      status: 400,
+    });
+  });
+
+  it("does not know an intent it never queued", async () => {
+    const { relayer } = setup();
+    expect(await rejection(async () => relayer.cancel(SIGNED.intentHash, await cancellation()))).toEqual({ message: "Unknown intent", status: 404 });
+  });
+});
@@ -0,0 +1,571 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Mock Relayer                                                                 ║
+ * ║  Local stand-in for the relayer's intent endpoint                             ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Opens sealed intents with the stand-in enclave key, validates them exactly
+ * like the relayer would (signature, hash, deadline, replay, bundled permit)
+ * and walks them through the pipeline on a fixed schedule. An intent whose
+ * floor sits above the fixture market price (a limit order out of the money)
+ * rests in matching until it is cancelled or expires. Settlement figures
+ * follow the iApp's formulas so the UI renders the same values it would get
+ * from a real batch. Each step is published on a log buffer in the relayer's
+ * own wording for the SSE endpoint.
+ *
+ * The route serves every network in networks.ts: an intent is checked
+ * against whichever deployment's EIP-712 domain reproduces its hash.
+ *
+ * Each sealed batch also gets an anonymized order book: one of the fixture
+ * books rescaled around the intent, so the batch view has a believable book
+ * to draw without any other order flow.
+ */
+
+import { computeAddress, getBytes, hashMessage, keccak256, SigningKey, solidityPacked } from "ethers";
+import { ATTESTATION_REPORT_VERSION, attestationDigest, computeReportData } from "./attestation";
+import { buildIntentDomain, recoverCancelSigner, recoverIntentSigner, type IntentDomain } from "./eip712";
+import { computeIntentHash } from "./intentHash";
+import { EnvelopeError, importEnclavePrivateKey, openIntentEnvelope } from "./intentCrypto";
+import {
+  CANCELLABLE_STAGES,
+  deserializeCancellation,
+  type PipelineUpdate,
+  type SealedIntentSubmission,
+  type SerializedCancellation,
+} from "./pipeline";
+import { BATCH_LEVEL_BPS, buildBatchSummary, parseBatchSummary, type BatchOrder, type BatchSummary } from "./batchSummary";
+import { computeMerkleRoot, getInclusionProof } from "./merkle";
+import { checkPermit } from "./permits";
+import { computeProofDigest } from "./proof";
+import { RelayerLogBuffer } from "./relayerLogs";
+import type { RelayerStats } from "./relayerStats";
+import { pow10 } from "./amount";
+import { NETWORK, NETWORKS } from "./networks";
+import defaultTokenList from "./tokenlist.json";
+import { STAND_IN_ENCLAVE_MEASUREMENT, STAND_IN_ENCLAVE_PRIVATE_JWK, STAND_IN_ENCLAVE_PUBLIC_KEY } from "./fixtures/enclaveKeys";
+import { FIXTURE_BATCH_SUMMARIES } from "./fixtures/batchSummaries";
+import { FIXTURE_USD_PRICES } from "./fixtures/prices";
+import type {
+  AttestationReport,
+  ExecutionProof,
+  MatchResult,
+  MerkleProof,
+  PipelineStage,
+  SignedCancellation,
+  SignedIntent,
+  SwapIntent,
+} from "./types";
+
+const BPS = BigInt(10000);
+const PRICE_SCALE = BigInt("1000000000000000000");
+// Private key 0x..01, whose address is the iApp's TEE_SIGNER_ADDRESS
+const MOCK_TEE_KEY = new SigningKey("0x" + "0".repeat(63) + "1");
+
+// Other intents sharing each batch; odd totals exercise the duplicated last leaf
+const MOCK_BATCH_PEERS = 4;
+
+// relayer.js assessMEVRisk: trades above 10k USDC are MEDIUM risk
+const MEV_MEDIUM_THRESHOLD = BigInt(10000) * BigInt(1000000);
+
+// Milliseconds after submission at which each stage begins
+const STAGE_SCHEDULE: [PipelineStage, number][] = [
+  ["submitted", 0],
+  ["matching", 1500],
+  ["executing", 4000],
+  ["complete", 6500],
+];
+
+const STAGE_MESSAGES: Partial<Record<PipelineStage, string>> = {
+  submitted: "Intent queued for the next batch",
+  matching: "TEE matching batch",
+  executing: "Executing settlement on-chain",
+  complete: "Settled",
+  cancelled: "Cancelled by user",
+  expired: "Deadline passed before settlement",
+};
+
+// Relayer wallet: relayer.js gas estimate at a fixed Base Sepolia gas price,
+// drawn from a small starting balance so the low-balance warning is reachable
+const MOCK_RELAYER_ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const MOCK_GAS_PER_EXECUTION = BigInt(250000) * BigInt(1000000000); // 1 gwei
+const MOCK_STARTING_BALANCE = BigInt("20000000000000000"); // 0.02 ETH
+const MOCK_LOW_BALANCE = BigInt("10000000000000000");
+const MOCK_CRITICAL_BALANCE = BigInt("2000000000000000");
+
+const RESTING_MESSAGE = "Limit not reached, resting for the next batch";
+
+/**
+ * Domain of the configured deployment whose hash matches, if any
+ */
+function findIntentDomain(intent: SwapIntent, intentHash: string): IntentDomain | undefined {
+  for (const network of Object.values(NETWORKS)) {
+    const domain = buildIntentDomain(network.contracts.hook, network.chainId);
+    if (computeIntentHash(intent, domain).toLowerCase() === intentHash) return domain;
+  }
+  return undefined;
+}
+
+export class MockRelayerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "MockRelayerError";
+  }
+}
+
+interface TrackedIntent {
+  signed: SignedIntent;
+  domain: IntentDomain; // deployment the intent was signed for
+  submittedAt: number;
+  batchId: string;
+  result: MatchResult;
+  proof: ExecutionProof;
+  inclusionProof: MerkleProof;
+  txHash: string;
+  resting: boolean; // floor above market, never clears at fixture prices
+  cancelledAt?: number;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+/**
+ * amountOut recovers the quote the floor was derived from; clearingPrice and
+ * mevSaved then follow run_dark_pool_matching
+ */
+export function simulateSettlement(signed: SignedIntent): MatchResult {
+  const { amountIn, minAmountOut, maxSlippage } = signed.intent;
+  const amountOut = (minAmountOut * BPS) / (BPS - maxSlippage);
+  const clearingPrice = (amountIn * PRICE_SCALE) / amountOut;
+  const mevSaved = amountIn - (amountIn * (BPS - maxSlippage)) / BPS;
+  return {
+    clearingPrice: clearingPrice.toString(),
+    amountOut: amountOut.toString(),
+    mevSaved: mevSaved.toString(),
+  };
+}
+
+/**
+ * Output at the fixture USD prices, undefined for tokens without a price
+ */
+export function fixtureMarketOut(intent: SwapIntent): bigint | undefined {
+  const decimals = (address: string) =>
+    defaultTokenList.tokens.find((token) => token.address.toLowerCase() === address.toLowerCase())?.decimals;
+  const priceIn = FIXTURE_USD_PRICES[intent.tokenIn.toLowerCase()];
+  const priceOut = FIXTURE_USD_PRICES[intent.tokenOut.toLowerCase()];
+  const decimalsIn = decimals(intent.tokenIn);
+  const decimalsOut = decimals(intent.tokenOut);
+  if (!priceIn || !priceOut || decimalsIn === undefined || decimalsOut === undefined) return undefined;
+  return (intent.amountIn * priceIn * pow10(decimalsOut)) / (priceOut * pow10(decimalsIn));
+}
+
+/**
+ * Batch leaves: the user's intentHash among opaque peer hashes, at a position
+ * derived from the batch id
+ */
+export function mockBatchLeaves(intentHash: string, batchId: string): string[] {
+  const peers = Array.from({ length: MOCK_BATCH_PEERS }, (_, i) =>
+    keccak256(solidityPacked(["bytes32", "uint256"], [batchId, i]))
+  );
+  const position = Number(BigInt(batchId) % BigInt(MOCK_BATCH_PEERS + 1));
+  peers.splice(position, 0, intentHash);
+  return peers;
+}
+
+/**
+ * The matcher's bound for a buy, _get_max_price in the iApp. Looser than the
+ * hook's floor by the slippage allowance.
+ */
+export function matcherMaxPrice(intent: SwapIntent): bigint {
+  const floor = intent.minAmountOut > BigInt(0) ? intent.minAmountOut : BigInt(1);
+  return (((intent.amountIn * PRICE_SCALE) / floor) * (BPS + intent.maxSlippage)) / BPS;
+}
+
+function listedToken(address: string): { symbol: string; decimals: number } {
+  const token = defaultTokenList.tokens.find((t) => t.address.toLowerCase() === address.toLowerCase());
+  return token ? { symbol: token.symbol, decimals: token.decimals } : { symbol: "?", decimals: 18 };
+}
+
+/**
+ * Book of the batch an intent was sealed into: a fixture book (picked by
+ * batch id) rescaled to the intent's clearing price and size, with one
+ * seller at the clearing price deep enough for every eligible buy. A resting
+ * intent's batch clears a step past its limit instead.
+ */
+export function mockBatchSummary(signed: SignedIntent, batchId: string, result: MatchResult, resting: boolean, timestamp: number): BatchSummary {
+  const { intent, intentHash } = signed;
+  const fixture = parseBatchSummary(FIXTURE_BATCH_SUMMARIES[Number(BigInt(batchId) % BigInt(FIXTURE_BATCH_SUMMARIES.length))]);
+  const userMax = matcherMaxPrice(intent);
+  const clearingPrice = resting
+    ? (userMax * (BPS + BigInt(2 * BATCH_LEVEL_BPS))) / BPS
+    : BigInt(result.clearingPrice);
+  const sizeOf = fixture.position?.amount ?? BigInt(1);
+  const peers = (side: string, levels: BatchSummary["demand"]): BatchOrder[] =>
+    levels.map((level, i) => ({
+      intentHash: keccak256(solidityPacked(["bytes32", "string", "uint256"], [batchId, side, i])),
+      limitPrice: (level.price * clearingPrice) / fixture.clearingPrice,
+      amount: (level.volume * intent.amountIn) / sizeOf,
+    }));
+
+  const buys = [{ intentHash, limitPrice: userMax, amount: intent.amountIn }, ...peers("buy", fixture.demand)];
+  const eligible = buys.filter((b) => b.limitPrice >= clearingPrice).reduce((sum, b) => sum + b.amount, BigInt(0));
+  const sells = [
+    ...peers("sell", fixture.supply).filter((s) => s.limitPrice !== clearingPrice),
+    { intentHash: keccak256(solidityPacked(["bytes32", "string"], [batchId, "depth"])), limitPrice: clearingPrice, amount: eligible },
+  ];
+  return buildBatchSummary({
+    batchId,
+    timestamp,
+    tokens: { in: listedToken(intent.tokenIn), out: listedToken(intent.tokenOut) },
+    buys,
+    sells,
+    clearingPrice,
+    intentHash,
+  });
+}
+
+/**
+ * Proof signed over the same digest the hook verifies
+ */
+export function signMockProof(
+  signed: SignedIntent,
+  batchId: string,
+  result: MatchResult,
+  merkleRoot: string,
+  timestamp: number
+): ExecutionProof {
+  const { intent, intentHash, signature } = signed;
+  const unsigned: ExecutionProof = {
+    batchId,
+    timestamp,
+    user: intent.user,
+    tokenIn: intent.tokenIn,
+    tokenOut: intent.tokenOut,
+    amountIn: intent.amountIn.toString(),
+    amountOut: result.amountOut,
+    clearingPrice: result.clearingPrice,
+    intentHash,
+    userSignature: signature,
+    teeSignature: "0x",
+    teeSigner: computeAddress(MOCK_TEE_KEY),
+    merkleRoot,
+    mevSaved: result.mevSaved,
+  };
+  return { ...unsigned, teeSignature: MOCK_TEE_KEY.sign(computeProofDigest(unsigned)).serialized };
+}
+
+/**
+ * Report for the stand-in enclave, signed like the TEE signs its proofs
+ */
+export function signMockAttestation(issuedAt: number): AttestationReport {
+  const unsigned = {
+    version: ATTESTATION_REPORT_VERSION,
+    enclaveMeasurement: STAND_IN_ENCLAVE_MEASUREMENT,
+    enclavePublicKey: STAND_IN_ENCLAVE_PUBLIC_KEY,
+    reportData: computeReportData(STAND_IN_ENCLAVE_PUBLIC_KEY),
+    teeSigner: computeAddress(MOCK_TEE_KEY),
+    issuedAt,
+  };
+  return { ...unsigned, signature: MOCK_TEE_KEY.sign(hashMessage(getBytes(attestationDigest(unsigned)))).serialized };
+}
+
+export class MockRelayer {
+  private intents = new Map<string, TrackedIntent>();
+  private batchCounter = 0;
+  private startedAt: number;
+  readonly logs: RelayerLogBuffer;
+
+  constructor(
+    private now: () => number = Date.now,
+    private marketOut: (intent: SwapIntent) => bigint | undefined = fixtureMarketOut
+  ) {
+    this.logs = new RelayerLogBuffer(500, now);
+    this.startedAt = now();
+  }
+
+  async submit(data: SealedIntentSubmission): Promise<PipelineUpdate> {
+    const signed = await this.open(data);
+    const { intent, signature, intentHash } = signed;
+    const key = intentHash.toLowerCase();
+
+    if (this.intents.has(key)) {
+      throw new MockRelayerError("Intent already submitted", 409);
+    }
+    if (intent.minAmountOut <= BigInt(0)) {
+      throw new MockRelayerError("minAmountOut must be greater than zero", 400);
+    }
+    if (intent.maxSlippage >= BPS) {
+      throw new MockRelayerError("maxSlippage out of range", 400);
+    }
+    if (intent.deadline <= BigInt(Math.floor(this.now() / 1000))) {
+      throw new MockRelayerError("Intent expired", 400);
+    }
+
+    const domain = findIntentDomain(intent, key);
+    if (!domain) {
+      throw new MockRelayerError("intentHash does not match intent", 400);
+    }
+    let signer: string;
+    try {
+      signer = recoverIntentSigner(domain, intent, signature);
+    } catch (e) {
+      throw new MockRelayerError("Invalid signature", 400);
+    }
+    if (signer.toLowerCase() !== intent.user.toLowerCase()) {
+      throw new MockRelayerError("Signature does not match intent.user", 401);
+    }
+    if (signed.permit) {
+      const problem = checkPermit(signed.permit, intent, domain.verifyingContract, domain.chainId, Math.floor(this.now() / 1000));
+      if (problem) throw new MockRelayerError(problem, 400);
+    }
+
+    const batchId = keccak256(solidityPacked(["string", "uint256"], ["mock-batch", ++this.batchCounter]));
+    const result = simulateSettlement(signed);
+    const leaves = mockBatchLeaves(intentHash, batchId);
+    const market = this.marketOut(intent);
+    const tracked: TrackedIntent = {
+      signed,
+      domain,
+      submittedAt: this.now(),
+      batchId,
+      result,
+      proof: signMockProof(signed, batchId, result, computeMerkleRoot(leaves), Math.floor(this.now() / 1000)),
+      inclusionProof: getInclusionProof(leaves, intentHash),
+      txHash: keccak256(solidityPacked(["bytes32", "bytes32"], [intentHash, batchId])),
+      resting: market !== undefined && market < intent.minAmountOut,
+      timers: [],
+    };
+    this.intents.set(key, tracked);
+    this.scheduleLogs(tracked);
+    return this.status(key)!;
+  }
+
+  /**
+   * What the enclave does on receipt; the relayer itself never sees plaintext
+   */
+  private async open(data: SealedIntentSubmission): Promise<SignedIntent> {
+    if (typeof data?.intentHash !== "string") {
+      throw new MockRelayerError("Malformed intent payload", 400);
+    }
+    let signed: SignedIntent;
+    try {
+      const enclaveKey = await importEnclavePrivateKey(STAND_IN_ENCLAVE_PRIVATE_JWK);
+      signed = await openIntentEnvelope(data.envelope, enclaveKey, STAND_IN_ENCLAVE_PUBLIC_KEY);
+    } catch (error) {
+      throw new MockRelayerError(error instanceof EnvelopeError ? error.message : "Malformed intent payload", 400);
+    }
+    if (signed.intentHash.toLowerCase() !== data.intentHash.toLowerCase()) {
+      throw new MockRelayerError("Envelope is bound to a different intentHash", 400);
+    }
+    return signed;
+  }
+
+  attestation(): AttestationReport {
+    return signMockAttestation(Math.floor(this.now() / 1000));
+  }
+
+  /**
+   * Withdraw a queued intent; only the intent's signer can, and only before
+   * execution starts. Cancelling twice is not an error.
+   */
+  cancel(intentHash: string, data: SerializedCancellation): PipelineUpdate {
+    const key = intentHash.toLowerCase();
+    const tracked = this.intents.get(key);
+    if (!tracked) {
+      throw new MockRelayerError("Unknown intent", 404);
+    }
+
+    let cancellation: SignedCancellation;
+    try {
+      cancellation = deserializeCancellation(data);
+    } catch (e) {
+      throw new MockRelayerError("Malformed cancellation payload", 400);
+    }
+    const { cancel, signature } = cancellation;
+    const { intent } = tracked.signed;
+    if (cancel.intentHash.toLowerCase() !== key) {
+      throw new MockRelayerError("Cancellation is for a different intent", 400);
+    }
+    if (cancel.user.toLowerCase() !== intent.user.toLowerCase() || cancel.nonce !== intent.nonce) {
+      throw new MockRelayerError("Cancellation does not match the intent", 400);
+    }
+    let signer: string;
+    try {
+      signer = recoverCancelSigner(tracked.domain, cancel, signature);
+    } catch (e) {
+      throw new MockRelayerError("Invalid signature", 400);
+    }
+    if (signer.toLowerCase() !== intent.user.toLowerCase()) {
+      throw new MockRelayerError("Signature does not match intent.user", 401);
+    }
+
+    const stage = this.stageOf(tracked);
+    if (stage !== "cancelled") {
+      if (!CANCELLABLE_STAGES.includes(stage)) {
+        throw new MockRelayerError(`Intent is ${stage}, too late to cancel`, 409);
+      }
+      tracked.cancelledAt = this.now();
+      tracked.timers.forEach(clearTimeout);
+      this.logs.publish("warning", "🚫 Intent cancelled by user, removed from batch", tracked.signed.intentHash);
+    }
+    return this.status(key)!;
+  }
+
+  status(intentHash: string): PipelineUpdate | undefined {
+    const tracked = this.intents.get(intentHash.toLowerCase());
+    if (!tracked) return undefined;
+
+    const stage = this.stageOf(tracked);
+    return {
+      intentHash: tracked.signed.intentHash,
+      stage,
+      message: stage === "matching" && tracked.resting ? RESTING_MESSAGE : STAGE_MESSAGES[stage] ?? "",
+      batchId: stage === "matching" || stage === "executing" || stage === "complete" ? tracked.batchId : undefined,
+      txHash: stage === "complete" ? tracked.txHash : undefined,
+      matchResult: stage === "complete" ? tracked.result : undefined,
+      proof: stage === "complete" ? tracked.proof : undefined,
+      inclusionProof: stage === "complete" ? tracked.inclusionProof : undefined,
+    };
+  }
+
+  /**
+   * Anonymized book of a sealed batch. The position is only attached for an
+   * intentHash that was in the batch; unknown batches fall back to the
+   * fixture books.
+   */
+  batch(batchId: string, intentHash?: string): BatchSummary | undefined {
+    const id = batchId.toLowerCase();
+    const tracked = Array.from(this.intents.values()).find((t) => t.batchId.toLowerCase() === id);
+    if (tracked && this.status(tracked.signed.intentHash)?.batchId) {
+      const summary = mockBatchSummary(tracked.signed, tracked.batchId, tracked.result, tracked.resting, Math.floor(tracked.submittedAt / 1000));
+      const own = intentHash?.toLowerCase() === tracked.signed.intentHash.toLowerCase();
+      return own ? summary : { ...summary, position: undefined };
+    }
+
+    const fixture = FIXTURE_BATCH_SUMMARIES.find((summary) => summary.batchId.toLowerCase() === id);
+    if (!fixture) return undefined;
+    const summary = parseBatchSummary(fixture);
+    const own = summary.position && intentHash?.toLowerCase() === summary.position.intentHash.toLowerCase();
+    return own ? summary : { ...summary, position: undefined };
+  }
+
+  /**
+   * RelayerAgent.stats as relayer.js would report it for the tracked intents.
+   * The mock has no monitor loop of its own, so it is always live.
+   */
+  stats(): RelayerStats {
+    const executeAt = STAGE_SCHEDULE.find(([s]) => s === "complete")![1];
+    let proofsProcessed = 0;
+    let queueDepth = 0;
+    const mevSeries: RelayerStats["mevSeries"] = [];
+    this.intents.forEach((tracked) => {
+      const stage = this.stageOf(tracked);
+      if (stage === "executing" || stage === "complete") proofsProcessed++;
+      if (stage === "submitted" || stage === "matching") queueDepth++;
+      if (stage === "complete") {
+        mevSeries.push({
+          timestamp: tracked.submittedAt + executeAt,
+          intentHash: tracked.signed.intentHash,
+          mevSaved: BigInt(tracked.result.mevSaved),
+        });
+      }
+    });
+    mevSeries.sort((a, b) => a.timestamp - b.timestamp);
+
+    const gasSpent = MOCK_GAS_PER_EXECUTION * BigInt(mevSeries.length);
+    const balance = MOCK_STARTING_BALANCE - gasSpent;
+    return {
+      relayer: MOCK_RELAYER_ADDRESS,
+      chainId: NETWORK.chainId,
+      running: true,
+      startedAt: this.startedAt,
+      lastLoopAt: this.now(),
+      lastExecutionAt: mevSeries.length > 0 ? mevSeries[mevSeries.length - 1].timestamp : null,
+      serverTime: this.now(),
+      pollIntervalMs: 3000,
+      proofsProcessed,
+      successfulExecutions: mevSeries.length,
+      failedExecutions: 0,
+      totalGasSpent: gasSpent,
+      totalMevSaved: mevSeries.reduce((sum, sample) => sum + sample.mevSaved, BigInt(0)),
+      queueDepth,
+      wallet: {
+        balance: balance > BigInt(0) ? balance : BigInt(0),
+        lowBalance: MOCK_LOW_BALANCE,
+        criticalBalance: MOCK_CRITICAL_BALANCE,
+      },
+      mevSeries,
+    };
+  }
+
+  private stageOf(tracked: TrackedIntent): PipelineStage {
+    if (tracked.cancelledAt !== undefined) return "cancelled";
+
+    const elapsed = this.now() - tracked.submittedAt;
+    let stage: PipelineStage = "submitted";
+    for (const [s, at] of STAGE_SCHEDULE) {
+      if (elapsed >= at && !(tracked.resting && (s === "executing" || s === "complete"))) stage = s;
+    }
+    if (stage !== "complete" && BigInt(Math.floor(this.now() / 1000)) > tracked.signed.intent.deadline) {
+      return "expired";
+    }
+    return stage;
+  }
+
+  private scheduleLogs(tracked: TrackedIntent) {
+    const { signed, batchId, txHash } = tracked;
+    const { intent, intentHash } = signed;
+    const log = (level: Parameters<RelayerLogBuffer["publish"]>[0], message: string) =>
+      this.logs.publish(level, message, intentHash);
+    const at = (stage: PipelineStage, steps: () => void) => {
+      const offset = STAGE_SCHEDULE.find(([s]) => s === stage)![1];
+      tracked.timers.push(
+        setTimeout(() => {
+          if (this.stageOf(tracked) === stage) steps();
+        }, offset)
+      );
+    };
+
+    log("system", `🔐 Validating intent for ${intent.user.slice(0, 10)}...`);
+    log("success", "✓ Signature matches intent.user");
+    log("success", "✓ intentHash verified");
+    log("success", `✓ Deadline in ${intent.deadline - BigInt(Math.floor(this.now() / 1000))}s`);
+    if (signed.permit) {
+      log("success", `✓ ${signed.permit.kind === "eip2612" ? "EIP-2612" : "Permit2"} permit verified, submitted before settlement`);
+    }
+    log("info", `📥 Queued ${intentHash.slice(0, 10)}... for the next batch`);
+
+    at("matching", () => {
+      log("system", `Batch ${batchId.slice(0, 10)}... sealed, TEE matching`);
+      if (tracked.resting) log("info", `⏸ Floor above clearing price, ${intentHash.slice(0, 10)}... rests until its deadline`);
+    });
+    at("executing", () => {
+      log("success", "✓ Execution proof received from TEE");
+      log("agent", "🤖 AI Agent: Analyzing optimal execution timing...");
+      log("agent", `MEV risk assessment: ${intent.amountIn > MEV_MEDIUM_THRESHOLD ? "MEDIUM" : "LOW"}`);
+      log("success", "✓ Optimal timing confirmed");
+      log("info", "Preparing transaction...");
+    });
+    at("complete", () => {
+      if (signed.permit) log("success", "🎫 Permit submitted, hook allowance granted");
+      log("success", `📤 TX submitted: ${txHash.slice(0, 20)}...`);
+      log("success", "✅ TX confirmed");
+    });
+
+    // First whole second past the deadline, if that comes before settlement
+    const expiresIn = (Number(intent.deadline) + 1) * 1000 - this.now();
+    if (tracked.resting || expiresIn < STAGE_SCHEDULE[STAGE_SCHEDULE.length - 1][1]) {
+      tracked.timers.push(
+        setTimeout(() => {
+          if (this.stageOf(tracked) === "expired") log("warning", "⌛ Deadline passed before settlement, intent expired");
+        }, Math.max(0, expiresIn))
+      );
+    }
+  }
+}
+
+/**
+ * One engine per server process, surviving dev-mode module reloads
+ */
+export function getMockRelayer(): MockRelayer {
+  const holder = globalThis as typeof globalThis & { __unishieldMockRelayer?: MockRelayer };
+  if (!holder.__unishieldMockRelayer) holder.__unishieldMockRelayer = new MockRelayer();
+  return holder.__unishieldMockRelayer;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { NETWORKS, usesStandInHook, validateNetwork, type NetworkCheckId, type NetworkConfig } from "./networks";
+import { STAND_IN_ENCLAVE_MEASUREMENT, STAND_IN_ENCLAVE_PUBLIC_KEY } from "./fixtures/enclaveKeys";
+
+const failing = (network: NetworkConfig): NetworkCheckId[] =>
+  validateNetwork(network)
+    .filter((check) => !check.ok)
+    .map((check) => check.id);
+
+// Base Sepolia with every deployment-specific value set explicitly
+const CONFIGURED: NetworkConfig = {
+  ...NETWORKS["base-sepolia"],
+  contracts: { ...NETWORKS["base-sepolia"].contracts, hook: "0x00000000000000000000000000000000000000C0" },
+  teeSigner: "0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF",
+  enclave: {
+    publicKey: "0x04" + "11".repeat(64),
+    measurements: ["0x" + "22".repeat(32)],
+  },
+  relayer: {
+    url: "https://relayer.example",
+    logsUrl: "https://relayer.example/logs",
+    statsUrl: "https://relayer.example/stats",
+    attestationUrl: "https://relayer.example/attestation",
+  },
+};
+
+describe("validateNetwork", () => {
+  it("accepts the anvil stand-in defaults", () => {
+    expect(failing(NETWORKS.anvil)).toEqual([]);
+    expect(usesStandInHook(NETWORKS.anvil)).toBe(true);
+  });
+
+  it("fails an unconfigured Base Sepolia instead of falling back to stand-ins", () => {
+    expect(failing(NETWORKS["base-sepolia"])).toEqual(["hook", "teeSigner", "enclaveKey", "measurements", "relayer"]);
+    expect(usesStandInHook(NETWORKS["base-sepolia"])).toBe(false);
+  });
+
+  it("accepts a fully configured public chain", () => {
+    expect(failing(CONFIGURED)).toEqual([]);
+  });
+
+  it.each<[string, Partial<NetworkConfig>, NetworkCheckId]>([
+    ["stand-in TEE signer", { teeSigner: NETWORKS.anvil.teeSigner }, "teeSigner"],
+    ["stand-in enclave key", { enclave: { ...CONFIGURED.enclave, publicKey: STAND_IN_ENCLAVE_PUBLIC_KEY } }, "enclaveKey"],
+    ["stand-in measurement", { enclave: { ...CONFIGURED.enclave, measurements: [STAND_IN_ENCLAVE_MEASUREMENT] } }, "measurements"],
+    ["mock relayer", { relayer: NETWORKS.anvil.relayer }, "relayer"],
+    ["compressed enclave key", { enclave: { ...CONFIGURED.enclave, publicKey: "0x02" + "11".repeat(32) } }, "enclaveKey"],
+    ["malformed measurement", { enclave: { ...CONFIGURED.enclave, measurements: ["0x1234"] } }, "measurements"],
+  ])("rejects a %s on a public chain", (_, override, id) => {
+    expect(failing({ ...CONFIGURED, ...override })).toEqual([id]);
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Networks                                                                     ║
+ * ║  Per-chain deployments: RPC, hook, pool manager, TEE signer, relayer, tokens  ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Everything that changes between deployments lives here; CONFIG only keeps
+ * what is the same on every chain. The active network is picked once at load:
+ * a ?network= query parameter (remembered in localStorage), then the stored
+ * choice, then NEXT_PUBLIC_NETWORK, then Base Sepolia. Switching networks
+ * reloads the page so every client is rebuilt against the new deployment.
+ *
+ * "anvil" expects a local fork of Base Sepolia
+ * (`anvil --fork-url https://sepolia.base.org`), so the pool manager and
+ * token addresses match; only the chain id differs.
+ *
+ * Stand-ins are for local development only: on anvil the enclave key,
+ * attested measurement, TEE signer and relayer default to the bundled
+ * stand-ins, and a zero hook address runs against the in-memory hook in
+ * standInRpc.ts. Public chains (Base Sepolia, Base) have no such defaults:
+ * every one of those has to be configured explicitly, and validateNetwork
+ * fails while one is missing or still points at a stand-in.
+ */
+
+import { isAddress, isHexString, ZeroAddress } from "ethers";
+import { STAND_IN_ENCLAVE_MEASUREMENT, STAND_IN_ENCLAVE_PUBLIC_KEY, STAND_IN_TEE_SIGNER } from "./fixtures/enclaveKeys";
+import type { HookReader } from "./hook";
+import type { JsonRpcClient } from "./rpc";
+import type { TokenList } from "./tokens";
+import defaultTokenList from "./tokenlist.json";
+
+export type NetworkId = "base-sepolia" | "anvil" | "base";
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chainId: number;
+  testnet: boolean;
+  // Local dev chain: stand-in hook, enclave, TEE signer and relayer are allowed
+  standIn: boolean;
+  rpcUrls: string[]; // first one is used, the rest are handed to the wallet
+  explorerUrl: string; // "" when the chain has no explorer
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  contracts: {
+    hook: string; // ZeroAddress: not deployed
+    poolManager: string;
+    v4Quoter: string;
+  };
+  // PoolKey of the hooked pool (must match the initialized pool)
+  pool: { fee: number; tickSpacing: number };
+  teeSigner: string; // must match DarkPoolHookAgentic.teeSigner()
+  // Intents are only sealed to this key, attested by an enclave with a listed MRENCLAVE
+  enclave: {
+    publicKey: string; // uncompressed P-256, 0x04...
+    measurements: string[];
+  };
+  relayer: {
+    url: string;
+    logsUrl: string;
+    statsUrl: string;
+    attestationUrl: string;
+  };
+  // Optional remote token list (tokenlists.org format), merged over the bundled one
+  tokenListUrl: string;
+}
+
+const ETHER = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+// Comma-separated env list
+const listOf = (value: string | undefined): string[] =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Base Sepolia deployment, shared with the anvil fork
+const BASE_SEPOLIA_POOL_MANAGER = "0x7Da1D65F8B249183667cdE74C5CBD46dD38AA829";
+const BASE_SEPOLIA_V4_QUOTER = "0x4a6513c898fe1b2d0e78d3b0e0a4a151589b1cba";
+
+// Bundled mock relayer API routes, the anvil default
+const MOCK_RELAYER = {
+  url: "/api/mock-relayer",
+  logsUrl: "/api/mock-relayer/logs",
+  statsUrl: "/api/mock-relayer/stats",
+  attestationUrl: "/api/mock-relayer/attestation",
+};
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  "base-sepolia": {
+    id: "base-sepolia",
+    name: "Base Sepolia",
+    chainId: 84532,
+    testnet: true,
+    standIn: false,
+    rpcUrls: [process.env.NEXT_PUBLIC_RPC_URL || "https://sepolia.base.org"],
+    explorerUrl: "https://sepolia.basescan.org",
+    nativeCurrency: ETHER,
+    contracts: {
+      hook: process.env.NEXT_PUBLIC_HOOK_ADDRESS || ZeroAddress,
+      poolManager: BASE_SEPOLIA_POOL_MANAGER,
+      v4Quoter: process.env.NEXT_PUBLIC_V4_QUOTER || BASE_SEPOLIA_V4_QUOTER,
+    },
+    pool: { fee: 3000, tickSpacing: 60 },
+    teeSigner: process.env.NEXT_PUBLIC_TEE_SIGNER || ZeroAddress,
+    enclave: {
+      publicKey: process.env.NEXT_PUBLIC_ENCLAVE_PUBLIC_KEY || "",
+      measurements: listOf(process.env.NEXT_PUBLIC_ATTESTATION_MEASUREMENTS),
+    },
+    relayer: {
+      url: process.env.NEXT_PUBLIC_RELAYER_URL || "",
+      logsUrl: process.env.NEXT_PUBLIC_RELAYER_LOGS_URL || "",
+      statsUrl: process.env.NEXT_PUBLIC_RELAYER_STATS_URL || "",
+      attestationUrl: process.env.NEXT_PUBLIC_ATTESTATION_URL || "",
+    },
+    tokenListUrl: process.env.NEXT_PUBLIC_TOKEN_LIST_URL || "",
+  },
+  anvil: {
+    id: "anvil",
+    name: "Anvil (local)",
+    chainId: 31337,
+    testnet: true,
+    standIn: true,
+    rpcUrls: [process.env.NEXT_PUBLIC_ANVIL_RPC_URL || "http://127.0.0.1:8545"],
+    explorerUrl: "",
+    nativeCurrency: ETHER,
+    contracts: {
+      hook: process.env.NEXT_PUBLIC_ANVIL_HOOK_ADDRESS || ZeroAddress,
+      poolManager: BASE_SEPOLIA_POOL_MANAGER,
+      v4Quoter: BASE_SEPOLIA_V4_QUOTER,
+    },
+    pool: { fee: 3000, tickSpacing: 60 },
+    teeSigner: process.env.NEXT_PUBLIC_ANVIL_TEE_SIGNER || STAND_IN_TEE_SIGNER,
+    enclave: { publicKey: STAND_IN_ENCLAVE_PUBLIC_KEY, measurements: [STAND_IN_ENCLAVE_MEASUREMENT] },
+    relayer: MOCK_RELAYER,
+    tokenListUrl: "",
+  },
+  base: {
+    id: "base",
+    name: "Base",
+    chainId: 8453,
+    testnet: false,
+    standIn: false,
+    rpcUrls: [process.env.NEXT_PUBLIC_BASE_RPC_URL || "https://mainnet.base.org"],
+    explorerUrl: "https://basescan.org",
+    nativeCurrency: ETHER,
+    contracts: {
+      // Not deployed yet: validateNetwork fails until these are set
+      hook: process.env.NEXT_PUBLIC_BASE_HOOK_ADDRESS || ZeroAddress,
+      poolManager: "0x498581fF718922c3f8e6A244956aF099B2652b2b",
+      v4Quoter: "0x0d5e0f971ed27fbff6c2837bf31316121532048d",
+    },
+    pool: { fee: 3000, tickSpacing: 60 },
+    teeSigner: process.env.NEXT_PUBLIC_BASE_TEE_SIGNER || ZeroAddress,
+    enclave: {
+      publicKey: process.env.NEXT_PUBLIC_BASE_ENCLAVE_PUBLIC_KEY || "",
+      measurements: listOf(process.env.NEXT_PUBLIC_BASE_ATTESTATION_MEASUREMENTS),
+    },
+    relayer: {
+      url: process.env.NEXT_PUBLIC_BASE_RELAYER_URL || "",
+      logsUrl: process.env.NEXT_PUBLIC_BASE_RELAYER_LOGS_URL || "",
+      statsUrl: process.env.NEXT_PUBLIC_BASE_RELAYER_STATS_URL || "",
+      attestationUrl: process.env.NEXT_PUBLIC_BASE_ATTESTATION_URL || "",
+    },
+    tokenListUrl: process.env.NEXT_PUBLIC_BASE_TOKEN_LIST_URL || "",
+  },
+};
+
+export const NETWORK_IDS = Object.keys(NETWORKS) as NetworkId[];
+
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === "string" && (NETWORK_IDS as string[]).includes(value);
+}
+
+/**
+ * Configured network for a chain id, e.g. to link a stored record's tx
+ */
+export function networkForChain(chainId: number): NetworkConfig | undefined {
+  return Object.values(NETWORKS).find((network) => network.chainId === chainId);
+}
+
+/**
+ * The hook reads come from the in-memory stand-in
+ */
+export function usesStandInHook(network: NetworkConfig): boolean {
+  return network.standIn && network.contracts.hook === ZeroAddress;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SELECTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const NETWORK_STORAGE_KEY = "unishield:network";
+
+const DEFAULT_NETWORK_ID: NetworkId = isNetworkId(process.env.NEXT_PUBLIC_NETWORK)
+  ? process.env.NEXT_PUBLIC_NETWORK
+  : "base-sepolia";
+
+/**
+ * Query parameter, then stored choice, then the build default. The server
+ * always gets the build default, so pages render under NetworkGate.
+ */
+export function selectedNetworkId(): NetworkId {
+  if (typeof window === "undefined") return DEFAULT_NETWORK_ID;
+  try {
+    const requested = new URLSearchParams(window.location.search).get("network");
+    if (isNetworkId(requested)) {
+      window.localStorage.setItem(NETWORK_STORAGE_KEY, requested);
+      return requested;
+    }
+    const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (isNetworkId(stored)) return stored;
+  } catch (e) {
+    // Storage blocked: fall through to the default
+  }
+  return DEFAULT_NETWORK_ID;
+}
+
+/**
+ * Remember the choice and reload; clients are built once per page load
+ */
+export function switchNetwork(id: NetworkId): void {
+  try {
+    window.localStorage.setItem(NETWORK_STORAGE_KEY, id);
+  } catch (e) {
+    // Storage blocked: the query parameter still carries the choice
+  }
+  const url = new URL(window.location.href);
+  url.searchParams.set("network", id);
+  window.location.assign(url.toString());
+}
+
+export const NETWORK: NetworkConfig = NETWORKS[selectedNetworkId()];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type NetworkCheckId =
+  | "chainId"
+  | "rpc"
+  | "hook"
+  | "poolManager"
+  | "quoter"
+  | "teeSigner"
+  | "enclaveKey"
+  | "measurements"
+  | "relayer"
+  | "tokens"
+  | "rpcChain"
+  | "hookSigner";
+
+export interface NetworkCheck {
+  id: NetworkCheckId;
+  ok: boolean;
+  detail: string;
+}
+
+const isHttpUrl = (url: string) => /^https?:\/\/\S+$/.test(url);
+// Same-origin API routes are fine for relayer endpoints
+const isEndpoint = (url: string) => isHttpUrl(url) || /^\/\S*$/.test(url);
+const isDeployed = (address: string) => isAddress(address) && address.toLowerCase() !== ZeroAddress;
+const isEnclaveKey = (key: string) => isHexString(key, 65) && key.toLowerCase().startsWith("0x04");
+const sameHex = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function addressCheck(id: NetworkCheckId, label: string, address: string): NetworkCheck {
+  if (!isAddress(address)) return { id, ok: false, detail: `${label} is not an address: ${address || "(empty)"}` };
+  if (!isDeployed(address)) return { id, ok: false, detail: `${label} is not configured` };
+  return { id, ok: true, detail: `${label} ${address}` };
+}
+
+/**
+ * Static checks on the configuration itself. Never throws.
+ */
+export function validateNetwork(network: NetworkConfig, tokenList: TokenList = defaultTokenList as TokenList): NetworkCheck[] {
+  const checks: NetworkCheck[] = [];
+
+  checks.push(
+    Number.isSafeInteger(network.chainId) && network.chainId > 0
+      ? { id: "chainId", ok: true, detail: `Chain ${network.chainId}` }
+      : { id: "chainId", ok: false, detail: `Invalid chain id ${network.chainId}` }
+  );
+
+  const badRpc = network.rpcUrls.filter((url) => !isHttpUrl(url));
+  checks.push(
+    network.rpcUrls.length > 0 && badRpc.length === 0
+      ? { id: "rpc", ok: true, detail: network.rpcUrls[0] }
+      : { id: "rpc", ok: false, detail: network.rpcUrls.length === 0 ? "No RPC URL" : `Invalid RPC URL: ${badRpc[0]}` }
+  );
+
+  if (usesStandInHook(network)) {
+    checks.push({ id: "hook", ok: true, detail: "No hook deployed, using the in-memory stand-in" });
+  } else {
+    checks.push(addressCheck("hook", "Hook", network.contracts.hook));
+  }
+  checks.push(addressCheck("poolManager", "Pool manager", network.contracts.poolManager));
+  checks.push(addressCheck("quoter", "V4 quoter", network.contracts.v4Quoter));
+
+  const teeSigner = addressCheck("teeSigner", "TEE signer", network.teeSigner);
+  checks.push(
+    teeSigner.ok && !network.standIn && sameHex(network.teeSigner, STAND_IN_TEE_SIGNER)
+      ? { id: "teeSigner", ok: false, detail: "TEE signer is the local stand-in key" }
+      : teeSigner
+  );
+
+  const { publicKey, measurements } = network.enclave;
+  checks.push(
+    !publicKey
+      ? { id: "enclaveKey", ok: false, detail: "Enclave public key is not configured" }
+      : !isEnclaveKey(publicKey)
+      ? { id: "enclaveKey", ok: false, detail: "Enclave public key is not an uncompressed P-256 point (0x04...)" }
+      : !network.standIn && sameHex(publicKey, STAND_IN_ENCLAVE_PUBLIC_KEY)
+      ? { id: "enclaveKey", ok: false, detail: "Enclave public key is the local stand-in key" }
+      : { id: "enclaveKey", ok: true, detail: `Enclave key ${publicKey.slice(0, 18)}…` }
+  );
+  const badMeasurement = measurements.find((m) => !isHexString(m, 32));
+  checks.push(
+    measurements.length === 0
+      ? { id: "measurements", ok: false, detail: "No enclave measurements allowed" }
+      : badMeasurement
+      ? { id: "measurements", ok: false, detail: `Invalid enclave measurement: ${badMeasurement}` }
+      : !network.standIn && measurements.some((m) => sameHex(m, STAND_IN_ENCLAVE_MEASUREMENT))
+      ? { id: "measurements", ok: false, detail: "Allowed measurements include the stand-in enclave" }
+      : { id: "measurements", ok: true, detail: `${measurements.length} allowed measurement${measurements.length === 1 ? "" : "s"}` }
+  );
+
+  const endpoints = Object.entries(network.relayer);
+  const badEndpoint = endpoints.find(([, url]) => !isEndpoint(url));
+  const mockEndpoint = endpoints.find(([, url]) => url.startsWith(MOCK_RELAYER.url));
+  checks.push(
+    badEndpoint
+      ? { id: "relayer", ok: false, detail: `Relayer ${badEndpoint[0]} is not configured` }
+      : mockEndpoint && !network.standIn
+      ? { id: "relayer", ok: false, detail: `Relayer ${mockEndpoint[0]} points at the mock relayer` }
+      : { id: "relayer", ok: true, detail: network.relayer.url }
+  );
+
+  const tokens = tokenList.tokens.filter((token) => token.chainId === network.chainId);
+  checks.push(
+    tokens.length > 0 || network.tokenListUrl
+      ? { id: "tokens", ok: true, detail: `${tokens.length} bundled tokens${network.tokenListUrl ? " + remote list" : ""}` }
+      : { id: "tokens", ok: false, detail: `No tokens listed for chain ${network.chainId}` }
+  );
+
+  return checks;
+}
+
+/**
+ * Startup checks against the chain: the RPC serves the configured chain and
+ * the hook trusts the configured TEE signer. The RPC check is skipped when
+ * the hook is the stand-in, since nothing then depends on the node. Never
+ * throws.
+ */
+export async function checkNetworkLive(network: NetworkConfig, rpc: JsonRpcClient, hook: HookReader): Promise<NetworkCheck[]> {
+  const checks: NetworkCheck[] = [];
+
+  if (usesStandInHook(network)) {
+    checks.push({ id: "rpcChain", ok: true, detail: "Stand-in hook, RPC not checked" });
+  } else {
+    try {
+      const chainId = await rpc.getChainId();
+      checks.push(
+        chainId === network.chainId
+          ? { id: "rpcChain", ok: true, detail: `RPC serves chain ${chainId}` }
+          : { id: "rpcChain", ok: false, detail: `RPC serves chain ${chainId}, expected ${network.chainId}` }
+      );
+    } catch (error) {
+      checks.push({ id: "rpcChain", ok: false, detail: `RPC unreachable: ${error instanceof Error ? error.message : "Unknown"}` });
+    }
+  }
+
+  try {
+    const signer = await hook.teeSigner();
+    checks.push(
+      signer.toLowerCase() === network.teeSigner.toLowerCase()
+        ? { id: "hookSigner", ok: true, detail: `Hook trusts ${signer}` }
+        : { id: "hookSigner", ok: false, detail: `Hook trusts ${signer}, configured ${network.teeSigner}` }
+    );
+  } catch (error) {
+    checks.push({ id: "hookSigner", ok: false, detail: `Could not read teeSigner from hook: ${error instanceof Error ? error.message : "Unknown"}` });
+  }
+
+  return checks;
+}
+
+/**
+ * Static checks, then live ones if the configuration is usable at all
+ */
+export async function checkNetwork(network: NetworkConfig, rpc: JsonRpcClient, hook: HookReader): Promise<NetworkCheck[]> {
+  const checks = validateNetwork(network);
+  if (checks.some((check) => !check.ok)) return checks;
+  return [...checks, ...(await checkNetworkLive(network, rpc, hook))];
+}
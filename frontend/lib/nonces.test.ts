@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { HookReader } from "./hook";
+import { NonceManager } from "./nonces";
+import { JsonRpcClient } from "./rpc";
+import { StandInHookRpc } from "./standInRpc";
+import { INTENT_HASH_VECTORS } from "./fixtures/intentHashVectors";
+
+const [vector] = INTENT_HASH_VECTORS;
+const SIGNED = { intent: vector.intent, signature: vector.devKeySignature!, intentHash: vector.intentHash };
+const USER = vector.intent.user;
+const OTHER_USER = "0x742d35cc6634c0532925a3b844bc9e7595f8fe21";
+const HOOK = "0x00000000000000000000000000000000000000C0";
+
+function setup() {
+  const rpc = new StandInHookRpc(vector.domain.chainId);
+  const nonces = new NonceManager(new HookReader(new JsonRpcClient(rpc), HOOK));
+  return { rpc, nonces };
+}
+
+describe("NonceManager.reserve", () => {
+  it("starts from the on-chain nonce", async () => {
+    const { rpc, nonces } = setup();
+    rpc.setNonce(USER, BigInt(7));
+    expect(await nonces.reserve(USER)).toBe(BigInt(7));
+  });
+
+  it("hands parallel reservations distinct nonces", async () => {
+    const { nonces } = setup();
+    const reserved = await Promise.all([nonces.reserve(USER), nonces.reserve(USER), nonces.reserve(USER)]);
+    expect([...reserved].sort((a, b) => Number(a - b))).toEqual([BigInt(0), BigInt(1), BigInt(2)]);
+  });
+
+  it("keeps users apart, whatever the address case", async () => {
+    const { nonces } = setup();
+    expect(await nonces.reserve(USER)).toBe(BigInt(0));
+    expect(await nonces.reserve(OTHER_USER)).toBe(BigInt(0));
+    expect(await nonces.reserve(USER.toLowerCase())).toBe(BigInt(1));
+  });
+});
+
+describe("NonceManager.release", () => {
+  it("frees a nonce for the next reservation", async () => {
+    const { nonces } = setup();
+    await nonces.reserve(USER);
+    const abandoned = await nonces.reserve(USER);
+    await nonces.reserve(USER);
+    nonces.release(USER, abandoned);
+    expect(await nonces.reserve(USER)).toBe(abandoned);
+    expect(await nonces.reserve(USER)).toBe(BigInt(3));
+  });
+
+  it("ignores a nonce that was never reserved", async () => {
+    const { nonces } = setup();
+    nonces.release(USER, BigInt(5));
+    expect(await nonces.reserve(USER)).toBe(BigInt(0));
+  });
+});
+
+describe("NonceManager.sync", () => {
+  it("drops reservations the on-chain nonce has overtaken", async () => {
+    const { rpc, nonces } = setup();
+    await Promise.all([nonces.reserve(USER), nonces.reserve(USER), nonces.reserve(USER)]);
+    rpc.setNonce(USER, BigInt(2));
+    expect(await nonces.sync(USER)).toBe(BigInt(2));
+    // 0 and 1 are gone, 2 is still held
+    expect(await nonces.reserve(USER)).toBe(BigInt(3));
+  });
+
+  it("follows executions on the hook", async () => {
+    const { rpc, nonces } = setup();
+    await nonces.reserve(USER);
+    rpc.markExecuted(SIGNED.intentHash, USER);
+    rpc.markExecuted("0x" + "ab".repeat(32), USER);
+    expect(await nonces.reserve(USER)).toBe(BigInt(2));
+  });
+});
+
+describe("NonceManager.checkIntent", () => {
+  it("reports an intent pending until the hook records its hash", async () => {
+    const { rpc, nonces } = setup();
+    expect(await nonces.checkIntent(SIGNED)).toBe("pending");
+    rpc.markExecuted(SIGNED.intentHash.toUpperCase().replace("0X", "0x"), USER);
+    expect(await nonces.checkIntent(SIGNED)).toBe("executed");
+  });
+
+  it("does not infer execution from the counter moving past the intent's nonce", async () => {
+    const { rpc, nonces } = setup();
+    rpc.setNonce(USER, SIGNED.intent.nonce + BigInt(5));
+    expect(await nonces.checkIntent(SIGNED)).toBe("pending");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Intent Nonce Manager                                                         ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * The hook's userNonces[user] counts executed intents, so the next intent
+ * should carry that value. Intents signed but not yet executed don't move the
+ * on-chain counter, so they are reserved here to keep parallel intents from
+ * reusing the same nonce.
+ *
+ * The nonce only keeps intent hashes apart: DarkPoolHookAgentic never compares
+ * intent.nonce with userNonces, so a counter that moved past an intent's
+ * nonce says nothing about whether that intent can still execute. Only
+ * executedIntents(intentHash) does.
+ */
+
+import type { HookReader } from "./hook";
+import type { SignedIntent } from "./types";
+
+export type IntentNonceStatus = "pending" | "executed";
+
+export class NonceManager {
+  private reserved = new Map<string, Set<bigint>>();
+
+  constructor(private hook: HookReader) {}
+
+  /**
+   * Reserve the next free nonce for a user, starting from the on-chain value
+   */
+  async reserve(user: string): Promise<bigint> {
+    const onChain = await this.sync(user);
+    const pending = this.pendingFor(user);
+
+    let nonce = onChain;
+    while (pending.has(nonce)) {
+      nonce += BigInt(1);
+    }
+    pending.add(nonce);
+    return nonce;
+  }
+
+  /**
+   * Give a reservation back (signature rejected, intent abandoned)
+   */
+  release(user: string, nonce: bigint) {
+    this.pendingFor(user).delete(nonce);
+  }
+
+  /**
+   * Read the on-chain nonce and drop reservations it has overtaken
+   */
+  async sync(user: string): Promise<bigint> {
+    const onChain = await this.hook.getUserNonce(user);
+    const pending = this.pendingFor(user);
+    pending.forEach((nonce) => {
+      if (nonce < onChain) pending.delete(nonce);
+    });
+    return onChain;
+  }
+
+  /**
+   * Where a previously signed intent stands on-chain:
+   * - executed: the hook recorded this exact intentHash
+   * - pending:  not executed yet (the deadline still applies)
+   */
+  async checkIntent(signed: SignedIntent): Promise<IntentNonceStatus> {
+    return (await this.hook.isIntentExecuted(signed.intentHash)) ? "executed" : "pending";
+  }
+
+  private pendingFor(user: string): Set<bigint> {
+    const key = user.toLowerCase();
+    let pending = this.reserved.get(key);
+    if (!pending) {
+      pending = new Set();
+      this.reserved.set(key, pending);
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildOrderPlan,
+  DEFAULT_ORDER_TERMS,
+  limitMinAmountOut,
+  MAX_INTERVAL_MINUTES,
+  MAX_SLICES,
+  MEV_MEDIUM_THRESHOLD_USD,
+  MIN_SLICES,
+  orderRef,
+  splitAmounts,
+  suggestedSlices,
+  validateOrderTerms,
+  type OrderTerms,
+} from "./orderPlans";
+
+const NOW = 1767225000;
+const USD = (dollars: number) => BigInt(dollars) * BigInt(1_000_000);
+const split = (slices: number, intervalMinutes = 5): OrderTerms => ({ kind: "split", slices, intervalMinutes });
+
+describe("splitAmounts", () => {
+  it("puts the rounding remainder on the last part", () => {
+    expect(splitAmounts(BigInt(10), 3)).toEqual([BigInt(3), BigInt(3), BigInt(4)]);
+    expect(splitAmounts(BigInt(11), 4)).toEqual([BigInt(2), BigInt(2), BigInt(2), BigInt(5)]);
+  });
+
+  it("always sums to the total", () => {
+    const total = BigInt("1000000000000000001");
+    expect(splitAmounts(total, 7).reduce((sum, part) => sum + part, BigInt(0))).toBe(total);
+  });
+
+  it("leaves a single part whole", () => {
+    expect(splitAmounts(BigInt(99), 1)).toEqual([BigInt(99)]);
+  });
+});
+
+describe("suggestedSlices", () => {
+  it("uses the fewest slices that keep each at or under the MEV bar", () => {
+    expect(suggestedSlices(USD(25_000))).toBe(3);
+    expect(suggestedSlices(USD(30_000))).toBe(3);
+    expect(suggestedSlices(USD(30_001))).toBe(4);
+  });
+
+  it("clamps to the slice bounds", () => {
+    expect(suggestedSlices(USD(1))).toBe(MIN_SLICES);
+    expect(suggestedSlices(MEV_MEDIUM_THRESHOLD_USD * BigInt(100))).toBe(MAX_SLICES);
+  });
+
+  it("takes another threshold", () => {
+    expect(suggestedSlices(USD(5_000), USD(1_000))).toBe(5);
+  });
+});
+
+describe("validateOrderTerms", () => {
+  const amountIn = BigInt(1_000_000);
+
+  it("accepts market orders and sound limit and split terms", () => {
+    expect(validateOrderTerms(DEFAULT_ORDER_TERMS, amountIn, BigInt(1))).toBeNull();
+    expect(validateOrderTerms({ ...DEFAULT_ORDER_TERMS, kind: "limit", limitPrice: BigInt(1) }, amountIn, undefined)).toBeNull();
+    expect(validateOrderTerms(split(MAX_SLICES, MAX_INTERVAL_MINUTES), amountIn, BigInt(MAX_SLICES))).toBeNull();
+  });
+
+  it.each<[string, OrderTerms, bigint, bigint | undefined, string]>([
+    ["a limit order without a price", { ...DEFAULT_ORDER_TERMS, kind: "limit" }, amountIn, undefined, "Set a limit price"],
+    ["a zero limit price", { ...DEFAULT_ORDER_TERMS, kind: "limit", limitPrice: BigInt(0) }, amountIn, undefined, "Set a limit price"],
+    ["too few slices", split(MIN_SLICES - 1), amountIn, undefined, `Slices must be between ${MIN_SLICES} and ${MAX_SLICES}`],
+    ["too many slices", split(MAX_SLICES + 1), amountIn, undefined, `Slices must be between ${MIN_SLICES} and ${MAX_SLICES}`],
+    ["a fractional slice count", split(2.5), amountIn, undefined, `Slices must be between ${MIN_SLICES} and ${MAX_SLICES}`],
+    ["a zero interval", split(4, 0), amountIn, undefined, `Interval must be between 1 and ${MAX_INTERVAL_MINUTES} minutes`],
+    ["too long an interval", split(4, MAX_INTERVAL_MINUTES + 1), amountIn, undefined, `Interval must be between 1 and ${MAX_INTERVAL_MINUTES} minutes`],
+    ["an amount smaller than the slice count", split(4), BigInt(3), undefined, "Amount too small to split"],
+    ["a floor smaller than the slice count", split(4), amountIn, BigInt(3), "Minimum output too small to split"],
+  ])("rejects %s", (_, terms, amount, minAmountOut, reason) => {
+    expect(validateOrderTerms(terms, amount, minAmountOut)).toBe(reason);
+  });
+});
+
+describe("buildOrderPlan", () => {
+  it("releases split children one interval apart, each with its own deadline", () => {
+    const plan = buildOrderPlan(split(3, 10), BigInt(1000), BigInt(301), 30, NOW, "0x01");
+    expect(plan).toEqual({
+      id: "0x01",
+      kind: "split",
+      children: [
+        { index: 0, amountIn: BigInt(333), minAmountOut: BigInt(100), releaseAt: NOW, deadline: BigInt(NOW + 1800) },
+        { index: 1, amountIn: BigInt(333), minAmountOut: BigInt(100), releaseAt: NOW + 600, deadline: BigInt(NOW + 600 + 1800) },
+        { index: 2, amountIn: BigInt(334), minAmountOut: BigInt(101), releaseAt: NOW + 1200, deadline: BigInt(NOW + 1200 + 1800) },
+      ],
+    });
+  });
+
+  it("plans market and limit orders as one child released now", () => {
+    const terms: OrderTerms = { ...split(4, 10), kind: "limit", limitPrice: BigInt(2) };
+    const plan = buildOrderPlan(terms, BigInt(1000), BigInt(2000), 30, NOW);
+    expect(plan.children).toEqual([{ index: 0, amountIn: BigInt(1000), minAmountOut: BigInt(2000), releaseAt: NOW, deadline: BigInt(NOW + 1800) }]);
+    expect(plan.id).toMatch(/^0x[0-9a-f]{16}$/);
+  });
+
+  it("gives children a parent reference except on market orders", () => {
+    const plan = buildOrderPlan(split(2), BigInt(10), BigInt(10), 30, NOW, "0x02");
+    expect(orderRef(plan, plan.children[1])).toEqual({ planId: "0x02", kind: "split", index: 1, count: 2 });
+    const market = buildOrderPlan(DEFAULT_ORDER_TERMS, BigInt(10), BigInt(10), 30, NOW);
+    expect(orderRef(market, market.children[0])).toBeUndefined();
+  });
+});
+
+describe("limitMinAmountOut", () => {
+  it("prices whole tokenIn at the limit", () => {
+    // 1.5 of an 18-decimal token at 2000 USDC (6 decimals) each
+    expect(limitMinAmountOut(BigInt("1500000000000000000"), USD(2000), 18)).toBe(USD(3000));
+  });
+});
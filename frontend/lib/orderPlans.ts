@@ -0,0 +1,221 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Order Plans                                                                  ║
+ * ║  Limit and split orders expressed as plain SwapIntents                        ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * The hook only knows one intent shape, so every order kind is planned as a
+ * set of child intents before anything is signed:
+ *   - market: one child, floor from the quote and slippage
+ *   - limit:  one child, floor = amountIn x target price; the TEE leaves it in
+ *             the book until a batch clears at or above that price, or the
+ *             deadline passes
+ *   - split:  N children of amountIn / N (remainder on the last), released
+ *             one interval apart, each with its share of the floor and its own
+ *             deadline. Keeps each slice under the relayer's MEDIUM MEV-risk
+ *             size.
+ *
+ * Every child is signed up front; the page releases them on schedule while it
+ * stays open. Children still unreleased when it closes are cancelled on the
+ * next load (IntentHistory.abandonUnreleased), since nothing else would ever
+ * submit them.
+ */
+
+import { hexlify, randomBytes } from "ethers";
+import { pow10 } from "./amount";
+import { intentStatus, type IntentRecord } from "./intentHistory";
+import type { OrderKind, OrderRef } from "./types";
+
+export const ORDER_KINDS: OrderKind[] = ["market", "limit", "split"];
+
+export const MIN_SLICES = 2;
+export const MAX_SLICES = 12;
+export const MIN_INTERVAL_MINUTES = 1;
+export const MAX_INTERVAL_MINUTES = 120;
+
+// relayer.js assessMEVRisk: trades above 10k USDC are MEDIUM risk
+export const MEV_MEDIUM_THRESHOLD_USD = BigInt(10000) * BigInt(1000000);
+
+/**
+ * A failure tied to one child intent of an order
+ */
+export class OrderError extends Error {
+  constructor(message: string, public intentHash: string) {
+    super(message);
+    this.name = "OrderError";
+  }
+}
+
+/**
+ * Per-order form state. limitPrice is tokenOut base units per whole tokenIn,
+ * the same unit as quotes.unitPrice.
+ */
+export interface OrderTerms {
+  kind: OrderKind;
+  limitPrice?: bigint;
+  slices: number;
+  intervalMinutes: number;
+}
+
+export const DEFAULT_ORDER_TERMS: OrderTerms = {
+  kind: "market",
+  slices: 4,
+  intervalMinutes: 5,
+};
+
+export interface ChildIntentPlan {
+  index: number;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  releaseAt: number; // unix seconds
+  deadline: bigint;
+}
+
+export interface OrderPlan {
+  id: string;
+  kind: OrderKind;
+  children: ChildIntentPlan[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PLANNING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function limitMinAmountOut(amountIn: bigint, limitPrice: bigint, tokenInDecimals: number): bigint {
+  return (amountIn * limitPrice) / pow10(tokenInDecimals);
+}
+
+/**
+ * Equal parts, rounding remainder on the last part
+ */
+export function splitAmounts(total: bigint, parts: number): bigint[] {
+  const share = total / BigInt(parts);
+  return Array.from({ length: parts }, (_, i) => (i === parts - 1 ? total - share * BigInt(parts - 1) : share));
+}
+
+/**
+ * Fewest slices that keep every slice at or under the MEV threshold
+ */
+export function suggestedSlices(amountInUsd: bigint, threshold: bigint = MEV_MEDIUM_THRESHOLD_USD): number {
+  const slices = Number((amountInUsd + threshold - BigInt(1)) / threshold);
+  return Math.min(Math.max(slices, MIN_SLICES), MAX_SLICES);
+}
+
+/**
+ * Returns a human-readable reason the order can't be planned, or null.
+ * minAmountOut is the floor for the whole order.
+ */
+export function validateOrderTerms(terms: OrderTerms, amountIn: bigint, minAmountOut: bigint | undefined): string | null {
+  if (terms.kind === "limit" && (terms.limitPrice === undefined || terms.limitPrice <= BigInt(0))) {
+    return "Set a limit price";
+  }
+  if (terms.kind === "split") {
+    if (!Number.isInteger(terms.slices) || terms.slices < MIN_SLICES || terms.slices > MAX_SLICES) {
+      return `Slices must be between ${MIN_SLICES} and ${MAX_SLICES}`;
+    }
+    if (
+      !Number.isInteger(terms.intervalMinutes) ||
+      terms.intervalMinutes < MIN_INTERVAL_MINUTES ||
+      terms.intervalMinutes > MAX_INTERVAL_MINUTES
+    ) {
+      return `Interval must be between ${MIN_INTERVAL_MINUTES} and ${MAX_INTERVAL_MINUTES} minutes`;
+    }
+    if (amountIn / BigInt(terms.slices) === BigInt(0)) {
+      return "Amount too small to split";
+    }
+    if (minAmountOut !== undefined && minAmountOut / BigInt(terms.slices) === BigInt(0)) {
+      return "Minimum output too small to split";
+    }
+  }
+  return null;
+}
+
+/**
+ * Lay out the child intents of an order. Expects terms that passed
+ * validateOrderTerms and, for limit orders, minAmountOut from limitMinAmountOut.
+ */
+export function buildOrderPlan(
+  terms: OrderTerms,
+  amountIn: bigint,
+  minAmountOut: bigint,
+  deadlineMinutes: number,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+  id: string = hexlify(randomBytes(8))
+): OrderPlan {
+  const slices = terms.kind === "split" ? terms.slices : 1;
+  const amounts = splitAmounts(amountIn, slices);
+  const floors = splitAmounts(minAmountOut, slices);
+  return {
+    id,
+    kind: terms.kind,
+    children: amounts.map((childIn, index) => {
+      const releaseAt = nowSeconds + index * terms.intervalMinutes * 60;
+      return {
+        index,
+        amountIn: childIn,
+        minAmountOut: floors[index],
+        releaseAt,
+        deadline: BigInt(releaseAt + deadlineMinutes * 60),
+      };
+    }),
+  };
+}
+
+/**
+ * What a child records about its parent; market orders have none
+ */
+export function orderRef(plan: OrderPlan, child: ChildIntentPlan): OrderRef | undefined {
+  if (plan.kind === "market") return undefined;
+  return { planId: plan.id, kind: plan.kind, index: child.index, count: plan.children.length };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              PROGRESS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface PlanProgress {
+  planId: string;
+  kind: OrderKind;
+  count: number;
+  filled: number;
+  open: number;
+  ended: number; // expired, cancelled or failed
+  amountIn: bigint;
+  amountInFilled: bigint;
+  amountOutFilled: bigint;
+}
+
+/**
+ * Aggregate the history records of one plan. Children not yet recorded
+ * count toward neither filled nor ended.
+ */
+export function planProgress(planId: string, records: IntentRecord[], now: number = Date.now()): PlanProgress | undefined {
+  const children = records.filter((record) => record.plan?.planId === planId);
+  if (children.length === 0) return undefined;
+
+  const progress: PlanProgress = {
+    planId,
+    kind: children[0].plan!.kind,
+    count: children[0].plan!.count,
+    filled: 0,
+    open: 0,
+    ended: 0,
+    amountIn: BigInt(0),
+    amountInFilled: BigInt(0),
+    amountOutFilled: BigInt(0),
+  };
+  for (const record of children) {
+    const status = intentStatus(record, now);
+    progress.amountIn += BigInt(record.signed.amountIn);
+    if (status === "matched") {
+      progress.filled++;
+      progress.amountInFilled += BigInt(record.signed.amountIn);
+      progress.amountOutFilled += BigInt(record.matchResult?.amountOut ?? 0);
+    } else if (status === "open") {
+      progress.open++;
+    } else {
+      progress.ended++;
+    }
+  }
+  return progress;
+}
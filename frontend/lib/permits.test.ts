@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { LocalKeySigner } from "./eip712";
+import {
+  checkPermit,
+  deserializePermit,
+  MAX_UINT160,
+  MAX_UINT256,
+  PERMIT2_ADDRESS,
+  recoverPermitSigner,
+  resolveApprovalRoute,
+  serializePermit,
+  signPermit,
+  TokenReader,
+  type ApprovalRoute,
+} from "./permits";
+import { JsonRpcClient } from "./rpc";
+import { StandInTokenRpc } from "./standInRpc";
+import type { SwapIntent, TokenPermit } from "./types";
+
+const DEV_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const OWNER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const HOOK = "0x00000000000000000000000000000000000000C0";
+const CHAIN_ID = 84532;
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e"; // EIP-2612
+const WETH = "0x4200000000000000000000000000000000000006"; // no permit
+const UNKNOWN = "0x00000000000000000000000000000000000000D0";
+
+const AMOUNT = BigInt(1_000_000_000);
+const NOW = 1767225000;
+const DEADLINE = BigInt(NOW + 600);
+
+const signer = new LocalKeySigner(DEV_KEY);
+
+function setup() {
+  const rpc = new StandInTokenRpc(undefined, CHAIN_ID);
+  const reader = new TokenReader(new JsonRpcClient(rpc));
+  const route = (token: string, amount = AMOUNT) => resolveApprovalRoute(reader, token, OWNER, amount, HOOK, CHAIN_ID);
+  return { rpc, route };
+}
+
+const intent = (overrides: Partial<SwapIntent> = {}): SwapIntent => ({
+  user: OWNER,
+  tokenIn: USDC,
+  tokenOut: WETH,
+  amountIn: AMOUNT,
+  minAmountOut: BigInt(1),
+  maxSlippage: BigInt(50),
+  deadline: DEADLINE,
+  nonce: BigInt(0),
+  ...overrides,
+});
+
+async function signed(route: ApprovalRoute, token = USDC, amount = AMOUNT): Promise<TokenPermit> {
+  const permit = await signPermit(signer, route, token, amount, DEADLINE, DEADLINE + BigInt(3600), HOOK, CHAIN_ID);
+  if (!permit) throw new Error("route needs no permit");
+  return permit;
+}
+
+const check = (permit: TokenPermit, swap = intent(), now = NOW) => checkPermit(permit, swap, HOOK, CHAIN_ID, now);
+
+describe("resolveApprovalRoute", () => {
+  it("needs nothing when the hook allowance already covers the amount", async () => {
+    const { rpc, route } = setup();
+    rpc.approve(USDC, OWNER, HOOK, AMOUNT);
+    expect(await route(USDC)).toEqual({ kind: "allowance", allowance: AMOUNT });
+  });
+
+  it("uses EIP-2612 when the token's domain can be rebuilt", async () => {
+    const { rpc, route } = setup();
+    rpc.approve(USDC, OWNER, HOOK, AMOUNT - BigInt(1));
+    expect(await route(USDC)).toEqual({
+      kind: "eip2612",
+      domain: { name: "USDC", version: "2", chainId: CHAIN_ID, verifyingContract: USDC },
+      nonce: BigInt(0),
+    });
+  });
+
+  it("falls back to Permit2 for a token without permit that approved Permit2", async () => {
+    const { rpc, route } = setup();
+    rpc.approve(WETH, OWNER, PERMIT2_ADDRESS, MAX_UINT256);
+    expect(await route(WETH)).toEqual({ kind: "permit2", nonce: BigInt(0) });
+  });
+
+  it("asks for one approve when neither permit path is open", async () => {
+    const { route } = setup();
+    expect(await route(WETH)).toMatchObject({ kind: "approve" });
+  });
+
+  it("reports a token it cannot read instead of throwing", async () => {
+    const { route } = setup();
+    expect(await route(UNKNOWN)).toEqual({ kind: "unknown", detail: "Could not read allowance: execution reverted" });
+  });
+});
+
+describe("signPermit", () => {
+  it("signs an EIP-2612 permit the owner recovers from", async () => {
+    const { route } = setup();
+    const permit = await signed(await route(USDC));
+    expect(permit).toMatchObject({ kind: "eip2612", name: "USDC", version: "2", owner: OWNER, spender: HOOK, value: AMOUNT, deadline: DEADLINE });
+    expect(recoverPermitSigner(permit, CHAIN_ID)).toBe(OWNER);
+    expect(check(permit)).toBeNull();
+  });
+
+  it("signs a Permit2 PermitSingle with its own expiration", async () => {
+    const { rpc, route } = setup();
+    rpc.approve(WETH, OWNER, PERMIT2_ADDRESS, MAX_UINT256);
+    const permit = await signed(await route(WETH), WETH);
+    expect(permit).toMatchObject({ kind: "permit2", token: WETH, amount: AMOUNT, sigDeadline: DEADLINE, expiration: DEADLINE + BigInt(3600) });
+    expect(check(permit, intent({ tokenIn: WETH }))).toBeNull();
+  });
+
+  it("signs nothing for routes without a permit", async () => {
+    for (const route of [
+      { kind: "allowance", allowance: AMOUNT },
+      { kind: "approve", detail: "" },
+      { kind: "unknown", detail: "" },
+    ] as ApprovalRoute[]) {
+      expect(await signPermit(signer, route, USDC, AMOUNT, DEADLINE, DEADLINE, HOOK, CHAIN_ID)).toBeUndefined();
+    }
+  });
+
+  it("refuses a Permit2 amount beyond uint160", async () => {
+    await expect(signed({ kind: "permit2", nonce: BigInt(0) }, WETH, MAX_UINT160 + BigInt(1))).rejects.toThrow("uint160");
+  });
+});
+
+describe("checkPermit", () => {
+  it.each<[string, (p: TokenPermit) => TokenPermit, Partial<SwapIntent>, number, string]>([
+    ["another token", (p) => p, { tokenIn: WETH }, NOW, "Permit is for a different token than tokenIn"],
+    ["another owner", (p) => p, { user: HOOK }, NOW, "Permit owner is not intent.user"],
+    ["another spender", (p) => ({ ...p, spender: OWNER }), {}, NOW, "Permit spender is not the hook"],
+    ["too small a value", (p) => p, { amountIn: AMOUNT + BigInt(1) }, NOW, "Permit covers less than amountIn"],
+    ["a passed deadline", (p) => p, {}, Number(DEADLINE) + 1, "Permit deadline has passed"],
+    ["a raised value", (p) => ({ ...p, value: AMOUNT * BigInt(2) }), {}, NOW, "Permit signature does not match owner"],
+    ["a malformed signature", (p) => ({ ...p, signature: "0x1234" }), {}, NOW, "Invalid permit signature"],
+  ])("rejects %s", async (_, mutate, overrides, now, problem) => {
+    const { route } = setup();
+    const permit = mutate(await signed(await route(USDC)));
+    expect(check(permit, intent(overrides), now)).toBe(problem);
+  });
+
+  it("accepts a permit covering more than one intent of the order", async () => {
+    const { route } = setup();
+    const permit = await signed(await route(USDC));
+    expect(check(permit, intent({ amountIn: AMOUNT / BigInt(4) }))).toBeNull();
+  });
+
+  it("rejects a signature made for another chain", async () => {
+    const { route } = setup();
+    const permit = await signed(await route(USDC));
+    expect(checkPermit(permit, intent(), HOOK, 8453, NOW)).toBe("Permit signature does not match owner");
+  });
+});
+
+describe("serialization", () => {
+  it("round trips both permit kinds", async () => {
+    const { rpc, route } = setup();
+    rpc.approve(WETH, OWNER, PERMIT2_ADDRESS, MAX_UINT256);
+    for (const permit of [await signed(await route(USDC)), await signed(await route(WETH), WETH)]) {
+      expect(deserializePermit(JSON.parse(JSON.stringify(serializePermit(permit))))).toEqual(permit);
+    }
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Gasless Approvals                                                            ║
+ * ║  EIP-2612 and Permit2 signatures bundled with the intent                      ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Settling pulls tokenIn from the user, so the hook needs an allowance.
+ * Instead of an approve transaction, the user signs one permit per order. It
+ * travels with each of the order's intents until one settles, and the relayer
+ * submits it before that settlement:
+ *   - allowance: the hook is already approved for the amount, nothing to sign
+ *   - eip2612:   the token implements permit() and its DOMAIN_SEPARATOR matches
+ *                the domain rebuilt from name()/version(), so the signature
+ *                will verify
+ *   - permit2:   no EIP-2612, but the user has approved Permit2; sign a
+ *                PermitSingle for the hook
+ *   - approve:   neither; one approve to Permit2 (the only transaction the
+ *                user ever sends for this token) makes the next order gasless
+ *   - unknown:   the token could not be read; the intent goes without a permit
+ */
+
+import { Interface, TypedDataEncoder, verifyTypedData, type TypedDataField } from "ethers";
+import { NETWORK } from "./networks";
+import { EIP712_DOMAIN_TYPE, type IntentSigner, type TypedDataPayload } from "./eip712";
+import type { JsonRpcClient } from "./rpc";
+import type { Eip2612Permit, Permit2Permit, SwapIntent, TokenPermit } from "./types";
+
+// Canonical Uniswap deployment, same address on every chain
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+export const MAX_UINT160 = (BigInt(1) << BigInt(160)) - BigInt(1);
+export const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+export const ERC20_PERMIT_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function nonces(address owner) view returns (uint256)",
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+];
+
+export const PERMIT2_ABI = [
+  "function allowance(address user, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+];
+
+export const erc20Interface = new Interface(ERC20_PERMIT_ABI);
+export const permit2Interface = new Interface(PERMIT2_ABI);
+
+export const EIP2612_PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const PERMIT2_SINGLE_TYPES: Record<string, TypedDataField[]> = {
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+};
+
+// Permit2's domain has no version
+const PERMIT2_DOMAIN_TYPE = EIP712_DOMAIN_TYPE.filter((field) => field.name !== "version");
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              TOKEN READS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class TokenReader {
+  constructor(private rpc: JsonRpcClient, readonly permit2: string = PERMIT2_ADDRESS) {}
+
+  private async read(token: string, method: string, args: unknown[]) {
+    const raw = await this.rpc.call(token, erc20Interface.encodeFunctionData(method, args));
+    return erc20Interface.decodeFunctionResult(method, raw);
+  }
+
+  /**
+   * undefined when the token doesn't implement the call
+   */
+  private async tryRead<T>(token: string, method: string, args: unknown[]): Promise<T | undefined> {
+    try {
+      return (await this.read(token, method, args))[0] as T;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  async allowance(token: string, owner: string, spender: string): Promise<bigint> {
+    const [amount] = await this.read(token, "allowance", [owner, spender]);
+    return amount as bigint;
+  }
+
+  /**
+   * The token's EIP-2612 domain and the owner's permit nonce, or undefined if
+   * the token has no permit or a domain this code can't reproduce
+   */
+  async eip2612(token: string, owner: string, chainId: number): Promise<{ domain: Eip2612Domain; nonce: bigint } | undefined> {
+    const [separator, nonce, name, version] = await Promise.all([
+      this.tryRead<string>(token, "DOMAIN_SEPARATOR", []),
+      this.tryRead<bigint>(token, "nonces", [owner]),
+      this.tryRead<string>(token, "name", []),
+      this.tryRead<string>(token, "version", []),
+    ]);
+    if (separator === undefined || nonce === undefined || name === undefined) return undefined;
+
+    const candidates = version !== undefined ? [version] : ["1", "2"];
+    for (const candidate of candidates) {
+      const domain: Eip2612Domain = { name, version: candidate, chainId, verifyingContract: token };
+      if (TypedDataEncoder.hashDomain(domain).toLowerCase() === separator.toLowerCase()) return { domain, nonce };
+    }
+    return undefined;
+  }
+
+  async permit2Allowance(owner: string, token: string, spender: string): Promise<{ amount: bigint; expiration: bigint; nonce: bigint }> {
+    const raw = await this.rpc.call(this.permit2, permit2Interface.encodeFunctionData("allowance", [owner, token, spender]));
+    const [amount, expiration, nonce] = permit2Interface.decodeFunctionResult("allowance", raw);
+    return { amount, expiration, nonce };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              ROUTE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface Eip2612Domain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+export type ApprovalRoute =
+  | { kind: "allowance"; allowance: bigint }
+  | { kind: "eip2612"; domain: Eip2612Domain; nonce: bigint }
+  | { kind: "permit2"; nonce: bigint }
+  | { kind: "approve"; detail: string }
+  | { kind: "unknown"; detail: string };
+
+/**
+ * Pick how the hook gets its allowance for amount of token. Never throws.
+ */
+export async function resolveApprovalRoute(
+  reader: TokenReader,
+  token: string,
+  owner: string,
+  amount: bigint,
+  spender: string = NETWORK.contracts.hook,
+  chainId: number = NETWORK.chainId
+): Promise<ApprovalRoute> {
+  let allowance: bigint;
+  try {
+    allowance = await reader.allowance(token, owner, spender);
+  } catch (error) {
+    return { kind: "unknown", detail: `Could not read allowance: ${error instanceof Error ? error.message : "Unknown"}` };
+  }
+  if (allowance >= amount) return { kind: "allowance", allowance };
+
+  const eip2612 = await reader.eip2612(token, owner, chainId);
+  if (eip2612) return { kind: "eip2612", ...eip2612 };
+
+  try {
+    if ((await reader.allowance(token, owner, reader.permit2)) >= amount) {
+      const { nonce } = await reader.permit2Allowance(owner, token, spender);
+      return { kind: "permit2", nonce };
+    }
+  } catch (e) {
+    // No Permit2 on this chain, same as not approved
+  }
+  return { kind: "approve", detail: "Token has no permit support and Permit2 is not approved" };
+}
+
+/**
+ * One-time approve(Permit2, max) for tokens without EIP-2612
+ */
+export function encodePermit2Approval(): string {
+  return erc20Interface.encodeFunctionData("approve", [PERMIT2_ADDRESS, MAX_UINT256]);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              TYPED DATA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildEip2612TypedData(permit: Omit<Eip2612Permit, "signature">, chainId: number = NETWORK.chainId): TypedDataPayload {
+  return {
+    types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...EIP2612_PERMIT_TYPES },
+    domain: { name: permit.name, version: permit.version, chainId, verifyingContract: permit.token },
+    primaryType: "Permit",
+    message: {
+      owner: permit.owner,
+      spender: permit.spender,
+      value: permit.value.toString(),
+      nonce: permit.nonce.toString(),
+      deadline: permit.deadline.toString(),
+    },
+  };
+}
+
+export function buildPermit2TypedData(permit: Omit<Permit2Permit, "signature">, chainId: number = NETWORK.chainId): TypedDataPayload {
+  return {
+    types: { EIP712Domain: PERMIT2_DOMAIN_TYPE, ...PERMIT2_SINGLE_TYPES },
+    domain: { name: "Permit2", chainId, verifyingContract: PERMIT2_ADDRESS },
+    primaryType: "PermitSingle",
+    message: {
+      details: {
+        token: permit.token,
+        amount: permit.amount.toString(),
+        expiration: permit.expiration.toString(),
+        nonce: permit.nonce.toString(),
+      },
+      spender: permit.spender,
+      sigDeadline: permit.sigDeadline.toString(),
+    },
+  };
+}
+
+export function recoverPermitSigner(permit: TokenPermit, chainId: number = NETWORK.chainId): string {
+  const { types, domain, message } =
+    permit.kind === "eip2612" ? buildEip2612TypedData(permit, chainId) : buildPermit2TypedData(permit, chainId);
+  const { EIP712Domain: _domainType, ...messageTypes } = types;
+  return verifyTypedData(domain, messageTypes, message, permit.signature);
+}
+
+/**
+ * Sign the permit a route calls for, covering amount until deadline (the
+ * last settlement window of the order, since any of its intents may be the
+ * one to submit it; a Permit2 allowance lasts until expiration).
+ * undefined for routes that need no signature.
+ */
+export async function signPermit(
+  signer: IntentSigner,
+  route: ApprovalRoute,
+  token: string,
+  amount: bigint,
+  deadline: bigint,
+  expiration: bigint = deadline,
+  spender: string = NETWORK.contracts.hook,
+  chainId: number = NETWORK.chainId
+): Promise<TokenPermit | undefined> {
+  const owner = await signer.getAddress();
+  if (route.kind === "eip2612") {
+    const unsigned = {
+      kind: "eip2612" as const,
+      token,
+      name: route.domain.name,
+      version: route.domain.version,
+      owner,
+      spender,
+      value: amount,
+      nonce: route.nonce,
+      deadline,
+    };
+    return { ...unsigned, signature: await signer.signTypedData(buildEip2612TypedData(unsigned, chainId)) };
+  }
+  if (route.kind === "permit2") {
+    if (amount > MAX_UINT160) throw new Error("Amount exceeds Permit2's uint160 allowance");
+    const unsigned = {
+      kind: "permit2" as const,
+      token,
+      owner,
+      spender,
+      amount,
+      expiration,
+      nonce: route.nonce,
+      sigDeadline: deadline,
+    };
+    return { ...unsigned, signature: await signer.signTypedData(buildPermit2TypedData(unsigned, chainId)) };
+  }
+  return undefined;
+}
+
+/**
+ * What the relayer checks before accepting a bundled permit; null when it
+ * covers the intent
+ */
+export function checkPermit(
+  permit: TokenPermit,
+  intent: SwapIntent,
+  spender: string = NETWORK.contracts.hook,
+  chainId: number = NETWORK.chainId,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): string | null {
+  if (permit.token.toLowerCase() !== intent.tokenIn.toLowerCase()) return "Permit is for a different token than tokenIn";
+  if (permit.owner.toLowerCase() !== intent.user.toLowerCase()) return "Permit owner is not intent.user";
+  if (permit.spender.toLowerCase() !== spender.toLowerCase()) return "Permit spender is not the hook";
+  const value = permit.kind === "eip2612" ? permit.value : permit.amount;
+  if (value < intent.amountIn) return "Permit covers less than amountIn";
+  const deadline = permit.kind === "eip2612" ? permit.deadline : permit.sigDeadline;
+  if (deadline < BigInt(nowSeconds)) return "Permit deadline has passed";
+  let signer: string;
+  try {
+    signer = recoverPermitSigner(permit, chainId);
+  } catch (e) {
+    return "Invalid permit signature";
+  }
+  return signer.toLowerCase() === permit.owner.toLowerCase() ? null : "Permit signature does not match owner";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SERIALIZATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Serialized<T> = { [K in keyof T]: T[K] extends bigint ? string : T[K] };
+
+export type SerializedTokenPermit = Serialized<Eip2612Permit> | Serialized<Permit2Permit>;
+
+export function serializePermit(permit: TokenPermit): SerializedTokenPermit {
+  if (permit.kind === "eip2612") {
+    return { ...permit, value: permit.value.toString(), nonce: permit.nonce.toString(), deadline: permit.deadline.toString() };
+  }
+  return {
+    ...permit,
+    amount: permit.amount.toString(),
+    expiration: permit.expiration.toString(),
+    nonce: permit.nonce.toString(),
+    sigDeadline: permit.sigDeadline.toString(),
+  };
+}
+
+export function deserializePermit(data: SerializedTokenPermit): TokenPermit {
+  if (data.kind === "eip2612") {
+    return { ...data, value: BigInt(data.value), nonce: BigInt(data.nonce), deadline: BigInt(data.deadline) };
+  }
+  return {
+    ...data,
+    amount: BigInt(data.amount),
+    expiration: BigInt(data.expiration),
+    nonce: BigInt(data.nonce),
+    sigDeadline: BigInt(data.sigDeadline),
+  };
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HttpPipelineClient, type PipelineUpdate } from "./pipeline";
+import { PipelineError } from "./pipelineErrors";
+import type { PipelineStage, SignedCancellation } from "./types";
+
+const RELAYER = "http://relayer.test";
+const HASH = "0x378c765382e143b8f4b67e95fedf6a06d17135b77043216ccace0da6252ae12d";
+const POLL_MS = 1000;
+const MAX_ERRORS = 3;
+const TEE_TIMEOUT_MS = 5000;
+
+const CANCELLATION: SignedCancellation = {
+  cancel: { intentHash: HASH, user: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8", nonce: BigInt(0) },
+  signature: "0x" + "11".repeat(65),
+};
+
+type Reply = PipelineUpdate | Error | { status: number; body: unknown };
+
+const update = (stage: PipelineStage, message = ""): PipelineUpdate => ({ intentHash: HASH, stage, message });
+
+/**
+ * fetch answering each call with the next reply; the last one repeats
+ */
+function relayer(...replies: Reply[]) {
+  const fetch = vi.fn(async () => {
+    const reply = replies.length > 1 ? replies.shift()! : replies[0];
+    if (reply instanceof Error) throw reply;
+    const { status, body } = "status" in reply ? reply : { status: 200, body: reply };
+    return new Response(JSON.stringify(body), { status });
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+/**
+ * Watch until the client stops polling, collecting every update
+ */
+async function watched(maxPolls = 20): Promise<PipelineUpdate[]> {
+  const updates: PipelineUpdate[] = [];
+  const stop = new HttpPipelineClient(RELAYER, POLL_MS, MAX_ERRORS, TEE_TIMEOUT_MS).watch(HASH, (u) => updates.push(u));
+  for (let i = 0; i < maxPolls; i++) await vi.advanceTimersByTimeAsync(POLL_MS);
+  stop();
+  return updates;
+}
+
+async function rejection(attempt: Promise<unknown>): Promise<PipelineError> {
+  try {
+    await attempt;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PipelineError);
+    return error as PipelineError;
+  }
+  throw new Error("resolved");
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("HttpPipelineClient.watch", () => {
+  it("reports each stage once and stops polling at a terminal one", async () => {
+    const fetch = relayer(update("submitted"), update("submitted"), update("matching"), update("executing"), update("executing"), update("complete"));
+    expect((await watched()).map((u) => u.stage)).toEqual(["submitted", "matching", "executing", "complete"]);
+    expect(fetch).toHaveBeenCalledTimes(6);
+    expect(fetch).toHaveBeenCalledWith(`${RELAYER}/intents/${HASH}`);
+  });
+
+  it("classifies an error update that came without a failure", async () => {
+    relayer(update("matching"), update("error", "ExecutionFailed: Invalid TEE signature"));
+    const updates = await watched();
+    expect(updates[1]).toMatchObject({
+      stage: "error",
+      failure: { kind: "executionReverted", stage: "executing", detail: "ExecutionFailed: Invalid TEE signature" },
+    });
+  });
+
+  it("gives up on an intent the TEE never picks up", async () => {
+    const fetch = relayer(update("submitted"));
+    const updates = await watched();
+    expect(updates).toEqual([
+      update("submitted"),
+      {
+        intentHash: HASH,
+        stage: "error",
+        message: "TEE did not pick the intent up within 5s",
+        failure: { kind: "teeTimeout", stage: "submitted", detail: "TEE did not pick the intent up within 5s" },
+      },
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(TEE_TIMEOUT_MS / POLL_MS + 1);
+  });
+
+  it("lets matching rest past the TEE pickup timeout", async () => {
+    relayer(update("submitted"), update("matching"));
+    expect((await watched()).map((u) => u.stage)).toEqual(["submitted", "matching"]);
+  });
+
+  it("fails as unreachable after consecutive errors, at the last stage seen", async () => {
+    const fetch = relayer(update("matching"), new TypeError("Failed to fetch"), { status: 502, body: {} }, new TypeError("Failed to fetch"));
+    const updates = await watched();
+    expect(updates[1]).toEqual({
+      intentHash: HASH,
+      stage: "error",
+      message: "Relayer unreachable: Failed to fetch",
+      failure: { kind: "relayerUnreachable", stage: "matching", detail: "Relayer unreachable: Failed to fetch" },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1 + MAX_ERRORS);
+  });
+
+  it("forgets errors once the relayer answers again", async () => {
+    const flaky = [new TypeError("Failed to fetch"), new TypeError("Failed to fetch")];
+    relayer(update("submitted"), ...flaky, update("matching"), ...flaky, update("complete"));
+    expect((await watched()).map((u) => u.stage)).toEqual(["submitted", "matching", "complete"]);
+  });
+
+  it("stops polling when unsubscribed", async () => {
+    const fetch = relayer(update("submitted"));
+    const updates: PipelineUpdate[] = [];
+    const stop = new HttpPipelineClient(RELAYER, POLL_MS, MAX_ERRORS, TEE_TIMEOUT_MS).watch(HASH, (u) => updates.push(u));
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    stop();
+    await vi.advanceTimersByTimeAsync(10 * POLL_MS);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(updates).toEqual([update("submitted")]);
+  });
+});
+
+describe("HttpPipelineClient.cancel", () => {
+  const client = () => new HttpPipelineClient(RELAYER, POLL_MS, MAX_ERRORS, TEE_TIMEOUT_MS);
+
+  it("posts the serialized cancellation and returns the relayer's update", async () => {
+    const fetch = relayer(update("cancelled", "Cancelled by user"));
+    expect(await client().cancel(CANCELLATION)).toEqual(update("cancelled", "Cancelled by user"));
+    expect(fetch).toHaveBeenCalledWith(`${RELAYER}/intents/${HASH}/cancel`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...CANCELLATION.cancel, nonce: "0", signature: CANCELLATION.signature }),
+    });
+  });
+
+  it.each<[string, Reply, string, string]>([
+    ["an unreachable relayer", new TypeError("Failed to fetch"), "relayerUnreachable", "Relayer unreachable: Failed to fetch"],
+    ["a relayer failure", { status: 503, body: {} }, "relayerUnreachable", "Relayer rejected cancellation: HTTP 503"],
+    ["a refusal", { status: 409, body: { error: "Intent is executing, too late to cancel" } }, "relayerRejected", "Intent is executing, too late to cancel"],
+    ["an expired intent", { status: 400, body: { error: "Intent expired" } }, "expired", "Intent expired"],
+  ])("throws a classified PipelineError for %s", async (_, reply, kind, message) => {
+    relayer(reply);
+    expect(await rejection(client().cancel(CANCELLATION))).toMatchObject({ kind, stage: "submitted", message, intentHash: HASH });
+  });
+});
+
+describe("HttpPipelineClient.submit", () => {
+  const submission = { intentHash: HASH, envelope: {} as never };
+
+  it("picks an already queued intent up where it is", async () => {
+    const fetch = relayer({ status: 409, body: { error: "Intent already submitted" } }, update("matching"));
+    expect(await new HttpPipelineClient(RELAYER).submit(submission)).toEqual(update("matching"));
+    expect(fetch).toHaveBeenLastCalledWith(`${RELAYER}/intents/${HASH}`);
+  });
+
+  it("classifies a refusal", async () => {
+    relayer({ status: 401, body: { error: "Signature does not match intent.user" } });
+    expect(await rejection(new HttpPipelineClient(RELAYER).submit(submission))).toMatchObject({ kind: "relayerRejected", intentHash: HASH });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Intent Pipeline Client                                                       ║
+ * ║  Submit signed intents to the relayer and follow them to settlement           ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Stages: submitted → matching → executing → complete | error
+ * A pending intent may instead end cancelled (signed CancelIntent, accepted
+ * until execution starts) or expired (deadline passed unsettled).
+ *
+ * Intents leave the browser sealed to the enclave key (see intentCrypto.ts);
+ * the relayer routes them by intentHash without seeing their terms.
+ *
+ * Failures reach callers classified (see pipelineErrors.ts): submit and
+ * cancel throw a PipelineError, and every "error" update from watch carries
+ * a failure.
+ */
+
+import { pow10 } from "./amount";
+import { CONFIG } from "./config";
+import { NETWORK } from "./networks";
+import type { IntentEnvelope } from "./intentCrypto";
+import { deserializePermit, serializePermit, type SerializedTokenPermit } from "./permits";
+import { classifyMessage, failureFromUpdate, PipelineError } from "./pipelineErrors";
+import type { PipelineStage, RelayerStatus, SignedCancellation, SignedIntent } from "./types";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              WIRE FORMAT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * SignedIntent with uint256 fields as decimal strings (JSON-safe),
+ * matching the field names the iApp reads from intents.json
+ */
+export interface SerializedSignedIntent {
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  minAmountOut: string;
+  maxSlippage: string;
+  deadline: string;
+  nonce: string;
+  signature: string;
+  intentHash: string;
+  permit?: SerializedTokenPermit;
+}
+
+/**
+ * What the relayer receives: the envelope plus the hash it is bound to
+ */
+export interface SealedIntentSubmission {
+  intentHash: string;
+  envelope: IntentEnvelope;
+}
+
+export interface PipelineUpdate extends RelayerStatus {
+  intentHash: string;
+}
+
+export const TERMINAL_STAGES: RelayerStatus["stage"][] = ["complete", "error", "cancelled", "expired"];
+
+/**
+ * Stages in which the relayer still honours a cancellation
+ */
+export const CANCELLABLE_STAGES: RelayerStatus["stage"][] = ["submitted", "matching"];
+
+export interface SerializedCancellation {
+  intentHash: string;
+  user: string;
+  nonce: string;
+  signature: string;
+}
+
+export function serializeSignedIntent({ intent, signature, intentHash, permit }: SignedIntent): SerializedSignedIntent {
+  return {
+    user: intent.user,
+    tokenIn: intent.tokenIn,
+    tokenOut: intent.tokenOut,
+    amountIn: intent.amountIn.toString(),
+    minAmountOut: intent.minAmountOut.toString(),
+    maxSlippage: intent.maxSlippage.toString(),
+    deadline: intent.deadline.toString(),
+    nonce: intent.nonce.toString(),
+    signature,
+    intentHash,
+    ...(permit && { permit: serializePermit(permit) }),
+  };
+}
+
+export function serializeCancellation({ cancel, signature }: SignedCancellation): SerializedCancellation {
+  return { intentHash: cancel.intentHash, user: cancel.user, nonce: cancel.nonce.toString(), signature };
+}
+
+export function deserializeCancellation(data: SerializedCancellation): SignedCancellation {
+  return {
+    cancel: { intentHash: data.intentHash, user: data.user, nonce: BigInt(data.nonce) },
+    signature: data.signature,
+  };
+}
+
+export function deserializeSignedIntent(data: SerializedSignedIntent): SignedIntent {
+  return {
+    intent: {
+      user: data.user,
+      tokenIn: data.tokenIn,
+      tokenOut: data.tokenOut,
+      amountIn: BigInt(data.amountIn),
+      minAmountOut: BigInt(data.minAmountOut),
+      maxSlippage: BigInt(data.maxSlippage),
+      deadline: BigInt(data.deadline),
+      nonce: BigInt(data.nonce),
+    },
+    signature: data.signature,
+    intentHash: data.intentHash,
+    ...(data.permit && { permit: deserializePermit(data.permit) }),
+  };
+}
+
+/**
+ * iApp clearing price (tokenIn base units per tokenOut base unit, x1e18) to
+ * whole tokenIn per whole tokenOut, still x1e18 - format with 18 decimals
+ */
+export function clearingPriceToDisplay(clearingPrice: bigint, tokenInDecimals: number, tokenOutDecimals: number): bigint {
+  return (clearingPrice * pow10(tokenOutDecimals)) / pow10(tokenInDecimals);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CLIENTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IntentPipelineClient {
+  submit(sealed: SealedIntentSubmission): Promise<PipelineUpdate>;
+  cancel(cancellation: SignedCancellation): Promise<PipelineUpdate>;
+  watch(intentHash: string, onUpdate: (update: PipelineUpdate) => void): () => void;
+}
+
+/**
+ * Talks to a relayer over HTTP:
+ *   POST {base}/intents                      → PipelineUpdate  (409: already queued)
+ *   GET  {base}/intents/{intentHash}         → PipelineUpdate
+ *   POST {base}/intents/{intentHash}/cancel  → PipelineUpdate
+ */
+export class HttpPipelineClient implements IntentPipelineClient {
+  constructor(
+    private baseUrl: string = NETWORK.relayer.url,
+    private pollIntervalMs: number = CONFIG.PIPELINE_POLL_MS,
+    private maxConsecutiveErrors: number = 5,
+    private teeTimeoutMs: number = CONFIG.TEE_PICKUP_TIMEOUT_MS
+  ) {}
+
+  async submit(sealed: SealedIntentSubmission): Promise<PipelineUpdate> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/intents`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(sealed),
+      });
+    } catch (error) {
+      const message = `Relayer unreachable: ${error instanceof Error ? error.message : "Unknown"}`;
+      throw new PipelineError("relayerUnreachable", "submitted", message, sealed.intentHash);
+    }
+    // Already queued (a retry after a lost response): carry on from where it is
+    if (response.status === 409) return this.status(sealed.intentHash);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const message: string = body.error || `Relayer rejected intent: HTTP ${response.status}`;
+      const kind = response.status >= 500 ? "relayerUnreachable" : classifyMessage(message);
+      throw new PipelineError(kind === "unknown" ? "relayerRejected" : kind, "submitted", message, sealed.intentHash);
+    }
+    return body as PipelineUpdate;
+  }
+
+  private async status(intentHash: string): Promise<PipelineUpdate> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/intents/${intentHash}`);
+    } catch (error) {
+      const message = `Relayer unreachable: ${error instanceof Error ? error.message : "Unknown"}`;
+      throw new PipelineError("relayerUnreachable", "submitted", message, intentHash);
+    }
+    if (!response.ok) {
+      throw new PipelineError("relayerUnreachable", "submitted", `Relayer status lookup failed: HTTP ${response.status}`, intentHash);
+    }
+    return (await response.json()) as PipelineUpdate;
+  }
+
+  async cancel(cancellation: SignedCancellation): Promise<PipelineUpdate> {
+    const { intentHash } = cancellation.cancel;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/intents/${intentHash}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(serializeCancellation(cancellation)),
+      });
+    } catch (error) {
+      const message = `Relayer unreachable: ${error instanceof Error ? error.message : "Unknown"}`;
+      throw new PipelineError("relayerUnreachable", "submitted", message, intentHash);
+    }
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const message: string = body.error || `Relayer rejected cancellation: HTTP ${response.status}`;
+      const kind = response.status >= 500 ? "relayerUnreachable" : classifyMessage(message);
+      throw new PipelineError(kind === "unknown" ? "relayerRejected" : kind, "submitted", message, intentHash);
+    }
+    return body as PipelineUpdate;
+  }
+
+  watch(intentHash: string, onUpdate: (update: PipelineUpdate) => void): () => void {
+    let stopped = false;
+    let errors = 0;
+    let lastStage: PipelineStage | null = null;
+    let submittedAt: number | undefined;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`${this.baseUrl}/intents/${intentHash}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const update = (await response.json()) as PipelineUpdate;
+        errors = 0;
+        if (stopped) return;
+        if (update.stage === "error" && !update.failure) {
+          update.failure = failureFromUpdate(update.message, lastStage ?? "submitted");
+        }
+        if (update.stage !== lastStage) {
+          lastStage = update.stage;
+          onUpdate(update);
+        }
+        if (TERMINAL_STAGES.includes(update.stage)) return;
+        // Matching may legitimately rest until the deadline; sitting unclaimed may not
+        submittedAt = update.stage === "submitted" ? submittedAt ?? Date.now() : undefined;
+        if (submittedAt !== undefined && Date.now() - submittedAt >= this.teeTimeoutMs) {
+          const message = `TEE did not pick the intent up within ${Math.round(this.teeTimeoutMs / 1000)}s`;
+          onUpdate({ intentHash, stage: "error", message, failure: { kind: "teeTimeout", stage: "submitted", detail: message } });
+          return;
+        }
+      } catch (error) {
+        if (stopped) return;
+        if (++errors >= this.maxConsecutiveErrors) {
+          const message = `Relayer unreachable: ${error instanceof Error ? error.message : "Unknown"}`;
+          onUpdate({
+            intentHash,
+            stage: "error",
+            message,
+            failure: { kind: "relayerUnreachable", stage: lastStage ?? "submitted", detail: message },
+          });
+          return;
+        }
+      }
+      timer = setTimeout(poll, this.pollIntervalMs);
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+}
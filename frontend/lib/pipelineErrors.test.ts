@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { classifyMessage, explainFailure, failureFromUpdate, PIPELINE_ERRORS, recoveryFor } from "./pipelineErrors";
+import type { PipelineFailure } from "./types";
+
+const reverted = (detail: string): PipelineFailure => ({ kind: "executionReverted", stage: "executing", detail });
+
+const NOW = 1767225000000;
+const OPEN_DEADLINE = BigInt(NOW / 1000 + 600);
+const PAST_DEADLINE = BigInt(NOW / 1000 - 1);
+
+describe("explainFailure", () => {
+  it.each([
+    ["ExecutionFailed: Deadline expired", "Settled too late", "resign"],
+    ["execution reverted: IntentExpired()", "Settled too late", "resign"],
+    ["ExecutionFailed: Already executed", "Already settled", "dismiss"],
+    ["execution reverted: IntentAlreadyExecuted()", "Already settled", "dismiss"],
+    ["ExecutionFailed: Invalid TEE signature", "Proof not accepted", "retrySubmission"],
+    ["ExecutionFailed: Invalid user signature", "Signature not accepted", "resign"],
+  ])("explains %s by its reason", (detail, title, recovery) => {
+    expect(explainFailure(reverted(detail))).toMatchObject({ title, recovery });
+  });
+
+  it("does not guess at a revert without a known reason", () => {
+    expect(explainFailure(reverted("execution reverted"))).toBe(PIPELINE_ERRORS.executionReverted);
+  });
+
+  it("leaves other kinds to the taxonomy", () => {
+    const failure: PipelineFailure = { kind: "relayerUnreachable", stage: "submitted", detail: "Invalid TEE signature" };
+    expect(explainFailure(failure)).toBe(PIPELINE_ERRORS.relayerUnreachable);
+  });
+});
+
+describe("recoveryFor", () => {
+  it("retries a rejected TEE proof while the intent is valid, re-signs after", () => {
+    const failure = reverted("ExecutionFailed: Invalid TEE signature");
+    expect(recoveryFor(failure, OPEN_DEADLINE, NOW)).toBe("retrySubmission");
+    expect(recoveryFor(failure, PAST_DEADLINE, NOW)).toBe("resign");
+  });
+
+  it("offers nothing to redo for an intent that already settled", () => {
+    expect(recoveryFor(reverted("ExecutionFailed: Already executed"), OPEN_DEADLINE, NOW)).toBe("dismiss");
+  });
+});
+
+describe("classification", () => {
+  it("files hook reverts under executionReverted at the executing stage", () => {
+    expect(failureFromUpdate("ExecutionFailed: Invalid user signature", "submitted")).toEqual(
+      reverted("ExecutionFailed: Invalid user signature")
+    );
+  });
+
+  it.each([
+    ["User rejected the request", "userRejected"],
+    ["chain id mismatch", "wrongChain"],
+    ["Intent deadline passed", "expired"],
+    ["Failed to fetch", "relayerUnreachable"],
+    ["something odd", "unknown"],
+  ])("classifies %s", (message, kind) => {
+    expect(classifyMessage(message)).toBe(kind);
+  });
+});
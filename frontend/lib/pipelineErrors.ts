@@ -0,0 +1,216 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Pipeline Errors                                                              ║
+ * ║  What went wrong, where, and what the user can do about it                    ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Every failure between signing and settlement is reduced to a kind, the
+ * stage that failed and the raw detail. The kind decides the explanation and
+ * the one recovery the UI offers:
+ *   - retrySubmission: the signed intent is still good, send it again
+ *   - resign:          sign the same trade again with a fresh deadline/nonce
+ *   - switchNetwork:   put the wallet on the deployment's chain
+ *
+ * An on-chain revert is explained by the hook's reason string instead:
+ * executePrivateOrder emits ExecutionFailed for exactly four checks (deadline,
+ * replay, TEE signature, user signature), and each calls for something else.
+ */
+
+import type { PipelineErrorKind, PipelineFailure, PipelineStage, RecoveryAction } from "./types";
+
+export interface PipelineErrorInfo {
+  title: string;
+  explanation: string;
+  recovery: RecoveryAction;
+}
+
+export const PIPELINE_ERRORS: Record<PipelineErrorKind, PipelineErrorInfo> = {
+  userRejected: {
+    title: "Signature rejected",
+    explanation: "You declined the request in your wallet. Nothing was signed or sent.",
+    recovery: "resign",
+  },
+  wrongChain: {
+    title: "Wrong network",
+    explanation: "Your wallet is on a different chain than the hook. Intents signed there would never verify.",
+    recovery: "switchNetwork",
+  },
+  relayerUnreachable: {
+    title: "Relayer unreachable",
+    explanation: "The relayer did not answer. Your signed intent is still valid and can be sent again until its deadline.",
+    recovery: "retrySubmission",
+  },
+  relayerRejected: {
+    title: "Relayer refused the intent",
+    explanation: "The relayer checked the intent and turned it down. Signing it again builds a fresh one.",
+    recovery: "resign",
+  },
+  attestationFailed: {
+    title: "Enclave not verified",
+    explanation: "The enclave's attestation did not check out, so the intent was not sealed to it. Try again once the enclave is healthy.",
+    recovery: "retrySubmission",
+  },
+  teeTimeout: {
+    title: "TEE did not respond",
+    explanation: "The enclave never picked the intent up for matching. It can be resubmitted while the deadline holds.",
+    recovery: "retrySubmission",
+  },
+  expired: {
+    title: "Intent expired",
+    explanation: "The deadline passed before the intent settled. No funds moved; sign it again with a fresh deadline.",
+    recovery: "resign",
+  },
+  executionReverted: {
+    title: "Settlement reverted",
+    explanation: "The hook rejected the execution on-chain for a reason it did not name. No funds moved.",
+    recovery: "resign",
+  },
+  unknown: {
+    title: "Something went wrong",
+    explanation: "The intent stopped for a reason we don't recognise. See the details below.",
+    recovery: "dismiss",
+  },
+};
+
+/**
+ * executePrivateOrder's ExecutionFailed reasons, with the custom error it
+ * reverts with right after
+ */
+const REVERT_REASONS: { pattern: RegExp; info: PipelineErrorInfo }[] = [
+  {
+    pattern: /Deadline expired|IntentExpired/i,
+    info: {
+      title: "Settled too late",
+      explanation: "The settlement reached the hook after the intent's deadline. No funds moved; sign it again with a fresh deadline.",
+      recovery: "resign",
+    },
+  },
+  {
+    pattern: /Already executed|IntentAlreadyExecuted/i,
+    info: {
+      title: "Already settled",
+      explanation: "The hook has already executed this intent, so a second execution was refused. Your trade went through once; check your history.",
+      recovery: "dismiss",
+    },
+  },
+  {
+    pattern: /Invalid TEE signature|InvalidTEESignature/i,
+    info: {
+      title: "Proof not accepted",
+      explanation:
+        "The hook did not accept the enclave's signature on the execution proof, e.g. after its TEE signer changed. Your intent was not used and can be sent again.",
+      recovery: "retrySubmission",
+    },
+  },
+  {
+    pattern: /Invalid user signature|InvalidUserSignature/i,
+    info: {
+      title: "Signature not accepted",
+      explanation: "The hook could not verify your signature on the intent, so it was not executed. Signing it again builds a fresh one.",
+      recovery: "resign",
+    },
+  },
+];
+
+/**
+ * Explanation and recovery for a failure; reverts by their reason string
+ */
+export function explainFailure(failure: PipelineFailure): PipelineErrorInfo {
+  if (failure.kind === "executionReverted") {
+    const reason = REVERT_REASONS.find(({ pattern }) => pattern.test(failure.detail));
+    if (reason) return reason.info;
+  }
+  return PIPELINE_ERRORS[failure.kind];
+}
+
+export const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  retrySubmission: "Retry submission",
+  resign: "Re-sign with a fresh deadline",
+  switchNetwork: "Switch network",
+  dismiss: "Dismiss",
+};
+
+/**
+ * A classified failure. intentHash is missing when nothing was signed yet.
+ */
+export class PipelineError extends Error {
+  constructor(public kind: PipelineErrorKind, public stage: PipelineStage, message: string, public intentHash?: string) {
+    super(message);
+    this.name = "PipelineError";
+  }
+
+  get failure(): PipelineFailure {
+    return { kind: this.kind, stage: this.stage, detail: this.message };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CLASSIFICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// EIP-1193: 4001 user rejected, 4902 unknown chain; ethers wraps the former
+const USER_REJECTED_CODES: unknown[] = [4001, "ACTION_REJECTED"];
+
+function errorCode(error: unknown): unknown {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { code, info } = error as { code?: unknown; info?: { error?: { code?: unknown } } };
+  return info?.error?.code ?? code;
+}
+
+/**
+ * Kind from a relayer or chain message
+ */
+export function classifyMessage(message: string): PipelineErrorKind {
+  if (/user (rejected|denied)|rejected by user|request rejected/i.test(message)) return "userRejected";
+  if (/chain ?id|wrong (chain|network)|chain mismatch/i.test(message)) return "wrongChain";
+  if (/ExecutionFailed|revert/i.test(message)) return "executionReverted";
+  if (/expired|deadline/i.test(message)) return "expired";
+  if (/unreachable|failed to fetch|network ?error|ECONNREFUSED|timed? ?out/i.test(message)) return "relayerUnreachable";
+  if (/attestation|enclave/i.test(message)) return "attestationFailed";
+  return "unknown";
+}
+
+/**
+ * Map anything thrown along the pipeline to a PipelineError at the given
+ * stage. Never throws.
+ */
+export function classifyPipelineError(error: unknown, stage: PipelineStage, intentHash?: string): PipelineError {
+  if (error instanceof PipelineError) {
+    if (!error.intentHash && intentHash) error.intentHash = intentHash;
+    return error;
+  }
+  // EIP-1193 providers reject with plain { code, message } objects
+  const message =
+    typeof error === "string"
+      ? error
+      : typeof (error as { message?: unknown } | null)?.message === "string"
+        ? (error as { message: string }).message
+        : "Unknown";
+  if (USER_REJECTED_CODES.includes(errorCode(error))) return new PipelineError("userRejected", stage, message, intentHash);
+  if (errorCode(error) === 4902) return new PipelineError("wrongChain", stage, message, intentHash);
+  // fetch() rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new PipelineError("relayerUnreachable", stage, message, intentHash);
+  }
+  return new PipelineError(classifyMessage(message), stage, message, intentHash);
+}
+
+/**
+ * Failure for a terminal "error" update from the relayer, which only says
+ * what went wrong; the stage is the last one it reported before that
+ */
+export function failureFromUpdate(message: string, lastStage: PipelineStage): PipelineFailure {
+  const kind = classifyMessage(message);
+  const stage = kind === "executionReverted" ? "executing" : lastStage === "error" || lastStage === "idle" ? "submitted" : lastStage;
+  return { kind, stage, detail: message };
+}
+
+/**
+ * Recovery the UI should offer. A retry is only useful while the signed
+ * intent is still inside its deadline; after that it has to be re-signed.
+ */
+export function recoveryFor(failure: PipelineFailure, deadline: bigint, nowMs: number = Date.now()): RecoveryAction {
+  const { recovery } = explainFailure(failure);
+  if (recovery === "retrySubmission" && deadline * BigInt(1000) <= BigInt(nowMs)) return "resign";
+  return recovery;
+}
@@ -0,0 +1,197 @@
+import { SigningKey, TypedDataEncoder, zeroPadBytes, type TypedDataDomain } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  computeProofDigest,
+  hashProofStruct,
+  parseExecutionProof,
+  recoverProofSigner,
+  verifyExecutionProof,
+  verifyProofOnHook,
+  type ProofCheckId,
+} from "./proof";
+import { HookReader } from "./hook";
+import { JsonRpcClient } from "./rpc";
+import { StandInHookRpc } from "./standInRpc";
+import type { ExecutionProof } from "./types";
+import { STAND_IN_TEE_SIGNER } from "./fixtures/enclaveKeys";
+import { PROOF_VECTOR } from "./fixtures/proofVectors";
+
+// Private key 0x..01, the iApp's TEE_SIGNER_ADDRESS
+const TEE_KEY = new SigningKey("0x" + "0".repeat(63) + "1");
+const DEV_ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const { domain, signed, proof } = PROOF_VECTOR;
+
+// What the hook's PROOF_TYPEHASH covers, in its field order
+const PROOF_TYPES = {
+  ExecutionProof: [
+    { name: "batchId", type: "bytes32" },
+    { name: "user", type: "address" },
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "amountOut", type: "uint256" },
+    { name: "clearingPrice", type: "uint256" },
+    { name: "intentHash", type: "bytes32" },
+    { name: "merkleRoot", type: "bytes32" },
+  ],
+};
+
+/**
+ * Apply changes and re-sign with the TEE key, so only the changed terms fail
+ */
+function resigned(changes: Partial<ExecutionProof>): ExecutionProof {
+  const unsigned = { ...proof, ...changes };
+  return { ...unsigned, teeSignature: TEE_KEY.sign(computeProofDigest(unsigned, domain)).serialized };
+}
+
+const failing = (data: unknown, teeSigner = STAND_IN_TEE_SIGNER, intent = signed): ProofCheckId[] =>
+  verifyExecutionProof(data, intent, teeSigner, domain)
+    .checks.filter((check) => !check.ok)
+    .map((check) => check.id);
+
+const check = (data: unknown, id: ProofCheckId) => verifyExecutionProof(data, signed, STAND_IN_TEE_SIGNER, domain).checks.find((c) => c.id === id);
+
+describe("proof digest", () => {
+  it("reproduces the struct hash", () => {
+    expect(hashProofStruct(proof)).toBe(PROOF_VECTOR.structHash);
+  });
+
+  it("reproduces the digest the hook's _verifyTEESignature recovers from", () => {
+    expect(computeProofDigest(proof, domain)).toBe(PROOF_VECTOR.digest);
+  });
+
+  it("agrees with ethers' typed-data encoder", () => {
+    const value = { ...proof, batchId: zeroPadBytes(proof.batchId, 32) };
+    expect(TypedDataEncoder.hash(domain as TypedDataDomain, PROOF_TYPES, value)).toBe(PROOF_VECTOR.digest);
+  });
+
+  it("signs deterministically with the TEE key", () => {
+    expect(TEE_KEY.sign(PROOF_VECTOR.digest).serialized).toBe(proof.teeSignature);
+    expect(recoverProofSigner(proof, domain)).toBe(STAND_IN_TEE_SIGNER);
+  });
+
+  it("ignores the fields the hook does not sign", () => {
+    const unsigned = { ...proof, timestamp: proof.timestamp + 1, mevSaved: "0", userSignature: PROOF_VECTOR.devKeySignature };
+    expect(computeProofDigest(unsigned, domain)).toBe(PROOF_VECTOR.digest);
+  });
+
+  it("is bound to the chain and the verifying contract", () => {
+    expect(computeProofDigest(proof, { ...domain, chainId: 8453 })).not.toBe(PROOF_VECTOR.digest);
+    expect(computeProofDigest(proof, { ...domain, verifyingContract: "0x5FbDB2315678afecb367f032d93F642f64180aa3" })).not.toBe(
+      PROOF_VECTOR.digest
+    );
+  });
+});
+
+describe("verifyExecutionProof", () => {
+  it("verifies the golden proof against its signed intent", () => {
+    const verification = verifyExecutionProof(proof, signed, STAND_IN_TEE_SIGNER, domain);
+    expect(verification.checks.map((c) => c.id)).toEqual(["schema", "teeSigner", "intentHash", "terms", "minAmountOut"]);
+    expect(verification).toMatchObject({ verified: true, proof });
+  });
+
+  it("rejects a proof signed by a key other than the registered teeSigner", () => {
+    expect(failing({ ...proof, teeSignature: PROOF_VECTOR.devKeySignature })).toEqual(["teeSigner"]);
+    expect(check({ ...proof, teeSignature: PROOF_VECTOR.devKeySignature }, "teeSigner")?.detail).toBe(
+      `Signed by ${DEV_ADDRESS}, hook expects ${STAND_IN_TEE_SIGNER}`
+    );
+  });
+
+  it("rejects a genuine TEE proof when the hook registered another signer", () => {
+    expect(failing(proof, DEV_ADDRESS)).toEqual(["teeSigner"]);
+  });
+
+  it("rejects terms changed after the TEE signed", () => {
+    expect(failing({ ...proof, amountOut: "1" + proof.amountOut })).toEqual(["teeSigner"]);
+  });
+
+  it("reports an unrecoverable signature", () => {
+    expect(check({ ...proof, teeSignature: "0x" + "00".repeat(65) }, "teeSigner")).toEqual({
+      id: "teeSigner",
+      ok: false,
+      detail: "TEE signature could not be recovered",
+    });
+  });
+
+  it("rejects a proof for a different intentHash", () => {
+    const other = "0x" + "ab".repeat(32);
+    expect(failing(resigned({ intentHash: other }))).toEqual(["intentHash"]);
+    expect(check(resigned({ intentHash: other }), "intentHash")?.detail).toBe(`Proof is for ${other}, not ${signed.intentHash}`);
+  });
+
+  it("rejects a proof checked against an intent other than the signed one", () => {
+    const intent = { ...signed.intent, nonce: signed.intent.nonce + BigInt(1) };
+    expect(failing(proof, STAND_IN_TEE_SIGNER, { ...signed, intent })).toEqual(["intentHash"]);
+  });
+
+  it.each<[string, Partial<ExecutionProof>]>([
+    ["another user", { user: "0x000000000000000000000000000000000000dEaD" }],
+    ["another tokenIn", { tokenIn: proof.tokenOut }],
+    ["another tokenOut", { tokenOut: proof.tokenIn }],
+    ["more than amountIn", { amountIn: (signed.intent.amountIn + BigInt(1)).toString() }],
+  ])("rejects %s", (_, changes) => {
+    expect(failing(resigned(changes))).toEqual(["terms"]);
+  });
+
+  it("accepts a partial fill of amountIn", () => {
+    expect(failing(resigned({ amountIn: (signed.intent.amountIn / BigInt(2)).toString() }))).toEqual([]);
+  });
+
+  it("rejects amountOut below minAmountOut, and only that", () => {
+    const below = (signed.intent.minAmountOut - BigInt(1)).toString();
+    expect(failing(resigned({ amountOut: below }))).toEqual(["minAmountOut"]);
+    expect(check(resigned({ amountOut: below }), "minAmountOut")?.detail).toBe(
+      `Output ${below} is below your minimum ${signed.intent.minAmountOut}`
+    );
+    expect(failing(resigned({ amountOut: signed.intent.minAmountOut.toString() }))).toEqual([]);
+  });
+
+  it.each<[string, unknown, string]>([
+    ["no object", "proof", "proof: expected object"],
+    ["an array", [proof], "proof: expected object"],
+    ["a missing field", { ...proof, merkleRoot: undefined }, "proof.merkleRoot: expected bytes32"],
+    ["a hex amount", { ...proof, amountOut: "0x10" }, "proof.amountOut: expected decimal integer string"],
+    ["a negative amount", { ...proof, amountIn: "-1" }, "proof.amountIn: expected decimal integer string"],
+    ["a short signature", { ...proof, teeSignature: "0x1234" }, "proof.teeSignature: expected 65-byte signature"],
+    ["a bad signer", { ...proof, teeSigner: "tee" }, "proof.teeSigner: expected address"],
+    ["a batch id over 32 bytes", { ...proof, batchId: "0x" + "11".repeat(33) }, "proof.batchId: expected hex of at most 32 bytes"],
+    ["timestamp in ms as a string", { ...proof, timestamp: "1767225060000" }, "proof.timestamp: expected unix seconds"],
+  ])("fails only the schema check for %s instead of throwing", (_, data, detail) => {
+    expect(verifyExecutionProof(data, signed, STAND_IN_TEE_SIGNER, domain)).toEqual({
+      verified: false,
+      checks: [{ id: "schema", ok: false, detail }],
+    });
+  });
+});
+
+describe("parseExecutionProof", () => {
+  it("keeps only the schema's fields", () => {
+    expect(parseExecutionProof({ ...proof, extra: "dropped" })).toEqual(proof);
+  });
+
+  it("names the path of a nested proof", () => {
+    expect(() => parseExecutionProof({ ...proof, intentHash: "0x12" }, "batch.executionProofs[2]")).toThrow(
+      "batch.executionProofs[2].intentHash: expected bytes32"
+    );
+  });
+});
+
+describe("verifyProofOnHook", () => {
+  it("checks against the signer the hook has registered", async () => {
+    const hook = (teeSigner?: string) => new HookReader(new JsonRpcClient(new StandInHookRpc(domain.chainId, teeSigner)), domain.verifyingContract);
+    expect((await verifyProofOnHook(proof, signed, hook(), domain)).verified).toBe(true);
+    expect((await verifyProofOnHook(proof, signed, hook(DEV_ADDRESS), domain)).verified).toBe(false);
+  });
+
+  it("fails the teeSigner check when the hook cannot be read", async () => {
+    const unreachable = new HookReader(
+      new JsonRpcClient({ request: () => Promise.reject(new Error("connection refused")) }),
+      domain.verifyingContract
+    );
+    expect(await verifyProofOnHook(proof, signed, unreachable, domain)).toEqual({
+      verified: false,
+      checks: [{ id: "teeSigner", ok: false, detail: "Could not read teeSigner from hook: connection refused" }],
+    });
+  });
+});
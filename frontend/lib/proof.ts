@@ -0,0 +1,268 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Execution Proof Schema & Verification                                        ║
+ * ║  Runtime validation of TEE output and client-side checks before trusting it   ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * proofDigest = keccak256("\x19\x01" || DOMAIN_SEPARATOR || keccak256(abi.encode(PROOF_TYPEHASH, ...)))
+ *
+ * Same digest as DarkPoolHookAgentic._verifyTEESignature, so a proof that
+ * verifies here is one the hook will accept once signature checks are enforced.
+ */
+
+import { AbiCoder, concat, getAddress, isAddress, isHexString, keccak256, recoverAddress, toUtf8Bytes, zeroPadBytes } from "ethers";
+import { buildIntentDomain, type IntentDomain } from "./eip712";
+import { computeDomainSeparator, computeIntentHash } from "./intentHash";
+import type { HookReader } from "./hook";
+import type { BatchResult, ExecutionProof, SignedIntent } from "./types";
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+export const PROOF_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "ExecutionProof(bytes32 batchId,address user,address tokenIn,address tokenOut,uint256 amountIn,uint256 amountOut,uint256 clearingPrice,bytes32 intentHash,bytes32 merkleRoot)"
+  )
+);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SCHEMA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class ProofSchemaError extends Error {
+  constructor(public field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "ProofSchemaError";
+  }
+}
+
+type Check = (value: unknown) => boolean;
+
+const isUintString: Check = (v) => typeof v === "string" && /^\d+$/.test(v);
+const isBytes32: Check = (v) => typeof v === "string" && isHexString(v, 32);
+const isShortBytes: Check = (v) => typeof v === "string" && isHexString(v, true) && v.length > 2 && v.length <= 66;
+const isSignature: Check = (v) => typeof v === "string" && isHexString(v, 65);
+const isAddressString: Check = (v) => typeof v === "string" && isAddress(v);
+const isNonNegativeInt: Check = (v) => Number.isSafeInteger(v) && (v as number) >= 0;
+
+const EXECUTION_PROOF_FIELDS: Record<keyof ExecutionProof, [Check, string]> = {
+  batchId: [isShortBytes, "expected hex of at most 32 bytes"],
+  timestamp: [isNonNegativeInt, "expected unix seconds"],
+  user: [isAddressString, "expected address"],
+  tokenIn: [isAddressString, "expected address"],
+  tokenOut: [isAddressString, "expected address"],
+  amountIn: [isUintString, "expected decimal integer string"],
+  amountOut: [isUintString, "expected decimal integer string"],
+  clearingPrice: [isUintString, "expected decimal integer string"],
+  intentHash: [isBytes32, "expected bytes32"],
+  userSignature: [isSignature, "expected 65-byte signature"],
+  teeSignature: [isSignature, "expected 65-byte signature"],
+  teeSigner: [isAddressString, "expected address"],
+  merkleRoot: [isBytes32, "expected bytes32"],
+  mevSaved: [isUintString, "expected decimal integer string"],
+};
+
+function requireObject(data: unknown, field: string): Record<string, unknown> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ProofSchemaError(field, "expected object");
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Validate untrusted JSON as an ExecutionProof; throws ProofSchemaError
+ */
+export function parseExecutionProof(data: unknown, path: string = "proof"): ExecutionProof {
+  const raw = requireObject(data, path);
+  for (const [field, [check, message]] of Object.entries(EXECUTION_PROOF_FIELDS)) {
+    if (!check(raw[field])) throw new ProofSchemaError(`${path}.${field}`, message);
+  }
+  const proof = {} as Record<string, unknown>;
+  for (const field of Object.keys(EXECUTION_PROOF_FIELDS)) proof[field] = raw[field];
+  return proof as unknown as ExecutionProof;
+}
+
+/**
+ * Validate untrusted JSON as the iApp's BatchResult; throws ProofSchemaError
+ */
+export function parseBatchResult(data: unknown): BatchResult {
+  const raw = requireObject(data, "batch");
+  if (raw.success !== true) throw new ProofSchemaError("batch.success", "batch did not succeed");
+  if (!isShortBytes(raw.batchId)) throw new ProofSchemaError("batch.batchId", "expected hex of at most 32 bytes");
+  for (const field of ["clearingPrice", "totalVolume", "totalMevSaved"]) {
+    if (!isUintString(raw[field])) throw new ProofSchemaError(`batch.${field}`, "expected decimal integer string");
+  }
+  if (!isNonNegativeInt(raw.processingTimeMs)) throw new ProofSchemaError("batch.processingTimeMs", "expected milliseconds");
+  if (!isBytes32(raw.enclaveMeasurement)) throw new ProofSchemaError("batch.enclaveMeasurement", "expected bytes32");
+  if (!Array.isArray(raw.executionProofs)) throw new ProofSchemaError("batch.executionProofs", "expected array");
+
+  const metadata = requireObject(raw.metadata, "batch.metadata");
+  for (const field of ["version", "app", "model"]) {
+    if (typeof metadata[field] !== "string") throw new ProofSchemaError(`batch.metadata.${field}`, "expected string");
+  }
+  if (!isNonNegativeInt(metadata.chainId)) throw new ProofSchemaError("batch.metadata.chainId", "expected chain id");
+
+  return {
+    success: true,
+    batchId: raw.batchId as string,
+    clearingPrice: raw.clearingPrice as string,
+    totalVolume: raw.totalVolume as string,
+    totalMevSaved: raw.totalMevSaved as string,
+    processingTimeMs: raw.processingTimeMs as number,
+    enclaveMeasurement: raw.enclaveMeasurement as string,
+    executionProofs: raw.executionProofs.map((p, i) => parseExecutionProof(p, `batch.executionProofs[${i}]`)),
+    metadata: {
+      version: metadata.version as string,
+      app: metadata.app as string,
+      model: metadata.model as string,
+      chainId: metadata.chainId as number,
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DIGEST
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * The iApp emits 8-byte batch ids; the relayer right-pads them to bytes32
+ */
+export function batchIdToBytes32(batchId: string): string {
+  return zeroPadBytes(batchId, 32);
+}
+
+export function hashProofStruct(proof: ExecutionProof): string {
+  return keccak256(
+    abiCoder.encode(
+      ["bytes32", "bytes32", "address", "address", "address", "uint256", "uint256", "uint256", "bytes32", "bytes32"],
+      [
+        PROOF_TYPEHASH,
+        batchIdToBytes32(proof.batchId),
+        proof.user,
+        proof.tokenIn,
+        proof.tokenOut,
+        BigInt(proof.amountIn),
+        BigInt(proof.amountOut),
+        BigInt(proof.clearingPrice),
+        proof.intentHash,
+        proof.merkleRoot,
+      ]
+    )
+  );
+}
+
+export function computeProofDigest(proof: ExecutionProof, domain: IntentDomain = buildIntentDomain()): string {
+  return keccak256(concat(["0x1901", computeDomainSeparator(domain), hashProofStruct(proof)]));
+}
+
+export function recoverProofSigner(proof: ExecutionProof, domain: IntentDomain = buildIntentDomain()): string {
+  return recoverAddress(computeProofDigest(proof, domain), proof.teeSignature);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              VERIFICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type ProofCheckId = "schema" | "teeSigner" | "intentHash" | "terms" | "minAmountOut";
+
+export interface ProofCheck {
+  id: ProofCheckId;
+  ok: boolean;
+  detail: string;
+}
+
+export interface ProofVerification {
+  verified: boolean;
+  checks: ProofCheck[];
+  proof?: ExecutionProof;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Check a relayer-supplied proof against what the user actually signed and the
+ * TEE signer registered on the hook. Never throws: failures become checks.
+ */
+export function verifyExecutionProof(
+  data: unknown,
+  signed: SignedIntent,
+  registeredTeeSigner: string,
+  domain: IntentDomain = buildIntentDomain()
+): ProofVerification {
+  let proof: ExecutionProof;
+  try {
+    proof = parseExecutionProof(data);
+  } catch (error) {
+    return {
+      verified: false,
+      checks: [{ id: "schema", ok: false, detail: error instanceof Error ? error.message : "Malformed proof" }],
+    };
+  }
+
+  const checks: ProofCheck[] = [{ id: "schema", ok: true, detail: "Proof is well-formed" }];
+  const { intent } = signed;
+
+  let recovered: string | null = null;
+  try {
+    recovered = getAddress(recoverProofSigner(proof, domain));
+  } catch (e) {
+    // Unrecoverable signature, reported below
+  }
+  checks.push(
+    recovered === null
+      ? { id: "teeSigner", ok: false, detail: "TEE signature could not be recovered" }
+      : sameAddress(recovered, registeredTeeSigner)
+      ? { id: "teeSigner", ok: true, detail: `Signed by registered TEE ${recovered}` }
+      : { id: "teeSigner", ok: false, detail: `Signed by ${recovered}, hook expects ${getAddress(registeredTeeSigner)}` }
+  );
+
+  const ownHash = computeIntentHash(intent, domain);
+  const hashOk = ownHash.toLowerCase() === signed.intentHash.toLowerCase() && ownHash.toLowerCase() === proof.intentHash.toLowerCase();
+  checks.push({
+    id: "intentHash",
+    ok: hashOk,
+    detail: hashOk ? "Proof references your signed intent" : `Proof is for ${proof.intentHash}, not ${ownHash}`,
+  });
+
+  const termsOk =
+    sameAddress(proof.user, intent.user) &&
+    sameAddress(proof.tokenIn, intent.tokenIn) &&
+    sameAddress(proof.tokenOut, intent.tokenOut) &&
+    BigInt(proof.amountIn) <= intent.amountIn;
+  checks.push({
+    id: "terms",
+    ok: termsOk,
+    detail: termsOk ? "User, tokens and amount match the intent" : "User, tokens or amount differ from the intent",
+  });
+
+  const minOk = BigInt(proof.amountOut) >= intent.minAmountOut;
+  checks.push({
+    id: "minAmountOut",
+    ok: minOk,
+    detail: minOk ? "Output meets your minimum" : `Output ${proof.amountOut} is below your minimum ${intent.minAmountOut}`,
+  });
+
+  return { verified: checks.every((c) => c.ok), checks, proof };
+}
+
+/**
+ * verifyExecutionProof against the signer currently registered on the hook
+ */
+export async function verifyProofOnHook(
+  data: unknown,
+  signed: SignedIntent,
+  hook: HookReader,
+  domain: IntentDomain = buildIntentDomain()
+): Promise<ProofVerification> {
+  let registered: string;
+  try {
+    registered = await hook.teeSigner();
+  } catch (error) {
+    return {
+      verified: false,
+      checks: [
+        { id: "teeSigner", ok: false, detail: `Could not read teeSigner from hook: ${error instanceof Error ? error.message : "Unknown"}` },
+      ],
+    };
+  }
+  return verifyExecutionProof(data, signed, registered, domain);
+}
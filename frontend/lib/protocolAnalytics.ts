@@ -0,0 +1,121 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Protocol Analytics                                                           ║
+ * ║  Aggregates over the indexed hook events                                      ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * PrivateOrderExecuted carries no token addresses, so amounts are summed as
+ * raw base units; like relayer.js, the page reads them as USDC (6 decimals).
+ * Timestamps come from the IntentVerified the hook emits in the same
+ * transaction.
+ */
+
+import type { HookEvent, OrderExecutedEvent } from "./eventIndexer";
+
+export interface BatchVolume {
+  batchId: string;
+  orders: number;
+  amountIn: bigint;
+  amountOut: bigint;
+  mevSaved: bigint;
+  firstBlock: number;
+  timestamp?: number; // unix seconds of the first fill
+}
+
+export interface ClearingPricePoint {
+  batchId: string;
+  blockNumber: number;
+  timestamp?: number;
+  clearingPrice: bigint; // 1e18-scaled, as in the proof
+}
+
+export interface FailureReason {
+  reason: string;
+  count: number;
+}
+
+export interface ProtocolTotals {
+  orders: number;
+  batches: number;
+  traders: number;
+  volumeIn: bigint;
+  mevSaved: bigint;
+  failures: number;
+}
+
+function executed(events: HookEvent[]): OrderExecutedEvent[] {
+  return events.filter((event): event is OrderExecutedEvent => event.kind === "executed");
+}
+
+/**
+ * block.timestamp per transaction, from IntentVerified
+ */
+function txTimestamps(events: HookEvent[]): Map<string, number> {
+  const timestamps = new Map<string, number>();
+  for (const event of events) {
+    if (event.kind === "verified") timestamps.set(event.txHash, event.timestamp);
+  }
+  return timestamps;
+}
+
+/**
+ * Oldest batch first
+ */
+export function volumeByBatch(events: HookEvent[]): BatchVolume[] {
+  const timestamps = txTimestamps(events);
+  const batches = new Map<string, BatchVolume>();
+  for (const event of executed(events)) {
+    const batch = batches.get(event.batchId) ?? {
+      batchId: event.batchId,
+      orders: 0,
+      amountIn: BigInt(0),
+      amountOut: BigInt(0),
+      mevSaved: BigInt(0),
+      firstBlock: event.blockNumber,
+      timestamp: timestamps.get(event.txHash),
+    };
+    batch.orders++;
+    batch.amountIn += BigInt(event.amountIn);
+    batch.amountOut += BigInt(event.amountOut);
+    batch.mevSaved += BigInt(event.mevSaved);
+    batches.set(event.batchId, batch);
+  }
+  return Array.from(batches.values()).sort((a, b) => a.firstBlock - b.firstBlock);
+}
+
+export function clearingPriceSeries(events: HookEvent[]): ClearingPricePoint[] {
+  const timestamps = txTimestamps(events);
+  return executed(events)
+    .map((event) => ({
+      batchId: event.batchId,
+      blockNumber: event.blockNumber,
+      timestamp: timestamps.get(event.txHash),
+      clearingPrice: BigInt(event.clearingPrice),
+    }))
+    .sort((a, b) => a.blockNumber - b.blockNumber);
+}
+
+/**
+ * Most frequent first
+ */
+export function failureReasons(events: HookEvent[]): FailureReason[] {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.kind === "failed") counts.set(event.reason, (counts.get(event.reason) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason));
+}
+
+export function protocolTotals(events: HookEvent[]): ProtocolTotals {
+  const fills = executed(events);
+  return {
+    orders: fills.length,
+    batches: new Set(fills.map((event) => event.batchId)).size,
+    traders: new Set(fills.map((event) => event.user.toLowerCase())).size,
+    volumeIn: fills.reduce((sum, event) => sum + BigInt(event.amountIn), BigInt(0)),
+    mevSaved: fills.reduce((sum, event) => sum + BigInt(event.mevSaved), BigInt(0)),
+    failures: events.filter((event) => event.kind === "failed").length,
+  };
+}
@@ -0,0 +1,168 @@
+import { Interface } from "ethers";
+import { describe, expect, it } from "vitest";
+import { pow10 } from "./amount";
+import { isQuoteStale, StaticQuoteProvider, UniswapV4QuoteProvider, unitPrice, type Quote } from "./quotes";
+import { JsonRpcClient, RpcError, type RpcTransport } from "./rpc";
+import type { Token } from "./types";
+import { FIXTURE_USD_PRICES } from "./fixtures/prices";
+
+const CHAIN_ID = 84532;
+const QUOTER = "0x4a6513c898fe1b2d0e78d3b0e0a4a151589b1cba";
+const HOOK = "0x00000000000000000000000000000000000000C0";
+
+const token = (symbol: string, address: string, decimals: number): Token => ({ chainId: CHAIN_ID, address, symbol, name: symbol, decimals, icon: "" });
+
+// USDC sorts below WETH, so it is currency0 of the pool
+const USDC = token("USDC", "0x036CbD53842c5426634e7929541eC2318f3dCF7e", 6);
+const WETH = token("WETH", "0x4200000000000000000000000000000000000006", 18);
+const WBTC = token("WBTC", "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", 8);
+const UNPRICED = token("DAI", "0x00000000000000000000000000000000000000D0", 18);
+
+const ETH_AMOUNT = (whole: number) => BigInt(whole) * pow10(18);
+
+const quoter = new Interface([
+  "function quoteExactInputSingle(((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) returns (uint256 amountOut, uint256 gasEstimate)",
+]);
+
+interface QuoterCall {
+  to: string;
+  currency0: string;
+  currency1: string;
+  fee: bigint;
+  tickSpacing: bigint;
+  hooks: string;
+  zeroForOne: boolean;
+  exactAmount: bigint;
+}
+
+/**
+ * A v4 Quoter over one constant-product USDC/WETH pool: 2.6M USDC against
+ * 1000 WETH, no fee
+ */
+class FakeQuoterRpc implements RpcTransport {
+  readonly calls: QuoterCall[] = [];
+  reserve0 = BigInt(2_600_000) * pow10(6);
+  reserve1 = ETH_AMOUNT(1000);
+
+  async request(method: string, params: unknown[]): Promise<unknown> {
+    if (method !== "eth_call") throw new RpcError(`Method not supported: ${method}`, -32601);
+    const { to, data } = params[0] as { to: string; data: string };
+    const [{ poolKey, zeroForOne, exactAmount }] = quoter.decodeFunctionData("quoteExactInputSingle", data);
+    this.calls.push({
+      to,
+      currency0: poolKey.currency0,
+      currency1: poolKey.currency1,
+      fee: poolKey.fee,
+      tickSpacing: poolKey.tickSpacing,
+      hooks: poolKey.hooks,
+      zeroForOne,
+      exactAmount,
+    });
+    const [reserveIn, reserveOut] = zeroForOne ? [this.reserve0, this.reserve1] : [this.reserve1, this.reserve0];
+    const amountOut = (reserveOut * exactAmount) / (reserveIn + exactAmount);
+    return quoter.encodeFunctionResult("quoteExactInputSingle", [amountOut, BigInt(120000)]);
+  }
+}
+
+function setup() {
+  const rpc = new FakeQuoterRpc();
+  const provider = new UniswapV4QuoteProvider(new JsonRpcClient(rpc), QUOTER, HOOK, 3000, 60);
+  return { rpc, provider };
+}
+
+const quote = (amountIn: bigint, amountOut: bigint, timestamp = 0): Quote => ({
+  tokenIn: WETH.address,
+  tokenOut: USDC.address,
+  amountIn,
+  amountOut,
+  priceImpactBps: 0,
+  source: "test",
+  timestamp,
+});
+
+describe("StaticQuoteProvider", () => {
+  const provider = new StaticQuoteProvider(FIXTURE_USD_PRICES);
+
+  it("converts at the fixture USD prices across decimals", async () => {
+    const result = await provider.getQuote({ tokenIn: WETH, tokenOut: USDC, amountIn: ETH_AMOUNT(2) });
+    expect(result).toMatchObject({ tokenIn: WETH.address, tokenOut: USDC.address, amountOut: BigInt(5_196_840_000), priceImpactBps: 0, source: "static" });
+  });
+
+  it("rounds down into a token with fewer decimals", async () => {
+    const result = await provider.getQuote({ tokenIn: WETH, tokenOut: WBTC, amountIn: ETH_AMOUNT(1) });
+    // 2598.42 / 67250 = 0.0386382156... WBTC, truncated to 8 decimals
+    expect(result.amountOut).toBe(BigInt(3_863_821));
+  });
+
+  it("refuses a token without a fixture price", async () => {
+    await expect(provider.getQuote({ tokenIn: UNPRICED, tokenOut: USDC, amountIn: ETH_AMOUNT(1) })).rejects.toThrow("No static price for DAI");
+    await expect(provider.getQuote({ tokenIn: WETH, tokenOut: UNPRICED, amountIn: ETH_AMOUNT(1) })).rejects.toThrow("No static price for DAI");
+  });
+});
+
+describe("UniswapV4QuoteProvider", () => {
+  it("quotes the hooked pool through the configured quoter", async () => {
+    const { rpc, provider } = setup();
+    await provider.getQuote({ tokenIn: WETH, tokenOut: USDC, amountIn: ETH_AMOUNT(10) });
+    expect(rpc.calls).toHaveLength(2);
+    for (const call of rpc.calls) {
+      expect(call).toMatchObject({ to: QUOTER, currency0: USDC.address, currency1: WETH.address, fee: BigInt(3000), tickSpacing: BigInt(60), hooks: HOOK });
+    }
+  });
+
+  it("orders the pool key by address and sets zeroForOne from the direction", async () => {
+    const { rpc, provider } = setup();
+    await provider.getQuote({ tokenIn: WETH, tokenOut: USDC, amountIn: ETH_AMOUNT(1) });
+    await provider.getQuote({ tokenIn: USDC, tokenOut: WETH, amountIn: BigInt(1_000_000) });
+    expect(rpc.calls.map((call) => [call.currency0, call.currency1, call.zeroForOne])).toEqual([
+      [USDC.address, WETH.address, false],
+      [USDC.address, WETH.address, false],
+      [USDC.address, WETH.address, true],
+      [USDC.address, WETH.address, true],
+    ]);
+  });
+
+  it("decodes the quoted output and prices impact against a 1/1000 reference trade", async () => {
+    const { rpc, provider } = setup();
+    const amountIn = ETH_AMOUNT(10);
+    const result = await provider.getQuote({ tokenIn: WETH, tokenOut: USDC, amountIn });
+
+    const expectedOut = (rpc.reserve0 * amountIn) / (rpc.reserve1 + amountIn);
+    expect(rpc.calls.map((call) => call.exactAmount)).toEqual([amountIn, amountIn / BigInt(1000)]);
+    expect(result).toMatchObject({ tokenIn: WETH.address, tokenOut: USDC.address, amountIn, amountOut: expectedOut, source: "uniswap-v4" });
+    // 10 WETH against 1000 in the pool moves the price about 1%
+    expect(result.priceImpactBps).toBe(98);
+  });
+
+  it("reports no impact for amounts too small to move the pool", async () => {
+    const { rpc, provider } = setup();
+    const result = await provider.getQuote({ tokenIn: WETH, tokenOut: USDC, amountIn: BigInt(999) });
+    expect(rpc.calls[1].exactAmount).toBe(BigInt(1));
+    expect(result.priceImpactBps).toBe(0);
+  });
+
+  it("passes RPC failures through", async () => {
+    const failing: RpcTransport = { request: () => Promise.reject(new RpcError("execution reverted", 3)) };
+    const provider = new UniswapV4QuoteProvider(new JsonRpcClient(failing), QUOTER, HOOK, 3000, 60);
+    await expect(provider.getQuote({ tokenIn: WETH, tokenOut: USDC, amountIn: ETH_AMOUNT(1) })).rejects.toThrow("execution reverted");
+  });
+});
+
+describe("unitPrice", () => {
+  it("gives tokenOut base units per whole tokenIn", () => {
+    expect(unitPrice(quote(ETH_AMOUNT(2), BigInt(5_196_840_000)), 18)).toBe(BigInt(2_598_420_000));
+    expect(unitPrice({ ...quote(BigInt(1_000_000), BigInt("384849987300000")), tokenIn: USDC.address }, 6)).toBe(BigInt("384849987300000"));
+  });
+
+  it("is zero for a zero-amount quote", () => {
+    expect(unitPrice(quote(BigInt(0), BigInt(0)), 18)).toBe(BigInt(0));
+  });
+});
+
+describe("isQuoteStale", () => {
+  it("goes stale only past the allowed age", () => {
+    const fresh = quote(ETH_AMOUNT(1), BigInt(1), 10_000);
+    expect(isQuoteStale(fresh, 40_000, 30_000)).toBe(false);
+    expect(isQuoteStale(fresh, 40_001, 30_000)).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Price Quoting                                                                ║
+ * ║  Indicative output, price and impact for a tokenIn/tokenOut/amountIn triple   ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Quotes are indicative only: the TEE clears the batch at a uniform price. They
+ * feed the "You receive" estimate and the minAmountOut floor.
+ */
+
+import { Interface } from "ethers";
+import { pow10 } from "./amount";
+import { CONFIG } from "./config";
+import { NETWORK } from "./networks";
+import type { JsonRpcClient } from "./rpc";
+import type { Token } from "./types";
+
+export interface QuoteRequest {
+  tokenIn: Token;
+  tokenOut: Token;
+  amountIn: bigint;
+}
+
+export interface Quote {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  priceImpactBps: number;
+  source: string;
+  timestamp: number; // ms
+}
+
+export interface QuoteProvider {
+  id: string;
+  getQuote(request: QuoteRequest): Promise<Quote>;
+}
+
+/**
+ * tokenOut base units received per one whole tokenIn
+ */
+export function unitPrice(quote: Quote, tokenInDecimals: number): bigint {
+  if (quote.amountIn === BigInt(0)) return BigInt(0);
+  return (quote.amountOut * pow10(tokenInDecimals)) / quote.amountIn;
+}
+
+export function isQuoteStale(quote: Quote, now: number = Date.now(), staleMs: number = CONFIG.QUOTE_STALE_MS): boolean {
+  return now - quote.timestamp > staleMs;
+}
+
+function impactBps(spotOut: bigint, actualOut: bigint): number {
+  if (spotOut <= BigInt(0) || actualOut >= spotOut) return 0;
+  return Number(((spotOut - actualOut) * BigInt(10000)) / spotOut);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              USD SIZING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Order sizes in USD are read off a quote into USDC, taken at $1
+export const USD_REFERENCE_SYMBOL = "USDC";
+
+/**
+ * The listed USDC on chainId; imported tokens can claim any symbol
+ */
+export function findUsdReference(known: Token[], chainId: number): Token | undefined {
+  return known.find((token) => token.chainId === chainId && !token.custom && token.symbol === USD_REFERENCE_SYMBOL);
+}
+
+/**
+ * USD value (6-decimal fixed point) of amountIn of tokenIn: face value for
+ * USDC itself, otherwise the output of a fresh quote for exactly that amount
+ * into USDC. undefined when neither is available.
+ */
+export function usdValue(tokenIn: Token, amountIn: bigint, usd: Token | undefined, usdQuote?: Quote | null): bigint | undefined {
+  if (!usd) return undefined;
+  const toUsd6 = (amount: bigint) => (amount * pow10(6)) / pow10(usd.decimals);
+  if (tokenIn.address.toLowerCase() === usd.address.toLowerCase()) return toUsd6(amountIn);
+  if (
+    !usdQuote ||
+    usdQuote.amountIn !== amountIn ||
+    usdQuote.tokenIn.toLowerCase() !== tokenIn.address.toLowerCase() ||
+    usdQuote.tokenOut.toLowerCase() !== usd.address.toLowerCase()
+  ) {
+    return undefined;
+  }
+  return toUsd6(usdQuote.amountOut);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              STATIC / FIXTURE SOURCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Prices from a fixed USD table (6-decimal fixed point, keyed by lowercase
+ * address). Deterministic and offline; impact is always zero.
+ */
+export class StaticQuoteProvider implements QuoteProvider {
+  id = "static";
+
+  constructor(private usdPrices: Record<string, bigint>) {}
+
+  async getQuote({ tokenIn, tokenOut, amountIn }: QuoteRequest): Promise<Quote> {
+    const priceIn = this.usdPrices[tokenIn.address.toLowerCase()];
+    const priceOut = this.usdPrices[tokenOut.address.toLowerCase()];
+    if (!priceIn || !priceOut) {
+      throw new Error(`No static price for ${!priceIn ? tokenIn.symbol : tokenOut.symbol}`);
+    }
+
+    const amountOut = (amountIn * priceIn * pow10(tokenOut.decimals)) / (priceOut * pow10(tokenIn.decimals));
+
+    return {
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      amountIn,
+      amountOut,
+      priceImpactBps: 0,
+      source: this.id,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              UNISWAP V4 QUOTER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const V4_QUOTER_ABI = [
+  "function quoteExactInputSingle(((address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) returns (uint256 amountOut, uint256 gasEstimate)",
+];
+
+const quoterInterface = new Interface(V4_QUOTER_ABI);
+
+// Reference trade used to approximate the spot price for impact
+const SPOT_REFERENCE_DIVISOR = BigInt(1000);
+
+/**
+ * Reads the hooked pool through the v4 Quoter via eth_call
+ */
+export class UniswapV4QuoteProvider implements QuoteProvider {
+  id = "uniswap-v4";
+
+  constructor(
+    private rpc: JsonRpcClient,
+    private quoter: string = NETWORK.contracts.v4Quoter,
+    private hook: string = NETWORK.contracts.hook,
+    private fee: number = NETWORK.pool.fee,
+    private tickSpacing: number = NETWORK.pool.tickSpacing
+  ) {}
+
+  async getQuote({ tokenIn, tokenOut, amountIn }: QuoteRequest): Promise<Quote> {
+    const reference = amountIn / SPOT_REFERENCE_DIVISOR || BigInt(1);
+    const [amountOut, referenceOut] = await Promise.all([
+      this.quoteExactIn(tokenIn.address, tokenOut.address, amountIn),
+      this.quoteExactIn(tokenIn.address, tokenOut.address, reference),
+    ]);
+    const spotOut = (referenceOut * amountIn) / reference;
+
+    return {
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      amountIn,
+      amountOut,
+      priceImpactBps: impactBps(spotOut, amountOut),
+      source: this.id,
+      timestamp: Date.now(),
+    };
+  }
+
+  private async quoteExactIn(tokenIn: string, tokenOut: string, amount: bigint): Promise<bigint> {
+    const zeroForOne = tokenIn.toLowerCase() < tokenOut.toLowerCase();
+    const [currency0, currency1] = zeroForOne ? [tokenIn, tokenOut] : [tokenOut, tokenIn];
+    const data = quoterInterface.encodeFunctionData("quoteExactInputSingle", [
+      {
+        poolKey: { currency0, currency1, fee: this.fee, tickSpacing: this.tickSpacing, hooks: this.hook },
+        zeroForOne,
+        exactAmount: amount,
+        hookData: "0x",
+      },
+    ]);
+    const raw = await this.rpc.call(this.quoter, data);
+    const [amountOut] = quoterInterface.decodeFunctionResult("quoteExactInputSingle", raw);
+    return amountOut as bigint;
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { backoffDelay, gapToLogEntry, parseLogEvent, parseLogGap, RelayerLogBuffer, type RelayerLogEvent } from "./relayerLogs";
+
+const NOW = 1767225000000;
+const HASH_A = "0x378c765382e143b8f4b67e95fedf6a06d17135b77043216ccace0da6252ae12d";
+const HASH_B = "0x" + "ab".repeat(32);
+
+/**
+ * A buffer on a fixed clock with `count` events published, a second apart
+ */
+function buffered(count: number, capacity = 5) {
+  let now = NOW;
+  const buffer = new RelayerLogBuffer(capacity, () => (now += 1000));
+  for (let i = 0; i < count; i++) buffer.publish("info", `event ${i + 1}`, i % 2 === 0 ? HASH_A : undefined);
+  return buffer;
+}
+
+const seqs = (events: RelayerLogEvent[]) => events.map((e) => e.seq);
+
+describe("RelayerLogBuffer", () => {
+  it("numbers events from 1 and stamps them from the injected clock", () => {
+    const buffer = buffered(2);
+    expect(buffer.latestSeq).toBe(2);
+    expect(buffer.replay(0).events).toEqual([
+      { seq: 1, timestamp: NOW + 1000, level: "info", message: "event 1", intentHash: HASH_A },
+      { seq: 2, timestamp: NOW + 2000, level: "info", message: "event 2" },
+    ]);
+  });
+
+  it("replays what came after since, without a gap while nothing was evicted", () => {
+    const buffer = buffered(5);
+    expect(buffer.replay(3)).toEqual({ events: buffer.replay(0).events.slice(3), gap: null });
+    expect(buffer.replay(5)).toEqual({ events: [], gap: null });
+  });
+
+  it("counts the events evicted since the client's last seq", () => {
+    // Capacity 5 keeps seq 4-8
+    const buffer = buffered(8);
+    expect(buffer.replay(0)).toMatchObject({ gap: { afterSeq: 0, missed: 3 } });
+    expect(buffer.replay(1)).toMatchObject({ gap: { afterSeq: 1, missed: 2 } });
+    expect(seqs(buffer.replay(2).events)).toEqual([4, 5, 6, 7, 8]);
+    expect(buffer.replay(3).gap).toBeNull();
+  });
+
+  it("reports an unknown count and replays everything after a relayer restart", () => {
+    const buffer = buffered(3);
+    const { events, gap } = buffer.replay(40);
+    expect(gap).toEqual({ afterSeq: 40, missed: null });
+    expect(seqs(events)).toEqual([1, 2, 3]);
+  });
+
+  it("filters the replay to one intent, case-insensitively", () => {
+    const buffer = buffered(5);
+    expect(seqs(buffer.replay(0, HASH_A.toUpperCase().replace("0X", "0x")).events)).toEqual([1, 3, 5]);
+    expect(buffer.replay(0, HASH_B).events).toEqual([]);
+  });
+
+  it("delivers each published event to subscribers until they unsubscribe", () => {
+    const buffer = buffered(0);
+    const received: number[] = [];
+    const unsubscribe = buffer.subscribe((event) => received.push(event.seq));
+    buffer.publish("success", "first");
+    unsubscribe();
+    buffer.publish("success", "second");
+    expect(received).toEqual([1]);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles the ceiling per attempt up to the maximum", () => {
+    const top = () => 0.999999;
+    expect([0, 1, 2, 3, 4, 10].map((attempt) => backoffDelay(attempt, 1000, 10000, top))).toEqual([1000, 1999, 3999, 7999, 9999, 9999]);
+  });
+
+  it("never waits less than the minimum", () => {
+    expect(backoffDelay(0, 1000, 10000, () => 0)).toBe(1000);
+    expect(backoffDelay(5, 1000, 10000, () => 0)).toBe(1000);
+    expect(backoffDelay(3, 1000, 10000, () => 0.5)).toBe(4000);
+  });
+
+  it("stays within [min, max] for any draw", () => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      for (const draw of [0, 0.25, 0.5, 0.75, 0.999999]) {
+        const delay = backoffDelay(attempt, 500, 30000, () => draw);
+        expect(delay).toBeGreaterThanOrEqual(500);
+        expect(delay).toBeLessThanOrEqual(30000);
+      }
+    }
+  });
+});
+
+describe("parseLogEvent", () => {
+  const event = { seq: 7, timestamp: NOW, level: "warning", message: "Intent expired", intentHash: HASH_A };
+
+  it("accepts an event with or without an intentHash", () => {
+    expect(parseLogEvent(event)).toEqual(event);
+    expect(parseLogEvent({ ...event, intentHash: undefined })).toEqual({ ...event, intentHash: undefined });
+  });
+
+  it("drops fields it does not know", () => {
+    expect(parseLogEvent({ ...event, extra: true })).toEqual(event);
+  });
+
+  it.each<[string, unknown]>([
+    ["null", null],
+    ["a string", "log"],
+    ["a fractional seq", { ...event, seq: 1.5 }],
+    ["a seq as a string", { ...event, seq: "7" }],
+    ["a timestamp as a string", { ...event, timestamp: "now" }],
+    ["an unknown level", { ...event, level: "debug" }],
+    ["a missing message", { ...event, message: undefined }],
+    ["a numeric intentHash", { ...event, intentHash: 1 }],
+  ])("rejects %s", (_, data) => {
+    expect(parseLogEvent(data)).toBeNull();
+  });
+});
+
+describe("parseLogGap", () => {
+  it("accepts a counted gap and a restart", () => {
+    expect(parseLogGap({ afterSeq: 4, missed: 2 })).toEqual({ afterSeq: 4, missed: 2 });
+    expect(parseLogGap({ afterSeq: 4, missed: null })).toEqual({ afterSeq: 4, missed: null });
+  });
+
+  it.each<[string, unknown]>([
+    ["null", null],
+    ["a missing afterSeq", { missed: 2 }],
+    ["a fractional afterSeq", { afterSeq: 0.5, missed: 2 }],
+    ["a missing count", { afterSeq: 4 }],
+    ["a count as a string", { afterSeq: 4, missed: "2" }],
+  ])("rejects %s", (_, data) => {
+    expect(parseLogGap(data)).toBeNull();
+  });
+});
+
+describe("gapToLogEntry", () => {
+  it("says how many events were missed, or that the relayer restarted", () => {
+    expect(gapToLogEntry({ afterSeq: 4, missed: 1 }, 1, NOW).message).toBe("Reconnected, 1 relayer event missed");
+    expect(gapToLogEntry({ afterSeq: 4, missed: 3 }, 1, NOW).message).toBe("Reconnected, 3 relayer events missed");
+    expect(gapToLogEntry({ afterSeq: 4, missed: null }, 1, NOW)).toMatchObject({
+      message: "Relayer restarted while disconnected, earlier events unavailable",
+      type: "warning",
+      gap: true,
+    });
+  });
+});
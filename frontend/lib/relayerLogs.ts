@@ -0,0 +1,268 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Relayer Log Stream                                                           ║
+ * ║  Typed log events from the relayer agent, delivered over Server-Sent Events   ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Wire format (same as relayer/relayer.js):
+ *   event: ready  data: { latestSeq }       (first frame on every connection)
+ *   event: gap    data: RelayerLogGap       (when resuming past evicted events)
+ *   event: log    data: RelayerLogEvent     (id: seq)
+ *
+ * seq is strictly increasing per relayer process, so a client resumes with
+ * ?since=<last seq> and learns from the gap event what it missed.
+ */
+
+import { CONFIG } from "./config";
+import { NETWORK } from "./networks";
+import type { LogEntry, LogLevel } from "./types";
+
+export interface RelayerLogEvent {
+  seq: number;
+  timestamp: number; // ms
+  level: LogLevel;
+  message: string;
+  intentHash?: string;
+}
+
+/**
+ * missed is null when the relayer restarted and the count is unknown
+ */
+export interface RelayerLogGap {
+  afterSeq: number;
+  missed: number | null;
+}
+
+export type LogStreamState = "connecting" | "open" | "reconnecting" | "closed";
+
+const LOG_LEVELS: LogLevel[] = ["info", "success", "warning", "error", "system", "agent"];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              EVENTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function parseLogEvent(data: unknown): RelayerLogEvent | null {
+  if (typeof data !== "object" || data === null) return null;
+  const e = data as Record<string, unknown>;
+  if (
+    !Number.isSafeInteger(e.seq) ||
+    typeof e.timestamp !== "number" ||
+    !LOG_LEVELS.includes(e.level as LogLevel) ||
+    typeof e.message !== "string" ||
+    (e.intentHash !== undefined && typeof e.intentHash !== "string")
+  ) {
+    return null;
+  }
+  return {
+    seq: e.seq as number,
+    timestamp: e.timestamp,
+    level: e.level as LogLevel,
+    message: e.message,
+    intentHash: e.intentHash as string | undefined,
+  };
+}
+
+export function parseLogGap(data: unknown): RelayerLogGap | null {
+  if (typeof data !== "object" || data === null) return null;
+  const g = data as Record<string, unknown>;
+  if (!Number.isSafeInteger(g.afterSeq) || (g.missed !== null && !Number.isSafeInteger(g.missed))) return null;
+  return { afterSeq: g.afterSeq as number, missed: g.missed as number | null };
+}
+
+export function matchesIntent(entry: { intentHash?: string }, intentHash?: string): boolean {
+  return !intentHash || entry.intentHash?.toLowerCase() === intentHash.toLowerCase();
+}
+
+/**
+ * Short label that tells concurrent intents apart in the console
+ */
+export function intentTag(intentHash: string): string {
+  return `#${intentHash.slice(2, 6).toLowerCase()}`;
+}
+
+export function formatLogTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString("en-US", { hour12: false });
+}
+
+export function toLogEntry(event: RelayerLogEvent, id: number): LogEntry {
+  return {
+    id,
+    timestamp: formatLogTime(event.timestamp),
+    message: event.message,
+    type: event.level,
+    intentHash: event.intentHash,
+    source: "relayer",
+    relayerSeq: event.seq,
+  };
+}
+
+export function gapToLogEntry(gap: RelayerLogGap, id: number, now: number = Date.now()): LogEntry {
+  return {
+    id,
+    timestamp: formatLogTime(now),
+    message:
+      gap.missed === null
+        ? "Relayer restarted while disconnected, earlier events unavailable"
+        : `Reconnected, ${gap.missed} relayer event${gap.missed === 1 ? "" : "s"} missed`,
+    type: "warning",
+    source: "relayer",
+    gap: true,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SERVER-SIDE BUFFER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Ring buffer behind an SSE endpoint, mirroring LogEventBus in relayer.js
+ */
+export class RelayerLogBuffer {
+  private events: RelayerLogEvent[] = [];
+  private nextSeq = 1;
+  private listeners = new Set<(event: RelayerLogEvent) => void>();
+
+  constructor(private capacity: number = 500, private now: () => number = Date.now) {}
+
+  publish(level: LogLevel, message: string, intentHash?: string): RelayerLogEvent {
+    const event: RelayerLogEvent = { seq: this.nextSeq++, timestamp: this.now(), level, message };
+    if (intentHash) event.intentHash = intentHash;
+
+    this.events.push(event);
+    if (this.events.length > this.capacity) this.events.shift();
+
+    this.listeners.forEach((listener) => listener(event));
+    return event;
+  }
+
+  replay(since: number, intentHash?: string): { events: RelayerLogEvent[]; gap: RelayerLogGap | null } {
+    const latest = this.nextSeq - 1;
+    let gap: RelayerLogGap | null = null;
+    if (since > latest) {
+      // Client saw a previous process: replay everything this one has
+      gap = { afterSeq: since, missed: null };
+      since = 0;
+    } else if (this.events.length > 0 && this.events[0].seq > since + 1) {
+      gap = { afterSeq: since, missed: this.events[0].seq - since - 1 };
+    }
+    const events = this.events.filter((e) => e.seq > since && matchesIntent(e, intentHash));
+    return { events, gap };
+  }
+
+  get latestSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  subscribe(listener: (event: RelayerLogEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CLIENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface LogStreamHandlers {
+  onEvent(event: RelayerLogEvent): void;
+  onGap?(gap: RelayerLogGap): void;
+  onStateChange?(state: LogStreamState): void;
+}
+
+export interface LogStreamOptions {
+  intentHash?: string;
+  minBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+/**
+ * Exponential backoff with jitter, in [min, min(max, min * 2^attempt))
+ */
+export function backoffDelay(attempt: number, minMs: number, maxMs: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxMs, minMs * 2 ** attempt);
+  return Math.max(minMs, Math.floor(random() * ceiling));
+}
+
+/**
+ * Owns reconnection instead of EventSource's built-in retry so the delay backs
+ * off and every reconnect resumes from the last seq seen.
+ */
+export class RelayerLogStream {
+  private minBackoffMs: number;
+  private maxBackoffMs: number;
+
+  constructor(private url: string = NETWORK.relayer.logsUrl, private options: LogStreamOptions = {}) {
+    this.minBackoffMs = options.minBackoffMs ?? CONFIG.LOG_RECONNECT_MIN_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? CONFIG.LOG_RECONNECT_MAX_MS;
+  }
+
+  connect(handlers: LogStreamHandlers): () => void {
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let lastSeq: number | undefined;
+    let closed = false;
+
+    const open = () => {
+      handlers.onStateChange?.(lastSeq === undefined && attempt === 0 ? "connecting" : "reconnecting");
+      source = new EventSource(this.buildUrl(lastSeq));
+
+      source.onopen = () => {
+        attempt = 0;
+        handlers.onStateChange?.("open");
+      };
+
+      source.addEventListener("ready", (message) => {
+        const ready = safeJson((message as MessageEvent).data) as { latestSeq?: unknown } | null;
+        if (lastSeq === undefined && Number.isSafeInteger(ready?.latestSeq)) lastSeq = ready!.latestSeq as number;
+      });
+
+      source.addEventListener("log", (message) => {
+        const event = parseLogEvent(safeJson((message as MessageEvent).data));
+        if (!event || (lastSeq !== undefined && event.seq <= lastSeq)) return;
+        lastSeq = event.seq;
+        handlers.onEvent(event);
+      });
+
+      source.addEventListener("gap", (message) => {
+        const gap = parseLogGap(safeJson((message as MessageEvent).data));
+        if (!gap) return;
+        // The relayer restarted: its seq numbering starts over
+        if (gap.missed === null) lastSeq = 0;
+        handlers.onGap?.(gap);
+      });
+
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (closed) return;
+        handlers.onStateChange?.("reconnecting");
+        timer = setTimeout(open, backoffDelay(attempt++, this.minBackoffMs, this.maxBackoffMs));
+      };
+    };
+
+    open();
+    return () => {
+      closed = true;
+      clearTimeout(timer);
+      source?.close();
+      handlers.onStateChange?.("closed");
+    };
+  }
+
+  private buildUrl(since: number | undefined): string {
+    const params = new URLSearchParams();
+    if (this.options.intentHash) params.set("intentHash", this.options.intentHash);
+    if (since !== undefined) params.set("since", since.toString());
+    const query = params.toString();
+    return query ? `${this.url}${this.url.includes("?") ? "&" : "?"}${query}` : this.url;
+  }
+}
+
+function safeJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return null;
+  }
+}
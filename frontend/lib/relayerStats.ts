@@ -0,0 +1,193 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Relayer Stats                                                                ║
+ * ║  Operator view of RelayerAgent.stats, served on GET /stats                    ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * relayer.js snapshot() serializes bigints as decimal strings: gas in wei,
+ * MEV saved in USDC base units. Liveness comes from the agent's last monitor
+ * loop, measured against the relayer's own clock so browser skew doesn't
+ * read as downtime.
+ */
+
+import { NETWORK } from "./networks";
+
+export interface MevSample {
+  timestamp: number; // ms
+  intentHash: string;
+  mevSaved: bigint;
+}
+
+export interface RelayerStats {
+  relayer: string;
+  chainId: number;
+  running: boolean;
+  startedAt: number; // ms
+  lastLoopAt: number | null;
+  lastExecutionAt: number | null;
+  serverTime: number;
+  pollIntervalMs: number;
+  proofsProcessed: number;
+  successfulExecutions: number;
+  failedExecutions: number;
+  totalGasSpent: bigint;
+  totalMevSaved: bigint;
+  queueDepth: number;
+  wallet: {
+    balance: bigint | null; // null when the relayer couldn't reach its RPC
+    lowBalance: bigint;
+    criticalBalance: bigint;
+  };
+  mevSeries: MevSample[];
+}
+
+export class RelayerStatsSchemaError extends Error {
+  constructor(public field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = "RelayerStatsSchemaError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              SCHEMA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function count(value: unknown, field: string): number {
+  if (!Number.isSafeInteger(value) || (value as number) < 0) throw new RelayerStatsSchemaError(field, "expected count");
+  return value as number;
+}
+
+function time(value: unknown, field: string): number {
+  if (!Number.isSafeInteger(value) || (value as number) < 0) throw new RelayerStatsSchemaError(field, "expected ms timestamp");
+  return value as number;
+}
+
+function optionalTime(value: unknown, field: string): number | null {
+  return value === null || value === undefined ? null : time(value, field);
+}
+
+function wei(value: unknown, field: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) throw new RelayerStatsSchemaError(field, "expected decimal string");
+  return BigInt(value);
+}
+
+/**
+ * Validate untrusted JSON from GET /stats; throws RelayerStatsSchemaError
+ */
+export function parseRelayerStats(data: unknown): RelayerStats {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new RelayerStatsSchemaError("stats", "expected object");
+  }
+  const s = data as Record<string, unknown>;
+  if (typeof s.relayer !== "string") throw new RelayerStatsSchemaError("stats.relayer", "expected address");
+  if (typeof s.running !== "boolean") throw new RelayerStatsSchemaError("stats.running", "expected boolean");
+  if (typeof s.wallet !== "object" || s.wallet === null) throw new RelayerStatsSchemaError("stats.wallet", "expected object");
+  if (!Array.isArray(s.mevSeries)) throw new RelayerStatsSchemaError("stats.mevSeries", "expected array");
+  const w = s.wallet as Record<string, unknown>;
+
+  return {
+    relayer: s.relayer,
+    chainId: count(s.chainId, "stats.chainId"),
+    running: s.running,
+    startedAt: time(s.startedAt, "stats.startedAt"),
+    lastLoopAt: optionalTime(s.lastLoopAt, "stats.lastLoopAt"),
+    lastExecutionAt: optionalTime(s.lastExecutionAt, "stats.lastExecutionAt"),
+    serverTime: time(s.serverTime, "stats.serverTime"),
+    pollIntervalMs: count(s.pollIntervalMs, "stats.pollIntervalMs"),
+    proofsProcessed: count(s.proofsProcessed, "stats.proofsProcessed"),
+    successfulExecutions: count(s.successfulExecutions, "stats.successfulExecutions"),
+    failedExecutions: count(s.failedExecutions, "stats.failedExecutions"),
+    totalGasSpent: wei(s.totalGasSpent, "stats.totalGasSpent"),
+    totalMevSaved: wei(s.totalMevSaved, "stats.totalMevSaved"),
+    queueDepth: count(s.queueDepth, "stats.queueDepth"),
+    wallet: {
+      balance: w.balance === null ? null : wei(w.balance, "stats.wallet.balance"),
+      lowBalance: wei(w.lowBalance, "stats.wallet.lowBalance"),
+      criticalBalance: wei(w.criticalBalance, "stats.wallet.criticalBalance"),
+    },
+    mevSeries: s.mevSeries.map((sample, i) => {
+      const m = (sample ?? {}) as Record<string, unknown>;
+      return {
+        timestamp: time(m.timestamp, `stats.mevSeries[${i}].timestamp`),
+        intentHash: typeof m.intentHash === "string" ? m.intentHash : "",
+        mevSaved: wei(m.mevSaved, `stats.mevSeries[${i}].mevSaved`),
+      };
+    }),
+  };
+}
+
+/**
+ * Inverse of parseRelayerStats, in relayer.js snapshot() wire format
+ */
+export function serializeRelayerStats(stats: RelayerStats): Record<string, unknown> {
+  return {
+    ...stats,
+    totalGasSpent: stats.totalGasSpent.toString(),
+    totalMevSaved: stats.totalMevSaved.toString(),
+    wallet: {
+      balance: stats.wallet.balance === null ? null : stats.wallet.balance.toString(),
+      lowBalance: stats.wallet.lowBalance.toString(),
+      criticalBalance: stats.wallet.criticalBalance.toString(),
+    },
+    mevSeries: stats.mevSeries.map((sample) => ({ ...sample, mevSaved: sample.mevSaved.toString() })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              DERIVED
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Share of executed proofs that landed, in basis points; null before any ran
+ */
+export function successRateBps(stats: RelayerStats): number | null {
+  const attempts = stats.successfulExecutions + stats.failedExecutions;
+  if (attempts === 0) return null;
+  return Math.round((stats.successfulExecutions * 10000) / attempts);
+}
+
+export type RelayerLiveness = "live" | "stale" | "down";
+
+/**
+ * live: looped within a few poll intervals. stale: looping has stalled or the
+ * agent is shutting down. down: the endpoint itself is unreachable (decided
+ * by the caller) or the agent never started its loop.
+ */
+export function relayerLiveness(stats: RelayerStats, staleAfterIntervals: number = 3): RelayerLiveness {
+  if (stats.lastLoopAt === null) return "down";
+  const silent = stats.serverTime - stats.lastLoopAt;
+  if (!stats.running || silent > stats.pollIntervalMs * staleAfterIntervals) return "stale";
+  return "live";
+}
+
+export type BalanceLevel = "ok" | "low" | "critical" | "unknown";
+
+export function balanceLevel(wallet: RelayerStats["wallet"]): BalanceLevel {
+  if (wallet.balance === null) return "unknown";
+  if (wallet.balance <= wallet.criticalBalance) return "critical";
+  if (wallet.balance <= wallet.lowBalance) return "low";
+  return "ok";
+}
+
+/**
+ * Running total of MEV saved, one point per execution, oldest first
+ */
+export function cumulativeMevSeries(series: MevSample[]): { timestamp: number; total: bigint }[] {
+  let total = BigInt(0);
+  return [...series]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((sample) => {
+      total += sample.mevSaved;
+      return { timestamp: sample.timestamp, total };
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              CLIENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function fetchRelayerStats(url: string = NETWORK.relayer.statsUrl): Promise<RelayerStats> {
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return parseRelayerStats(await response.json());
+}
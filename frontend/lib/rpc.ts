@@ -0,0 +1,101 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  JSON-RPC Read Client                                                         ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Deliberately tiny: reads only, no wallet. The transport is injectable so
+ * the same client runs against a node, anvil, or the in-memory stand-in.
+ */
+
+export interface RpcTransport {
+  request(method: string, params: unknown[]): Promise<unknown>;
+}
+
+export class RpcError extends Error {
+  constructor(message: string, public code: number) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+/**
+ * Plain HTTP JSON-RPC 2.0 transport
+ */
+export class HttpRpcTransport implements RpcTransport {
+  private nextId = 1;
+
+  constructor(private url: string) {}
+
+  async request(method: string, params: unknown[]): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: this.nextId++, method, params }),
+    });
+    if (!response.ok) {
+      throw new RpcError(`RPC HTTP ${response.status}`, response.status);
+    }
+    const payload = await response.json();
+    if (payload.error) {
+      throw new RpcError(payload.error.message || "RPC error", payload.error.code ?? -32000);
+    }
+    return payload.result;
+  }
+}
+
+export interface LogFilter {
+  address: string;
+  topics?: (string | string[] | null)[];
+  fromBlock: number;
+  toBlock: number;
+}
+
+/**
+ * eth_getLogs entry as the node returns it (quantities are hex strings)
+ */
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+  removed?: boolean;
+}
+
+const toQuantity = (n: number) => "0x" + n.toString(16);
+
+export class JsonRpcClient {
+  constructor(private transport: RpcTransport) {}
+
+  async call(to: string, data: string, blockTag: string = "latest"): Promise<string> {
+    return (await this.transport.request("eth_call", [{ to, data }, blockTag])) as string;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return Number(await this.transport.request("eth_blockNumber", []));
+  }
+
+  async getChainId(): Promise<number> {
+    return Number(await this.transport.request("eth_chainId", []));
+  }
+
+  async getLogs(filter: LogFilter): Promise<RpcLog[]> {
+    const { address, topics, fromBlock, toBlock } = filter;
+    return (await this.transport.request("eth_getLogs", [
+      { address, topics, fromBlock: toQuantity(fromBlock), toBlock: toQuantity(toBlock) },
+    ])) as RpcLog[];
+  }
+
+  /**
+   * null when the node doesn't have the block (yet)
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = (await this.transport.request("eth_getBlockByNumber", [toQuantity(blockNumber), false])) as {
+      hash: string;
+    } | null;
+    return block ? block.hash : null;
+  }
+}
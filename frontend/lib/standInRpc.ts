@@ -0,0 +1,226 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Stand-in Hook RPC                                                            ║
+ * ║  In-memory JSON-RPC transport emulating the hook's view functions             ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ *
+ * Used when no hook is deployed (HOOK_ADDRESS is the zero address) and for
+ * offline testing of the nonce and replay logic. StandInTokenRpc covers the
+ * ERC-20 / Permit2 reads behind gasless approvals, and RecordedLogsRpc serves
+ * recorded hook logs to the event indexer.
+ */
+
+import { TypedDataEncoder } from "ethers";
+import { NETWORK } from "./networks";
+import { hookInterface } from "./hook";
+import { erc20Interface, PERMIT2_ADDRESS, permit2Interface } from "./permits";
+import { RpcError, type RpcLog, type RpcTransport } from "./rpc";
+import { STAND_IN_TEE_SIGNER } from "./fixtures/enclaveKeys";
+import { FIXTURE_HEAD_BLOCK, FIXTURE_HOOK_LOGS, fixtureBlockHash } from "./fixtures/hookLogs";
+
+export class StandInHookRpc implements RpcTransport {
+  private nonces = new Map<string, bigint>();
+  private executed = new Set<string>();
+  private blockNumber = 1;
+
+  constructor(private chainId: number = NETWORK.chainId, private teeSigner: string = STAND_IN_TEE_SIGNER) {}
+
+  setNonce(user: string, nonce: bigint) {
+    this.nonces.set(user.toLowerCase(), nonce);
+  }
+
+  /**
+   * Mirror executePrivateOrder's bookkeeping: mark executed, bump nonce
+   */
+  markExecuted(intentHash: string, user: string) {
+    this.executed.add(intentHash.toLowerCase());
+    const key = user.toLowerCase();
+    this.nonces.set(key, (this.nonces.get(key) ?? BigInt(0)) + BigInt(1));
+    this.blockNumber++;
+  }
+
+  async request(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return "0x" + this.chainId.toString(16);
+      case "eth_blockNumber":
+        return "0x" + this.blockNumber.toString(16);
+      case "eth_call":
+        return this.call((params[0] as { data: string }).data);
+      default:
+        throw new RpcError(`Method not supported by stand-in: ${method}`, -32601);
+    }
+  }
+
+  private call(data: string): string {
+    const tx = hookInterface.parseTransaction({ data });
+    if (!tx) throw new RpcError("execution reverted", 3);
+
+    switch (tx.name) {
+      case "getUserNonce":
+        return hookInterface.encodeFunctionResult(tx.name, [
+          this.nonces.get((tx.args[0] as string).toLowerCase()) ?? BigInt(0),
+        ]);
+      case "isIntentExecuted":
+        return hookInterface.encodeFunctionResult(tx.name, [
+          this.executed.has((tx.args[0] as string).toLowerCase()),
+        ]);
+      case "teeSigner":
+        return hookInterface.encodeFunctionResult(tx.name, [this.teeSigner]);
+      default:
+        throw new RpcError(`Function not supported by stand-in: ${tx.name}`, 3);
+    }
+  }
+}
+
+export interface StandInToken {
+  name: string;
+  version?: string; // EIP-2612 tokens only
+  permit: boolean;
+}
+
+/**
+ * Base Sepolia USDC (FiatToken v2) has EIP-2612; WETH9 and WBTC don't
+ */
+export const STAND_IN_TOKENS: Record<string, StandInToken> = {
+  "0x036cbd53842c5426634e7929541ec2318f3dcf7e": { name: "USDC", version: "2", permit: true },
+  "0x4200000000000000000000000000000000000006": { name: "Wrapped Ether", permit: false },
+  "0x2260fac5e5542a773aa44fbcfedf7c193bc2c599": { name: "Wrapped BTC", permit: false },
+};
+
+/**
+ * ERC-20 allowance / EIP-2612 reads and Permit2.allowance, keyed by the
+ * eth_call target. Calls a token doesn't implement revert, like on-chain.
+ */
+export class StandInTokenRpc implements RpcTransport {
+  private allowances = new Map<string, bigint>(); // token:owner:spender
+
+  constructor(private tokens: Record<string, StandInToken> = STAND_IN_TOKENS, private chainId: number = NETWORK.chainId) {}
+
+  approve(token: string, owner: string, spender: string, amount: bigint) {
+    this.allowances.set([token, owner, spender].join(":").toLowerCase(), amount);
+  }
+
+  async request(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return "0x" + this.chainId.toString(16);
+      case "eth_call": {
+        const { to, data } = params[0] as { to: string; data: string };
+        return to.toLowerCase() === PERMIT2_ADDRESS.toLowerCase() ? this.permit2Call(data) : this.tokenCall(to, data);
+      }
+      default:
+        throw new RpcError(`Method not supported by stand-in: ${method}`, -32601);
+    }
+  }
+
+  private tokenCall(address: string, data: string): string {
+    const token = this.tokens[address.toLowerCase()];
+    const tx = erc20Interface.parseTransaction({ data });
+    if (!token || !tx) throw new RpcError("execution reverted", 3);
+
+    switch (tx.name) {
+      case "allowance":
+        return erc20Interface.encodeFunctionResult(tx.name, [
+          this.allowances.get([address, tx.args[0], tx.args[1]].join(":").toLowerCase()) ?? BigInt(0),
+        ]);
+      case "name":
+        return erc20Interface.encodeFunctionResult(tx.name, [token.name]);
+    }
+    if (!token.permit) throw new RpcError("execution reverted", 3);
+    switch (tx.name) {
+      case "nonces":
+        return erc20Interface.encodeFunctionResult(tx.name, [BigInt(0)]);
+      case "version":
+        return erc20Interface.encodeFunctionResult(tx.name, [token.version ?? "1"]);
+      case "DOMAIN_SEPARATOR":
+        return erc20Interface.encodeFunctionResult(tx.name, [
+          TypedDataEncoder.hashDomain({ name: token.name, version: token.version ?? "1", chainId: this.chainId, verifyingContract: address }),
+        ]);
+      default:
+        throw new RpcError("execution reverted", 3);
+    }
+  }
+
+  private permit2Call(data: string): string {
+    const tx = permit2Interface.parseTransaction({ data });
+    if (!tx) throw new RpcError("execution reverted", 3);
+    // No Permit2 allowance granted yet: amount, expiration and nonce all zero
+    return permit2Interface.encodeFunctionResult(tx.name, [BigInt(0), BigInt(0), BigInt(0)]);
+  }
+}
+
+/**
+ * eth_getLogs over a fixed set of logs, with the block-range cap public RPCs
+ * enforce and a way to fork the chain to exercise reorg handling
+ */
+export class RecordedLogsRpc implements RpcTransport {
+  private logs: RpcLog[];
+  private forks: { from: number; salt: string }[] = [];
+
+  constructor(
+    logs: RpcLog[] = FIXTURE_HOOK_LOGS,
+    private head: number = FIXTURE_HEAD_BLOCK,
+    private maxBlockRange: number = 100,
+    private chainId: number = NETWORK.chainId
+  ) {
+    this.logs = logs.map((log) => ({ ...log }));
+  }
+
+  advance(blocks: number) {
+    this.head += blocks;
+  }
+
+  /**
+   * Replace every block from fromBlock on: new hashes, and replacement logs
+   * (re-hashed to match) instead of the recorded ones
+   */
+  reorg(fromBlock: number, replacement: RpcLog[] = []) {
+    const salt = `unishield-fixture-fork-${this.forks.length + 1}`;
+    this.forks.push({ from: fromBlock, salt });
+    this.logs = this.logs
+      .filter((log) => Number(log.blockNumber) < fromBlock)
+      .concat(replacement.map((log) => ({ ...log, blockHash: this.blockHash(Number(log.blockNumber)) })));
+  }
+
+  blockHash(blockNumber: number): string {
+    const fork = this.forks.filter((f) => f.from <= blockNumber).pop();
+    return fixtureBlockHash(blockNumber, fork?.salt);
+  }
+
+  async request(method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return "0x" + this.chainId.toString(16);
+      case "eth_blockNumber":
+        return "0x" + this.head.toString(16);
+      case "eth_getBlockByNumber": {
+        const blockNumber = Number(params[0]);
+        return blockNumber > this.head ? null : { number: params[0], hash: this.blockHash(blockNumber) };
+      }
+      case "eth_getLogs":
+        return this.getLogs(params[0] as { address: string; topics?: (string | string[] | null)[]; fromBlock: string; toBlock: string });
+      default:
+        throw new RpcError(`Method not supported by stand-in: ${method}`, -32601);
+    }
+  }
+
+  private getLogs(filter: { address: string; topics?: (string | string[] | null)[]; fromBlock: string; toBlock: string }): RpcLog[] {
+    const from = Number(filter.fromBlock);
+    const to = Math.min(Number(filter.toBlock), this.head);
+    if (to - from + 1 > this.maxBlockRange) {
+      throw new RpcError(`block range exceeds ${this.maxBlockRange}`, -32005);
+    }
+    const topic0 = filter.topics?.[0];
+    const wanted = topic0 === undefined || topic0 === null ? undefined : ([] as string[]).concat(topic0);
+    return this.logs.filter((log) => {
+      const block = Number(log.blockNumber);
+      return (
+        block >= from &&
+        block <= to &&
+        log.address.toLowerCase() === filter.address.toLowerCase() &&
+        (!wanted || wanted.includes(log.topics[0]))
+      );
+    });
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * ╔═══════════════════════════════════════════════════════════════════════════════╗
+ * ║  Token Registry                                                               ║
+ * ║  Token lists, custom imports and live ERC-20 balances                         ║
+ * ╚═══════════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { getAddress, Interface, isAddress } from "ethers";
+import { NETWORK } from "./networks";
+import type { JsonRpcClient } from "./rpc";
+import type { Token } from "./types";
+import defaultTokenList from "./tokenlist.json";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              TOKEN LIST FORMAT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Subset of the tokenlists.org schema we rely on
+ */
+export interface TokenListEntry {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  extensions?: { icon?: string } & Record<string, unknown>;
+}
+
+export interface TokenList {
+  name: string;
+  tokens: TokenListEntry[];
+}
+
+export const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address owner) view returns (uint256)",
+];
+
+const erc20Interface = new Interface(ERC20_ABI);
+
+const CUSTOM_TOKENS_KEY = "unishield:customTokens";
+
+function toToken(entry: TokenListEntry, custom = false): Token {
+  return {
+    chainId: entry.chainId,
+    address: getAddress(entry.address),
+    symbol: entry.symbol,
+    name: entry.name,
+    decimals: entry.decimals,
+    icon: entry.extensions?.icon || entry.symbol.charAt(0),
+    logoURI: entry.logoURI,
+    custom,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class TokenRegistry {
+  private tokens = new Map<string, Token>();
+
+  constructor(private rpc: JsonRpcClient, private chainId: number = NETWORK.chainId) {
+    this.addList(defaultTokenList as TokenList);
+    this.loadCustomTokens();
+  }
+
+  all(): Token[] {
+    return Array.from(this.tokens.values());
+  }
+
+  get(address: string): Token | undefined {
+    return this.tokens.get(address.toLowerCase());
+  }
+
+  /**
+   * Merge a token list, keeping only entries for our chain
+   */
+  addList(list: TokenList) {
+    for (const entry of list.tokens) {
+      if (entry.chainId !== this.chainId || !isAddress(entry.address)) continue;
+      const token = toToken(entry);
+      this.tokens.set(token.address.toLowerCase(), token);
+    }
+  }
+
+  async loadList(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Token list fetch failed: HTTP ${response.status}`);
+    }
+    this.addList((await response.json()) as TokenList);
+  }
+
+  /**
+   * Case-insensitive match on symbol, name or address
+   */
+  search(query: string): Token[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return this.all();
+    return this.all().filter(
+      (t) => t.symbol.toLowerCase().includes(q) || t.name.toLowerCase().includes(q) || t.address.toLowerCase() === q
+    );
+  }
+
+  /**
+   * Import an arbitrary ERC-20 by address, reading its metadata on-chain
+   */
+  async importToken(address: string): Promise<Token> {
+    if (!isAddress(address)) {
+      throw new Error("Invalid token address");
+    }
+    const existing = this.get(address);
+    if (existing) return existing;
+
+    const [symbol, name, decimals] = await Promise.all([
+      this.read(address, "symbol", []),
+      this.read(address, "name", []),
+      this.read(address, "decimals", []),
+    ]);
+
+    const token = toToken(
+      { chainId: this.chainId, address, symbol: symbol as string, name: name as string, decimals: Number(decimals) },
+      true
+    );
+    this.tokens.set(token.address.toLowerCase(), token);
+    this.saveCustomTokens();
+    return token;
+  }
+
+  /**
+   * balanceOf for each token; tokens whose read fails are left out
+   */
+  async fetchBalances(owner: string, tokens: Token[] = this.all()): Promise<Record<string, bigint>> {
+    const results = await Promise.allSettled(tokens.map((t) => this.read(t.address, "balanceOf", [owner])));
+    const balances: Record<string, bigint> = {};
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        balances[tokens[i].address.toLowerCase()] = result.value as bigint;
+      }
+    });
+    return balances;
+  }
+
+  private async read(token: string, method: string, args: unknown[]) {
+    const raw = await this.rpc.call(token, erc20Interface.encodeFunctionData(method, args));
+    return erc20Interface.decodeFunctionResult(method, raw)[0];
+  }
+
+  private loadCustomTokens() {
+    if (typeof window === "undefined") return;
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(CUSTOM_TOKENS_KEY) || "[]") as TokenListEntry[];
+      stored
+        .filter((entry) => entry.chainId === this.chainId)
+        .forEach((entry) => this.tokens.set(entry.address.toLowerCase(), toToken(entry, true)));
+    } catch (e) {
+      // Corrupt storage, start clean
+    }
+  }
+
+  private saveCustomTokens() {
+    if (typeof window === "undefined") return;
+    const custom: TokenListEntry[] = this.all()
+      .filter((t) => t.custom)
+      .map(({ chainId, address, symbol, name, decimals }) => ({ chainId, address, symbol, name, decimals }));
+    window.localStorage.setItem(CUSTOM_TOKENS_KEY, JSON.stringify(custom));
+  }
+}
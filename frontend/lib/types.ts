@@ -0,0 +1,250 @@
+/**
+ * Shared frontend types.
+ * Intent types mirror the SwapIntent struct in DarkPoolHookAgentic.sol.
+ */
+
+export interface SwapIntent {
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  maxSlippage: bigint;
+  deadline: bigint;
+  nonce: bigint;
+}
+
+export interface SignedIntent {
+  intent: SwapIntent;
+  signature: string;
+  intentHash: string;
+  permit?: TokenPermit; // gasless tokenIn approval for the whole order, sent with each child until one settles
+}
+
+/**
+ * EIP-2612 permit(owner, spender, value, deadline) signed against the token's
+ * own domain; name and version let the relayer check it before submitting
+ */
+export interface Eip2612Permit {
+  kind: "eip2612";
+  token: string;
+  name: string;
+  version: string;
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+/**
+ * Permit2 PermitSingle (AllowanceTransfer) for tokens without EIP-2612 that
+ * the user has already approved to Permit2
+ */
+export interface Permit2Permit {
+  kind: "permit2";
+  token: string;
+  owner: string;
+  spender: string;
+  amount: bigint;
+  expiration: bigint; // unix seconds
+  nonce: bigint;
+  sigDeadline: bigint;
+  signature: string;
+}
+
+export type TokenPermit = Eip2612Permit | Permit2Permit;
+
+/**
+ * How an order is turned into signed intents: a market order is one intent
+ * filled in the next batch, a limit order is one intent whose floor is the
+ * target price and rests across batches, a split order is N child intents
+ * released over time.
+ */
+export type OrderKind = "market" | "limit" | "split";
+
+/**
+ * Where a child intent sits in its parent order (lib/orderPlans.ts)
+ */
+export interface OrderRef {
+  planId: string;
+  kind: OrderKind;
+  index: number;
+  count: number;
+}
+
+/**
+ * Withdraws one pending intent from the relayer (EIP-712 CancelIntent)
+ */
+export interface CancelIntent {
+  intentHash: string;
+  user: string;
+  nonce: bigint;
+}
+
+export interface SignedCancellation {
+  cancel: CancelIntent;
+  signature: string;
+}
+
+/**
+ * Settlement figures as carried in TEE execution proofs (base-unit strings).
+ * clearingPrice follows the iApp: tokenIn base units per tokenOut base unit, x1e18.
+ * mevSaved is denominated in tokenIn.
+ */
+export interface MatchResult {
+  clearingPrice: string;
+  amountOut: string;
+  mevSaved: string;
+}
+
+/**
+ * One entry of executionProofs in the iApp's output (save_output in app.py).
+ * Integers are decimal strings; batchId may be shorter than 32 bytes and is
+ * right-padded on-chain. The signed fields are the contract's PROOF_TYPEHASH.
+ */
+export interface ExecutionProof {
+  batchId: string;
+  timestamp: number; // seconds
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  clearingPrice: string;
+  intentHash: string;
+  userSignature: string;
+  teeSignature: string;
+  teeSigner: string;
+  merkleRoot: string;
+  mevSaved: string;
+}
+
+/**
+ * Inclusion path for one intentHash in a batch's Merkle tree (lib/merkle.ts).
+ * siblings run from the leaf level up; bit i of index is 1 when the node at
+ * depth i is a right child.
+ */
+export interface MerkleProof {
+  version: number;
+  leaf: string;
+  index: number;
+  siblings: string[];
+  root: string;
+}
+
+/**
+ * Full iApp result file (execution_proofs.json)
+ */
+export interface BatchResult {
+  success: boolean;
+  batchId: string;
+  clearingPrice: string;
+  totalVolume: string;
+  totalMevSaved: string;
+  processingTimeMs: number;
+  enclaveMeasurement: string;
+  executionProofs: ExecutionProof[];
+  metadata: {
+    version: string;
+    app: string;
+    model: string;
+    chainId: number;
+  };
+}
+
+/**
+ * Enclave attestation report as served by the attestation endpoint. reportData
+ * binds the enclave's intent-encryption key to the measured code.
+ */
+export interface AttestationReport {
+  version: number;
+  enclaveMeasurement: string; // MRENCLAVE, bytes32
+  enclavePublicKey: string; // uncompressed P-256 point the enclave decrypts with
+  reportData: string; // sha256(enclavePublicKey)
+  teeSigner: string;
+  issuedAt: number; // unix seconds
+  signature: string; // teeSigner over hashMessage(attestationDigest)
+}
+
+export type PipelineStage =
+  | "idle"
+  | "signed"
+  | "submitted"
+  | "matching"
+  | "executing"
+  | "complete"
+  | "error"
+  | "cancelled"
+  | "expired";
+
+export type PipelineErrorKind =
+  | "userRejected"
+  | "wrongChain"
+  | "relayerUnreachable"
+  | "relayerRejected"
+  | "attestationFailed"
+  | "teeTimeout"
+  | "expired"
+  | "executionReverted"
+  | "unknown";
+
+export type RecoveryAction = "retrySubmission" | "resign" | "switchNetwork" | "dismiss";
+
+/**
+ * Why an intent stopped, and where. JSON-safe so history records keep it.
+ */
+export interface PipelineFailure {
+  kind: PipelineErrorKind;
+  stage: PipelineStage; // the stage that failed, never "error"
+  detail: string; // raw message from the wallet, relayer or chain
+}
+
+export interface RelayerStatus {
+  stage: PipelineStage;
+  message: string;
+  batchId?: string;
+  txHash?: string;
+  matchResult?: MatchResult;
+  proof?: ExecutionProof;
+  inclusionProof?: MerkleProof;
+  failure?: PipelineFailure; // stage "error" only
+}
+
+export type LogLevel = "info" | "success" | "warning" | "error" | "system" | "agent";
+
+/**
+ * One line in the relayer console. Entries streamed from the relayer carry
+ * its sequence number; gap markers flag events lost across a reconnect.
+ */
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  message: string;
+  type: LogLevel;
+  intentHash?: string;
+  source?: "local" | "relayer";
+  relayerSeq?: number;
+  gap?: boolean;
+}
+
+export interface Token {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  icon: string;
+  logoURI?: string;
+  custom?: boolean;
+}
+
+/**
+ * Minimal EIP-1193 provider surface (window.ethereum and friends).
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void;
+}
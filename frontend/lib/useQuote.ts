@@ -0,0 +1,76 @@
+/**
+ * React binding for QuoteProvider: debounced on input, refreshed when stale.
+ */
+
+import { useEffect, useState } from "react";
+import { CONFIG } from "./config";
+import { isQuoteStale, type Quote, type QuoteProvider } from "./quotes";
+import type { Token } from "./types";
+
+export interface QuoteState {
+  quote: Quote | null;
+  loading: boolean;
+  error: string;
+  isStale: boolean;
+}
+
+export function useQuote(
+  provider: QuoteProvider,
+  tokenIn: Token,
+  tokenOut: Token,
+  amountIn: bigint | undefined,
+  { debounceMs = CONFIG.QUOTE_DEBOUNCE_MS, staleMs = CONFIG.QUOTE_STALE_MS } = {}
+): QuoteState {
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  // Debounced fetch whenever the request changes (or a refresh is due)
+  useEffect(() => {
+    setError("");
+    if (amountIn === undefined || tokenIn.address === tokenOut.address) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const next = await provider.getQuote({ tokenIn, tokenOut, amountIn });
+        if (!cancelled) setQuote(next);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Quote failed");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [provider, tokenIn, tokenOut, amountIn, debounceMs, refreshTick]);
+
+  // Clock for staleness; a stale quote triggers a refresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Only expose a quote that answers the current request
+  const current =
+    quote && amountIn !== undefined && quote.amountIn === amountIn &&
+    quote.tokenIn === tokenIn.address && quote.tokenOut === tokenOut.address
+      ? quote
+      : null;
+  const isStale = current !== null && isQuoteStale(current, now, staleMs);
+
+  useEffect(() => {
+    if (isStale && !loading && !error) setRefreshTick((t) => t + 1);
+  }, [isStale, loading, error]);
+
+  return { quote: current, loading, error, isStale };
+}
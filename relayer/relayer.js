@@ -15,6 +15,7 @@
 
 const { ethers } = require('ethers');
 const fs = require('fs');
+const http = require('http');
 
 // ═══════════════════════════════════════════════════════════════════════════════
 //                              CONFIGURATION
@@ -28,6 +29,7 @@ const CONFIG = {
     // Contracts
     HOOK_ADDRESS: process.env.HOOK_ADDRESS || '0x0000000000000000000000000000000000000000',
     POOL_MANAGER: '0x7Da1D65F8B249183667cdE74C5CBD46dD38AA829',
+    PERMIT2: '0x000000000022D473030F116dDEE9F6B43aC78BA3', // canonical, same on every chain
     
     // Relayer wallet (pays gas on behalf of users)
     RELAYER_PRIVATE_KEY: process.env.RELAYER_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
@@ -46,6 +48,19 @@ const CONFIG = {
     // AI Agent parameters
     OPTIMAL_BLOCK_WINDOW: 3, // Wait up to N blocks for optimal gas
     MEV_PROTECTION_ENABLED: true,
+    
+    // Log stream (Server-Sent Events for the frontend console)
+    LOG_PORT: Number(process.env.LOG_PORT || 8787),
+    LOG_BUFFER_SIZE: 500,
+    LOG_HEARTBEAT_MS: 15000,
+    
+    // Stats endpoint (GET /stats on the log server)
+    STATS_SERIES_SIZE: 200,
+    LOW_BALANCE_WEI: BigInt(process.env.LOW_BALANCE_WEI || '10000000000000000'), // 0.01 ETH
+    CRITICAL_BALANCE_WEI: BigInt(process.env.CRITICAL_BALANCE_WEI || '2000000000000000'), // 0.002 ETH
+    
+    // Batch books kept for GET /batches/:batchId; the oldest is dropped first
+    BATCH_SUMMARY_LIMIT: 100,
 };
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -95,12 +110,156 @@ const DARK_POOL_HOOK_ABI = [
     }
 ];
 
+// Gasless approvals bundled with an intent (frontend lib/permits.ts)
+const ERC20_PERMIT_ABI = [
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+];
+
+const PERMIT2_ABI = [
+    'function permit(address owner, ((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature)',
+];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//                              LOG EVENT STREAM
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Ring buffer of typed log events: { seq, timestamp, level, message, intentHash? }
+ * level is one of info | success | warning | error | system | agent, matching
+ * the frontend console's LogEntry types. seq is strictly increasing so clients
+ * can resume after a reconnect and detect events that fell out of the buffer.
+ */
+class LogEventBus {
+    constructor(capacity = CONFIG.LOG_BUFFER_SIZE) {
+        this.capacity = capacity;
+        this.events = [];
+        this.nextSeq = 1;
+        this.listeners = new Set();
+    }
+    
+    publish(level, message, intentHash) {
+        const event = { seq: this.nextSeq++, timestamp: Date.now(), level, message };
+        if (intentHash) event.intentHash = intentHash;
+        
+        this.events.push(event);
+        if (this.events.length > this.capacity) this.events.shift();
+        
+        for (const listener of this.listeners) listener(event);
+        return event;
+    }
+    
+    /**
+     * Events after `since`, plus a gap descriptor when some were already evicted
+     * (missed: null means the bus restarted and the count is unknown)
+     */
+    replay(since, intentHash) {
+        const latest = this.nextSeq - 1;
+        let gap = null;
+        if (since > latest) {
+            // Client saw a previous process: replay everything this one has
+            gap = { afterSeq: since, missed: null };
+            since = 0;
+        } else if (this.events.length > 0 && this.events[0].seq > since + 1) {
+            gap = { afterSeq: since, missed: this.events[0].seq - since - 1 };
+        }
+        const events = this.events.filter(e => e.seq > since && matchesIntent(e, intentHash));
+        return { events, gap };
+    }
+    
+    subscribe(listener) {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+}
+
+function matchesIntent(event, intentHash) {
+    return !intentHash || (event.intentHash || '').toLowerCase() === intentHash.toLowerCase();
+}
+
+/**
+ * GET /logs?intentHash=0x..&since=<seq>  →  text/event-stream
+ * Opens with a `ready` event carrying the latest seq, then a `gap` event if
+ * the requested range was evicted, the replay, and live events. Resumes from
+ * the Last-Event-ID header when the browser reconnects on its own.
+ *
+ * GET /stats  →  JSON from getStats(), when given (see RelayerAgent.snapshot)
+ *
+ * GET /batches/:batchId  →  the anonymized batch book from getBatch(), when
+ * given; 404 for batches the iApp published no summary for. No position is
+ * attached: the iApp publishes aggregates only.
+ */
+function startLogServer(bus, port = CONFIG.LOG_PORT, getStats = null, getBatch = null) {
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url, 'http://localhost');
+        const batchRoute = url.pathname.match(/^\/batches\/(0x[0-9a-fA-F]+)$/);
+        if (req.method === 'GET' && batchRoute && getBatch) {
+            const summary = getBatch(batchRoute[1]);
+            res.writeHead(summary ? 200 : 404, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' });
+            res.end(JSON.stringify(summary || { error: 'Unknown batch' }));
+            return;
+        }
+        if (req.method === 'GET' && url.pathname === '/stats' && getStats) {
+            getStats().then(
+                (stats) => {
+                    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Access-Control-Allow-Origin': '*' });
+                    res.end(JSON.stringify(stats));
+                },
+                (error) => {
+                    res.writeHead(500, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+                    res.end(JSON.stringify({ error: error.message }));
+                }
+            );
+            return;
+        }
+        if (req.method !== 'GET' || url.pathname !== '/logs') {
+            res.writeHead(404, { 'Access-Control-Allow-Origin': '*' });
+            res.end();
+            return;
+        }
+        
+        const intentHash = url.searchParams.get('intentHash') || undefined;
+        const resumeFrom = req.headers['last-event-id'] || url.searchParams.get('since');
+        
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'Access-Control-Allow-Origin': '*',
+        });
+        
+        const send = (event) => res.write(`id: ${event.seq}\nevent: log\ndata: ${JSON.stringify(event)}\n\n`);
+        
+        // Lets a fresh client resume from here without replaying history
+        res.write(`event: ready\ndata: ${JSON.stringify({ latestSeq: bus.nextSeq - 1 })}\n\n`);
+        
+        if (resumeFrom !== null && resumeFrom !== undefined && /^\d+$/.test(resumeFrom)) {
+            const { events, gap } = bus.replay(Number(resumeFrom), intentHash);
+            if (gap) res.write(`event: gap\ndata: ${JSON.stringify(gap)}\n\n`);
+            events.forEach(send);
+        }
+        
+        const unsubscribe = bus.subscribe((event) => {
+            if (matchesIntent(event, intentHash)) send(event);
+        });
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), CONFIG.LOG_HEARTBEAT_MS);
+        
+        req.on('close', () => {
+            unsubscribe();
+            clearInterval(heartbeat);
+        });
+    });
+    
+    server.listen(port);
+    return server;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 //                              RELAYER AGENT CLASS
 // ═══════════════════════════════════════════════════════════════════════════════
 
 class RelayerAgent {
     constructor() {
+        this.logBus = new LogEventBus();
         this.provider = new ethers.JsonRpcProvider(CONFIG.RPC_URL);
         this.wallet = new ethers.Wallet(CONFIG.RELAYER_PRIVATE_KEY, this.provider);
         this.hookContract = new ethers.Contract(
@@ -112,6 +271,9 @@ class RelayerAgent {
         // Track processed proofs to avoid duplicates
         this.processedProofs = new Set();
         
+        // Anonymized batch books from the iApp output, by lowercase batchId
+        this.batchSummaries = new Map();
+        
         // Agent state
         this.isRunning = false;
         this.executionQueue = [];
@@ -123,10 +285,16 @@ class RelayerAgent {
             totalMevSaved: BigInt(0),
         };
         
-        console.log('🤖 Relayer Agent initialized');
-        console.log(`   Relayer address: ${this.wallet.address}`);
-        console.log(`   Hook contract: ${CONFIG.HOOK_ADDRESS}`);
-        console.log(`   Chain ID: ${CONFIG.CHAIN_ID}`);
+        // Liveness and history for the stats endpoint
+        this.startedAt = Date.now();
+        this.lastLoopAt = null;
+        this.lastExecutionAt = null;
+        this.mevSeries = []; // { timestamp, intentHash, mevSaved } per successful execution
+        
+        this.log('system', '🤖 Relayer Agent initialized');
+        this.log('info', `   Relayer address: ${this.wallet.address}`);
+        this.log('info', `   Hook contract: ${CONFIG.HOOK_ADDRESS}`);
+        this.log('info', `   Chain ID: ${CONFIG.CHAIN_ID}`);
     }
     
     // ═══════════════════════════════════════════════════════════════════════════
@@ -138,18 +306,19 @@ class RelayerAgent {
      * AI Agent logic: continuously monitors for new execution proofs
      */
     async monitorAndExecute() {
-        console.log('\n🚀 Starting Relayer Agent monitoring loop...\n');
+        this.log('system', '\n🚀 Starting Relayer Agent monitoring loop...\n');
         this.isRunning = true;
         
         while (this.isRunning) {
+            this.lastLoopAt = Date.now();
             try {
                 // AI Agent logic: check for new execution proofs from TEE
-                console.log('🔍 Scanning for new execution proofs...');
+                this.log('info', '🔍 Scanning for new execution proofs...');
                 
                 const proofs = await this.fetchPendingProofs();
                 
                 if (proofs.length > 0) {
-                    console.log(`📥 Found ${proofs.length} new proof(s) to process`);
+                    this.log('info', `📥 Found ${proofs.length} new proof(s) to process`);
                     
                     for (const proof of proofs) {
                         // AI Agent logic: validate proof before execution
@@ -162,7 +331,7 @@ class RelayerAgent {
                             } else {
                                 // Queue for later execution
                                 this.executionQueue.push(proof);
-                                console.log(`⏳ Queued proof ${proof.intentHash.slice(0, 10)}... for optimal timing`);
+                                this.log('agent', `⏳ Queued proof ${proof.intentHash.slice(0, 10)}... for optimal timing`, proof.intentHash);
                             }
                         }
                     }
@@ -175,7 +344,7 @@ class RelayerAgent {
                 await this.sleep(CONFIG.POLL_INTERVAL_MS);
                 
             } catch (error) {
-                console.error('❌ Monitor loop error:', error.message);
+                this.log('error', `❌ Monitor loop error: ${error.message}`);
                 await this.sleep(CONFIG.POLL_INTERVAL_MS * 2);
             }
         }
@@ -214,6 +383,9 @@ class RelayerAgent {
         try {
             if (fs.existsSync('execution_proofs.json')) {
                 const data = JSON.parse(fs.readFileSync('execution_proofs.json', 'utf8'));
+                if (data.success && data.batchSummary) {
+                    this.rememberBatch(data.batchSummary);
+                }
                 if (data.success && data.executionProofs) {
                     return data.executionProofs;
                 }
@@ -250,44 +422,44 @@ class RelayerAgent {
      * AI Agent logic: ensures proof authenticity and freshness
      */
     async validateProof(proof) {
-        console.log(`\n🔐 Validating proof for ${proof.user.slice(0, 10)}...`);
+        this.log('system', `\n🔐 Validating proof for ${proof.user.slice(0, 10)}...`, proof.intentHash);
         
         // 1. Check TEE signer is trusted
         if (proof.teeSigner.toLowerCase() !== CONFIG.TRUSTED_TEE_SIGNER.toLowerCase()) {
-            console.log('   ❌ Untrusted TEE signer');
+            this.log('error', '   ❌ Untrusted TEE signer', proof.intentHash);
             return false;
         }
-        console.log('   ✓ TEE signer verified');
+        this.log('success', '   ✓ TEE signer verified', proof.intentHash);
         
         // 2. Check proof freshness (not expired)
         const now = Math.floor(Date.now() / 1000);
         const proofAge = now - proof.timestamp;
         if (proofAge > 3600) { // 1 hour max
-            console.log('   ❌ Proof expired');
+            this.log('error', '   ❌ Proof expired', proof.intentHash);
             return false;
         }
-        console.log(`   ✓ Proof age: ${proofAge}s`);
+        this.log('success', `   ✓ Proof age: ${proofAge}s`, proof.intentHash);
         
         // 3. Verify TEE signature format
         if (!proof.teeSignature || proof.teeSignature.length < 130) {
-            console.log('   ❌ Invalid TEE signature format');
+            this.log('error', '   ❌ Invalid TEE signature format', proof.intentHash);
             return false;
         }
-        console.log('   ✓ TEE signature format valid');
+        this.log('success', '   ✓ TEE signature format valid', proof.intentHash);
         
         // 4. Check amounts are reasonable
         const amountIn = BigInt(proof.amountIn);
         const amountOut = BigInt(proof.amountOut);
         if (amountIn <= 0 || amountOut <= 0) {
-            console.log('   ❌ Invalid amounts');
+            this.log('error', '   ❌ Invalid amounts', proof.intentHash);
             return false;
         }
-        console.log(`   ✓ Amounts valid: ${Number(amountIn) / 1e6} USDC → ${Number(amountOut) / 1e18} ETH`);
+        this.log('success', `   ✓ Amounts valid: ${Number(amountIn) / 1e6} USDC → ${Number(amountOut) / 1e18} ETH`, proof.intentHash);
         
         // 5. In production: verify signature on-chain
         // const isValid = await this.hookContract.verifyTEESignature(proof, proof.teeSignature);
         
-        console.log('   ✓ Proof validated successfully');
+        this.log('success', '   ✓ Proof validated successfully', proof.intentHash);
         return true;
     }
     
@@ -300,40 +472,40 @@ class RelayerAgent {
      * Considers gas prices, MEV risk, and block timing
      */
     async determineOptimalTiming(proof) {
-        console.log('\n🤖 AI Agent: Analyzing optimal execution timing...');
+        this.log('agent', '\n🤖 AI Agent: Analyzing optimal execution timing...', proof.intentHash);
         
         // 1. Check current gas price
         const feeData = await this.provider.getFeeData();
         const currentGasPrice = feeData.gasPrice;
         const gasPriceGwei = Number(currentGasPrice) / 1e9;
         
-        console.log(`   Gas price: ${gasPriceGwei.toFixed(4)} gwei`);
+        this.log('agent', `   Gas price: ${gasPriceGwei.toFixed(4)} gwei`, proof.intentHash);
         
         if (gasPriceGwei > CONFIG.MAX_GAS_PRICE_GWEI) {
-            console.log(`   ⚠️ Gas too high (max: ${CONFIG.MAX_GAS_PRICE_GWEI} gwei)`);
+            this.log('warning', `   ⚠️ Gas too high (max: ${CONFIG.MAX_GAS_PRICE_GWEI} gwei)`, proof.intentHash);
             return false;
         }
-        console.log(`   ✓ Gas price acceptable`);
+        this.log('success', `   ✓ Gas price acceptable`, proof.intentHash);
         
         // 2. Check mempool for MEV risk (mock implementation)
         if (CONFIG.MEV_PROTECTION_ENABLED) {
             const mevRisk = await this.assessMEVRisk(proof);
-            console.log(`   MEV risk assessment: ${mevRisk}`);
+            this.log('agent', `   MEV risk assessment: ${mevRisk}`, proof.intentHash);
             
             if (mevRisk === 'HIGH') {
-                console.log('   ⚠️ High MEV risk, waiting for safer window');
+                this.log('warning', '   ⚠️ High MEV risk, waiting for safer window', proof.intentHash);
                 return false;
             }
         }
         
         // 3. Check block timing for optimal inclusion
         const currentBlock = await this.provider.getBlockNumber();
-        console.log(`   Current block: ${currentBlock}`);
+        this.log('agent', `   Current block: ${currentBlock}`, proof.intentHash);
         
         // AI Agent logic: prefer early block positions
         // In production: analyze builder preferences, private mempools
         
-        console.log('   ✓ Optimal timing confirmed');
+        this.log('success', '   ✓ Optimal timing confirmed', proof.intentHash);
         return true;
     }
     
@@ -363,7 +535,7 @@ class RelayerAgent {
      * The Relayer pays gas, user receives tokens
      */
     async executeProof(proof) {
-        console.log(`\n⛓️ Executing proof for ${proof.user.slice(0, 10)}...`);
+        this.log('system', `\n⛓️ Executing proof for ${proof.user.slice(0, 10)}...`, proof.intentHash);
         
         try {
             // Mark as processed to avoid duplicates
@@ -386,16 +558,22 @@ class RelayerAgent {
                 deadline: Math.floor(Date.now() / 1000) + 300 // 5 min deadline
             };
             
-            console.log('   Preparing transaction...');
+            // A permit travels with an order's intents until one settles; the
+            // hook can't pull tokenIn until it lands
+            if (proof.permit) {
+                await this.submitPermit(proof);
+            }
+            
+            this.log('info', '   Preparing transaction...', proof.intentHash);
             
             // Estimate gas (mock for demo)
             const gasEstimate = BigInt(250000);
             const gasWithBuffer = gasEstimate * BigInt(100 + CONFIG.GAS_BUFFER_PERCENT) / BigInt(100);
-            console.log(`   Gas estimate: ${gasEstimate} (with buffer: ${gasWithBuffer})`);
+            this.log('info', `   Gas estimate: ${gasEstimate} (with buffer: ${gasWithBuffer})`, proof.intentHash);
             
             // Get current gas price
             const feeData = await this.provider.getFeeData();
-            console.log(`   Gas price: ${Number(feeData.gasPrice) / 1e9} gwei`);
+            this.log('info', `   Gas price: ${Number(feeData.gasPrice) / 1e9} gwei`, proof.intentHash);
             
             // In production: send actual transaction
             // const tx = await this.hookContract.executePrivateOrder(proofStruct, {
@@ -409,24 +587,27 @@ class RelayerAgent {
                 Math.floor(Math.random() * 16).toString(16)
             ).join('');
             
-            console.log(`   📤 TX submitted: ${mockTxHash.slice(0, 20)}...`);
+            this.log('success', `   📤 TX submitted: ${mockTxHash.slice(0, 20)}...`, proof.intentHash);
             
             await this.sleep(1500);
             const mockBlockNumber = await this.provider.getBlockNumber();
             
-            console.log(`   ✅ TX confirmed in block ${mockBlockNumber}`);
-            console.log(`   💰 User ${proof.user.slice(0, 10)}... received ${Number(proof.amountOut) / 1e18} ETH`);
-            console.log(`   🛡️ MEV saved: $${(Number(proof.mevSaved) / 1e6).toFixed(2)}`);
+            this.log('success', `   ✅ TX confirmed in block ${mockBlockNumber}`, proof.intentHash);
+            this.log('success', `   💰 User ${proof.user.slice(0, 10)}... received ${Number(proof.amountOut) / 1e18} ETH`, proof.intentHash);
+            this.log('success', `   🛡️ MEV saved: $${(Number(proof.mevSaved) / 1e6).toFixed(2)}`, proof.intentHash);
             
             // Update stats
             this.stats.successfulExecutions++;
             this.stats.totalGasSpent += gasEstimate * feeData.gasPrice;
             this.stats.totalMevSaved += BigInt(proof.mevSaved);
+            this.lastExecutionAt = Date.now();
+            this.mevSeries.push({ timestamp: this.lastExecutionAt, intentHash: proof.intentHash, mevSaved: proof.mevSaved });
+            if (this.mevSeries.length > CONFIG.STATS_SERIES_SIZE) this.mevSeries.shift();
             
             return { success: true, txHash: mockTxHash };
             
         } catch (error) {
-            console.error(`   ❌ Execution failed: ${error.message}`);
+            this.log('error', `   ❌ Execution failed: ${error.message}`, proof.intentHash);
             this.stats.failedExecutions++;
             this.processedProofs.delete(proof.intentHash);
             return { success: false, error: error.message };
@@ -440,7 +621,7 @@ class RelayerAgent {
     async processQueue() {
         if (this.executionQueue.length === 0) return;
         
-        console.log(`\n📋 Processing ${this.executionQueue.length} queued proof(s)...`);
+        this.log('system', `\n📋 Processing ${this.executionQueue.length} queued proof(s)...`);
         
         const toProcess = [...this.executionQueue];
         this.executionQueue = [];
@@ -463,11 +644,125 @@ class RelayerAgent {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
     
+    /**
+     * Print to stdout and publish on the log stream
+     */
+    log(level, message, intentHash) {
+        (level === 'error' ? console.error : console.log)(message);
+        this.logBus.publish(level, message.trim(), intentHash);
+    }
+    
     stop() {
         this.isRunning = false;
         console.log('\n🛑 Relayer Agent stopping...');
     }
     
+    /**
+     * Submit the user's EIP-2612 or Permit2 signature so the hook gets its
+     * allowance without the user sending an approve. Failure is logged, not
+     * fatal: the permit may already have been used, or the allowance set
+     * some other way; settlement itself shows whether it is missing.
+     */
+    async submitPermit(proof) {
+        const { permit } = proof;
+        try {
+            let to;
+            let data;
+            if (permit.kind === 'eip2612') {
+                const sig = ethers.Signature.from(permit.signature);
+                to = permit.token;
+                data = new ethers.Interface(ERC20_PERMIT_ABI).encodeFunctionData('permit', [
+                    permit.owner, permit.spender, BigInt(permit.value), BigInt(permit.deadline), sig.v, sig.r, sig.s,
+                ]);
+            } else if (permit.kind === 'permit2') {
+                to = CONFIG.PERMIT2;
+                data = new ethers.Interface(PERMIT2_ABI).encodeFunctionData('permit', [
+                    permit.owner,
+                    {
+                        details: {
+                            token: permit.token,
+                            amount: BigInt(permit.amount),
+                            expiration: BigInt(permit.expiration),
+                            nonce: BigInt(permit.nonce),
+                        },
+                        spender: permit.spender,
+                        sigDeadline: BigInt(permit.sigDeadline),
+                    },
+                    permit.signature,
+                ]);
+            } else {
+                throw new Error(`unknown permit kind ${permit.kind}`);
+            }
+            if (permit.spender.toLowerCase() !== CONFIG.HOOK_ADDRESS.toLowerCase()) {
+                throw new Error(`permit is for ${permit.spender}, not the hook`);
+            }
+            this.log('info', `   🎫 Submitting ${permit.kind === 'eip2612' ? 'EIP-2612' : 'Permit2'} permit (${data.length / 2 - 1} bytes calldata)`, proof.intentHash);
+            
+            // In production: send actual transaction
+            // const tx = await this.wallet.sendTransaction({ to, data });
+            // await tx.wait();
+            
+            // For hackathon: simulate transaction
+            await this.sleep(500);
+            this.log('success', `   ✓ Allowance granted to hook by permit (${to.slice(0, 10)}...)`, proof.intentHash);
+        } catch (error) {
+            this.log('warning', `   ⚠️ Permit not submitted: ${error.message}`, proof.intentHash);
+        }
+    }
+    
+    /**
+     * Keep the iApp's batchSummary, dropping the oldest past BATCH_SUMMARY_LIMIT
+     */
+    rememberBatch(summary) {
+        if (typeof summary.batchId !== 'string') return;
+        const id = summary.batchId.toLowerCase();
+        this.batchSummaries.delete(id);
+        this.batchSummaries.set(id, summary);
+        while (this.batchSummaries.size > CONFIG.BATCH_SUMMARY_LIMIT) {
+            this.batchSummaries.delete(this.batchSummaries.keys().next().value);
+        }
+    }
+    
+    batchSummary(batchId) {
+        return this.batchSummaries.get(batchId.toLowerCase()) || null;
+    }
+    
+    /**
+     * JSON-safe stats for GET /stats: amounts are decimal strings (gas in wei,
+     * MEV in USDC base units), times in ms. balance is null when the RPC
+     * can't be reached.
+     */
+    async snapshot() {
+        let balance = null;
+        try {
+            balance = await this.provider.getBalance(this.wallet.address);
+        } catch (e) {
+            // Reported as unknown
+        }
+        return {
+            relayer: this.wallet.address,
+            chainId: CONFIG.CHAIN_ID,
+            running: this.isRunning,
+            startedAt: this.startedAt,
+            lastLoopAt: this.lastLoopAt,
+            lastExecutionAt: this.lastExecutionAt,
+            serverTime: Date.now(),
+            pollIntervalMs: CONFIG.POLL_INTERVAL_MS,
+            proofsProcessed: this.stats.proofsProcessed,
+            successfulExecutions: this.stats.successfulExecutions,
+            failedExecutions: this.stats.failedExecutions,
+            totalGasSpent: this.stats.totalGasSpent.toString(),
+            totalMevSaved: this.stats.totalMevSaved.toString(),
+            queueDepth: this.executionQueue.length,
+            wallet: {
+                balance: balance === null ? null : balance.toString(),
+                lowBalance: CONFIG.LOW_BALANCE_WEI.toString(),
+                criticalBalance: CONFIG.CRITICAL_BALANCE_WEI.toString(),
+            },
+            mevSeries: this.mevSeries,
+        };
+    }
+    
     printStats() {
         console.log('\n📊 Relayer Agent Statistics:');
         console.log(`   Proofs processed: ${this.stats.proofsProcessed}`);
@@ -490,9 +785,16 @@ async function main() {
     
     const agent = new RelayerAgent();
     
+    // Stream agent logs to the frontend console
+    const logServer = startLogServer(agent.logBus, CONFIG.LOG_PORT, () => agent.snapshot(), (batchId) => agent.batchSummary(batchId));
+    console.log(`📡 Log stream: http://localhost:${CONFIG.LOG_PORT}/logs`);
+    console.log(`📊 Stats: http://localhost:${CONFIG.LOG_PORT}/stats`);
+    console.log(`📚 Batches: http://localhost:${CONFIG.LOG_PORT}/batches/:batchId\n`);
+    
     // Handle shutdown
     process.on('SIGINT', () => {
         agent.stop();
+        logServer.close();
         agent.printStats();
         process.exit(0);
     });
@@ -502,7 +804,7 @@ async function main() {
 }
 
 // Export for use as module
-module.exports = { RelayerAgent, CONFIG };
+module.exports = { RelayerAgent, LogEventBus, startLogServer, CONFIG };
 
 // Run if called directly
 if (require.main === module) {